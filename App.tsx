@@ -1,6 +1,5 @@
-import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { GoogleGenAI, Type, Chat, LiveSession, LiveServerMessage, Modality, Blob as GenAIBlob, FunctionDeclaration } from '@google/genai';
-import type { AppState, Budget, Transaction, FundTransaction, GlobalTransaction, ScannedItem, SavingsGoal, SavingTransaction, Achievement, Asset } from './types';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo } from 'react';
+import type { AppState, Annotated, Budget, BudgetRolloverPolicy, Transaction, FundTransaction, GlobalTransaction, ScannedItem, SavingsGoal, SavingTransaction, Achievement, Asset, RecurringRule, RecurrenceFrequency, ExchangeRate, Bill, BudgetAlert } from './types';
 import Dashboard from './components/Dashboard';
 import Reports from './components/Reports';
 import Visualizations from './components/Visualizations';
@@ -8,18 +7,59 @@ import Savings from './components/Savings';
 import Achievements from './components/Achievements';
 import PersonalBest from './components/PersonalBest';
 import NetWorth from './components/NetWorth';
+import Recurring from './components/Recurring';
+import Bills from './components/Bills';
+import { AttachmentThumbnail, AttachmentViewer } from './components/Attachments';
 import { allAchievements } from './data/achievements';
-import { HomeIcon, ChartBarIcon, DocumentTextIcon, ListBulletIcon, Squares2x2Icon, PlusCircleIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, CameraIcon, LightbulbIcon, SparklesIcon, SpeakerWaveIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, TrashIcon, BuildingLibraryIcon, BudgetIcon, availableIcons, availableColors, TrophyIcon, Cog6ToothIcon, InformationCircleIcon, ExclamationTriangleIcon, ArchiveBoxIcon, ArrowUturnLeftIcon, ServerStackIcon, FireIcon, CircleStackIcon, LockClosedIcon } from './components/Icons';
+import { APP_VERSION } from './version';
+import { performMonthlyRollover } from './utils/rollover';
+import { postDueRecurringTransactions, getOccurrenceOnOrAfter, toDateKey, frequencyLabels } from './utils/recurring';
+import { getBudgetQuota, getBudgetRemaining, getBudgetUsed, getDailyBudgetMax, getMonthlySummary, rolloverPolicyLabels } from './utils/budget';
+import { QUANTITY_FRACTION_DIGITS, getFractionDigits, nonNegative, subtractMoney, sumMoney, sumBy, sumSigned, absMoney, toMoney, fromMoney, ZERO, type Money } from './utils/money';
+import { locateTransaction, deleteTransaction, applyTransactionEdit, getEditOverage, getLinkedTransactionIds, postTransaction } from './utils/transactions';
+import { postSplitTransaction, removeSplitTransaction } from './utils/split';
+import { getAllTags, normalizeTags, suggestTags, tagPart } from './utils/tags';
+import { annotationPart, setAttachmentStorage, saveAttachment, readAttachmentImage, pruneAttachments, getReferencedAttachmentIds, createAttachmentArchive, readAttachmentArchive, isAttachmentArchive, ATTACHMENT_ARCHIVE_EXTENSION } from './utils/attachments';
+import { ZipError } from './utils/zip';
+import { checkBudgetAlerts, describeBudgetAlert, getAlertThresholds, ALERT_THRESHOLD_OPTIONS, loadBudgetAlertSettings, saveBudgetAlertSettings, loadAlertsSeenAt, saveAlertsSeenAt } from './utils/budgetAlerts';
+import type { BudgetAlertSettings } from './utils/budgetAlerts';
+import { getBillReminders, describeBillStatus, markBillPaid, markBillUnpaid, loadBillReminderSettings, saveBillReminderSettings, claimDailyBillNotification } from './utils/bills';
+import type { BillOccurrence, BillReminderSettings } from './utils/bills';
+import { getNotificationSupport, requestNotificationPermission, showNotification } from './utils/notifications';
+import { registerServiceWorker, applyUpdate } from './utils/pwa';
+import type { AppUpdate } from './utils/pwa';
+import { loadAIQueue, saveAIQueue, createQueuedAIRequest, getNextPendingRequest, getQueuedAttachmentIds, isOfflineError, getRetryDelay } from './utils/aiQueue';
+import type { QueuedAIRequest, QueuedAIRequestInput } from './utils/aiQueue';
+import { createAIProvider, loadAIProviderSettings, saveAIProviderSettings, aiProviderKinds, aiProviderLabels, DEFAULT_AI_MODELS } from './utils/aiProvider';
+import type { AIProvider, AIProviderSettings, AIChatSession, AISchema, AIFunctionDeclaration, AIVoiceSession } from './utils/aiProvider';
+import { parseSmartInput } from './utils/smartInput';
+import { generateId } from './utils/id';
+import { migrateState, MigrationError, CURRENT_SCHEMA_VERSION } from './utils/migrations';
+import type { Migration } from './utils/migrations';
+import { validateState, countStateItems } from './utils/validation';
+import type { ValidationIssue, StateCounts } from './utils/validation';
+import { mergeStates } from './utils/merge';
+import { parseCsv } from './utils/csv';
+import { guessColumnMapping, mapBankRows, postBankRows } from './utils/bankImport';
+import { createStorageAdapter, StorageQuotaError, BACKUP_PREFIX } from './utils/storage';
+import { emptyHistory, recordChange, undoChange, redoChange } from './utils/history';
+import type { HistoryAction, UndoHistory } from './utils/history';
+import { loadRetentionPolicy, saveRetentionPolicy, selectBackupsToPrune, isSameBackupDay, diffStates } from './utils/backups';
+import type { RetentionPolicy, StateDiff } from './utils/backups';
+import { DEFAULT_CURRENCY, commonCurrencies, getRatedCurrencies, toBaseAmount, changeBaseCurrency, getAssetValue } from './utils/currency';
+import { setBaseCurrency, formatCurrency, formatOriginalAmount, formatCurrencyName, formatNumber, formatNumberInput, parseNumberInput, formatMoneyInput, parseMoneyInput, formatDate, formatDateTime, formatMonth } from './utils/format';
+import { t, setLocale, loadLocale, saveLocale, locales, localeNames, localizeAchievement } from './utils/i18n';
+import type { Locale, MessageKey } from './utils/i18n';
+import { encryptExport, decryptExport, isEncryptedExport, DecryptionError, ENCRYPTED_EXTENSION, loadAutoExportPassphrase, saveAutoExportPassphrase } from './utils/crypto';
+import type { EncryptedExport } from './utils/crypto';
+import type { StorageAdapter, BackupInfo } from './utils/storage';
+import type { BankRow, ColumnMapping } from './utils/bankImport';
+import type { MergeConflict } from './utils/merge';
+import type { LocatedTransaction, TransactionDraft, TransactionTarget } from './utils/transactions';
+import type { SplitLineInput } from './utils/split';
+import { HomeIcon, ChartBarIcon, DocumentTextIcon, ListBulletIcon, Squares2x2Icon, PlusCircleIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, CameraIcon, LightbulbIcon, SparklesIcon, SpeakerWaveIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, TrashIcon, BuildingLibraryIcon, BudgetIcon, availableIcons, availableColors, TrophyIcon, Cog6ToothIcon, ArrowPathIcon, InformationCircleIcon, ExclamationTriangleIcon, ArchiveBoxIcon, ArrowUturnLeftIcon, ServerStackIcon, FireIcon, CircleStackIcon, LockClosedIcon, ClockIcon, PencilSquareIcon, BellIcon, CalendarDaysIcon } from './components/Icons';
 
 // --- UTILITY FUNCTIONS ---
-const formatCurrency = (amount: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', maximumFractionDigits: 0 }).format(amount);
-const formatNumberInput = (value: string | number) => {
-    const numString = String(value).replace(/[^0-9]/g, '');
-    if (numString === '') return '';
-    return new Intl.NumberFormat('id-ID').format(Number(numString));
-};
-const getRawNumber = (value: string) => Number(value.replace(/[^0-9]/g, ''));
-
 const fileToBase64 = (file: File | Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -29,7 +69,7 @@ const fileToBase64 = (file: File | Blob): Promise<string> => {
     });
 };
 
-// --- AUDIO UTILITY FUNCTIONS for Gemini Live API ---
+// --- AUDIO UTILITY FUNCTIONS for live voice ---
 function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -59,27 +99,6 @@ async function decodeAudioData(
   return buffer;
 }
 
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function createBlob(data: Float32Array): GenAIBlob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
-
 
 // --- MODAL COMPONENTS ---
 interface ModalProps {
@@ -128,8 +147,8 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm,
             <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm text-center p-6 animate-fade-in-up">
                 <div className="text-dark-text mb-6">{message}</div>
                 <div className="flex justify-center gap-4">
-                    <button onClick={onClose} className="px-6 py-2 rounded-lg bg-gray-200 text-dark-text font-semibold hover:bg-gray-300">Batal</button>
-                    <button onClick={onConfirm} className="px-6 py-2 rounded-lg bg-danger-red text-white font-semibold hover:bg-danger-red-dark">OK</button>
+                    <button onClick={onClose} className="px-6 py-2 rounded-lg bg-gray-200 text-dark-text font-semibold hover:bg-gray-300">{t('common.cancel')}</button>
+                    <button onClick={onConfirm} className="px-6 py-2 rounded-lg bg-danger-red text-white font-semibold hover:bg-danger-red-dark">{t('common.ok')}</button>
                 </div>
             </div>
         </div>
@@ -137,12 +156,8 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm,
 };
 
 // --- APP COMPONENT ---
-type Page = 'dashboard' | 'reports' | 'visualizations' | 'savings' | 'achievements' | 'personalBest' | 'netWorth';
-type ModalType = 'input' | 'funds' | 'addBudget' | 'history' | 'info' | 'menu' | 'editAsset' | 'confirm' | 'scanResult' | 'aiAdvice' | 'smartInput' | 'aiChat' | 'voiceAssistant' | 'voiceResult' | 'addSavingsGoal' | 'addSavings' | 'savingsDetail' | 'settings' | 'archivedBudgets' | 'backupRestore' | 'asset' | 'batchInput';
-
-const APP_VERSION = '3.12.0';
-const BACKUP_PREFIX = 'budgetAppBackup_';
-const MAX_BACKUPS = 4;
+type Page = 'dashboard' | 'reports' | 'visualizations' | 'savings' | 'achievements' | 'personalBest' | 'netWorth' | 'recurring' | 'bills';
+type ModalType = 'input' | 'funds' | 'addBudget' | 'history' | 'info' | 'menu' | 'editAsset' | 'confirm' | 'scanResult' | 'aiAdvice' | 'smartInput' | 'aiChat' | 'voiceAssistant' | 'voiceResult' | 'addSavingsGoal' | 'addSavings' | 'savingsDetail' | 'settings' | 'archivedBudgets' | 'backupRestore' | 'asset' | 'batchInput' | 'recurringRule' | 'editTransaction' | 'importPreview' | 'bankImport' | 'exportData' | 'decryptImport' | 'currency' | 'bill' | 'notifications' | 'aiProvider';
 
 const initialState: AppState = {
     budgets: [],
@@ -151,6 +166,7 @@ const initialState: AppState = {
     archives: [],
     lastArchiveDate: null,
     savingsGoals: [],
+    deletedSavingsGoals: [],
     unlockedAchievements: {},
     achievementData: {
         monthlyStreak: 0,
@@ -162,10 +178,56 @@ const initialState: AppState = {
         lastStreakCheck: undefined,
     },
     assets: [],
+    recurringRules: [],
+    bills: [],
+    budgetAlerts: [],
+    baseCurrency: DEFAULT_CURRENCY,
+    exchangeRates: [],
+    schemaVersion: CURRENT_SCHEMA_VERSION,
 };
 
+const MigrationReport: React.FC<{ migrations: Migration[] }> = ({ migrations }) => (
+    <div>
+        <p>{t('app.migrated')}</p>
+        <ul className="list-disc list-inside text-left text-sm text-secondary-gray mt-2">
+            {migrations.map(m => <li key={m.to}>v{m.to}: {t(m.description)}</li>)}
+        </ul>
+    </div>
+);
+
+// Lists validation issues and merge conflicts with how each one was settled.
+const IssueList: React.FC<{ issues: (ValidationIssue | MergeConflict)[] }> = ({ issues }) => {
+    const [showAll, setShowAll] = useState(false);
+    const visibleIssues = showAll ? issues : issues.slice(0, 5);
+    return (
+        <div>
+            <ul className="space-y-1 text-left text-sm max-h-48 overflow-y-auto">
+                {visibleIssues.map((issue, index) => (
+                    <li key={index} className="text-dark-text">
+                        <span className="font-semibold">{issue.location}:</span> {issue.message}
+                        {('repair' in issue ? issue.repair : issue.resolution) && (
+                            <span className="text-accent-teal"> &rarr; {'repair' in issue ? issue.repair : issue.resolution}</span>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {issues.length > visibleIssues.length && (
+                <button onClick={() => setShowAll(true)} className="text-sm font-semibold text-primary-navy hover:underline mt-1">
+                    {t('app.showMoreIssues', { count: issues.length - visibleIssues.length })}
+                </button>
+            )}
+        </div>
+    );
+};
+
+interface DailyBackup {
+    url: string;
+    filename: string;
+    encrypted: boolean;
+}
+
 const DailyBackupToast: React.FC<{
-    backup: { url: string; filename: string };
+    backup: DailyBackup;
     onClose: () => void;
 }> = ({ backup, onClose }) => {
     return (
@@ -174,18 +236,18 @@ const DailyBackupToast: React.FC<{
         >
             <ArrowDownTrayIcon className="w-10 h-10 text-accent-teal flex-shrink-0" />
             <div>
-                <p className="font-bold text-primary-navy">Cadangan Periodik Tersedia</p>
-                <p className="text-sm text-secondary-gray">Simpan data Anda untuk keamanan.</p>
+                <p className="font-bold text-primary-navy">{t('backup.periodicTitle')}</p>
+                <p className="text-sm text-secondary-gray">{backup.encrypted ? t('backup.periodicEncrypted') : t('backup.periodicHint')}</p>
                 <div className="flex gap-3 mt-2">
                     <a 
                         href={backup.url}
                         download={backup.filename}
                         className="text-sm bg-accent-teal text-white font-semibold py-1 px-3 rounded-lg hover:bg-accent-teal-dark transition-colors"
                     >
-                        Unduh Sekarang
+                        {t('backup.downloadNow')}
                     </a>
                      <button onClick={onClose} className="text-sm text-secondary-gray font-semibold hover:underline">
-                        Nanti
+                        {t('backup.later')}
                     </button>
                 </div>
             </div>
@@ -193,13 +255,89 @@ const DailyBackupToast: React.FC<{
     );
 };
 
+const UpdateAvailableToast: React.FC<{
+    update: AppUpdate;
+    onUpdate: () => void;
+    onClose: () => void;
+}> = ({ update, onUpdate, onClose }) => {
+    return (
+        <div className="fixed top-5 left-1/2 -translate-x-1/2 z-[100] bg-white rounded-xl shadow-2xl p-4 flex items-center space-x-4 max-w-md w-[90%] animate-fade-in-down">
+            <ArrowPathIcon className="w-10 h-10 text-accent-teal flex-shrink-0" />
+            <div>
+                <p className="font-bold text-primary-navy">{update.version ? t('pwa.updateVersion', { version: update.version }) : t('pwa.update')}</p>
+                <p className="text-sm text-secondary-gray">{t('pwa.updateHint', { version: APP_VERSION })}</p>
+                <div className="flex gap-3 mt-2">
+                    <button onClick={onUpdate} className="text-sm bg-accent-teal text-white font-semibold py-1 px-3 rounded-lg hover:bg-accent-teal-dark transition-colors">
+                        {t('pwa.updateNow')}
+                    </button>
+                    <button onClick={onClose} className="text-sm text-secondary-gray font-semibold hover:underline">
+                        {t('backup.later')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const OfflineBanner: React.FC<{ queuedCount: number }> = ({ queuedCount }) => (
+    <div className="sticky top-0 z-30 bg-dark-text text-white text-xs text-center py-1 px-3">
+        {queuedCount > 0 ? t('pwa.offlineQueued', { count: queuedCount }) : t('pwa.offline')}
+    </div>
+);
+
+interface UndoToastData {
+    description: string;
+    /** After an undo the toast offers to redo the same action. */
+    undone: boolean;
+}
+
+const UndoToast: React.FC<{
+    toast: UndoToastData;
+    onUndo: () => void;
+    onRedo: () => void;
+    onClose: () => void;
+}> = ({ toast, onUndo, onRedo, onClose }) => {
+    useEffect(() => {
+        const timer = setTimeout(onClose, 6000);
+        return () => clearTimeout(timer);
+    }, [toast]);
+
+    return (
+        <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[100] bg-primary-navy text-white rounded-xl shadow-2xl px-4 py-3 flex items-center space-x-4 max-w-md w-[90%]">
+            <p className="text-sm flex-grow">{toast.undone ? t('undo.undone', { description: toast.description }) : toast.description}</p>
+            <button onClick={toast.undone ? onRedo : onUndo} className="flex items-center gap-1 text-sm font-bold text-accent-teal hover:underline flex-shrink-0">
+                <ArrowUturnLeftIcon className={`w-4 h-4 ${toast.undone ? '-scale-x-100' : ''}`} />
+                {toast.undone ? t('undo.redo') : t('undo.undo')}
+            </button>
+        </div>
+    );
+};
 
 const App: React.FC = () => {
     const [state, setState] = useState<AppState>(initialState);
+    // The latest state, including updates React has not rendered yet. Every change goes
+    // through commitState, so updaters stay pure and their side effects run exactly once.
+    const stateRef = useRef(state);
+    const commitState = useCallback((next: AppState) => {
+        stateRef.current = next;
+        setState(next);
+    }, []);
+    const [locale, setLocaleState] = useState<Locale>(loadLocale);
+    // `t` and the formatters read the locale and base currency from module settings. They
+    // are updated after each change, and the re-render that follows happens before the
+    // browser paints, so text in the previous language or currency never shows.
+    const [, setAppliedSettings] = useState('');
+    useLayoutEffect(() => {
+        setLocale(locale);
+        setBaseCurrency(state.baseCurrency);
+        setAppliedSettings(`${locale}|${state.baseCurrency}`);
+    }, [locale, state.baseCurrency]);
     const [currentPage, setCurrentPage] = useState<Page>('dashboard');
     const [activeModal, setActiveModal] = useState<ModalType | null>(null);
-    const [internalBackups, setInternalBackups] = useState<{ key: string, timestamp: number }[]>([]);
-    const [dailyBackup, setDailyBackup] = useState<{ url: string; filename: string } | null>(null);
+    const [internalBackups, setInternalBackups] = useState<BackupInfo[]>([]);
+    const [isStateLoaded, setIsStateLoaded] = useState(false);
+    const storageRef = useRef<StorageAdapter | null>(null);
+    const [dailyBackup, setDailyBackup] = useState<DailyBackup | null>(null);
     const backupCreatedToday = useRef(false);
 
     // Modal-specific state
@@ -207,6 +345,12 @@ const App: React.FC = () => {
     const [currentBudgetId, setCurrentBudgetId] = useState<number | null>(null);
     const [currentSavingsGoalId, setCurrentSavingsGoalId] = useState<number | null>(null);
     const [currentAssetId, setCurrentAssetId] = useState<number | null>(null);
+    const [currentRecurringRuleId, setCurrentRecurringRuleId] = useState<number | null>(null);
+    const [currentBillId, setCurrentBillId] = useState<number | null>(null);
+    const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
+    const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+    const [bankStatement, setBankStatement] = useState<{ fileName: string; rows: string[][] } | null>(null);
+    const [encryptedImport, setEncryptedImport] = useState<{ fileName: string; envelope: EncryptedExport } | null>(null);
     const [historyModalContent, setHistoryModalContent] = useState({ title: '', transactions: [] as any[], type: '', budgetId: undefined as (number | undefined) });
     const [confirmModalContent, setConfirmModalContent] = useState({ message: '' as React.ReactNode, onConfirm: () => {} });
     const [prefillData, setPrefillData] = useState<{ desc: string, amount: string } | null>(null);
@@ -215,11 +359,25 @@ const App: React.FC = () => {
     const [isScanning, setIsScanning] = useState(false);
     const [scanError, setScanError] = useState<string | null>(null);
     const [scannedItems, setScannedItems] = useState<ScannedItem[]>([]);
+    // The scanned receipt, kept as a photo on the transactions saved from it.
+    const [scanAttachmentId, setScanAttachmentId] = useState<string | null>(null);
+    // Set when the scan was queued for later instead of failing.
+    const [scanNotice, setScanNotice] = useState<string | null>(null);
+
+    // Offline support: AI requests made without a connection wait in the queue.
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [aiQueue, setAiQueue] = useState<QueuedAIRequest[]>(loadAIQueue);
+    const [appUpdate, setAppUpdate] = useState<AppUpdate | null>(null);
+
+    // The AI service every AI feature goes through, chosen in the settings.
+    const [aiProviderSettings, setAiProviderSettings] = useState<AIProviderSettings>(loadAIProviderSettings);
+    const aiProvider = useMemo(() => createAIProvider(aiProviderSettings), [aiProviderSettings]);
     
     // Smart Input state
     const [smartInputResult, setSmartInputResult] = useState<ScannedItem[]>([]);
     const [isProcessingSmartInput, setIsProcessingSmartInput] = useState(false);
     const [smartInputError, setSmartInputError] = useState<string | null>(null);
+    const [smartInputNotice, setSmartInputNotice] = useState<string | null>(null);
     
     // AI Advice state
     const [aiAdvice, setAiAdvice] = useState<string>('');
@@ -231,7 +389,7 @@ const App: React.FC = () => {
     const [isFetchingDashboardInsight, setIsFetchingDashboardInsight] = useState<boolean>(false);
 
     // AI Chat State
-    const [aiChatSession, setAiChatSession] = useState<Chat | null>(null);
+    const [aiChatSession, setAiChatSession] = useState<AIChatSession | null>(null);
     const [aiChatHistory, setAiChatHistory] = useState<{ role: 'user' | 'model'; text: string }[]>([]);
     const [isAiChatLoading, setIsAiChatLoading] = useState<boolean>(false);
     const [aiChatError, setAiChatError] = useState<string | null>(null);
@@ -247,125 +405,309 @@ const App: React.FC = () => {
     // Gamification State
     const [newlyUnlockedAchievement, setNewlyUnlockedAchievement] = useState<Achievement | null>(null);
 
+    // Budget alerts. updateState reads the settings through a ref, so it can stay memoized.
+    const [budgetAlertSettings, setBudgetAlertSettings] = useState<BudgetAlertSettings>(loadBudgetAlertSettings);
+    const budgetAlertSettingsRef = useRef(budgetAlertSettings);
+    budgetAlertSettingsRef.current = budgetAlertSettings;
+    const [budgetAlertToast, setBudgetAlertToast] = useState<BudgetAlert | null>(null);
+    const [alertsSeenAt, setAlertsSeenAt] = useState(loadAlertsSeenAt);
+
 
     const importFileInputRef = useRef<HTMLInputElement>(null);
+    const bankFileInputRef = useRef<HTMLInputElement>(null);
     const scanFileInputRef = useRef<HTMLInputElement>(null);
     
-    // Wrapper for setState to also check for achievements and streak resets
-    const updateState = useCallback((updater: (prevState: AppState) => AppState) => {
-        setState(prevState => {
-            const newState = updater(prevState);
-            
-            // --- INSTANT STREAK RESET LOGIC ---
-            const newAchievementData = { ...newState.achievementData };
-
-            // Calculate new financial state for immediate check
-            const newMonthlyIncome = newState.fundHistory.filter(t => t.type === 'add').reduce((sum, t) => sum + t.amount, 0);
-            const newTotalUsedFromPosts = newState.budgets.reduce((sum, b) => sum + b.history.reduce((s, h) => s + h.amount, 0), 0);
-            const newTotalDailySpent = newState.dailyExpenses.reduce((sum, e) => sum + e.amount, 0);
-            const newMonthlyGeneralExpense = newState.fundHistory.filter(t => t.type === 'remove').reduce((sum, t) => sum + t.amount, 0);
-            const newTotalUsedOverall = newMonthlyGeneralExpense + newTotalUsedFromPosts + newTotalDailySpent;
-            const newTotalRemaining = newMonthlyIncome - newTotalUsedOverall;
-            
-            const newTotalAllocated = newState.budgets.reduce((sum, b) => sum + b.totalBudget, 0);
-            const newUnallocatedFunds = newMonthlyIncome - newTotalAllocated;
-            const newCurrentAvailableFunds = newUnallocatedFunds - newMonthlyGeneralExpense - newTotalDailySpent;
-            const remainingDays = new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate() - new Date().getDate() + 1;
-            const todaysDailyExpenses = newState.dailyExpenses.filter(exp => new Date(exp.timestamp).toDateString() === new Date().toDateString());
-            const totalDailySpentToday = todaysDailyExpenses.reduce((sum, exp) => sum + exp.amount, 0);
-            const dailyBudgetMax = remainingDays > 0 ? newCurrentAvailableFunds / remainingDays : newCurrentAvailableFunds;
-            const dailyBudgetRemaining = dailyBudgetMax - totalDailySpentToday;
+    // Undo history lives in a ref: it never affects rendering, only the toast does.
+    const historyRef = useRef<UndoHistory>(emptyHistory);
+    const [undoToast, setUndoToast] = useState<UndoToastData | null>(null);
+
+    const recordAction = useCallback((prevState: AppState, action: HistoryAction) => {
+        historyRef.current = recordChange(historyRef.current, action.description, prevState);
+        // The toast always refers to the latest action, so a newer one replaces it.
+        setUndoToast(action.destructive ? { description: action.description, undone: false } : null);
+    }, []);
 
-            if (newTotalRemaining < 0) {
-                newAchievementData.monthlyStreak = 0;
-            }
-            if (dailyBudgetRemaining < 0) {
-                newAchievementData.dailyStreak = 0;
-            }
-            
-            newState.achievementData = newAchievementData;
-            // --- END OF INSTANT STREAK RESET LOGIC ---
+    // Shows the most severe of the new alerts as a toast; with the app in the background,
+    // each one also becomes a browser notification if the user allowed it.
+    const announceBudgetAlerts = useCallback((raised: BudgetAlert[]) => {
+        setBudgetAlertToast(raised.reduce((worst, alert) => alert.threshold > worst.threshold ? alert : worst));
+        setTimeout(() => setBudgetAlertToast(null), 5000);
+        if (!budgetAlertSettingsRef.current.notify || document.visibilityState !== 'hidden') return;
+        raised.forEach(alert => {
+            const { title, body } = describeBudgetAlert(alert);
+            showNotification(title, body, `alert-${alert.kind}-${alert.budgetId ?? 'daily'}-${alert.period}`)
+                .catch(error => console.error("Failed to show a notification", error));
+        });
+    }, []);
 
-            const newlyUnlocked: Achievement[] = [];
-            const updatedUnlocked = { ...newState.unlockedAchievements };
+    // Wrapper for setState to also check for achievements, streak resets and budget alerts.
+    // User actions pass a HistoryAction so they can be undone; automatic updates do not.
+    // The updater gets the latest state, as with a functional setState.
+    const updateState = useCallback((updater: (prevState: AppState) => AppState, action?: HistoryAction) => {
+        const prevState = stateRef.current;
+        const newState = updater(prevState);
+        
+        // --- INSTANT STREAK RESET LOGIC ---
+        const newAchievementData = { ...newState.achievementData };
 
-            for (const achievement of allAchievements) {
-                if (!updatedUnlocked[achievement.id]) {
-                    if (achievement.condition(newState)) {
-                        updatedUnlocked[achievement.id] = Date.now();
-                        newlyUnlocked.push(achievement);
-                    }
+        // Calculate new financial state for immediate check
+        const { totalRemaining: newTotalRemaining, currentAvailableFunds: newCurrentAvailableFunds } = getMonthlySummary(newState);
+        const todaysDailyExpenses = newState.dailyExpenses.filter(exp => new Date(exp.timestamp).toDateString() === new Date().toDateString());
+        const totalDailySpentToday = sumBy(todaysDailyExpenses, exp => exp.amount);
+        const dailyBudgetRemaining = subtractMoney(getDailyBudgetMax(newCurrentAvailableFunds), totalDailySpentToday);
+
+        if (newTotalRemaining < 0) {
+            newAchievementData.monthlyStreak = 0;
+        }
+        if (dailyBudgetRemaining < 0) {
+            newAchievementData.dailyStreak = 0;
+        }
+        
+        newState.achievementData = newAchievementData;
+        // --- END OF INSTANT STREAK RESET LOGIC ---
+
+        const newlyUnlocked: Achievement[] = [];
+        const updatedUnlocked = { ...newState.unlockedAchievements };
+
+        for (const achievement of allAchievements) {
+            if (!updatedUnlocked[achievement.id]) {
+                if (achievement.condition(newState)) {
+                    updatedUnlocked[achievement.id] = Date.now();
+                    newlyUnlocked.push(achievement);
                 }
             }
-            
-            if (newlyUnlocked.length > 0) {
-                setNewlyUnlockedAchievement(newlyUnlocked[0]); // Show toast for the first new one
-                setTimeout(() => setNewlyUnlockedAchievement(null), 4000);
-                return { ...newState, unlockedAchievements: updatedUnlocked };
+        }
+        
+        const result = newlyUnlocked.length > 0 ? { ...newState, unlockedAchievements: updatedUnlocked } : newState;
+        const { state: alertedState, raised } = checkBudgetAlerts(result, budgetAlertSettingsRef.current.daily);
+        commitState(alertedState);
+
+        if (action) recordAction(prevState, action);
+        if (newlyUnlocked.length > 0) {
+            setNewlyUnlockedAchievement(newlyUnlocked[0]); // Show toast for the first new one
+            setTimeout(() => setNewlyUnlockedAchievement(null), 4000);
+        }
+        if (raised.length > 0) announceBudgetAlerts(raised);
+    }, [commitState, recordAction, announceBudgetAlerts]);
+
+    const handleUndo = () => {
+        const result = undoChange(historyRef.current, stateRef.current);
+        if (!result) return;
+        historyRef.current = result.history;
+        commitState(result.state);
+        setUndoToast({ description: result.description, undone: true });
+    };
+
+    const handleRedo = () => {
+        const result = redoChange(historyRef.current, stateRef.current);
+        if (!result) return;
+        historyRef.current = result.history;
+        commitState(result.state);
+        setUndoToast({ description: result.description, undone: false });
+    };
+
+    // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+    // The listener is added once and reaches the current handlers through a ref.
+    const undoRedoRef = useRef({ handleUndo, handleRedo });
+    undoRedoRef.current = { handleUndo, handleRedo };
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const target = event.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undoRedoRef.current.handleUndo();
+            } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+                event.preventDefault();
+                undoRedoRef.current.handleRedo();
             }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
 
-            return newState;
-        });
+    // Shows storage failures once; the warning re-arms after the next successful save.
+    const storageWarningShown = useRef(false);
+    const handleStorageError = useCallback((error: unknown) => {
+        console.error("Failed to write to storage", error);
+        if (storageWarningShown.current) return;
+        storageWarningShown.current = true;
+        openConfirm(error instanceof StorageQuotaError ? error.message : t('storage.saveFailed'), () => {});
     }, []);
 
-    const listInternalBackups = useCallback(() => {
-        const backupList: { key: string; timestamp: number }[] = [];
-        for (let i = 0; i < localStorage.length; i++) {
-            const key = localStorage.key(i);
-            if (key && key.startsWith(BACKUP_PREFIX)) {
-                const timestamp = parseInt(key.split('_')[1], 10);
-                if (!isNaN(timestamp)) {
-                    backupList.push({ key, timestamp });
-                }
-            }
+    // Deletes the automatic backups the retention policy no longer needs and returns the rest.
+    const pruneBackups = useCallback(async (storage: StorageAdapter, policy: RetentionPolicy) => {
+        const backups = await storage.listBackups();
+        const pruned = selectBackupsToPrune(backups, policy);
+        for (const key of pruned) {
+            await storage.deleteBackup(key);
         }
-        return backupList.sort((a, b) => b.timestamp - a.timestamp);
+        return backups.filter(b => !pruned.includes(b.key));
     }, []);
 
-    // Load state from localStorage on initial render & handle automatic backup
+    const createInternalBackup = useCallback(async (storage: StorageAdapter, data: any) => {
+        await storage.writeBackup(`${BACKUP_PREFIX}${Date.now()}`, data);
+        return pruneBackups(storage, loadRetentionPolicy(storage.kind));
+    }, [pruneBackups]);
+
+    // Load state from storage on initial render & handle automatic backup. Runs once per
+    // app instance: StrictMode runs effects twice in development, and a second load would
+    // repeat the localStorage migration, rewrite the backups and register the service worker again.
+    const loadStartedRef = useRef(false);
     useEffect(() => {
-        // 1. Load main state
-        let loadedState = { ...initialState };
-        const savedState = localStorage.getItem(`budgetAppState_v${APP_VERSION}`);
-        if (savedState) {
+        if (loadStartedRef.current) return;
+        loadStartedRef.current = true;
+        const load = async () => {
+            const storage = await createStorageAdapter();
+            storageRef.current = storage;
+            setAttachmentStorage(storage);
+            registerServiceWorker(setAppUpdate);
+
+            // 1. Load main state. On the first run with IndexedDB this still comes from
+            // localStorage (including pre-registry `budgetAppState_v*` keys).
+            let loadedState = { ...initialState };
+            let appliedMigrations: Migration[] = [];
+            let loadError: string | null = null;
+            let savedState: any = null;
             try {
-                const parsed = JSON.parse(savedState);
-                 if (Array.isArray(parsed.unlockedAchievements)) {
-                    const migrated: { [id: string]: number } = {};
-                    parsed.unlockedAchievements.forEach((id: string) => { migrated[id] = Date.now(); });
-                    parsed.unlockedAchievements = migrated;
+                savedState = await storage.loadState();
+            } catch (error) {
+                console.error("Failed to read stored state", error);
+                loadError = t('storage.unreadable');
+            }
+            if (savedState !== null) {
+                try {
+                    const result = migrateState(savedState, initialState);
+                    loadedState = result.state;
+                    appliedMigrations = result.applied;
+                } catch (error) {
+                    console.error("Failed to load stored state", error);
+                    // Keep the unreadable data as a backup instead of overwriting it with an empty state.
+                    await storage.writeBackup(`${BACKUP_PREFIX}${Date.now()}`, savedState).catch(handleStorageError);
+                    loadError = error instanceof MigrationError ? error.message : t('storage.unreadable');
                 }
-                parsed.achievementData = { ...initialState.achievementData, ...parsed.achievementData };
-                loadedState = { ...initialState, ...parsed };
-            } catch (error) { console.error("Failed to parse state from localStorage", error); }
-        }
-        setState(loadedState);
-
-        // 2. Handle automatic backup logic with the fresh state
-        const backups = listInternalBackups();
-        const lastBackupTimestamp = backups.length > 0 ? backups[0].timestamp : 0;
-        const oneWeekInMs = 7 * 24 * 60 * 60 * 1000;
-
-        if (Date.now() - lastBackupTimestamp > oneWeekInMs) {
-            const newBackupKey = `${BACKUP_PREFIX}${Date.now()}`;
-            localStorage.setItem(newBackupKey, JSON.stringify(loadedState));
-
-            // Rotation: if more than MAX_BACKUPS, remove the oldest
-            const updatedBackups = listInternalBackups(); // Re-list to include the new one
-            if (updatedBackups.length > MAX_BACKUPS) {
-                const oldestBackup = updatedBackups[updatedBackups.length - 1];
-                localStorage.removeItem(oldestBackup.key);
             }
-        }
-        
-        // 3. Update the UI state for the modal
-        setInternalBackups(listInternalBackups());
-    }, [listInternalBackups]);
 
-    // Save state to localStorage whenever it changes
+            // 2. Post recurring transactions that fell due while the app was closed, then run the
+            // month-end rollover so any catch-up entries from past months land in their archive.
+            const { state: postedState, postedCount } = postDueRecurringTransactions(loadedState);
+            const { state: rolledOverState, archivedMonths } = performMonthlyRollover(postedState);
+            // Entries posted while the app was closed may have crossed an alert threshold.
+            const { state: alertedState, raised } = checkBudgetAlerts(rolledOverState, budgetAlertSettingsRef.current.daily);
+            commitState(alertedState);
+            if (raised.length > 0) announceBudgetAlerts(raised);
+            setIsStateLoaded(true);
+
+            // 3. Upgrade internal backups to the current schema, so restoring one needs no migration.
+            let backups = await storage.listBackups();
+            const backupStates: AppState[] = [];
+            let canPruneAttachments = !loadError;
+            for (const { key } of backups) {
+                try {
+                    const backup = await storage.readBackup(key);
+                    if (backup?.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+                        const migrated = migrateState(backup, initialState).state;
+                        await storage.writeBackup(key, migrated);
+                        backupStates.push(migrated);
+                    } else {
+                        backupStates.push(backup);
+                    }
+                } catch (error) {
+                    console.error(`Failed to migrate backup ${key}`, error);
+                    canPruneAttachments = false;
+                }
+            }
+
+            // Delete receipt photos that neither the data nor any backup refers to any more.
+            // Skipped when some data could not be read, so its photos are not lost.
+            if (canPruneAttachments) {
+                await pruneAttachments(storage, [rolledOverState, ...backupStates], getQueuedAttachmentIds(loadAIQueue()))
+                    .catch(error => console.error("Failed to prune photos", error));
+            }
+
+            // 4. Handle automatic backup logic: one backup per day, thinned out by the retention
+            // policy. A rollover always gets a backup of the pre-rollover data.
+            const hasBackupToday = backups.some(b => isSameBackupDay(b.timestamp, Date.now()));
+
+            if (archivedMonths.length > 0 || !hasBackupToday) {
+                try {
+                    backups = await createInternalBackup(storage, loadedState);
+                } catch (error) {
+                    handleStorageError(error);
+                }
+            }
+
+            // 5. Update the UI state for the modal
+            setInternalBackups(backups);
+
+            // 6. Tell the user what happened to their data while loading.
+            const notices: React.ReactNode[] = [];
+            if (loadError) {
+                notices.push(<><strong>{t('app.loadFailed')}</strong> {loadError} {t('app.loadFailedBackup')}</>);
+            }
+            if (appliedMigrations.length > 0) {
+                notices.push(<MigrationReport migrations={appliedMigrations} />);
+            }
+            if (archivedMonths.length > 0) {
+                const monthNames = archivedMonths
+                    .map(month => formatMonth(month))
+                    .join(', ');
+                notices.push(<>{t('app.monthArchivedBefore')} <strong>{monthNames}</strong> {t('app.monthArchivedAfter')}</>);
+            }
+            if (postedCount > 0) {
+                notices.push(<><strong>{postedCount}</strong> {t('app.recurringPosted')}</>);
+            }
+            if (notices.length > 0) {
+                openConfirm(<div className="space-y-3">{notices.map((notice, i) => <div key={i}>{notice}</div>)}</div>, () => {});
+            }
+        };
+        load();
+    }, [createInternalBackup, handleStorageError, commitState]);
+
+    // While the app stays open, rules that fall due on a new day are posted when the date
+    // changes: just after midnight, or when the app comes back into view after a sleep.
     useEffect(() => {
-        localStorage.setItem(`budgetAppState_v${APP_VERSION}`, JSON.stringify(state));
-    }, [state]);
+        if (!isStateLoaded) return;
+        let checkedDate = toDateKey(new Date());
+        let timer: number;
+        const postOnNewDay = () => {
+            const today = toDateKey(new Date());
+            if (today === checkedDate) return;
+            checkedDate = today;
+            updateState(prev => postDueRecurringTransactions(prev).state);
+        };
+        const scheduleMidnight = () => {
+            const now = new Date();
+            const nextDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 0, 0, 5);
+            timer = window.setTimeout(() => {
+                postOnNewDay();
+                scheduleMidnight();
+            }, nextDay.getTime() - now.getTime());
+        };
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') postOnNewDay();
+        };
+        scheduleMidnight();
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            clearTimeout(timer);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [isStateLoaded, updateState]);
+
+    // Save state whenever it changes, once the stored state has been loaded
+    useEffect(() => {
+        if (!isStateLoaded || !storageRef.current) return;
+        storageRef.current.saveState(state)
+            .then(() => { storageWarningShown.current = false; })
+            .catch(handleStorageError);
+    }, [state, isStateLoaded, handleStorageError]);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
 
     // Periodic backup useEffect (every 4 days)
     useEffect(() => {
@@ -390,19 +732,22 @@ const App: React.FC = () => {
         }
 
         if (shouldCreateBackup) {
-            try {
+            // Marked before the (possibly encrypted, so asynchronous) file is ready, so a
+            // state change in the meantime does not start a second export.
+            backupCreatedToday.current = true;
+            const createBackupFile = async () => {
                 const todayStrForFilename = new Date().toLocaleDateString('fr-CA');
                 const dataStr = JSON.stringify(state, null, 2);
-                const dataBlob = new Blob([dataStr], { type: "application/json" });
+                const passphrase = loadAutoExportPassphrase();
+                const content = passphrase ? await encryptExport(dataStr, passphrase) : dataStr;
+                const dataBlob = new Blob([content], { type: "application/json" });
                 const url = URL.createObjectURL(dataBlob);
-                const filename = `cadangan_anggaran_${todayStrForFilename}.json`;
-                
-                setDailyBackup({ url, filename });
+                const filename = `cadangan_anggaran_${todayStrForFilename}${passphrase ? ENCRYPTED_EXTENSION : '.json'}`;
+
+                setDailyBackup({ url, filename, encrypted: !!passphrase });
                 localStorage.setItem('lastAutoExportDate', new Date().toLocaleDateString('fr-CA'));
-                backupCreatedToday.current = true;
-            } catch (error) {
-                console.error("Failed to create periodic backup:", error);
-            }
+            };
+            createBackupFile().catch(error => console.error("Failed to create periodic backup:", error));
         } else {
             backupCreatedToday.current = true; // Mark as checked for this session
         }
@@ -420,24 +765,48 @@ const App: React.FC = () => {
         return transactions.sort((a, b) => b.timestamp - a.timestamp);
     }, [state]);
 
-    const currentAsset = useMemo(() => allTransactions.reduce((sum, t) => t.type === 'add' ? sum + t.amount : sum - t.amount, 0), [allTransactions]);
+    const currentAsset = useMemo(() => sumSigned(allTransactions), [allTransactions]);
 
-    const { monthlyIncome, totalUsedOverall, totalRemaining, totalAllocated, unallocatedFunds, generalAndDailyExpenses, remainingUnallocated, totalDailySpent, currentAvailableFunds } = useMemo(() => {
-        const monthlyIncome = state.fundHistory.filter(t => t.type === 'add').reduce((sum, t) => sum + t.amount, 0);
-        const totalAllocated = state.budgets.reduce((sum, b) => sum + b.totalBudget, 0);
-        const totalUsedFromPosts = state.budgets.reduce((sum, b) => sum + b.history.reduce((s, h) => s + h.amount, 0), 0);
-        const totalDailySpent = state.dailyExpenses.reduce((sum, e) => sum + e.amount, 0);
-        const monthlyGeneralExpense = state.fundHistory.filter(t => t.type === 'remove').reduce((sum, t) => sum + t.amount, 0);
-        
-        const totalUsedOverall = monthlyGeneralExpense + totalUsedFromPosts + totalDailySpent;
-        const totalRemaining = monthlyIncome - totalUsedOverall;
-        const unallocatedFunds = monthlyIncome - totalAllocated;
-        const generalAndDailyExpenses = monthlyGeneralExpense + totalDailySpent;
-        const remainingUnallocated = unallocatedFunds - generalAndDailyExpenses;
-        const currentAvailableFunds = unallocatedFunds - generalAndDailyExpenses;
-        
-        return { monthlyIncome, totalUsedOverall, totalRemaining, totalAllocated, unallocatedFunds, generalAndDailyExpenses, remainingUnallocated, totalDailySpent, currentAvailableFunds };
-    }, [state.fundHistory, state.budgets, state.dailyExpenses]);
+    // Tag suggestions for every form that records transactions.
+    const allTags = useMemo(() => getAllTags(state), [state]);
+
+    // Bills that are overdue or due soon, for the notification center and the dashboard bell.
+    const [billReminderSettings, setBillReminderSettings] = useState<BillReminderSettings>(loadBillReminderSettings);
+    const billReminders = useMemo(
+        () => getBillReminders(state.bills, billReminderSettings.daysAhead),
+        [state.bills, billReminderSettings.daysAhead],
+    );
+
+    // --- OFFLINE SUPPORT ---
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    useEffect(() => {
+        saveAIQueue(aiQueue);
+    }, [aiQueue]);
+
+    // Browser notifications for the reminders, at most once a day.
+    useEffect(() => {
+        if (!isStateLoaded || !billReminderSettings.notify || billReminders.length === 0) return;
+        if (getNotificationSupport() !== 'granted' || !claimDailyBillNotification()) return;
+        billReminders.forEach(reminder => {
+            showNotification(reminder.bill.name, `${formatCurrency(reminder.bill.amount)} · ${describeBillStatus(reminder)}`, `bill-${reminder.bill.id}-${reminder.month}`)
+                .catch(error => console.error("Failed to show a notification", error));
+        });
+    }, [isStateLoaded, billReminderSettings.notify, billReminders]);
+
+    const { monthlyIncome, totalUsedOverall, totalRemaining, totalAllocated, unallocatedFunds, generalAndDailyExpenses, totalDailySpent, currentAvailableFunds } = useMemo(
+        () => getMonthlySummary(state),
+        [state.fundHistory, state.budgets, state.dailyExpenses, state.baseCurrency],
+    );
     
      // --- STREAK INCREMENT & DAILY CHECK LOGIC ---
     useEffect(() => {
@@ -445,7 +814,7 @@ const App: React.FC = () => {
         const todayStr = today.toLocaleDateString('fr-CA'); // YYYY-MM-DD
         const lastCheck = state.achievementData?.lastStreakCheck;
 
-        if (todayStr !== lastCheck) {
+        if (isStateLoaded && todayStr !== lastCheck) {
              const todayNorm = new Date(today);
             todayNorm.setHours(0, 0, 0, 0);
             const lastCheckDate = lastCheck ? new Date(lastCheck) : null;
@@ -459,7 +828,7 @@ const App: React.FC = () => {
             // Check yesterday's data for streaks
             const remainingDays = new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate() - new Date().getDate() + 1;
             const yesterdaysDailyExpenses = state.dailyExpenses.filter(exp => new Date(exp.timestamp).toDateString() === yesterday.toDateString());
-            const totalDailySpentYesterday = yesterdaysDailyExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+            const totalDailySpentYesterday = sumBy(yesterdaysDailyExpenses, (exp: Transaction) => exp.amount);
             const dailyBudgetMax = remainingDays > 0 ? currentAvailableFunds / remainingDays : currentAvailableFunds;
             const dailyBudgetRemainingYesterday = dailyBudgetMax - totalDailySpentYesterday;
             const hasSpendYesterday = allTransactions.some(t => t.type === 'remove' && new Date(t.timestamp).toDateString() === yesterday.toDateString());
@@ -495,10 +864,10 @@ const App: React.FC = () => {
                 };
             });
         }
-    }, [state.achievementData?.lastStreakCheck, totalRemaining, currentAvailableFunds, state.dailyExpenses, allTransactions, state.savingsGoals, updateState]);
+    }, [isStateLoaded, state.achievementData?.lastStreakCheck, totalRemaining, currentAvailableFunds, state.dailyExpenses, allTransactions, state.savingsGoals, updateState]);
 
 
-    const handleAddBudget = (name: string, amount: number, icon: string, color: string) => {
+    const handleAddBudget = (name: string, amount: Money, icon: string, color: string) => {
         updateState(prev => {
             const newBudget: Budget = { 
                 id: Date.now(), 
@@ -512,22 +881,23 @@ const App: React.FC = () => {
                 isTemporary: false,
             };
             return { ...prev, budgets: [...prev.budgets, newBudget] };
-        });
+        }, { description: t('action.budgetCreated', { name }) });
         setActiveModal(null);
     };
 
-    const handleEditBudget = (name: string, amount: number, icon: string, color: string) => {
+    const handleEditBudget = (name: string, amount: Money, icon: string, color: string, rolloverPolicy: BudgetRolloverPolicy, alertThresholds: number[], rolloverGoalId?: number) => {
         if (!currentBudgetId) return;
         updateState(prev => ({
             ...prev,
-            budgets: prev.budgets.map(b => b.id === currentBudgetId ? { ...b, name, totalBudget: amount, icon, color } : b)
-        }));
+            budgets: prev.budgets.map(b => b.id === currentBudgetId ? { ...b, name, totalBudget: amount, icon, color, rolloverPolicy, rolloverGoalId: rolloverPolicy === 'sweep-to-savings' ? rolloverGoalId : undefined, alertThresholds } : b)
+        }), { description: t('action.budgetEdited', { name }) });
         setActiveModal(null);
     };
 
     const handleArchiveBudget = () => {
-        if (!currentBudgetId) return;
-        openConfirm("Anda yakin ingin mengarsipkan pos ini? Anda bisa memulihkannya kapan saja dari menu Pengaturan.", () => {
+        const budget = state.budgets.find(b => b.id === currentBudgetId);
+        if (!budget) return;
+        openConfirm(t('confirm.archiveBudget'), () => {
             updateState(prev => {
                 const budgetsToReorder = prev.budgets
                     .filter(b => !b.isArchived && b.id !== currentBudgetId)
@@ -545,12 +915,14 @@ const App: React.FC = () => {
                 });
 
                 return { ...prev, budgets: newBudgets };
-            });
+            }, { description: t('action.budgetArchived', { name: budget.name }), destructive: true });
             setActiveModal(null);
         });
     };
 
     const handleRestoreBudget = (budgetId: number) => {
+        const budget = state.budgets.find(b => b.id === budgetId);
+        if (!budget) return;
         updateState(prev => {
             const numActiveBudgets = prev.budgets.filter(b => !b.isArchived).length;
             const newBudgets = prev.budgets.map(b => 
@@ -559,7 +931,7 @@ const App: React.FC = () => {
                 : b
             );
             return { ...prev, budgets: newBudgets };
-        });
+        }, { description: t('action.budgetRestored', { name: budget.name }) });
     };
 
     const handleDeleteBudgetPermanently = (budgetId: number) => {
@@ -568,15 +940,15 @@ const App: React.FC = () => {
 
         openConfirm(
             <>
-                <strong>Hapus Permanen?</strong>
+                <strong>{t('confirm.deletePermanentlyTitle')}</strong>
                 <br />
-                Anda akan menghapus pos "<strong>{budgetToDelete.name}</strong>" dan SEMUA riwayat transaksinya. Tindakan ini tidak dapat diurungkan.
+                {t('confirm.deleteBudgetBefore')}<strong>{budgetToDelete.name}</strong>{t('confirm.deleteBudgetAfter')}
             </>,
             () => {
                 updateState(prev => ({
                     ...prev,
                     budgets: prev.budgets.filter(b => b.id !== budgetId)
-                }));
+                }), { description: t('action.budgetDeleted', { name: budgetToDelete.name }), destructive: true });
             }
         );
     };
@@ -591,10 +963,12 @@ const App: React.FC = () => {
                 return b;
             });
             return { ...prev, budgets: newBudgets };
-        });
+        }, { description: t('action.budgetsReordered') });
     };
     
     const handleSetBudgetPermanence = (budgetId: number, isTemporary: boolean) => {
+        const budget = state.budgets.find(b => b.id === budgetId);
+        if (!budget) return;
         updateState(prev => {
             const updatedBudgets = prev.budgets.map(b => b.id === budgetId ? { ...b, isTemporary } : b);
             
@@ -614,53 +988,67 @@ const App: React.FC = () => {
             });
 
             return { ...prev, budgets: reorderedBudgets };
-        });
+        }, { description: t(isTemporary ? 'action.budgetMadeTemporary' : 'action.budgetMadeFixed', { name: budget.name }) });
     };
 
-    const handleAddTransaction = (desc: string, amount: number, targetId: 'daily' | number) => {
-        const newTransaction: Transaction = { desc, amount, timestamp: Date.now() };
+    // Amounts in another currency are converted to the base currency at today's rate.
+    // `onPosted` updates the state along with the new expense, e.g. to mark the bill it paid.
+    const handleAddTransaction = (desc: string, originalAmount: Money, targetId: 'daily' | number, currency: string = state.baseCurrency, tags: string[] = [], annotation: Annotated = {}, onPosted: (state: AppState, transactionId: string) => AppState = s => s) => {
+        const timestamp = Date.now();
+        const converted = toBaseAmount(state, originalAmount, currency, timestamp);
+        if (!converted) return;
+        const newTransaction: Transaction = { id: generateId(), desc, ...converted, timestamp, ...tagPart(tags), ...annotationPart(annotation.note, annotation.attachmentIds) };
+        const { amount } = newTransaction;
+        const action = { description: t('action.expenseRecorded', { desc }) };
 
         if (targetId === 'daily') {
-            updateState(prev => ({ ...prev, dailyExpenses: [...prev.dailyExpenses, newTransaction] }));
+            updateState(prev => onPosted({ ...prev, dailyExpenses: [...prev.dailyExpenses, newTransaction] }, newTransaction.id), action);
             setActiveModal(null);
         } else { // It's a budget ID
             const budget = state.budgets.find(b => b.id === targetId);
             if (!budget) return;
-            const usedAmount = budget.history.reduce((sum, item) => sum + item.amount, 0);
-            const remainingQuota = Math.max(0, budget.totalBudget - usedAmount);
+            const remainingQuota = nonNegative(getBudgetRemaining(budget));
 
             if (amount > remainingQuota) {
-                const overageAmount = amount - remainingQuota;
+                const overageAmount = subtractMoney(amount, remainingQuota);
                 const confirmOverage = () => {
-                    updateState(prev => {
-                        const newBudgets = prev.budgets.map(b => {
-                            if (b.id === targetId && remainingQuota > 0) {
-                                return { ...b, history: [...b.history, { desc, amount: remainingQuota, timestamp: Date.now() }] };
-                            }
-                            return b;
-                        });
-                        const newDailyExpenses = [...prev.dailyExpenses, { desc: `[Overage] ${desc}`, amount: overageAmount, timestamp: Date.now(), sourceCategory: budget.name }];
-                        return { ...prev, budgets: newBudgets, dailyExpenses: newDailyExpenses };
-                    });
+                    updateState(prev => onPosted(postTransaction(prev, { kind: 'budget', budgetId: targetId }, newTransaction), newTransaction.id), action);
                     setActiveModal(null);
                 }
                 setConfirmModalContent({
-                    message: <>Pengeluaran <strong>{formatCurrency(amount)}</strong> melebihi sisa kuota.<br />Sebesar <strong>{formatCurrency(overageAmount)}</strong> akan diambil dari "Dana Tersedia". Lanjutkan?</>,
+                    message: <>{t('confirm.overageExpense')} <strong>{formatCurrency(amount)}</strong> {t('confirm.overageExceeds')}<br />{t('confirm.overageTakenBefore')} <strong>{formatCurrency(overageAmount)}</strong> {t('confirm.overageTakenAfter')}</>,
                     onConfirm: confirmOverage
                 });
                 setActiveModal('confirm');
                 return;
             } else {
-                updateState(prev => ({
+                updateState(prev => onPosted({
                     ...prev,
                     budgets: prev.budgets.map(b => b.id === targetId ? { ...b, history: [...b.history, newTransaction] } : b)
-                }));
+                }, newTransaction.id), action);
                 setActiveModal(null);
             }
         }
     };
     
-    const handleSaveScannedItems = (items: ScannedItem[]) => {
+    // With `splitDesc`, the items are booked as the lines of one split transaction.
+    // `attachmentIds` (the scanned receipt) go on every item.
+    const handleSaveScannedItems = (items: ScannedItem[], splitDesc?: string, attachmentIds: string[] = []) => {
+        if (splitDesc) {
+            const lines: SplitLineInput[] = items
+                .filter(item => item.budgetId !== 'none' && item.amount > 0 && item.desc.trim())
+                .map(item => ({
+                    desc: item.desc.trim(),
+                    amount: item.amount,
+                    target: item.budgetId === 'daily' ? { kind: 'daily' } : { kind: 'budget', budgetId: Number(item.budgetId) },
+                    tags: item.tags,
+                    attachmentIds,
+                }));
+            if (lines.length === 0) return;
+            updateState(prev => postSplitTransaction(prev, splitDesc, lines, Date.now()), { description: t('action.splitRecorded', { desc: splitDesc }) });
+            setActiveModal(null);
+            return;
+        }
         updateState(prev => {
             const newDailyExpenses = [...prev.dailyExpenses];
             const newBudgets = JSON.parse(JSON.stringify(prev.budgets)); // Deep copy
@@ -669,9 +1057,12 @@ const App: React.FC = () => {
                 if (item.budgetId === 'none' || item.amount <= 0 || !item.desc.trim()) return;
                 
                 const newTransaction: Transaction = {
+                    id: generateId(),
                     desc: item.desc,
                     amount: item.amount,
-                    timestamp: Date.now()
+                    timestamp: Date.now(),
+                    ...tagPart(item.tags),
+                    ...annotationPart(undefined, attachmentIds),
                 };
 
                 if (item.budgetId === 'daily') {
@@ -685,84 +1076,54 @@ const App: React.FC = () => {
             });
 
             return { ...prev, dailyExpenses: newDailyExpenses, budgets: newBudgets };
-        });
+        }, { description: t('action.expensesRecorded', { count: items.filter(item => item.budgetId !== 'none' && item.amount > 0 && item.desc.trim()).length }) });
         setActiveModal(null);
     };
 
-    const handleFundTransaction = (type: 'add' | 'remove', desc: string, amount: number) => {
-        const newFundTransaction: FundTransaction = { type, desc, amount, timestamp: Date.now() };
-        updateState(prev => ({...prev, fundHistory: [...prev.fundHistory, newFundTransaction]}));
+    const handleFundTransaction = (type: 'add' | 'remove', desc: string, amount: Money, currency: string = state.baseCurrency, tags: string[] = [], annotation: Annotated = {}) => {
+        const timestamp = Date.now();
+        const converted = toBaseAmount(state, amount, currency, timestamp);
+        if (!converted) return;
+        const newFundTransaction: FundTransaction = { id: generateId(), type, desc, ...converted, timestamp, ...tagPart(tags), ...annotationPart(annotation.note, annotation.attachmentIds) };
+        updateState(prev => ({...prev, fundHistory: [...prev.fundHistory, newFundTransaction]}), { description: t(type === 'add' ? 'action.incomeRecorded' : 'action.expenseRecorded', { desc }) });
         setActiveModal(null);
     }
     
-    const handleDeleteTransaction = (timestamp: number, type: string, budgetId?: number) => {
-        updateState(prev => {
-            let newState = {...prev};
-            if (type === 'daily') {
-                newState.dailyExpenses = prev.dailyExpenses.filter(t => t.timestamp !== timestamp);
-            } else if (type === 'fund') {
-                newState.fundHistory = prev.fundHistory.filter(t => t.timestamp !== timestamp);
-            } else if (type === 'post' && budgetId) {
-                newState.budgets = prev.budgets.map(b => b.id === budgetId ? {...b, history: b.history.filter(h => h.timestamp !== timestamp)} : b);
-            }
-            return newState;
-        });
-        setActiveModal(null);
-    }
+    // Linked entries go too: a budget entry's [Overage] part and a savings deposit.
+    const handleDeleteTransaction = (id: string) => {
+        const desc = allTransactions.find(t => t.id === id)?.desc;
+        updateState(prev => deleteTransaction(prev, id), { description: desc ? t('action.transactionDeleted', { desc }) : t('action.transactionDeletedUnnamed'), destructive: true });
+    };
     
-    const handleDeleteGlobalTransaction = (timestamp: number) => {
-        updateState(prev => {
-            const newState = JSON.parse(JSON.stringify(prev)); // Deep copy
-
-            // Find the transaction to be deleted to check if it's a savings one
-            let transactionToDelete: FundTransaction | GlobalTransaction | undefined;
-            transactionToDelete = newState.fundHistory.find((t: FundTransaction) => t.timestamp === timestamp);
-            if (!transactionToDelete) {
-                for (const archive of newState.archives) {
-                    const found = archive.transactions.find((t: GlobalTransaction) => t.timestamp === timestamp);
-                    if (found) {
-                        transactionToDelete = found;
-                        break;
-                    }
-                }
-            }
-            
-            // If it's a savings transaction, update the corresponding goal
-            if (transactionToDelete && transactionToDelete.type === 'remove' && transactionToDelete.desc.startsWith('Tabungan: ')) {
-                const goalName = transactionToDelete.desc.substring('Tabungan: '.length);
-                const goalIndex = newState.savingsGoals.findIndex((g: SavingsGoal) => g.name === goalName);
-
-                if (goalIndex !== -1) {
-                    const goal = newState.savingsGoals[goalIndex];
-                    const originalHistoryLength = goal.history.length;
-                    goal.history = goal.history.filter((h: SavingTransaction) => h.timestamp !== timestamp);
-
-                    // Only update amount if a history item was actually removed
-                    if (goal.history.length < originalHistoryLength) {
-                        const newSavedAmount = goal.savedAmount - transactionToDelete.amount;
-                        goal.savedAmount = newSavedAmount < 0 ? 0 : newSavedAmount;
-                        goal.isCompleted = !goal.isInfinite && goal.targetAmount ? goal.savedAmount >= goal.targetAmount : false;
-                    }
-                }
-            }
-            
-            // The original deletion logic
-            newState.fundHistory = newState.fundHistory.filter((t: FundTransaction) => t.timestamp !== timestamp);
-            newState.dailyExpenses = newState.dailyExpenses.filter((t: Transaction) => t.timestamp !== timestamp);
-            newState.budgets.forEach((b: Budget) => { b.history = b.history.filter((h: Transaction) => h.timestamp !== timestamp); });
-            newState.archives.forEach((a: any) => { a.transactions = a.transactions.filter((t: any) => t.timestamp !== timestamp); });
-            
-            return newState;
-        });
-    }
+    const handleDeleteSplitTransaction = (splitId: string, desc: string) => {
+        updateState(prev => removeSplitTransaction(prev, splitId), { description: t('action.splitDeleted', { desc }), destructive: true });
+    };
+
+    // Budget moves and amount changes re-run the overage split, confirmed the same way as a new expense.
+    const handleEditTransaction = (draft: TransactionDraft) => {
+        if (editingTransactionId === null) return;
+        const id = editingTransactionId;
+        const applyEdit = () => {
+            updateState(prev => applyTransactionEdit(prev, id, draft), { description: t('action.transactionEdited', { desc: draft.desc }) });
+            setActiveModal(null);
+        };
 
-    const handleEditAsset = (newAssetAmount: number) => {
-        const difference = newAssetAmount - currentAsset;
+        const overageAmount = getEditOverage(state, id, draft);
+        if (overageAmount > 0) {
+            openConfirm(<>{t('confirm.overageAmount')} <strong>{formatCurrency(draft.amount)}</strong> {t('confirm.overageExceeds')}<br />{t('confirm.overageTakenBefore')} <strong>{formatCurrency(overageAmount)}</strong> {t('confirm.overageTakenAfter')}</>, applyEdit);
+            return;
+        }
+        applyEdit();
+    };
+
+    const handleEditAsset = (newAssetAmount: Money) => {
+        const difference = subtractMoney(newAssetAmount, currentAsset);
         if (difference !== 0) {
             const correction: GlobalTransaction = {
+                id: generateId(),
                 type: difference > 0 ? 'add' : 'remove',
                 desc: 'Koreksi Saldo',
-                amount: Math.abs(difference),
+                amount: absMoney(difference),
                 timestamp: Date.now()
             };
             updateState(prev => {
@@ -774,66 +1135,136 @@ const App: React.FC = () => {
                     newArchives.push({ month: archiveMonth, transactions: [correction] });
                 }
                 return { ...prev, archives: newArchives };
-            });
+            }, { description: t('action.balanceCorrected') });
         }
         setActiveModal(null);
     };
 
     // --- ASSET HANDLERS ---
-    const handleAddAsset = (name: string, quantity: number, pricePerUnit: number) => {
+    // Assets priced in the base currency leave `currency` unset.
+    const handleAddAsset = (name: string, quantity: number, pricePerUnit: Money, currency: string) => {
         const newAsset: Asset = {
             id: Date.now(),
             name,
             quantity,
             pricePerUnit,
+            currency: currency !== state.baseCurrency ? currency : undefined,
         };
-        updateState(prev => ({ ...prev, assets: [...prev.assets, newAsset] }));
+        updateState(prev => ({ ...prev, assets: [...prev.assets, newAsset] }), { description: t('action.assetAdded', { name }) });
         setActiveModal(null);
     };
 
-    const handleEditAssetItem = (id: number, name: string, quantity: number, pricePerUnit: number) => {
+    const handleEditAssetItem = (id: number, name: string, quantity: number, pricePerUnit: Money, currency: string) => {
         updateState(prev => ({
             ...prev,
-            assets: prev.assets.map(a => a.id === id ? { ...a, name, quantity, pricePerUnit } : a)
-        }));
+            assets: prev.assets.map(a => a.id === id ? { ...a, name, quantity, pricePerUnit, currency: currency !== prev.baseCurrency ? currency : undefined } : a)
+        }), { description: t('action.assetEdited', { name }) });
         setActiveModal(null);
     };
 
     const handleDeleteAsset = (id: number) => {
-        openConfirm("Anda yakin ingin menghapus aset ini dari daftar?", () => {
-            updateState(prev => ({ ...prev, assets: prev.assets.filter(a => a.id !== id) }));
+        const asset = state.assets.find(a => a.id === id);
+        if (!asset) return;
+        openConfirm(t('confirm.deleteAsset'), () => {
+            updateState(prev => ({ ...prev, assets: prev.assets.filter(a => a.id !== id) }), { description: t('action.assetDeleted', { name: asset.name }), destructive: true });
         });
     };
 
+    // --- CURRENCY HANDLERS ---
+    // One rate per currency and day; saving another one for the same day replaces it.
+    const handleSaveExchangeRate = (currency: string, date: string, rate: number) => {
+        updateState(prev => ({
+            ...prev,
+            exchangeRates: [...prev.exchangeRates.filter(r => r.currency !== currency || r.date !== date), { id: generateId(), currency, date, rate }],
+        }), { description: t('action.rateSaved', { currency, date: formatDate(date) }) });
+    };
+
+    const handleDeleteExchangeRate = (id: string) => {
+        const rate = state.exchangeRates.find(r => r.id === id);
+        if (!rate) return;
+        updateState(prev => ({ ...prev, exchangeRates: prev.exchangeRates.filter(r => r.id !== id) }), { description: t('action.rateDeleted', { currency: rate.currency, date: formatDate(rate.date) }), destructive: true });
+    };
+
+    const handleChangeBaseCurrency = (currency: string) => {
+        if (!changeBaseCurrency(state, currency)) return;
+        openConfirm(
+            <>{t('confirm.changeBaseCurrencyBefore')} <strong>{currency}</strong>{t('confirm.changeBaseCurrencyAfter', { currency: state.baseCurrency })}</>,
+            () => {
+                updateState(prev => changeBaseCurrency(prev, currency) || prev, { description: t('action.baseCurrencyChanged', { currency }), destructive: true });
+                setActiveModal('currency');
+            },
+        );
+    };
+
+    // --- BILL REMINDER SETTINGS ---
+    // Turning notifications on asks the browser for permission first; they stay off when it is refused.
+    const handleChangeBillReminderSettings = async (next: BillReminderSettings) => {
+        const settings = next.notify && !billReminderSettings.notify && !(await requestNotificationPermission())
+            ? { ...next, notify: false }
+            : next;
+        saveBillReminderSettings(settings);
+        setBillReminderSettings(settings);
+    };
+
+    const handleChangeBudgetAlertSettings = async (next: BudgetAlertSettings) => {
+        const settings = next.notify && !budgetAlertSettings.notify && !(await requestNotificationPermission())
+            ? { ...next, notify: false }
+            : next;
+        saveBudgetAlertSettings(settings);
+        setBudgetAlertSettings(settings);
+    };
+
+    // Opening the notification center marks every alert as seen.
+    const openNotificationCenter = () => {
+        const now = Date.now();
+        saveAlertsSeenAt(now);
+        setAlertsSeenAt(now);
+        setActiveModal('notifications');
+    };
+
+    // --- LANGUAGE ---
+    const handleChangeLocale = (next: Locale) => {
+        saveLocale(next);
+        setLocaleState(next);
+    };
+
+    const handleSaveAIProviderSettings = (settings: AIProviderSettings) => {
+        saveAIProviderSettings(settings);
+        setAiProviderSettings(settings);
+        setActiveModal('settings');
+    };
+
     // --- SAVINGS GOAL HANDLERS ---
-    const handleAddSavingsGoal = (name: string, isInfinite: boolean, targetAmount?: number) => {
+    const handleAddSavingsGoal = (name: string, isInfinite: boolean, targetAmount?: Money) => {
         const newGoal: SavingsGoal = {
             id: Date.now(),
             name,
             targetAmount: isInfinite ? undefined : targetAmount,
             isInfinite: isInfinite,
-            savedAmount: 0,
+            savedAmount: ZERO,
             history: [],
             createdAt: Date.now(),
             isCompleted: false,
         };
-        updateState(prev => ({ ...prev, savingsGoals: [...prev.savingsGoals, newGoal] }));
+        updateState(prev => ({ ...prev, savingsGoals: [...prev.savingsGoals, newGoal] }), { description: t('action.savingsGoalCreated', { name }) });
         setActiveModal(null);
     };
 
-    const handleAddSavings = (goalId: number, amount: number) => {
+    const handleAddSavings = (goalId: number, amount: Money) => {
         const goal = state.savingsGoals.find(g => g.id === goalId);
         if (!goal) return;
 
         // Check if there are enough unallocated funds
         if (amount > currentAvailableFunds) {
-            openConfirm(<>Dana tersedia tidak mencukupi. Sisa dana tersedia hanya <strong>{formatCurrency(currentAvailableFunds)}</strong>.</>, () => {});
+            openConfirm(<>{t('confirm.insufficientFunds')} <strong>{formatCurrency(currentAvailableFunds)}</strong>.</>, () => {});
             return;
         }
 
         updateState(prev => {
             const transactionTimestamp = Date.now();
+            const fundTransactionId = generateId();
             const newFundHistory = [...prev.fundHistory, {
+                id: fundTransactionId,
                 type: 'remove' as const,
                 desc: `Tabungan: ${goal.name}`,
                 amount: amount,
@@ -842,8 +1273,8 @@ const App: React.FC = () => {
 
             const newSavingsGoals = prev.savingsGoals.map(g => {
                 if (g.id === goalId) {
-                    const newSavedAmount = g.savedAmount + amount;
-                    const newHistory: SavingTransaction = { amount, timestamp: transactionTimestamp };
+                    const newSavedAmount = sumMoney([g.savedAmount, amount]);
+                    const newHistory: SavingTransaction = { id: generateId(), amount, timestamp: transactionTimestamp, fundTransactionId };
                     return {
                         ...g,
                         savedAmount: newSavedAmount,
@@ -855,7 +1286,7 @@ const App: React.FC = () => {
             });
 
             return { ...prev, fundHistory: newFundHistory, savingsGoals: newSavingsGoals };
-        });
+        }, { description: t('action.savingsAdded', { name: goal.name }) });
         setActiveModal(null);
     };
 
@@ -863,21 +1294,23 @@ const App: React.FC = () => {
         const goal = state.savingsGoals.find(g => g.id === goalId);
         if (!goal || !goal.isInfinite) return;
 
-        openConfirm(`Anda yakin ingin "membuka" tabungan "${goal.name}"? Dana sebesar ${formatCurrency(goal.savedAmount)} akan dikembalikan ke dana tersedia dan tabungan ini akan menjadi kosong.`, () => {
+        openConfirm(t('confirm.openSavingsGoal', { name: goal.name, amount: formatCurrency(goal.savedAmount) }), () => {
              updateState(prev => {
+                const timestamp = Date.now();
                 const newFundHistory = goal.savedAmount > 0 ? [...prev.fundHistory, {
+                    id: generateId(),
                     type: 'add' as const,
                     desc: `Dana dari tabungan: ${goal.name}`,
                     amount: goal.savedAmount,
-                    timestamp: Date.now(),
+                    timestamp,
                 }] : prev.fundHistory;
 
                 const newSavingsGoals = prev.savingsGoals.map(g => 
-                    g.id === goalId ? { ...g, savedAmount: 0, history: [], isCompleted: false } : g
+                    g.id === goalId ? { ...g, savedAmount: ZERO, history: [], isCompleted: false, openedAt: timestamp } : g
                 );
 
                 return { ...prev, fundHistory: newFundHistory, savingsGoals: newSavingsGoals };
-            });
+            }, { description: t('action.savingsGoalOpened', { name: goal.name }), destructive: true });
         });
     };
 
@@ -885,33 +1318,163 @@ const App: React.FC = () => {
         const goal = state.savingsGoals.find(g => g.id === goalId);
         if (!goal) return;
 
-        const message = goal.isInfinite ?
-            `Anda yakin ingin menghapus celengan "${goal.name}"? Dana sebesar ${formatCurrency(goal.savedAmount)} akan dikembalikan.` :
-            `Anda yakin ingin menghapus celengan "${goal.name}"? Dana sebesar ${formatCurrency(goal.savedAmount)} akan dikembalikan ke dana tersedia.`;
+        const message = t(goal.isInfinite ? 'confirm.deleteFlexibleSavingsGoal' : 'confirm.deleteSavingsGoal', { name: goal.name, amount: formatCurrency(goal.savedAmount) });
 
         openConfirm(message, () => {
              updateState(prev => {
+                const timestamp = Date.now();
                 const newFundHistory = goal.savedAmount > 0 ? [...prev.fundHistory, {
+                    id: generateId(),
                     type: 'add' as const,
                     desc: `Batal Tabungan: ${goal.name}`,
                     amount: goal.savedAmount,
-                    timestamp: Date.now(),
+                    timestamp,
                 }] : prev.fundHistory;
 
                 const newSavingsGoals = prev.savingsGoals.filter(g => g.id !== goalId);
+                const deletedSavingsGoals = [...prev.deletedSavingsGoals.filter(d => d.name !== goal.name), { name: goal.name, deletedAt: timestamp }];
 
-                return { ...prev, fundHistory: newFundHistory, savingsGoals: newSavingsGoals };
-            });
+                return { ...prev, fundHistory: newFundHistory, savingsGoals: newSavingsGoals, deletedSavingsGoals };
+            }, { description: t('action.savingsGoalDeleted', { name: goal.name }), destructive: true });
             setActiveModal(null);
         });
     };
 
-    const handleExportData = () => {
+    // --- RECURRING TRANSACTION HANDLERS ---
+    // Saving or resuming a rule runs the scheduler right away, so an occurrence due today is posted immediately.
+    const handleSaveRecurringRule = (data: RecurringRuleFormData) => {
+        const today = toDateKey(new Date());
+        updateState(prev => {
+            let recurringRules: RecurringRule[];
+            if (currentRecurringRuleId) {
+                recurringRules = prev.recurringRules.map(r => {
+                    if (r.id !== currentRecurringRuleId) return r;
+                    const updated = { ...r, ...data };
+                    // Keep already-posted occurrences behind us when the schedule changes.
+                    const from = r.nextDueDate > data.startDate ? r.nextDueDate : data.startDate;
+                    return { ...updated, nextDueDate: getOccurrenceOnOrAfter(updated, from) };
+                });
+            } else {
+                const newRule: RecurringRule = {
+                    ...data,
+                    id: Date.now(),
+                    nextDueDate: data.startDate,
+                    isPaused: false,
+                    skippedDates: [],
+                    amountOverrides: {},
+                    createdAt: Date.now(),
+                };
+                recurringRules = [...prev.recurringRules, newRule];
+            }
+            return postDueRecurringTransactions({ ...prev, recurringRules }).state;
+        }, { description: t(currentRecurringRuleId ? 'action.recurringEdited' : 'action.recurringCreated', { desc: data.desc }) });
+        if (!currentRecurringRuleId && data.startDate < today) {
+            openConfirm(t('confirm.recurringBackfilled'), () => {});
+        } else {
+            setActiveModal(null);
+        }
+    };
+
+    const handleToggleRecurringPause = (ruleId: number) => {
+        const rule = state.recurringRules.find(r => r.id === ruleId);
+        if (!rule) return;
+        const today = toDateKey(new Date());
+        updateState(prev => {
+            const recurringRules = prev.recurringRules.map(r => {
+                if (r.id !== ruleId) return r;
+                if (!r.isPaused) return { ...r, isPaused: true };
+                // Occurrences missed while paused are not posted retroactively.
+                const from = r.nextDueDate > today ? r.nextDueDate : today;
+                return { ...r, isPaused: false, nextDueDate: getOccurrenceOnOrAfter(r, from) };
+            });
+            return postDueRecurringTransactions({ ...prev, recurringRules }).state;
+        }, { description: t(rule.isPaused ? 'action.recurringResumed' : 'action.recurringPaused', { desc: rule.desc }) });
+    };
+
+    const handleToggleRecurringSkip = (ruleId: number, date: string) => {
+        updateState(prev => ({
+            ...prev,
+            recurringRules: prev.recurringRules.map(r => r.id === ruleId ? {
+                ...r,
+                skippedDates: r.skippedDates.includes(date) ? r.skippedDates.filter(d => d !== date) : [...r.skippedDates, date],
+            } : r),
+        }), { description: t('action.recurringScheduleChanged', { date: formatDate(date) }) });
+    };
+
+    const handleSetRecurringOverride = (ruleId: number, date: string, amount: Money | null) => {
+        updateState(prev => ({
+            ...prev,
+            recurringRules: prev.recurringRules.map(r => {
+                if (r.id !== ruleId) return r;
+                const { [date]: _removed, ...amountOverrides } = r.amountOverrides;
+                return { ...r, amountOverrides: amount === null || amount === r.amount ? amountOverrides : { ...amountOverrides, [date]: amount } };
+            }),
+        }), { description: t('action.recurringAmountChanged', { date: formatDate(date) }) });
+    };
+
+    const handleDeleteRecurringRule = (ruleId: number) => {
+        const rule = state.recurringRules.find(r => r.id === ruleId);
+        if (!rule) return;
+        openConfirm(t('confirm.deleteRecurring', { desc: rule.desc }), () => {
+            updateState(prev => ({ ...prev, recurringRules: prev.recurringRules.filter(r => r.id !== ruleId) }), { description: t('action.recurringDeleted', { desc: rule.desc }), destructive: true });
+        });
+    };
+
+    // --- BILL HANDLERS ---
+    const handleSaveBill = (data: BillFormData) => {
+        updateState(prev => ({
+            ...prev,
+            bills: currentBillId
+                ? prev.bills.map(b => b.id === currentBillId ? { ...b, ...data } : b)
+                : [...prev.bills, { ...data, id: Date.now(), payments: {}, createdAt: Date.now() }],
+        }), { description: t(currentBillId ? 'action.billEdited' : 'action.billCreated', { name: data.name }) });
+        setActiveModal(null);
+    };
+
+    const handleDeleteBill = (billId: number) => {
+        const bill = state.bills.find(b => b.id === billId);
+        if (!bill) return;
+        openConfirm(t('confirm.deleteBill', { name: bill.name }), () => {
+            updateState(prev => ({ ...prev, bills: prev.bills.filter(b => b.id !== billId) }), { description: t('action.billDeleted', { name: bill.name }), destructive: true });
+        });
+    };
+
+    // Paying posts the bill as an expense from its budget (daily money when it has none
+    // or the budget was archived) and links that expense to the month.
+    const handleMarkBillPaid = (billId: number, month: string) => {
+        const bill = state.bills.find(b => b.id === billId);
+        if (!bill) return;
+        const budget = state.budgets.find(b => b.id === bill.budgetId && !b.isArchived);
+        handleAddTransaction(bill.name, bill.amount, budget ? budget.id : 'daily', state.baseCurrency, [], {},
+            (next, transactionId) => markBillPaid(next, billId, month, transactionId));
+    };
+
+    // The expense that paid it stays; delete it from the reports if it was a mistake.
+    const handleMarkBillUnpaid = (billId: number, month: string) => {
+        const bill = state.bills.find(b => b.id === billId);
+        if (!bill) return;
+        updateState(prev => markBillUnpaid(prev, billId, month), { description: t('action.billMarkedUnpaid', { name: bill.name, month: formatMonth(month) }) });
+    };
+
+    // With a passphrase the export is written in the encrypted format (see utils/crypto.ts);
+    // with photos it is a ZIP archive (see utils/attachments.ts).
+    const handleExportData = async (passphrase: string | null, includeAttachments = false) => {
         const dataStr = JSON.stringify(state, null, 2);
-        const dataBlob = new Blob([dataStr], {type: "application/json"});
+        let dataBlob: Blob;
+        let extension: string;
+        if (passphrase) {
+            dataBlob = new Blob([await encryptExport(dataStr, passphrase)], {type: "application/json"});
+            extension = ENCRYPTED_EXTENSION;
+        } else if (includeAttachments) {
+            dataBlob = await createAttachmentArchive(dataStr, state);
+            extension = ATTACHMENT_ARCHIVE_EXTENSION;
+        } else {
+            dataBlob = new Blob([dataStr], {type: "application/json"});
+            extension = '.json';
+        }
         const url = URL.createObjectURL(dataBlob);
         const link = document.createElement('a');
-        link.download = `data_anggaran_${new Date().toISOString().slice(0, 10)}.json`;
+        link.download = `data_anggaran_${new Date().toISOString().slice(0, 10)}${extension}`;
         link.href = url;
         document.body.appendChild(link);
         link.click();
@@ -920,30 +1483,40 @@ const App: React.FC = () => {
         setActiveModal(null);
     };
 
+    // Replacing or merging is chosen in the import preview once the file has been read.
     const handleTriggerImport = () => {
-        openConfirm(
-            <><strong>PERINGATAN!</strong><br />Mengimpor data akan menghapus semua data saat ini. Lanjutkan?</>,
-            () => {
-                importFileInputRef.current?.click();
-            }
-        );
+        importFileInputRef.current?.click();
     };
 
     const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
 
+        // The photos of a ZIP export are stored right away; if the import is cancelled
+        // they are pruned as orphans on the next start.
+        if (isAttachmentArchive(file)) {
+            file.arrayBuffer()
+                .then(readAttachmentArchive)
+                .then(text => previewImport(JSON.parse(text), t('import.fileSource', { name: file.name }), true))
+                .catch(err => openConfirm(err instanceof MigrationError || err instanceof ZipError ? err.message : t('import.loadFailed'), () => {}))
+                .finally(() => {
+                    if (importFileInputRef.current) importFileInputRef.current.value = '';
+                });
+            return;
+        }
+
         const reader = new FileReader();
         reader.onload = (e) => {
             try {
-                const importedState = JSON.parse(e.target.result as string);
-                if (typeof importedState.budgets !== 'object' || typeof importedState.archives !== 'object') {
-                    throw new Error("Format file tidak valid.");
+                const data = JSON.parse(e.target.result as string);
+                if (isEncryptedExport(data)) {
+                    setEncryptedImport({ fileName: file.name, envelope: data });
+                    setActiveModal('decryptImport');
+                    return;
                 }
-                setState({ ...initialState, ...importedState });
-                setCurrentPage('dashboard');
+                previewImport(data, t('import.fileSource', { name: file.name }), true);
             } catch (err) {
-                openConfirm("Gagal memuat file. Pastikan file cadangan tidak rusak dan berformat .json yang benar.", () => {});
+                openConfirm(err instanceof MigrationError ? err.message : t('import.loadFailed'), () => {});
             } finally {
                 if(importFileInputRef.current) importFileInputRef.current.value = '';
             }
@@ -951,122 +1524,234 @@ const App: React.FC = () => {
         reader.readAsText(file);
     };
 
-    const handleManualBackup = () => {
-        const newBackupKey = `${BACKUP_PREFIX}${Date.now()}`;
-        localStorage.setItem(newBackupKey, JSON.stringify(state));
+    // Rejects with DecryptionError on a wrong passphrase so the modal can ask again.
+    const handleDecryptImport = async (passphrase: string) => {
+        if (!encryptedImport) return;
+        const data = JSON.parse(await decryptExport(encryptedImport.envelope, passphrase));
+        setEncryptedImport(null);
+        try {
+            previewImport(data, t('import.fileSource', { name: encryptedImport.fileName }), true);
+        } catch (err) {
+            openConfirm(err instanceof MigrationError ? err.message : t('import.decryptedLoadFailed'), () => {});
+        }
+    };
+
+    const handleBankFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const rows = parseCsv(e.target.result as string);
+            if (rows.length === 0) {
+                openConfirm(t('import.csvEmpty'), () => {});
+            } else {
+                setBankStatement({ fileName: file.name, rows });
+                setActiveModal('bankImport');
+            }
+            if (bankFileInputRef.current) bankFileInputRef.current.value = '';
+        };
+        reader.readAsText(file);
+    };
 
-        const allBackups = listInternalBackups();
+    const handleSaveBankRows = (rows: BankRow[]) => {
+        const count = rows.filter(r => r.include).length;
+        updateState(prev => postBankRows(prev, rows), { description: t('action.bankRowsImported', { count }) });
+        setBankStatement(null);
+        openConfirm(t('import.bankRowsSaved', { count }), () => {});
+    };
 
-        // Rotation
-        if (allBackups.length > MAX_BACKUPS) {
-            const oldestBackup = allBackups[allBackups.length - 1]; // list is sorted descending, so last is oldest
-            localStorage.removeItem(oldestBackup.key);
+    const handleManualBackup = async () => {
+        if (!storageRef.current) return;
+        try {
+            setInternalBackups(await createInternalBackup(storageRef.current, state));
+            setActiveModal('backupRestore');
+        } catch (error) {
+            handleStorageError(error);
         }
-        
-        // Update UI state and show the modal
-        setInternalBackups(listInternalBackups());
-        setActiveModal('backupRestore');
     };
 
-    const handleRestoreBackup = (key: string) => {
-        openConfirm("Memulihkan cadangan ini akan menimpa semua data Anda saat ini. Tindakan ini tidak dapat diurungkan.", () => {
-            const backupData = localStorage.getItem(key);
-            if (backupData) {
-                try {
-                    const importedState = JSON.parse(backupData);
-                    if (typeof importedState.budgets !== 'object' || typeof importedState.archives !== 'object') {
-                       throw new Error("Format cadangan tidak valid.");
-                    }
-                    setState({ ...initialState, ...importedState });
-                    setActiveModal(null);
-                    setCurrentPage('dashboard');
-                } catch (err) {
-                    openConfirm("Gagal memuat cadangan. File mungkin rusak.", () => {});
-                }
-            } else {
-                 openConfirm("Gagal menemukan data cadangan.", () => {});
+    const handleRestoreBackup = async (key: string) => {
+        const backupData = await storageRef.current?.readBackup(key);
+        if (!backupData) {
+            openConfirm(t('backup.notFound'), () => {});
+            return;
+        }
+        try {
+            const timestamp = parseInt(key.split('_')[1], 10);
+            const label = internalBackups.find(b => b.key === key)?.label;
+            const date = formatDateTime(timestamp);
+            previewImport(backupData, label ? t('backup.labelledSource', { label, date }) : t('backup.source', { date }));
+        } catch (err) {
+            openConfirm(err instanceof MigrationError ? err.message : t('backup.loadFailed'), () => {});
+        }
+    };
+
+    const handleLabelBackup = async (key: string, label: string) => {
+        const storage = storageRef.current;
+        if (!storage) return;
+        try {
+            await storage.setBackupLabel(key, label);
+            setInternalBackups(await storage.listBackups());
+        } catch (error) {
+            handleStorageError(error);
+        }
+    };
+
+    const handleDeleteBackup = (key: string) => {
+        const storage = storageRef.current;
+        if (!storage) return;
+        openConfirm(t('backup.confirmDelete'), async () => {
+            try {
+                await storage.deleteBackup(key);
+                setInternalBackups(await storage.listBackups());
+                setActiveModal('backupRestore');
+            } catch (error) {
+                handleStorageError(error);
             }
         });
     };
 
+    // Applies a new retention policy right away, after confirming if it deletes backups.
+    const handleSaveRetentionPolicy = (policy: RetentionPolicy) => {
+        const storage = storageRef.current;
+        if (!storage) return;
+        const apply = async () => {
+            try {
+                saveRetentionPolicy(policy);
+                setInternalBackups(await pruneBackups(storage, policy));
+                setActiveModal('backupRestore');
+            } catch (error) {
+                handleStorageError(error);
+            }
+        };
+        const prunedCount = selectBackupsToPrune(internalBackups, policy).length;
+        if (prunedCount > 0) {
+            openConfirm(t('backup.confirmPrune', { count: prunedCount }), apply);
+        } else {
+            apply();
+        }
+    };
+
+    // Validates, repairs and migrates incoming data, then shows what would change
+    // before anything is replaced. Throws MigrationError for data that cannot be migrated.
+    const previewImport = (raw: any, source: string, allowMerge = false) => {
+        const { issues, repaired } = validateState(raw);
+        if (!repaired) {
+            openConfirm(
+                <div>
+                    <p className="font-bold mb-2">{t('import.corrupt')}</p>
+                    <IssueList issues={issues} />
+                </div>,
+                () => {}
+            );
+            return;
+        }
+        const { state: incoming, applied } = migrateState(repaired, initialState);
+        setPendingImport({ source, state: incoming, issues, migrations: applied, allowMerge });
+        setActiveModal('importPreview');
+    };
+
+    const handleConfirmImport = (mode: ImportMode) => {
+        if (!pendingImport) return;
+        const incoming = pendingImport.state;
+        const prev = stateRef.current;
+        commitState(mode === 'merge' ? mergeStates(prev, incoming).state : incoming);
+        recordAction(prev, { description: mode === 'merge' ? t('action.dataMerged') : t('action.dataReplaced'), destructive: true });
+        setPendingImport(null);
+        setActiveModal(null);
+        setCurrentPage('dashboard');
+    };
+
     const handleResetMonthlyData = () => {
-        openConfirm('PERINGATAN: Ini akan menghapus semua data bulan ini TANPA diarsipkan. Hanya untuk uji coba. Lanjutkan?', () => {
+        openConfirm(t('confirm.resetMonth'), () => {
             updateState(prev => ({
                 ...prev,
                 fundHistory: [],
                 dailyExpenses: [],
                 budgets: prev.budgets.map(b => ({...b, history: []}))
-            }));
+            }), { description: t('action.monthReset'), destructive: true });
             setActiveModal(null);
         })
     }
     
     const handleResetAllData = () => {
         openConfirm(
-            <><strong>HAPUS SEMUA DATA?</strong><br/>Tindakan ini tidak dapat diurungkan dan akan menghapus semua anggaran, transaksi, dan pencapaian Anda secara permanen.</>,
-            () => {
-                localStorage.removeItem(`budgetAppState_v${APP_VERSION}`);
-                // Also remove internal backups
-                Object.keys(localStorage)
-                    .filter(key => key.startsWith(BACKUP_PREFIX))
-                    .forEach(key => localStorage.removeItem(key));
+            <><strong>{t('confirm.resetAllTitle')}</strong><br/>{t('confirm.resetAll')}</>,
+            async () => {
+                // Stop saving first so the current state is not written back before the reload.
+                setIsStateLoaded(false);
+                await storageRef.current?.clearAll();
                 window.location.reload();
             }
         );
     };
 
     // --- SCAN RECEIPT LOGIC ---
+    const requestReceiptScan = async (image: Blob): Promise<ScannedItem[]> => {
+        const base64Data = await fileToBase64(image);
+        const prompt = "Analyze the receipt image and extract only the individual purchased items with their corresponding prices. Exclude any lines that are not items, such as totals, subtotals, taxes, discounts, or store information. All prices must be positive numbers. Ignore any hyphens or stray characters that are not part of the item's name or price. Your response must be a valid JSON array of objects. Each object must contain 'desc' (string) for the item name and 'amount' (number) for the price. Do not include anything else in your response besides the JSON array.";
+
+        const schema: AISchema = {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                desc: { type: 'string', description: "Nama barang yang dibeli." },
+                amount: { type: 'number', description: "Harga barang sebagai angka positif. Abaikan karakter non-numerik seperti tanda hubung (-)." },
+              },
+              required: ["desc", "amount"],
+            },
+        };
+        
+        const resultData = await aiProvider.generateJSON<any[]>({
+            prompt,
+            schema,
+            images: [{ mimeType: image.type || 'image/jpeg', data: base64Data }],
+        });
+        
+        if (!Array.isArray(resultData)) throw new Error("AI response is not in the expected format.");
+        // Ensure all amounts are positive and data is clean
+        return resultData.map(item => ({
+            ...item,
+            amount: toMoney(Math.abs(Number(item.amount) || 0), state.baseCurrency),
+            budgetId: 'none'
+        })).filter(item => item.amount > 0 && item.desc && item.desc.trim() !== ''); // Filter out items with 0 amount or empty description
+    };
+
+    // Offline, the receipt photo is stored and the scan waits in the AI queue.
     const handleImageFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
         setActiveModal('scanResult');
         setIsScanning(true);
         setScanError(null);
+        setScanNotice(null);
         setScannedItems([]);
-        try {
-            const base64Data = await fileToBase64(file);
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
-            const imagePart = {
-                inlineData: { mimeType: file.type, data: base64Data },
-            };
-            const textPart = {
-                text: "Analyze the receipt image and extract only the individual purchased items with their corresponding prices. Exclude any lines that are not items, such as totals, subtotals, taxes, discounts, or store information. All prices must be positive numbers. Ignore any hyphens or stray characters that are not part of the item's name or price. Your response must be a valid JSON array of objects. Each object must contain 'desc' (string) for the item name and 'amount' (number) for the price. Do not include anything else in your response besides the JSON array."
-            };
-
-            const schema = {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    desc: { type: Type.STRING, description: "Nama barang yang dibeli." },
-                    amount: { type: Type.NUMBER, description: "Harga barang sebagai angka positif. Abaikan karakter non-numerik seperti tanda hubung (-)." },
-                  },
-                  required: ["desc", "amount"],
-                },
-            };
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: { parts: [imagePart, textPart] },
-                config: { responseMimeType: 'application/json', responseSchema: schema },
+        setScanAttachmentId(null);
+        const savedAttachment = saveAttachment(file)
+            .then(id => {
+                setScanAttachmentId(id);
+                return id;
+            })
+            .catch(error => {
+                console.error("Failed to keep the receipt photo", error);
+                return null;
             });
-            
-            const resultData = JSON.parse(response.text);
-            if (Array.isArray(resultData)) {
-                // Ensure all amounts are positive and data is clean
-                const sanitizedData = resultData.map(item => ({
-                    ...item,
-                    amount: Math.abs(Number(item.amount) || 0),
-                    budgetId: 'none'
-                })).filter(item => item.amount > 0 && item.desc && item.desc.trim() !== ''); // Filter out items with 0 amount or empty description
-                setScannedItems(sanitizedData);
-            } else {
-                throw new Error("AI response is not in the expected format.");
-            }
+        const queueScan = async () => {
+            const attachmentId = await savedAttachment;
+            if (!attachmentId) return false;
+            enqueueAIRequest({ kind: 'scan', attachmentId });
+            setScanNotice(t('aiQueue.queued'));
+            return true;
+        };
+        try {
+            if (!navigator.onLine && aiProvider.requiresConnection && await queueScan()) return;
+            setScannedItems(await requestReceiptScan(file));
         } catch (error) {
+            if (isOfflineError(error) && await queueScan()) return;
             console.error("Error scanning receipt:", error);
-            setScanError("Gagal memindai struk. Coba lagi dengan gambar yang lebih jelas.");
+            setScanError(t('ai.scanFailed'));
         } finally {
             setIsScanning(false);
             if (scanFileInputRef.current) scanFileInputRef.current.value = '';
@@ -1074,62 +1759,145 @@ const App: React.FC = () => {
     };
 
     // --- SMART INPUT LOGIC ---
+    const requestSmartInput = async (text: string): Promise<ScannedItem[]> => {
+        const budgetCategories = [...state.budgets.filter(b => !b.isArchived).map(b => b.name), 'Uang Harian'];
+        
+        const schema: AISchema = {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    desc: { type: 'string' },
+                    amount: { type: 'number' },
+                    category: { type: 'string', enum: budgetCategories },
+                },
+                required: ["desc", "amount", "category"],
+            },
+        };
+
+        const prompt = t('ai.smartInputPrompt', { categories: budgetCategories.join(', '), fallback: 'Uang Harian', text });
+        
+        const resultData = await aiProvider.generateJSON<any[]>({ prompt, schema });
+        if (!Array.isArray(resultData)) throw new Error("Format respons AI tidak terduga.");
+        return resultData.map(item => {
+            const matchedBudget = state.budgets.find(b => b.name === item.category);
+            let budgetId: ScannedItem['budgetId'] = 'daily';
+            if (matchedBudget) {
+                budgetId = matchedBudget.id;
+            }
+            return { desc: item.desc, amount: toMoney(Number(item.amount) || 0, state.baseCurrency), budgetId: budgetId };
+        });
+    };
+
+    // Without the AI the text is read by the local parser; only what it cannot read is queued.
     const handleProcessSmartInput = async (text: string) => {
         if (!text.trim()) {
-            setSmartInputError("Mohon masukkan deskripsi transaksi.");
+            setSmartInputError(t('ai.smartInputEmpty'));
             return;
         }
-        setIsProcessingSmartInput(true);
         setSmartInputError(null);
+        setSmartInputNotice(null);
         setSmartInputResult([]);
+        const queueText = () => {
+            enqueueAIRequest({ kind: 'smartInput', text });
+            setSmartInputNotice(t('aiQueue.queued'));
+        };
+        const parseLocally = () => {
+            const items = parseSmartInput(text, state);
+            if (items.length === 0) return false;
+            setSmartInputResult(items);
+            setSmartInputNotice(t('smartInput.parsedLocally'));
+            return true;
+        };
+        if (!navigator.onLine && aiProvider.requiresConnection) {
+            if (!parseLocally()) queueText();
+            return;
+        }
+        setIsProcessingSmartInput(true);
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const budgetCategories = [...state.budgets.filter(b => !b.isArchived).map(b => b.name), 'Uang Harian'];
-            
-            const schema = {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        desc: { type: Type.STRING },
-                        amount: { type: Type.NUMBER },
-                        category: { type: Type.STRING, enum: budgetCategories },
-                    },
-                    required: ["desc", "amount", "category"],
-                },
-            };
-
-            const prompt = `Analisis teks berikut yang berisi transaksi keuangan dalam Bahasa Indonesia. Ekstrak setiap transaksi individual (deskripsi dan jumlahnya). Untuk setiap transaksi, tentukan kategori anggaran yang paling sesuai dari daftar ini: [${budgetCategories.join(', ')}]. Jika tidak ada yang cocok, gunakan "Uang Harian". Respons Anda HARUS berupa array JSON yang valid dari objek, di mana setiap objek memiliki kunci "desc", "amount", dan "category". Teks: "${text}"`;
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: { parts: [{ text: prompt }] },
-                config: { responseMimeType: 'application/json', responseSchema: schema },
-            });
-
-            const resultData = JSON.parse(response.text);
-            if (Array.isArray(resultData)) {
-                const mappedItems: ScannedItem[] = resultData.map(item => {
-                    const matchedBudget = state.budgets.find(b => b.name === item.category);
-                    let budgetId: ScannedItem['budgetId'] = 'daily';
-                    if (matchedBudget) {
-                        budgetId = matchedBudget.id;
-                    }
-                    return { desc: item.desc, amount: item.amount, budgetId: budgetId };
-                });
-                setSmartInputResult(mappedItems);
+            setSmartInputResult(await requestSmartInput(text));
+        } catch (error) {
+            if (isOfflineError(error)) {
+                if (!parseLocally()) queueText();
             } else {
-                throw new Error("Format respons AI tidak terduga.");
+                console.error("Error processing smart input:", error);
+                if (!parseLocally()) setSmartInputError(t('ai.smartInputFailed'));
             }
-        } catch (error) {
-            console.error("Error processing smart input:", error);
-            setSmartInputError("Gagal memproses input. Coba lagi dengan format yang lebih sederhana.");
         } finally {
             setIsProcessingSmartInput(false);
         }
     };
-    
+
+    // --- AI REQUEST QUEUE ---
+    const enqueueAIRequest = (input: QueuedAIRequestInput) => {
+        setAiQueue(prev => [...prev, createQueuedAIRequest(input)]);
+    };
+
+    // Sends queued requests one at a time while online. A lost connection leaves the
+    // request waiting: the next 'online' event or a retry with backoff tries again. An
+    // error of the service marks it failed until the user retries.
+    const isProcessingQueueRef = useRef(false);
+    const queueRetryRef = useRef<{ attempt: number; timer?: ReturnType<typeof setTimeout> }>({ attempt: 0 });
+    const [queueRetryCount, setQueueRetryCount] = useState(0);
+    useEffect(() => () => clearTimeout(queueRetryRef.current.timer), []);
+    useEffect(() => {
+        const next = getNextPendingRequest(aiQueue);
+        if (!isStateLoaded || (!isOnline && aiProvider.requiresConnection) || !next || isProcessingQueueRef.current) return;
+        isProcessingQueueRef.current = true;
+        const process = async () => {
+            if (next.kind === 'smartInput') return requestSmartInput(next.text);
+            const image = await readAttachmentImage(next.attachmentId);
+            if (!image) throw new Error("Foto struk tidak ditemukan.");
+            return requestReceiptScan(image);
+        };
+        process().then(
+            result => {
+                isProcessingQueueRef.current = false;
+                queueRetryRef.current.attempt = 0;
+                setAiQueue(prev => prev.map(r => r.id === next.id ? { ...r, result } : r));
+            },
+            error => {
+                isProcessingQueueRef.current = false;
+                if (isOfflineError(error)) {
+                    const retry = queueRetryRef.current;
+                    clearTimeout(retry.timer);
+                    retry.timer = setTimeout(() => setQueueRetryCount(count => count + 1), getRetryDelay(retry.attempt++));
+                    return;
+                }
+                console.error("Failed to process a queued AI request", error);
+                setAiQueue(prev => prev.map(r => r.id === next.id ? { ...r, failed: true } : r));
+            },
+        );
+    }, [aiQueue, isOnline, isStateLoaded, aiProvider, queueRetryCount]);
+
+    // Opens an answered request like a fresh result; it leaves the queue once opened.
+    const handleReviewQueuedRequest = (id: string) => {
+        const request = aiQueue.find(r => r.id === id);
+        if (!request?.result) return;
+        setAiQueue(prev => prev.filter(r => r.id !== id));
+        if (request.kind === 'smartInput') {
+            setSmartInputError(null);
+            setSmartInputNotice(null);
+            setSmartInputResult(request.result);
+            setActiveModal('smartInput');
+        } else {
+            setScanError(null);
+            setScanNotice(null);
+            setScannedItems(request.result);
+            setScanAttachmentId(request.attachmentId);
+            setActiveModal('scanResult');
+        }
+    };
+
+    const handleRetryQueuedRequest = (id: string) => {
+        setAiQueue(prev => prev.map(r => r.id === id ? { ...r, failed: false } : r));
+    };
+
+    const handleDeleteQueuedRequest = (id: string) => {
+        setAiQueue(prev => prev.filter(r => r.id !== id));
+    };
+
     // --- AI DEEPER INTEGRATION ---
     const handleGetAIAdvice = async () => {
         setActiveModal('aiAdvice');
@@ -1139,38 +1907,24 @@ const App: React.FC = () => {
 
         try {
             const budgetDetails = state.budgets.map(b => {
-                const used = b.history.reduce((sum, h) => sum + h.amount, 0);
-                return `* ${b.name}: Terpakai ${formatCurrency(used)} dari kuota ${formatCurrency(b.totalBudget)}`;
+                const used = getBudgetUsed(b);
+                return t('ai.budgetUsedLine', { name: b.name, used: formatCurrency(used), quota: formatCurrency(getBudgetQuota(b)) });
             }).join('\n');
 
-            const prompt = `
-Berikut adalah ringkasan data keuangan saya untuk bulan ini dalam Rupiah (IDR):
-
-* Total Pemasukan: ${formatCurrency(monthlyIncome)}
-* Total Pengeluaran: ${formatCurrency(totalUsedOverall)}
-* Sisa Dana Bulan Ini: ${formatCurrency(totalRemaining)}
-
-Rincian Pengeluaran berdasarkan Pos Anggaran:
-${budgetDetails || "Tidak ada pos anggaran yang dibuat."}
-
-Total Pengeluaran Harian (di luar pos anggaran): ${formatCurrency(totalDailySpent)}
-
-Sisa Dana yang Tidak Terikat Anggaran: ${formatCurrency(remainingUnallocated)}
-
-Berdasarkan data ini, berikan saya analisis singkat dan beberapa saran praktis dalam Bahasa Indonesia untuk mengelola keuangan saya dengan lebih baik. Fokus pada area di mana saya bisa berhemat atau melakukan optimalisasi. Berikan jawaban dalam format poin-poin (bullet points) menggunakan markdown.
-            `;
-
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
+            const prompt = t('ai.advicePrompt', {
+                income: formatCurrency(monthlyIncome),
+                spending: formatCurrency(totalUsedOverall),
+                remaining: formatCurrency(totalRemaining),
+                budgetDetails: budgetDetails || t('ai.noBudgets'),
+                dailySpent: formatCurrency(totalDailySpent),
+                unallocated: formatCurrency(currentAvailableFunds),
             });
 
-            setAiAdvice(response.text);
+            setAiAdvice(await aiProvider.generateText(prompt));
 
         } catch (error) {
             console.error("Error getting AI advice:", error);
-            setAdviceError("Gagal mendapatkan saran dari AI. Silakan coba lagi nanti.");
+            setAdviceError(t('ai.adviceFailed'));
         } finally {
             setIsFetchingAdvice(false);
         }
@@ -1192,57 +1946,42 @@ Berdasarkan data ini, berikan saya analisis singkat dan beberapa saran praktis d
             }));
 
             // Recalculate summaries for the last 7 days
-            const lastWeekIncome = lastWeekFundHistory.filter(t => t.type === 'add').reduce((sum, t) => sum + t.amount, 0);
-            const lastWeekGeneralExpense = lastWeekFundHistory.filter(t => t.type === 'remove').reduce((sum, t) => sum + t.amount, 0);
-            const lastWeekUsedFromPosts = lastWeekBudgets.reduce((sum, b) => sum + b.history.reduce((s, h) => s + h.amount, 0), 0);
-            const lastWeekTotalDailySpent = lastWeekDailyExpenses.reduce((sum, e) => sum + e.amount, 0);
-            const lastWeekTotalUsed = lastWeekGeneralExpense + lastWeekUsedFromPosts + lastWeekTotalDailySpent;
+            const lastWeek = getMonthlySummary({
+                fundHistory: lastWeekFundHistory,
+                budgets: lastWeekBudgets,
+                dailyExpenses: lastWeekDailyExpenses,
+            });
 
             const lastWeekBudgetDetails = lastWeekBudgets.map(b => {
-                const used = b.history.reduce((sum, h) => sum + h.amount, 0);
+                const used = getBudgetUsed(b);
                 if (used > 0) {
-                    return `* ${b.name}: Terpakai ${formatCurrency(used)}`;
+                    return t('ai.weekBudgetLine', { name: b.name, used: formatCurrency(used) });
                 }
                 return null;
             }).filter(Boolean).join('\n');
 
 
-            const prompt = `
-Sebagai asisten keuangan AI, berikan analisis singkat dan peringatan proaktif berdasarkan data keuangan 7 hari terakhir ini (dalam IDR). 
-Fokus pada:
-1. Pemasukan atau pengeluaran terbesar yang signifikan.
-2. Peringatan jika total pengeluaran mendekati atau melebihi pemasukan.
-3. Sorot tren boros jika ada.
-
-Berikan jawaban singkat, tajam, dan langsung ke intinya dalam Bahasa Indonesia tanpa sapaan.
-
-Data Keuangan 7 Hari Terakhir:
-- Pemasukan: ${formatCurrency(lastWeekIncome)}
-- Pengeluaran Total: ${formatCurrency(lastWeekTotalUsed)}
-- Pengeluaran dari Pos Anggaran:
-${lastWeekBudgetDetails || "Tidak ada pengeluaran signifikan dari pos anggaran."}
-- Pengeluaran Harian/Umum: ${formatCurrency(lastWeekGeneralExpense + lastWeekTotalDailySpent)}
-            `;
-
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
+            const prompt = t('ai.insightPrompt', {
+                income: formatCurrency(lastWeek.monthlyIncome),
+                spending: formatCurrency(lastWeek.totalUsedOverall),
+                budgetDetails: lastWeekBudgetDetails || t('ai.noWeekBudgetSpending'),
+                dailySpending: formatCurrency(lastWeek.generalAndDailyExpenses),
             });
-            setAiDashboardInsight(response.text || "Tidak ada saran untuk saat ini.");
+
+            setAiDashboardInsight(await aiProvider.generateText(prompt) || t('ai.noInsight'));
         } catch (error) {
             console.error("Error fetching dashboard insight:", error);
-            setAiDashboardInsight("Gagal mengambil wawasan. Periksa koneksi atau coba lagi.");
+            setAiDashboardInsight(t('ai.insightFailed'));
         } finally {
             setIsFetchingDashboardInsight(false);
         }
-    }, [state]);
+    }, [state, locale, aiProvider]);
 
     useEffect(() => {
         if(monthlyIncome > 0) { // Only fetch if there's data
             handleFetchDashboardInsight();
         } else {
-            setAiDashboardInsight("Tambahkan pemasukan bulan ini untuk mendapatkan wawasan dari AI.");
+            setAiDashboardInsight(t('ai.insightNeedsIncome'));
         }
     }, [monthlyIncome, handleFetchDashboardInsight]); // Re-fetch only when income changes as a trigger
 
@@ -1251,12 +1990,29 @@ ${lastWeekBudgetDetails || "Tidak ada pengeluaran signifikan dari pos anggaran."
 
     const getFinancialContextForAI = useCallback(() => {
         const budgetDetails = state.budgets.map(b => {
-            const used = b.history.reduce((sum, h) => sum + h.amount, 0);
-            return `* Pos Anggaran "${b.name}": Kuota ${formatCurrency(b.totalBudget)}, Terpakai ${formatCurrency(used)}, Sisa ${formatCurrency(b.totalBudget - used)}`;
+            const used = getBudgetUsed(b);
+            const quota = getBudgetQuota(b);
+            return t('ai.chatBudgetLine', { name: b.name, quota: formatCurrency(quota), used: formatCurrency(used), remaining: formatCurrency(getBudgetRemaining(b)) });
         }).join('\n');
     
-        return `Anda adalah asisten keuangan AI yang ramah dan membantu. Tugas Anda adalah menjawab pertanyaan pengguna HANYA berdasarkan data keuangan yang saya berikan di bawah ini. Jangan membuat informasi atau memberikan saran di luar data. Jawab dalam Bahasa Indonesia. Berikut adalah ringkasan data keuangan pengguna untuk bulan ini (dalam IDR): **Ringkasan Umum:** * Total Pemasukan: ${formatCurrency(monthlyIncome)}, * Total Pengeluaran Keseluruhan: ${formatCurrency(totalUsedOverall)}, * Sisa Dana (Pemasukan - Pengeluaran): ${formatCurrency(totalRemaining)}, * Total Dana yang Dialokasikan ke Pos Anggaran: ${formatCurrency(totalAllocated)}, * Dana Tersedia Untuk Pengeluaran Harian/Umum (di luar pos): ${formatCurrency(currentAvailableFunds)}. **Rincian Pos Anggaran:** ${budgetDetails || "Tidak ada pos anggaran yang dibuat."}. **Rincian 10 Transaksi Terakhir:** ${allTransactions.slice(0, 10).map(t => `* ${new Date(t.timestamp).toLocaleDateString('id-ID')}: ${t.desc} (${t.type === 'add' ? '+' : '-'} ${formatCurrency(t.amount)}) - Kategori: ${t.category || (t.type === 'add' ? 'Pemasukan' : 'Umum')}`).join(', ')}. Data sudah lengkap. Anda siap menjawab pertanyaan pengguna.`;
-    }, [state, monthlyIncome, totalUsedOverall, totalRemaining, totalAllocated, currentAvailableFunds, allTransactions]);
+        const recentTransactions = allTransactions.slice(0, 10).map(transaction => t('ai.chatTransactionLine', {
+            date: formatDate(transaction.timestamp),
+            desc: transaction.desc,
+            sign: transaction.type === 'add' ? '+' : '-',
+            amount: formatCurrency(transaction.amount),
+            category: transaction.category || (transaction.type === 'add' ? t('ai.incomeCategory') : t('ai.generalCategory')),
+        })).join(', ');
+
+        return t('ai.chatContext', {
+            income: formatCurrency(monthlyIncome),
+            spending: formatCurrency(totalUsedOverall),
+            remaining: formatCurrency(totalRemaining),
+            allocated: formatCurrency(totalAllocated),
+            available: formatCurrency(currentAvailableFunds),
+            budgetDetails: budgetDetails || t('ai.noBudgets'),
+            transactions: recentTransactions,
+        });
+    }, [state, monthlyIncome, totalUsedOverall, totalRemaining, totalAllocated, currentAvailableFunds, allTransactions, locale]);
 
 
     const handleOpenAIChat = useCallback(async () => {
@@ -1266,32 +2022,28 @@ ${lastWeekBudgetDetails || "Tidak ada pengeluaran signifikan dari pos anggaran."
         setIsAiChatLoading(true);
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
             const contextPrompt = getFinancialContextForAI();
             
-            const chat = ai.chats.create({
-                model: 'gemini-2.5-flash',
-                history: [
-                    { role: 'user', parts: [{ text: contextPrompt }] },
-                    { role: 'model', parts: [{ text: 'Data diterima. Saya siap membantu.' }] }
-                ]
-            });
+            const chat = aiProvider.startChat([
+                { role: 'user', text: contextPrompt },
+                { role: 'model', text: t('ai.chatReady') },
+            ]);
 
             setAiChatSession(chat);
-            setAiChatHistory([{ role: 'model', text: 'Halo! Saya asisten AI Anda. Silakan tanyakan apa saja tentang data keuangan Anda bulan ini.' }]);
+            setAiChatHistory([{ role: 'model', text: t('ai.chatGreeting') }]);
 
         } catch (error) {
             console.error("Error initializing AI Chat:", error);
-            setAiChatError("Gagal memulai sesi chat. Silakan coba lagi.");
+            setAiChatError(t('ai.chatStartFailed'));
         } finally {
             setIsAiChatLoading(false);
         }
 
-    }, [getFinancialContextForAI]);
+    }, [getFinancialContextForAI, aiProvider]);
 
     const handleSendChatMessage = async (message: string) => {
         if (!aiChatSession) {
-            setAiChatError("Sesi chat tidak aktif. Silakan tutup dan buka kembali.");
+            setAiChatError(t('ai.chatInactive'));
             return;
         }
 
@@ -1300,11 +2052,11 @@ ${lastWeekBudgetDetails || "Tidak ada pengeluaran signifikan dari pos anggaran."
         setAiChatError(null);
 
         try {
-            const response = await aiChatSession.sendMessage({ message });
-            setAiChatHistory(prev => [...prev, { role: 'model', text: response.text }]);
+            const reply = await aiChatSession.sendMessage(message);
+            setAiChatHistory(prev => [...prev, { role: 'model', text: reply }]);
         } catch (error) {
             console.error("Error sending AI Chat message:", error);
-            setAiChatError("Gagal mengirim pesan. Mohon coba lagi.");
+            setAiChatError(t('ai.chatSendFailed'));
         } finally {
             setIsAiChatLoading(false);
         }
@@ -1317,44 +2069,37 @@ ${lastWeekBudgetDetails || "Tidak ada pengeluaran signifikan dari pos anggaran."
         setAiSearchResults(null);
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
             const transactionsForPrompt = allTransactions.map(t => ({
-                timestamp: t.timestamp,
+                id: t.id,
+                date: new Date(t.timestamp).toISOString(),
                 desc: t.desc,
-                amount: t.amount,
+                amount: fromMoney(t.amount, state.baseCurrency),
                 type: t.type,
                 category: t.category || (t.type === 'add' ? 'Pemasukan' : 'Umum')
             }));
 
-            const prompt = `You are a smart search engine for a user's financial transactions. Analyze the user's natural language query and the provided JSON data of all their transactions. Your task is to identify and return ONLY the timestamps of the transactions that precisely match the user's query.
+            const prompt = `You are a smart search engine for a user's financial transactions. Analyze the user's natural language query and the provided JSON data of all their transactions. Your task is to identify and return ONLY the ids of the transactions that precisely match the user's query.
 
 User Query: "${query}"
 
 Transaction Data (JSON):
 ${JSON.stringify(transactionsForPrompt)}
 
-Your response MUST be a valid JSON array containing only the numbers (timestamps) of the matching transactions. For example: [1678886400000, 1678972800000]. If no transactions match, return an empty array [].`;
+Your response MUST be a valid JSON array containing only the ids (strings) of the matching transactions. For example: ["3f2b9c1e-...", "a71d0e42-..."]. If no transactions match, return an empty array [].`;
 
-            const schema = {
-                type: Type.ARRAY,
-                items: { type: Type.NUMBER },
+            const schema: AISchema = {
+                type: 'array',
+                items: { type: 'string' },
             };
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: { parts: [{ text: prompt }] },
-                config: { responseMimeType: 'application/json', responseSchema: schema },
-            });
-            
-            const matchingTimestamps = JSON.parse(response.text) as number[];
+            const matchingIds = await aiProvider.generateJSON<string[]>({ prompt, schema });
             
-            const results = allTransactions.filter(t => matchingTimestamps.includes(t.timestamp));
+            const results = allTransactions.filter(t => matchingIds.includes(t.id));
             setAiSearchResults(results.sort((a, b) => b.timestamp - a.timestamp));
 
         } catch (error) {
             console.error("Error with AI Search:", error);
-            setAiSearchError("Gagal melakukan pencarian AI. Coba lagi.");
+            setAiSearchError(t('ai.searchFailed'));
         } finally {
             setIsSearchingWithAI(false);
         }
@@ -1371,12 +2116,12 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
     const openUseBudget = (budgetId: number) => { setInputModalMode('use-post'); setCurrentBudgetId(budgetId); setActiveModal('input'); };
     const openEditBudget = (budgetId: number) => { setInputModalMode('edit-post'); setCurrentBudgetId(budgetId); setActiveModal('input'); };
     const openFundHistory = () => {
-        setHistoryModalContent({ title: 'Riwayat Dana Bulan Ini', transactions: state.fundHistory.slice().reverse(), type: 'fund', budgetId: undefined });
+        setHistoryModalContent({ title: t('history.funds'), transactions: state.fundHistory.slice().reverse(), type: 'fund', budgetId: undefined });
         setActiveModal('history');
     };
     const openDailyHistory = () => {
         setHistoryModalContent({
-            title: 'Riwayat Pengeluaran Harian',
+            title: t('history.daily'),
             transactions: state.dailyExpenses.slice().reverse(),
             type: 'daily',
             budgetId: undefined,
@@ -1392,15 +2137,27 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
         setActiveModal('asset');
     }
     const openBatchInput = () => setActiveModal('batchInput');
+    const openEditTransaction = (id: string) => {
+        setEditingTransactionId(id);
+        setActiveModal('editTransaction');
+    };
+    const openRecurringRuleModal = (ruleId: number | null) => {
+        setCurrentRecurringRuleId(ruleId);
+        setActiveModal('recurringRule');
+    };
+    const openBillModal = (billId: number | null) => {
+        setCurrentBillId(billId);
+        setActiveModal('bill');
+    };
     
     // --- RENDER LOGIC ---
     const calculateUserLevel = (points: number): { level: string; currentLevelPoints: number; nextLevelPoints: number | null; } => {
         const levels = [
-            { name: 'Pemula Finansial', points: 0 },
-            { name: 'Pengelola Cerdas', points: 150 },
-            { name: 'Pakar Anggaran', points: 400 },
-            { name: 'Sultan Finansial', points: 750 },
-            { name: 'Master Keuangan', points: 1200 },
+            { name: t('level.beginner'), points: 0 },
+            { name: t('level.smartManager'), points: 150 },
+            { name: t('level.budgetExpert'), points: 400 },
+            { name: t('level.financeSultan'), points: 750 },
+            { name: t('level.master'), points: 1200 },
         ];
         let currentLevel = levels[0];
         let nextLevel: { name: string; points: number; } | null = null;
@@ -1430,9 +2187,14 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                             state={state} 
                             onBack={() => setCurrentPage('dashboard')} 
                             onEditAsset={() => setActiveModal('editAsset')}
-                            onDeleteTransaction={(timestamp) => openConfirm(
-                                'Yakin ingin menghapus transaksi ini secara PERMANEN dari seluruh data?',
-                                () => handleDeleteGlobalTransaction(timestamp)
+                            onEditTransaction={openEditTransaction}
+                            onDeleteTransaction={(id) => openConfirm(
+                                t('confirm.deleteGlobalTransaction'),
+                                () => handleDeleteTransaction(id)
+                            )}
+                            onDeleteSplit={(splitId, desc) => openConfirm(
+                                t('confirm.deleteSplit', { desc }),
+                                () => handleDeleteSplitTransaction(splitId, desc)
                             )}
                             aiSearchResults={aiSearchResults}
                             isSearchingWithAI={isSearchingWithAI}
@@ -1474,6 +2236,26 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                     onEditAsset={(assetId) => openAssetModal(assetId)}
                     onDeleteAsset={handleDeleteAsset}
                 />;
+            case 'recurring':
+                return <Recurring
+                    state={state}
+                    onAddRule={() => openRecurringRuleModal(null)}
+                    onEditRule={(ruleId) => openRecurringRuleModal(ruleId)}
+                    onTogglePause={handleToggleRecurringPause}
+                    onToggleSkip={handleToggleRecurringSkip}
+                    onSetOverride={handleSetRecurringOverride}
+                    onDeleteRule={handleDeleteRecurringRule}
+                />;
+            case 'bills':
+                return <Bills
+                    state={state}
+                    reminderDaysAhead={billReminderSettings.daysAhead}
+                    onAddBill={() => openBillModal(null)}
+                    onEditBill={(billId) => openBillModal(billId)}
+                    onMarkPaid={handleMarkBillPaid}
+                    onMarkUnpaid={handleMarkBillUnpaid}
+                    onDeleteBill={handleDeleteBill}
+                />;
             case 'dashboard':
             default:
                 return <Dashboard
@@ -1490,6 +2272,8 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                     onReorderBudgets={handleReorderBudgets}
                     onSetBudgetPermanence={handleSetBudgetPermanence}
                     onOpenBatchInput={openBatchInput}
+                    reminderCount={billReminders.length + state.budgetAlerts.filter(a => a.timestamp > alertsSeenAt).length + aiQueue.filter(r => r.result).length}
+                    onOpenNotifications={openNotificationCenter}
                 />;
         }
     };
@@ -1497,12 +2281,17 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
     const budgetForInputModal = state.budgets.find(b => b.id === currentBudgetId);
     const savingsGoalForModal = state.savingsGoals.find(g => g.id === currentSavingsGoalId);
     const assetForModal = state.assets.find(a => a.id === currentAssetId);
+    const recurringRuleForModal = state.recurringRules.find(r => r.id === currentRecurringRuleId);
+    const billForModal = state.bills.find(b => b.id === currentBillId);
+    const transactionForEditModal = editingTransactionId !== null ? locateTransaction(state, editingTransactionId) : null;
+    // The base currency first, then every currency that has an exchange rate.
+    const transactionCurrencies = [state.baseCurrency, ...getRatedCurrencies(state.exchangeRates).filter(c => c !== state.baseCurrency)];
     
-    const handleInputSubmit = (data: { description: string, amount: number, targetId?: 'daily' | number, icon?: string, color?: string }) => {
+    const handleInputSubmit = (data: InputModalSubmitData) => {
         if (inputModalMode === 'edit-post' && data.icon && data.color) {
-            handleEditBudget(data.description, data.amount, data.icon, data.color);
+            handleEditBudget(data.description, data.amount, data.icon, data.color, data.rolloverPolicy || 'reset', data.alertThresholds || [], data.rolloverGoalId);
         } else if (data.targetId !== undefined) {
-            handleAddTransaction(data.description, data.amount, data.targetId);
+            handleAddTransaction(data.description, data.amount, data.targetId, data.currency, data.tags, { note: data.note, attachmentIds: data.attachmentIds });
         }
     };
 
@@ -1517,14 +2306,27 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
     // --- JSX ---
     return (
         <div className="container mx-auto max-w-3xl font-sans text-dark-text">
-            <input type="file" ref={importFileInputRef} accept=".json" className="hidden" onChange={handleImportData} />
+            <input type="file" ref={importFileInputRef} accept={`.json,${ENCRYPTED_EXTENSION},${ATTACHMENT_ARCHIVE_EXTENSION}`} className="hidden" onChange={handleImportData} />
+            <input type="file" ref={bankFileInputRef} accept=".csv,text/csv" className="hidden" onChange={handleBankFileSelected} />
             <input type="file" ref={scanFileInputRef} accept="image/*" className="hidden" onChange={handleImageFileChange} />
             
             <AchievementUnlockedToast achievement={newlyUnlockedAchievement} />
 
+            <BudgetAlertToast alert={budgetAlertToast} onOpen={openNotificationCenter} />
+
             {dailyBackup && <DailyBackupToast backup={dailyBackup} onClose={handleCloseBackupToast} />}
 
-            {renderPage()}
+            {appUpdate && <UpdateAvailableToast update={appUpdate} onUpdate={() => applyUpdate(appUpdate.worker)} onClose={() => setAppUpdate(null)} />}
+
+            {!isOnline && <OfflineBanner queuedCount={aiQueue.filter(r => !r.result).length} />}
+
+            {undoToast && <UndoToast toast={undoToast} onUndo={handleUndo} onRedo={handleRedo} onClose={() => setUndoToast(null)} />}
+
+            {isStateLoaded ? renderPage() : (
+                <div className="flex justify-center items-center min-h-screen">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-navy"></div>
+                </div>
+            )}
             
             <BottomNavBar 
                 currentPage={currentPage}
@@ -1534,12 +2336,15 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
 
             {/* --- MODALS --- */}
             <Modal isOpen={activeModal === 'input'} onClose={() => setActiveModal(null)} title={
-                inputModalMode === 'edit-post' ? 'Edit Pos Anggaran' : 'Gunakan Uang'
+                inputModalMode === 'edit-post' ? t('modal.editBudget') : t('modal.useMoney')
             }>
                 <InputModalContent 
                     mode={inputModalMode} 
                     budget={budgetForInputModal}
                     allBudgets={state.budgets.filter(b => !b.isArchived)}
+                    savingsGoals={state.savingsGoals}
+                    currencies={transactionCurrencies}
+                    allTags={allTags}
                     onSubmit={handleInputSubmit}
                     onArchive={handleArchiveBudget}
                     prefillData={prefillData}
@@ -1547,35 +2352,71 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                 />
             </Modal>
             
-            <Modal isOpen={activeModal === 'asset'} onClose={() => setActiveModal(null)} title={currentAssetId ? 'Edit Aset' : 'Tambah Aset Baru'}>
+            <Modal isOpen={activeModal === 'asset'} onClose={() => setActiveModal(null)} title={currentAssetId ? t('modal.editAsset') : t('modal.addAsset')}>
                 <AssetModalContent
                     assetToEdit={assetForModal}
-                    onSubmit={(id, name, quantity, price) => {
+                    currencies={transactionCurrencies}
+                    onSubmit={(id, name, quantity, price, currency) => {
                         if(id) {
-                            handleEditAssetItem(id, name, quantity, price);
+                            handleEditAssetItem(id, name, quantity, price, currency);
                         } else {
-                            handleAddAsset(name, quantity, price);
+                            handleAddAsset(name, quantity, price, currency);
                         }
                     }}
                 />
             </Modal>
 
-            <Modal isOpen={activeModal === 'batchInput'} onClose={() => setActiveModal(null)} title="Catat Banyak Pengeluaran" size="lg">
+            <Modal isOpen={activeModal === 'recurringRule'} onClose={() => setActiveModal(null)} title={currentRecurringRuleId ? t('modal.editRecurring') : t('modal.addRecurring')}>
+                <RecurringRuleModalContent
+                    ruleToEdit={recurringRuleForModal}
+                    budgets={state.budgets.filter(b => !b.isArchived)}
+                    onSubmit={handleSaveRecurringRule}
+                />
+            </Modal>
+
+            <Modal isOpen={activeModal === 'bill'} onClose={() => setActiveModal(null)} title={currentBillId ? t('modal.editBill') : t('modal.addBill')}>
+                <BillModalContent
+                    billToEdit={billForModal}
+                    budgets={state.budgets.filter(b => !b.isArchived)}
+                    onSubmit={handleSaveBill}
+                />
+            </Modal>
+
+            <Modal isOpen={activeModal === 'notifications'} onClose={() => setActiveModal(null)} title={t('modal.notifications')}>
+                <NotificationCenterModalContent
+                    reminders={billReminders}
+                    settings={billReminderSettings}
+                    onChangeSettings={handleChangeBillReminderSettings}
+                    alerts={state.budgetAlerts}
+                    alertSettings={budgetAlertSettings}
+                    onChangeAlertSettings={handleChangeBudgetAlertSettings}
+                    aiQueue={aiQueue}
+                    isOnline={isOnline}
+                    onReviewQueued={handleReviewQueuedRequest}
+                    onRetryQueued={handleRetryQueuedRequest}
+                    onDeleteQueued={handleDeleteQueuedRequest}
+                    onMarkPaid={handleMarkBillPaid}
+                    onManageBills={() => { setCurrentPage('bills'); setActiveModal(null); }}
+                />
+            </Modal>
+
+            <Modal isOpen={activeModal === 'batchInput'} onClose={() => setActiveModal(null)} title={t('modal.batchInput')} size="lg">
                 <BatchInputModalContent 
                     budgets={state.budgets.filter(b => !b.isArchived)}
+                    allTags={allTags}
                     onSave={handleSaveScannedItems}
                 />
             </Modal>
 
-            <Modal isOpen={activeModal === 'addBudget'} onClose={() => setActiveModal(null)} title="Buat Pos Anggaran Baru">
+            <Modal isOpen={activeModal === 'addBudget'} onClose={() => setActiveModal(null)} title={t('modal.addBudget')}>
                 <AddBudgetModalContent onSubmit={handleAddBudget} />
             </Modal>
 
-            <Modal isOpen={activeModal === 'addSavingsGoal'} onClose={() => setActiveModal(null)} title="Buat Celengan Baru">
+            <Modal isOpen={activeModal === 'addSavingsGoal'} onClose={() => setActiveModal(null)} title={t('modal.addSavingsGoal')}>
                 <AddSavingsGoalModalContent onSubmit={handleAddSavingsGoal} />
             </Modal>
             
-            <Modal isOpen={activeModal === 'addSavings'} onClose={() => setActiveModal(null)} title={`Tambah Tabungan: ${savingsGoalForModal?.name || ''}`}>
+            <Modal isOpen={activeModal === 'addSavings'} onClose={() => setActiveModal(null)} title={t('modal.addSavings', { name: savingsGoalForModal?.name || '' })}>
                 <AddSavingsModalContent
                     goal={savingsGoalForModal}
                     availableFunds={currentAvailableFunds}
@@ -1583,7 +2424,7 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                 />
             </Modal>
 
-            <Modal isOpen={activeModal === 'savingsDetail'} onClose={() => setActiveModal(null)} title={`Detail: ${savingsGoalForModal?.name || ''}`}>
+            <Modal isOpen={activeModal === 'savingsDetail'} onClose={() => setActiveModal(null)} title={t('modal.savingsDetail', { name: savingsGoalForModal?.name || '' })}>
                 <SavingsDetailModalContent
                     goal={savingsGoalForModal}
                     onDelete={() => currentSavingsGoalId && handleDeleteSavingsGoal(currentSavingsGoalId)}
@@ -1591,8 +2432,8 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
             </Modal>
 
 
-            <Modal isOpen={activeModal === 'funds'} onClose={() => setActiveModal(null)} title="Kelola Dana Bulan Ini">
-                <FundsManagementModalContent onSubmit={handleFundTransaction} onViewHistory={openFundHistory} />
+            <Modal isOpen={activeModal === 'funds'} onClose={() => setActiveModal(null)} title={t('modal.funds')}>
+                <FundsManagementModalContent currencies={transactionCurrencies} allTags={allTags} onSubmit={handleFundTransaction} onViewHistory={openFundHistory} />
             </Modal>
             
             <Modal isOpen={activeModal === 'history'} onClose={() => setActiveModal(null)} title={historyModalContent.title}>
@@ -1600,51 +2441,103 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                     transactions={historyModalContent.transactions} 
                     type={historyModalContent.type} 
                     budgetId={historyModalContent.budgetId}
-                    onDelete={(timestamp, type, budgetId) => openConfirm("Yakin menghapus transaksi ini? Dana akan dikembalikan.", () => handleDeleteTransaction(timestamp, type, budgetId))} 
+                    onEdit={openEditTransaction}
+                    onDelete={(id) => openConfirm(t('confirm.deleteTransaction'), () => handleDeleteTransaction(id))} 
                 />
             </Modal>
 
-             <Modal isOpen={activeModal === 'info'} onClose={() => setActiveModal(null)} title="Info Keuangan Bulan Ini">
+            <Modal isOpen={activeModal === 'editTransaction' && !!transactionForEditModal} onClose={() => setActiveModal(null)} title={t('modal.editTransaction')}>
+                {transactionForEditModal && (
+                    <EditTransactionModalContent
+                        located={transactionForEditModal}
+                        budgets={transactionForEditModal.scope === 'archive' ? state.budgets : state.budgets.filter(b => !b.isArchived)}
+                        allTags={allTags}
+                        onSubmit={handleEditTransaction}
+                    />
+                )}
+            </Modal>
+
+             <Modal isOpen={activeModal === 'info'} onClose={() => setActiveModal(null)} title={t('modal.info')}>
                 <InfoModalContent
                     monthlyIncome={monthlyIncome}
                     totalAllocated={totalAllocated}
                     unallocatedFunds={unallocatedFunds}
                     generalAndDailyExpenses={generalAndDailyExpenses}
-                    remainingUnallocated={remainingUnallocated}
+                    remainingUnallocated={currentAvailableFunds}
                 />
             </Modal>
 
-             <Modal isOpen={activeModal === 'editAsset'} onClose={() => setActiveModal(null)} title="Koreksi Saldo Aset">
+             <Modal isOpen={activeModal === 'editAsset'} onClose={() => setActiveModal(null)} title={t('modal.editBalance')}>
                 <EditAssetModalContent currentAsset={currentAsset} onSubmit={handleEditAsset} />
             </Modal>
             
-            <Modal isOpen={activeModal === 'menu'} onClose={() => setActiveModal(null)} title="Menu & Opsi">
+            <Modal isOpen={activeModal === 'menu'} onClose={() => setActiveModal(null)} title={t('modal.menu')}>
                 <MainMenu 
                     onNavigate={(page) => { setCurrentPage(page); setActiveModal(null); }}
                     onShowInfo={() => setActiveModal('info')}
                     onManageFunds={() => setActiveModal('funds')}
-                    onScanReceipt={() => {}}
-                    onSmartInput={() => {}}
-                    onVoiceInput={() => {}}
-                    onAskAI={() => {}}
-                    onGetAIAdvice={() => {}}
+                    onScanReceipt={() => scanFileInputRef.current?.click()}
+                    onSmartInput={() => {
+                        setSmartInputError(null);
+                        setSmartInputNotice(null);
+                        setSmartInputResult([]);
+                        setActiveModal('smartInput');
+                    }}
+                    onVoiceInput={() => setActiveModal('voiceAssistant')}
+                    onAskAI={handleOpenAIChat}
+                    onGetAIAdvice={handleGetAIAdvice}
                     onOpenSettings={() => setActiveModal('settings')}
                 />
             </Modal>
             
-            <Modal isOpen={activeModal === 'settings'} onClose={() => setActiveModal(null)} title="Pengaturan & Opsi">
+            <Modal isOpen={activeModal === 'settings'} onClose={() => setActiveModal(null)} title={t('modal.settings')}>
                 <SettingsModalContent
-                    onExport={() => { setActiveModal(null); handleExportData(); }}
+                    onExport={() => setActiveModal('exportData')}
                     onImport={handleTriggerImport}
+                    onImportBankCsv={() => bankFileInputRef.current?.click()}
                     onManageArchived={() => setActiveModal('archivedBudgets')}
+                    onManageCurrency={() => setActiveModal('currency')}
                     onManualBackup={handleManualBackup}
                     onManageBackups={() => setActiveModal('backupRestore')}
                     onResetMonthly={handleResetMonthlyData}
                     onResetAll={handleResetAllData}
+                    locale={locale}
+                    onChangeLocale={handleChangeLocale}
+                    aiProvider={aiProvider}
+                    onManageAIProvider={() => setActiveModal('aiProvider')}
                 />
             </Modal>
+
+            <Modal isOpen={activeModal === 'aiProvider'} onClose={() => setActiveModal('settings')} title={t('modal.aiProvider')}>
+                {activeModal === 'aiProvider' && (
+                    <AIProviderModalContent settings={aiProviderSettings} onSave={handleSaveAIProviderSettings} />
+                )}
+            </Modal>
             
-            <Modal isOpen={activeModal === 'archivedBudgets'} onClose={() => setActiveModal(null)} title="Kelola Anggaran Diarsipkan">
+            <Modal isOpen={activeModal === 'currency'} onClose={() => setActiveModal(null)} title={t('modal.currency')} size="lg">
+                <CurrencyModalContent
+                    baseCurrency={state.baseCurrency}
+                    exchangeRates={state.exchangeRates}
+                    onChangeBaseCurrency={handleChangeBaseCurrency}
+                    onSaveRate={handleSaveExchangeRate}
+                    onDeleteRate={handleDeleteExchangeRate}
+                />
+            </Modal>
+
+            <Modal isOpen={activeModal === 'bankImport' && !!bankStatement} onClose={() => setActiveModal(null)} title={t('modal.bankImport')} size="lg">
+                {bankStatement && (
+                    <BankImportModalContent
+                        fileName={bankStatement.fileName}
+                        csvRows={bankStatement.rows}
+                        baseCurrency={state.baseCurrency}
+                        budgets={state.budgets.filter(b => !b.isArchived)}
+                        existingTransactions={allTransactions}
+                        onSave={handleSaveBankRows}
+                    />
+                )}
+            </Modal>
+
+            <Modal isOpen={activeModal === 'archivedBudgets'} onClose={() => setActiveModal(null)} title={t('modal.archivedBudgets')}>
                 <ArchivedBudgetsModalContent
                     archivedBudgets={state.budgets.filter(b => b.isArchived)}
                     onRestore={handleRestoreBudget}
@@ -1652,28 +2545,65 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                 />
             </Modal>
             
-            <Modal isOpen={activeModal === 'backupRestore'} onClose={() => setActiveModal(null)} title="Cadangan Internal Otomatis">
+            <Modal isOpen={activeModal === 'importPreview' && !!pendingImport} onClose={() => setActiveModal(null)} title={t('modal.importPreview')}>
+                {pendingImport && (
+                    <ImportPreviewModalContent
+                        pending={pendingImport}
+                        currentState={state}
+                        onConfirm={handleConfirmImport}
+                        onCancel={() => setActiveModal(null)}
+                    />
+                )}
+            </Modal>
+            <Modal isOpen={activeModal === 'exportData'} onClose={() => setActiveModal(null)} title={t('modal.exportData')}>
+                <ExportDataModalContent
+                    autoExportEncrypted={!!loadAutoExportPassphrase()}
+                    attachmentCount={getReferencedAttachmentIds(state).size}
+                    onExport={handleExportData}
+                    onSaveAutoExportPassphrase={saveAutoExportPassphrase}
+                />
+            </Modal>
+
+            <Modal isOpen={activeModal === 'decryptImport' && !!encryptedImport} onClose={() => { setEncryptedImport(null); setActiveModal(null); }} title={t('modal.decryptImport')}>
+                {encryptedImport && (
+                    <DecryptImportModalContent
+                        fileName={encryptedImport.fileName}
+                        onSubmit={handleDecryptImport}
+                        onCancel={() => { setEncryptedImport(null); setActiveModal(null); }}
+                    />
+                )}
+            </Modal>
+
+            <Modal isOpen={activeModal === 'backupRestore'} onClose={() => setActiveModal(null)} title={t('modal.backupRestore')}>
                 <BackupRestoreModalContent
                     backups={internalBackups}
+                    storageKind={storageRef.current?.kind ?? 'indexedDB'}
                     onRestore={handleRestoreBackup}
+                    onLabel={handleLabelBackup}
+                    onDelete={handleDeleteBackup}
+                    onSaveRetentionPolicy={handleSaveRetentionPolicy}
                 />
             </Modal>
 
-            <Modal isOpen={activeModal === 'scanResult'} onClose={() => setActiveModal(null)} title="Hasil Pindai Struk">
+            <Modal isOpen={activeModal === 'scanResult'} onClose={() => setActiveModal(null)} title={t('modal.scanResult')}>
                 <ScanResultModalContent 
                     isLoading={isScanning}
                     error={scanError}
+                    notice={scanNotice}
                     items={scannedItems}
                     budgets={state.budgets.filter(b => !b.isArchived)}
                     onItemsChange={setScannedItems}
-                    onSave={() => handleSaveScannedItems(scannedItems)}
+                    attachmentId={scanAttachmentId}
+                    onSave={splitDesc => handleSaveScannedItems(scannedItems, splitDesc, scanAttachmentId ? [scanAttachmentId] : [])}
                 />
             </Modal>
             
-             <Modal isOpen={activeModal === 'voiceAssistant'} onClose={() => setActiveModal(null)} title="Asisten Suara Interaktif" size="lg" contentClassName="p-0">
+             <Modal isOpen={activeModal === 'voiceAssistant'} onClose={() => setActiveModal(null)} title={t('modal.voiceAssistant')} size="lg" contentClassName="p-0">
                 {activeModal === 'voiceAssistant' && (
                     <VoiceAssistantModalContent
+                        provider={aiProvider}
                         budgets={state.budgets.filter(b => !b.isArchived)}
+                        baseCurrency={state.baseCurrency}
                         onFinish={(items) => {
                             setVoiceAssistantResult(items);
                             setActiveModal('voiceResult');
@@ -1683,25 +2613,26 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                 )}
             </Modal>
             
-            <Modal isOpen={activeModal === 'voiceResult'} onClose={() => setActiveModal(null)} title="Konfirmasi Transaksi Suara">
+            <Modal isOpen={activeModal === 'voiceResult'} onClose={() => setActiveModal(null)} title={t('modal.voiceResult')}>
                 <ScanResultModalContent
                     isLoading={false}
                     error={null}
                     items={voiceAssistantResult}
                     budgets={state.budgets.filter(b => !b.isArchived)}
                     onItemsChange={setVoiceAssistantResult}
-                    onSave={() => {
-                        handleSaveScannedItems(voiceAssistantResult);
+                    onSave={splitDesc => {
+                        handleSaveScannedItems(voiceAssistantResult, splitDesc);
                         setVoiceAssistantResult([]);
                     }}
                 />
             </Modal>
 
 
-            <Modal isOpen={activeModal === 'smartInput'} onClose={() => setActiveModal(null)} title="Input Transaksi Cerdas">
+            <Modal isOpen={activeModal === 'smartInput'} onClose={() => setActiveModal(null)} title={t('modal.smartInput')}>
                 <SmartInputModalContent
                     isProcessing={isProcessingSmartInput}
                     error={smartInputError}
+                    notice={smartInputNotice}
                     resultItems={smartInputResult}
                     budgets={state.budgets.filter(b => !b.isArchived)}
                     onProcess={handleProcessSmartInput}
@@ -1711,7 +2642,7 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                 />
             </Modal>
             
-             <Modal isOpen={activeModal === 'aiAdvice'} onClose={() => setActiveModal(null)} title="Saran Keuangan dari AI">
+             <Modal isOpen={activeModal === 'aiAdvice'} onClose={() => setActiveModal(null)} title={t('modal.aiAdvice')}>
                 <AIAdviceModalContent 
                     isLoading={isFetchingAdvice}
                     error={adviceError}
@@ -1719,7 +2650,7 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
                 />
             </Modal>
             
-            <Modal isOpen={activeModal === 'aiChat'} onClose={() => {setActiveModal(null); setAiChatSession(null);}} title="Tanya AI" size="lg" contentClassName="p-0">
+            <Modal isOpen={activeModal === 'aiChat'} onClose={() => {setActiveModal(null); setAiChatSession(null);}} title={t('modal.aiChat')} size="lg" contentClassName="p-0">
                 <AIChatModalContent
                     history={aiChatHistory}
                     isLoading={isAiChatLoading}
@@ -1731,7 +2662,7 @@ Your response MUST be a valid JSON array containing only the numbers (timestamps
             <ConfirmModal 
                 isOpen={activeModal === 'confirm'}
                 onClose={() => setActiveModal(null)}
-                onConfirm={() => { confirmModalContent.onConfirm(); setActiveModal(null); }}
+                onConfirm={() => { setActiveModal(null); confirmModalContent.onConfirm(); }}
                 message={confirmModalContent.message}
             />
 
@@ -1747,9 +2678,9 @@ const BottomNavBar: React.FC<{
     onOpenMenu: () => void;
 }> = ({ currentPage, onNavigate, onOpenMenu }) => {
     const navItems = [
-        { page: 'dashboard', icon: HomeIcon, label: 'Dashboard' },
-        { page: 'reports', icon: DocumentTextIcon, label: 'Laporan' },
-        { page: 'visualizations', icon: ChartBarIcon, label: 'Grafik' },
+        { page: 'dashboard', icon: HomeIcon, label: t('nav.dashboard') },
+        { page: 'reports', icon: DocumentTextIcon, label: t('nav.reports') },
+        { page: 'visualizations', icon: ChartBarIcon, label: t('nav.charts') },
     ];
 
     return (
@@ -1770,7 +2701,7 @@ const BottomNavBar: React.FC<{
                     className="flex flex-col items-center justify-center space-y-1 w-full h-full text-secondary-gray"
                 >
                     <Squares2x2Icon className="w-6 h-6" />
-                    <span className="text-xs font-medium">Menu</span>
+                    <span className="text-xs font-medium">{t('nav.menu')}</span>
                 </button>
             </div>
         </nav>
@@ -1796,8 +2727,8 @@ const AchievementUnlockedToast: React.FC<{ achievement: Achievement | null }> =
                 <div className="bg-primary-navy text-white rounded-xl shadow-2xl p-4 flex items-center space-x-4 max-w-sm mx-auto">
                     <TrophyIcon className="w-10 h-10 text-warning-yellow flex-shrink-0" />
                     <div>
-                        <p className="font-bold">Lencana Terbuka!</p>
-                        <p className="text-sm">{achievement.name}</p>
+                        <p className="font-bold">{t('achievements.unlockedToast')}</p>
+                        <p className="text-sm">{localizeAchievement(achievement).name}</p>
                     </div>
                 </div>
             )}
@@ -1808,23 +2739,177 @@ const AchievementUnlockedToast: React.FC<{ achievement: Achievement | null }> =
 
 // --- MODAL CONTENT COMPONENTS ---
 
+// Hidden until a currency besides the base one has an exchange rate.
+const CurrencySelect: React.FC<{ id: string; value: string; currencies: string[]; onChange: (currency: string) => void }> = ({ id, value, currencies, onChange }) => {
+    if (currencies.length < 2) return null;
+    return (
+        <div>
+            <label htmlFor={id} className="block text-sm font-medium text-secondary-gray">{t('currency.label')}</label>
+            <select id={id} value={value} onChange={e => onChange(e.target.value)} className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy">
+                {currencies.map(c => <option key={c} value={c}>{c} - {formatCurrencyName(c)}</option>)}
+            </select>
+        </div>
+    );
+};
+
+// Tags as removable chips and a text field: Enter, a comma or a suggestion adds one,
+// Backspace in the empty field removes the last. Suggestions come from tags in use.
+const TagInput: React.FC<{ id: string; tags: string[]; allTags: string[]; onChange: (tags: string[]) => void; compact?: boolean }> = ({ id, tags, allTags, onChange, compact }) => {
+    const [query, setQuery] = useState('');
+    const [isFocused, setIsFocused] = useState(false);
+    const suggestions = isFocused ? suggestTags(allTags, query, tags) : [];
+
+    const addTags = (text: string) => {
+        onChange(normalizeTags([...tags, ...text.split(',')]));
+        setQuery('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' && query.trim()) {
+            e.preventDefault();
+            addTags(query);
+        } else if (e.key === 'Backspace' && !query && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    return (
+        <div>
+            {!compact && <label htmlFor={id} className="block text-sm font-medium text-secondary-gray">{t('tags.label')}</label>}
+            <div className={`${compact ? '' : 'mt-1 '}flex flex-wrap items-center gap-1 px-2 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus-within:ring-1 focus-within:ring-primary-navy focus-within:border-primary-navy`}>
+                {tags.map(tag => (
+                    <span key={tag} className="flex items-center gap-1 bg-blue-50 text-primary-navy text-xs font-semibold pl-2 pr-1 py-1 rounded-full">
+                        #{tag}
+                        <button type="button" onClick={() => onChange(tags.filter(other => other !== tag))} className="px-1 text-secondary-gray hover:text-danger-red" aria-label={t('tags.remove', { tag })}>&times;</button>
+                    </span>
+                ))}
+                <input
+                    type="text"
+                    id={id}
+                    value={query}
+                    onChange={e => e.target.value.includes(',') ? addTags(e.target.value) : setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onFocus={() => setIsFocused(true)}
+                    onBlur={() => {
+                        setIsFocused(false);
+                        if (query.trim()) addTags(query);
+                    }}
+                    placeholder={tags.length === 0 ? t('tags.placeholder') : ''}
+                    aria-label={compact ? t('tags.label') : undefined}
+                    autoComplete="off"
+                    className="flex-1 min-w-[8rem] py-1 text-sm bg-transparent focus:outline-none"
+                />
+            </div>
+            {suggestions.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                    {suggestions.map(tag => (
+                        // mousedown would blur the field first and add the half-typed query instead
+                        <button type="button" key={tag} onMouseDown={e => e.preventDefault()} onClick={() => addTags(tag)} className="text-xs px-2 py-1 rounded-full border border-gray-300 text-secondary-gray hover:bg-gray-100">
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// A longer note and receipt photos for a transaction. Photos are compressed and stored
+// as soon as they are picked; the entry only keeps their ids (see utils/attachments.ts).
+const AnnotationFields: React.FC<{ id: string; note: string; attachmentIds: string[]; onNoteChange: (note: string) => void; onAttachmentIdsChange: (ids: string[]) => void }> = ({ id, note, attachmentIds, onNoteChange, onAttachmentIdsChange }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [viewingId, setViewingId] = useState<string | null>(null);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            onAttachmentIdsChange([...attachmentIds, await saveAttachment(file)]);
+        } catch (err) {
+            console.error("Failed to save photo", err);
+            setError(t('attachments.saveFailed'));
+        } finally {
+            setIsSaving(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label htmlFor={`${id}-note`} className="block text-sm font-medium text-secondary-gray">{t('attachments.note')}</label>
+                <textarea id={`${id}-note`} value={note} onChange={e => onNoteChange(e.target.value)} rows={2} placeholder={t('attachments.notePlaceholder')} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy" />
+            </div>
+            <div>
+                <span className="block text-sm font-medium text-secondary-gray">{t('attachments.photos')}</span>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                    {attachmentIds.map(attachmentId => (
+                        <div key={attachmentId} className="relative">
+                            <AttachmentThumbnail id={attachmentId} onOpen={setViewingId} className="w-16 h-16" />
+                            <button type="button" onClick={() => onAttachmentIdsChange(attachmentIds.filter(a => a !== attachmentId))} className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-danger-red text-white text-xs leading-none flex items-center justify-center" aria-label={t('attachments.remove')}>&times;</button>
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isSaving} className="w-16 h-16 rounded-lg border-2 border-dashed border-gray-300 text-secondary-gray hover:border-primary-navy hover:text-primary-navy flex flex-col items-center justify-center text-[10px] font-semibold disabled:opacity-50">
+                        <CameraIcon className="w-5 h-5" />
+                        {isSaving ? t('attachments.saving') : t('attachments.add')}
+                    </button>
+                    <input type="file" ref={fileInputRef} accept="image/*" className="hidden" onChange={handleFileChange} />
+                </div>
+                {error && <p className="text-xs text-danger-red mt-1">{error}</p>}
+            </div>
+            <AttachmentViewer id={viewingId} onClose={() => setViewingId(null)} />
+        </div>
+    );
+};
+
+interface InputModalSubmitData {
+    description: string;
+    amount: Money;
+    targetId?: 'daily' | number;
+    /** Currency of `amount` for new expenses; the base currency when unset. */
+    currency?: string;
+    tags?: string[];
+    note?: string;
+    attachmentIds?: string[];
+    icon?: string;
+    color?: string;
+    rolloverPolicy?: BudgetRolloverPolicy;
+    rolloverGoalId?: number;
+    alertThresholds?: number[];
+}
+
 const InputModalContent: React.FC<{
     mode: 'use-daily' | 'use-post' | 'edit-post';
     budget?: Budget;
     allBudgets: Budget[];
-    onSubmit: (data: { description: string, amount: number, targetId?: 'daily' | number, icon?: string, color?: string }) => void;
+    savingsGoals: SavingsGoal[];
+    /** The base currency first. */
+    currencies: string[];
+    allTags: string[];
+    onSubmit: (data: InputModalSubmitData) => void;
     onArchive: () => void;
     prefillData: { desc: string, amount: string } | null;
     onPrefillConsumed: () => void;
-}> = ({ mode, budget, allBudgets, onSubmit, onArchive, prefillData, onPrefillConsumed }) => {
+}> = ({ mode, budget, allBudgets, savingsGoals, currencies, allTags, onSubmit, onArchive, prefillData, onPrefillConsumed }) => {
     const [amount, setAmount] = useState('');
     const [desc, setDesc] = useState('');
+    const [tags, setTags] = useState<string[]>([]);
+    const [note, setNote] = useState('');
+    const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
     const [target, setTarget] = useState<'daily' | number>('daily');
+    const [currency, setCurrency] = useState(currencies[0]);
     const [suggestion, setSuggestion] = useState<string | null>(null);
     const [suggestedCategory, setSuggestedCategory] = useState<string | null>(null);
     const [isSuggesting, setIsSuggesting] = useState(false);
     const [selectedIcon, setSelectedIcon] = useState(budget?.icon || availableIcons[0]);
     const [selectedColor, setSelectedColor] = useState(budget?.color || availableColors[0]);
+    const [rolloverPolicy, setRolloverPolicy] = useState<BudgetRolloverPolicy>(budget?.rolloverPolicy || 'reset');
+    const [rolloverGoalId, setRolloverGoalId] = useState<number | undefined>(budget?.rolloverGoalId);
+    const [alertThresholds, setAlertThresholds] = useState<number[]>(budget ? getAlertThresholds(budget) : []);
 
     useEffect(() => {
         if (prefillData) {
@@ -1832,10 +2917,13 @@ const InputModalContent: React.FC<{
             setAmount(prefillData.amount);
             onPrefillConsumed();
         } else if (mode === 'edit-post' && budget) {
-            setAmount(formatNumberInput(budget.totalBudget));
+            setAmount(formatMoneyInput(budget.totalBudget));
             setDesc(budget.name);
             setSelectedIcon(budget.icon || availableIcons[0]);
             setSelectedColor(budget.color || availableColors[0]);
+            setRolloverPolicy(budget.rolloverPolicy || 'reset');
+            setRolloverGoalId(budget.rolloverGoalId);
+            setAlertThresholds(getAlertThresholds(budget));
         } else {
             setAmount('');
             setDesc('');
@@ -1846,6 +2934,10 @@ const InputModalContent: React.FC<{
         } else {
             setTarget('daily');
         }
+        setCurrency(currencies[0]);
+        setTags([]);
+        setNote('');
+        setAttachmentIds([]);
 
         setSuggestion(null);
         setSuggestedCategory(null);
@@ -1859,12 +2951,13 @@ const InputModalContent: React.FC<{
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const rawAmount = getRawNumber(amount);
+        const rawAmount = parseMoneyInput(amount, currency);
         if (rawAmount > 0 && desc.trim()) {
             if (mode === 'edit-post') {
-                onSubmit({ description: desc, amount: rawAmount, icon: selectedIcon, color: selectedColor });
+                if (rolloverPolicy === 'sweep-to-savings' && !rolloverGoalId) return;
+                onSubmit({ description: desc, amount: rawAmount, icon: selectedIcon, color: selectedColor, rolloverPolicy, rolloverGoalId, alertThresholds });
             } else {
-                onSubmit({ description: desc, amount: rawAmount, targetId: target });
+                onSubmit({ description: desc, amount: rawAmount, targetId: target, currency, tags, note, attachmentIds });
             }
         }
     };
@@ -1884,14 +2977,14 @@ const InputModalContent: React.FC<{
         <form onSubmit={handleSubmit} className="space-y-4">
             {mode !== 'edit-post' && (
                  <div>
-                    <label htmlFor="input-target" className="block text-sm font-medium text-secondary-gray">Alokasi Dana</label>
+                    <label htmlFor="input-target" className="block text-sm font-medium text-secondary-gray">{t('form.allocation')}</label>
                     <select 
                         id="input-target" 
                         value={target} 
                         onChange={e => setTarget(e.target.value === 'daily' ? 'daily' : Number(e.target.value))}
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
                     >
-                        <option value="daily">Uang Harian</option>
+                        <option value="daily">{t('form.dailyMoney')}</option>
                         {allBudgets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
                     </select>
                 </div>
@@ -1899,9 +2992,9 @@ const InputModalContent: React.FC<{
             
             {mode !== 'edit-post' ? (
                 <div>
-                    <label htmlFor="input-desc" className="block text-sm font-medium text-secondary-gray">Keterangan</label>
+                    <label htmlFor="input-desc" className="block text-sm font-medium text-secondary-gray">{t('form.description')}</label>
                     <input type="text" id="input-desc" value={desc} onChange={e => setDesc(e.target.value)} onBlur={handleDescBlur} required className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
-                    {isSuggesting && <p className="text-xs text-gray-500 mt-1 animate-pulse">Menganalisis...</p>}
+                    {isSuggesting && <p className="text-xs text-gray-500 mt-1 animate-pulse">{t('form.analyzing')}</p>}
                     {suggestion && suggestedCategory && (
                         <div className="mt-2 text-sm text-primary-navy bg-blue-50 p-3 rounded-md">
                             <div className="flex items-start space-x-2">
@@ -1913,23 +3006,75 @@ const InputModalContent: React.FC<{
                                 onClick={handleSwitchCategory}
                                 className="mt-2 w-full text-sm bg-primary-navy text-white font-semibold py-2 px-3 rounded-lg hover:bg-primary-navy-dark transition-colors"
                             >
-                                Pindahkan ke "{suggestedCategory}"
+                                {t('form.moveTo', { category: suggestedCategory })}
                             </button>
                         </div>
                     )}
                 </div>
             ) : (
                  <div>
-                    <label htmlFor="input-desc-edit" className="block text-sm font-medium text-secondary-gray">Nama Pos Anggaran</label>
+                    <label htmlFor="input-desc-edit" className="block text-sm font-medium text-secondary-gray">{t('form.budgetName')}</label>
                     <input type="text" id="input-desc-edit" value={desc} onChange={e => setDesc(e.target.value)} required className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
                 </div>
             )}
+            {mode !== 'edit-post' && <CurrencySelect id="input-currency" value={currency} currencies={currencies} onChange={setCurrency} />}
             <div>
-                <label htmlFor="input-amount" className="block text-sm font-medium text-secondary-gray">{mode === 'edit-post' ? 'Kuota Dana (Rp)' : 'Nominal (Rp)'}</label>
-                <input type="text" id="input-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="input-amount" className="block text-sm font-medium text-secondary-gray">{mode === 'edit-post' ? t('form.quota') : t('form.amountIn', { currency: currency === 'IDR' ? 'Rp' : currency })}</label>
+                <input type="text" id="input-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value, getFractionDigits(currency)))} required inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
+            {mode !== 'edit-post' && <TagInput id="input-tags" tags={tags} allTags={allTags} onChange={setTags} />}
+            {mode !== 'edit-post' && <AnnotationFields id="input" note={note} attachmentIds={attachmentIds} onNoteChange={setNote} onAttachmentIdsChange={setAttachmentIds} />}
              {mode === 'edit-post' && (
                 <div className="space-y-4">
+                    <div>
+                        <label htmlFor="input-rollover-policy" className="block text-sm font-medium text-secondary-gray">{t('form.rolloverPolicy')}</label>
+                        <select
+                            id="input-rollover-policy"
+                            value={rolloverPolicy}
+                            onChange={e => setRolloverPolicy(e.target.value as BudgetRolloverPolicy)}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
+                        >
+                            {(Object.keys(rolloverPolicyLabels) as BudgetRolloverPolicy[]).map(policy => (
+                                <option key={policy} value={policy}>{t(rolloverPolicyLabels[policy])}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {rolloverPolicy === 'sweep-to-savings' && (
+                        <div>
+                            <label htmlFor="input-rollover-goal" className="block text-sm font-medium text-secondary-gray">{t('form.rolloverGoal')}</label>
+                            <select
+                                id="input-rollover-goal"
+                                value={rolloverGoalId ?? ''}
+                                onChange={e => setRolloverGoalId(e.target.value ? Number(e.target.value) : undefined)}
+                                required
+                                className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
+                            >
+                                <option value="">{t('form.chooseGoal')}</option>
+                                {savingsGoals.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                            </select>
+                            {savingsGoals.length === 0 && <p className="text-xs text-secondary-gray mt-1">{t('form.noGoalsHint')}</p>}
+                        </div>
+                    )}
+                    <div>
+                        <span className="block text-sm font-medium text-secondary-gray">{t('form.alertThresholds')}</span>
+                        <div className="mt-2 flex flex-wrap gap-2">
+                            {[...new Set([...ALERT_THRESHOLD_OPTIONS, ...alertThresholds])].sort((a, b) => a - b).map(threshold => {
+                                const isSelected = alertThresholds.includes(threshold);
+                                return (
+                                    <button
+                                        type="button"
+                                        key={threshold}
+                                        onClick={() => setAlertThresholds(prev => isSelected ? prev.filter(p => p !== threshold) : [...prev, threshold].sort((a, b) => a - b))}
+                                        aria-pressed={isSelected}
+                                        className={`px-3 py-1 rounded-full text-sm font-semibold border transition-colors ${isSelected ? 'bg-primary-navy text-white border-primary-navy' : 'bg-white text-secondary-gray border-gray-300 hover:bg-gray-100'}`}
+                                    >
+                                        {threshold}%
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        <p className="text-xs text-secondary-gray mt-1">{alertThresholds.length > 0 ? t('form.alertThresholdsHint') : t('form.alertThresholdsOff')}</p>
+                    </div>
                     <IconColorPicker 
                         selectedIcon={selectedIcon} 
                         selectedColor={selectedColor}
@@ -1939,11 +3084,11 @@ const InputModalContent: React.FC<{
                 </div>
             )}
             <div className="pt-2 flex flex-col gap-3">
-                <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Simpan</button>
+                <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('common.save')}</button>
                 {mode === 'edit-post' && (
                     <button type="button" onClick={onArchive} className="w-full flex items-center justify-center gap-2 bg-yellow-500 text-white font-bold py-3 rounded-lg hover:bg-yellow-600 transition-colors">
                         <ArchiveBoxIcon className="w-5 h-5" />
-                        <span>Arsipkan Pos Ini</span>
+                        <span>{t('form.archiveBudget')}</span>
                     </button>
                 )}
             </div>
@@ -1951,7 +3096,7 @@ const InputModalContent: React.FC<{
     );
 };
 
-const AddBudgetModalContent: React.FC<{ onSubmit: (name: string, amount: number, icon: string, color: string) => void }> = ({ onSubmit }) => {
+const AddBudgetModalContent: React.FC<{ onSubmit: (name: string, amount: Money, icon: string, color: string) => void }> = ({ onSubmit }) => {
     const [name, setName] = useState('');
     const [amount, setAmount] = useState('');
     const [selectedIcon, setSelectedIcon] = useState(availableIcons[0]);
@@ -1959,7 +3104,7 @@ const AddBudgetModalContent: React.FC<{ onSubmit: (name: string, amount: number,
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const rawAmount = getRawNumber(amount);
+        const rawAmount = parseMoneyInput(amount);
         if (name && rawAmount > 0) {
             onSubmit(name, rawAmount, selectedIcon, selectedColor);
         }
@@ -1967,12 +3112,12 @@ const AddBudgetModalContent: React.FC<{ onSubmit: (name: string, amount: number,
     return (
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label htmlFor="budget-name" className="block text-sm font-medium text-secondary-gray">Nama Anggaran</label>
-                <input type="text" id="budget-name" value={name} onChange={e => setName(e.target.value)} required placeholder="Contoh: Belanja Bulanan" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="budget-name" className="block text-sm font-medium text-secondary-gray">{t('form.budgetNameNew')}</label>
+                <input type="text" id="budget-name" value={name} onChange={e => setName(e.target.value)} required placeholder={t('form.budgetNamePlaceholder')} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
             <div>
-                <label htmlFor="budget-amount" className="block text-sm font-medium text-secondary-gray">Kuota Dana (Rp)</label>
-                <input type="text" id="budget-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required placeholder="Contoh: 1.000.000" inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="budget-amount" className="block text-sm font-medium text-secondary-gray">{t('form.quota')}</label>
+                <input type="text" id="budget-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required placeholder={t('form.amountPlaceholder')} inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
             <IconColorPicker 
                 selectedIcon={selectedIcon} 
@@ -1980,55 +3125,384 @@ const AddBudgetModalContent: React.FC<{ onSubmit: (name: string, amount: number,
                 onIconSelect={setSelectedIcon}
                 onColorSelect={setSelectedColor}
             />
-            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Tambah Pos Anggaran</button>
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('form.addBudget')}</button>
         </form>
     );
 };
 
 const AssetModalContent: React.FC<{
     assetToEdit?: Asset;
-    onSubmit: (id: number | null, name: string, quantity: number, pricePerUnit: number) => void;
-}> = ({ assetToEdit, onSubmit }) => {
+    /** The base currency first. */
+    currencies: string[];
+    onSubmit: (id: number | null, name: string, quantity: number, pricePerUnit: Money, currency: string) => void;
+}> = ({ assetToEdit, currencies, onSubmit }) => {
     const [name, setName] = useState('');
     const [quantity, setQuantity] = useState('');
     const [price, setPrice] = useState('');
+    const [currency, setCurrency] = useState(currencies[0]);
 
     useEffect(() => {
         if (assetToEdit) {
             setName(assetToEdit.name);
-            setQuantity(String(assetToEdit.quantity));
-            setPrice(formatNumberInput(assetToEdit.pricePerUnit));
+            setQuantity(formatNumberInput(assetToEdit.quantity, QUANTITY_FRACTION_DIGITS));
+            setPrice(formatMoneyInput(assetToEdit.pricePerUnit, assetToEdit.currency || currencies[0]));
+            setCurrency(assetToEdit.currency || currencies[0]);
         }
     }, [assetToEdit]);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const rawQuantity = getRawNumber(quantity);
-        const rawPrice = getRawNumber(price);
+        const rawQuantity = parseNumberInput(quantity, QUANTITY_FRACTION_DIGITS);
+        const rawPrice = parseMoneyInput(price, currency);
         if (name.trim() && rawQuantity > 0 && rawPrice > 0) {
-            onSubmit(assetToEdit?.id || null, name.trim(), rawQuantity, rawPrice);
+            onSubmit(assetToEdit?.id || null, name.trim(), rawQuantity, rawPrice, currency);
         }
     };
+    // An asset can keep a currency whose rates were deleted since.
+    const assetCurrencies = currencies.includes(currency) ? currencies : [...currencies, currency];
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label htmlFor="asset-name" className="block text-sm font-medium text-secondary-gray">{t('asset.name')}</label>
+                <input type="text" id="asset-name" value={name} onChange={e => setName(e.target.value)} required placeholder={t('asset.namePlaceholder')} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+            </div>
+            <div>
+                <label htmlFor="asset-quantity" className="block text-sm font-medium text-secondary-gray">{t('asset.quantity')}</label>
+                <input type="text" id="asset-quantity" value={quantity} onChange={e => setQuantity(formatNumberInput(e.target.value, QUANTITY_FRACTION_DIGITS))} required placeholder={t('asset.quantityPlaceholder')} inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+            </div>
+            <CurrencySelect id="asset-currency" value={currency} currencies={assetCurrencies} onChange={setCurrency} />
+            <div>
+                <label htmlFor="asset-price" className="block text-sm font-medium text-secondary-gray">{t('asset.price', { currency: currency === 'IDR' ? 'Rp' : currency })}</label>
+                <input type="text" id="asset-price" value={price} onChange={e => setPrice(formatNumberInput(e.target.value, getFractionDigits(currency)))} required placeholder={t('asset.pricePlaceholder')} inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+            </div>
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('asset.save')}</button>
+        </form>
+    );
+};
+
+
+// Target <select> values: 'fund-add', 'fund-remove', 'daily' or a budget id.
+const encodeTarget = (target: TransactionTarget) =>
+    target.kind === 'fund' ? `fund-${target.type}` : target.kind === 'budget' ? String(target.budgetId) : 'daily';
+const decodeTarget = (value: string): TransactionTarget =>
+    value === 'fund-add' ? { kind: 'fund', type: 'add' } :
+    value === 'fund-remove' ? { kind: 'fund', type: 'remove' } :
+    value === 'daily' ? { kind: 'daily' } :
+    { kind: 'budget', budgetId: Number(value) };
+
+const TargetOptions: React.FC<{ budgets: Budget[] }> = ({ budgets }) => (
+    <>
+        <option value="fund-add">{t('target.income')}</option>
+        <option value="fund-remove">{t('target.generalExpense')}</option>
+        <option value="daily">{t('form.dailyMoney')}</option>
+        {budgets.map(b => <option key={b.id} value={b.id}>{t('target.budget', { name: b.name })}{b.isArchived ? t('target.archived') : ''}</option>)}
+    </>
+);
+
+type RecurringRuleFormData = Pick<RecurringRule, 'desc' | 'amount' | 'frequency' | 'intervalDays' | 'startDate' | 'endDate' | 'target'>;
+
+const RecurringRuleModalContent: React.FC<{
+    ruleToEdit?: RecurringRule;
+    budgets: Budget[];
+    onSubmit: (data: RecurringRuleFormData) => void;
+}> = ({ ruleToEdit, budgets, onSubmit }) => {
+    const [desc, setDesc] = useState(ruleToEdit?.desc || '');
+    const [amount, setAmount] = useState(ruleToEdit ? formatMoneyInput(ruleToEdit.amount) : '');
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>(ruleToEdit?.frequency || 'monthly');
+    const [intervalDays, setIntervalDays] = useState(String(ruleToEdit?.intervalDays || 14));
+    const [startDate, setStartDate] = useState(ruleToEdit?.startDate || toDateKey(new Date()));
+    const [endDate, setEndDate] = useState(ruleToEdit?.endDate || '');
+    const [target, setTarget] = useState(ruleToEdit ? encodeTarget(ruleToEdit.target) : 'fund-remove');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rawAmount = parseMoneyInput(amount);
+        const rawInterval = parseNumberInput(intervalDays);
+        if (!desc.trim() || rawAmount <= 0 || (frequency === 'custom' && rawInterval <= 0)) return;
+        if (endDate && endDate < startDate) return;
+
+        onSubmit({
+            desc: desc.trim(),
+            amount: rawAmount,
+            frequency,
+            intervalDays: frequency === 'custom' ? rawInterval : undefined,
+            startDate,
+            endDate: endDate || undefined,
+            target: decodeTarget(target),
+        });
+    };
+
+    const inputClass = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy";
 
     return (
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label htmlFor="asset-name" className="block text-sm font-medium text-secondary-gray">Nama Aset</label>
-                <input type="text" id="asset-name" value={name} onChange={e => setName(e.target.value)} required placeholder="Contoh: Laptop MacBook Pro" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="recurring-desc" className="block text-sm font-medium text-secondary-gray">{t('form.descriptionLabel')}</label>
+                <input type="text" id="recurring-desc" value={desc} onChange={e => setDesc(e.target.value)} required placeholder={t('recurring.form.descPlaceholder')} className={inputClass}/>
+            </div>
+            <div>
+                <label htmlFor="recurring-amount" className="block text-sm font-medium text-secondary-gray">{t('form.amountRp')}</label>
+                <input type="text" id="recurring-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="decimal" placeholder={t('recurring.form.amountPlaceholder')} className={inputClass}/>
+            </div>
+            <div>
+                <label htmlFor="recurring-target" className="block text-sm font-medium text-secondary-gray">{t('recurring.form.target')}</label>
+                <select id="recurring-target" value={target} onChange={e => setTarget(e.target.value)} className={inputClass}>
+                    <TargetOptions budgets={budgets} />
+                </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="recurring-frequency" className="block text-sm font-medium text-secondary-gray">{t('recurring.form.frequency')}</label>
+                    <select id="recurring-frequency" value={frequency} onChange={e => setFrequency(e.target.value as RecurrenceFrequency)} className={inputClass}>
+                        {(Object.keys(frequencyLabels) as RecurrenceFrequency[]).map(f => <option key={f} value={f}>{t(frequencyLabels[f])}</option>)}
+                    </select>
+                </div>
+                {frequency === 'custom' && (
+                    <div>
+                        <label htmlFor="recurring-interval" className="block text-sm font-medium text-secondary-gray">{t('recurring.form.interval')}</label>
+                        <input type="text" id="recurring-interval" value={intervalDays} onChange={e => setIntervalDays(e.target.value.replace(/[^0-9]/g, ''))} required inputMode="numeric" className={inputClass}/>
+                    </div>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="recurring-start" className="block text-sm font-medium text-secondary-gray">{t('recurring.form.start')}</label>
+                    <input type="date" id="recurring-start" value={startDate} onChange={e => setStartDate(e.target.value)} required className={inputClass}/>
+                </div>
+                <div>
+                    <label htmlFor="recurring-end" className="block text-sm font-medium text-secondary-gray">{t('recurring.form.end')}</label>
+                    <input type="date" id="recurring-end" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} className={inputClass}/>
+                </div>
             </div>
+            {frequency === 'monthly' && Number(startDate.slice(8, 10)) > 28 && (
+                <p className="text-xs text-secondary-gray">{t('recurring.form.monthEndHint')}</p>
+            )}
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('recurring.form.save')}</button>
+        </form>
+    );
+};
+
+type BillFormData = Pick<Bill, 'name' | 'amount' | 'dueDay' | 'budgetId'>;
+
+const BillModalContent: React.FC<{
+    billToEdit?: Bill;
+    budgets: Budget[];
+    onSubmit: (data: BillFormData) => void;
+}> = ({ billToEdit, budgets, onSubmit }) => {
+    const [name, setName] = useState(billToEdit?.name || '');
+    const [amount, setAmount] = useState(billToEdit ? formatMoneyInput(billToEdit.amount) : '');
+    const [dueDay, setDueDay] = useState(String(billToEdit?.dueDay || new Date().getDate()));
+    const [budgetId, setBudgetId] = useState(billToEdit?.budgetId !== undefined ? String(billToEdit.budgetId) : 'daily');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rawAmount = parseMoneyInput(amount);
+        const day = parseInt(dueDay, 10);
+        if (!name.trim() || rawAmount <= 0 || !(day >= 1 && day <= 31)) return;
+        onSubmit({
+            name: name.trim(),
+            amount: rawAmount,
+            dueDay: day,
+            budgetId: budgetId === 'daily' ? undefined : Number(budgetId),
+        });
+    };
+
+    const inputClass = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label htmlFor="asset-quantity" className="block text-sm font-medium text-secondary-gray">Jumlah</label>
-                <input type="text" id="asset-quantity" value={quantity} onChange={e => setQuantity(formatNumberInput(e.target.value))} required placeholder="Contoh: 1" inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="bill-name" className="block text-sm font-medium text-secondary-gray">{t('bills.form.name')}</label>
+                <input type="text" id="bill-name" value={name} onChange={e => setName(e.target.value)} required placeholder={t('bills.form.namePlaceholder')} className={inputClass}/>
             </div>
             <div>
-                <label htmlFor="asset-price" className="block text-sm font-medium text-secondary-gray">Perkiraan Harga per Unit (Rp)</label>
-                <input type="text" id="asset-price" value={price} onChange={e => setPrice(formatNumberInput(e.target.value))} required placeholder="Contoh: 20.000.000" inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="bill-amount" className="block text-sm font-medium text-secondary-gray">{t('form.amountRp')}</label>
+                <input type="text" id="bill-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="decimal" placeholder={t('bills.form.amountPlaceholder')} className={inputClass}/>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="bill-due-day" className="block text-sm font-medium text-secondary-gray">{t('bills.form.dueDay')}</label>
+                    <input type="number" id="bill-due-day" min={1} max={31} value={dueDay} onChange={e => setDueDay(e.target.value)} required className={inputClass}/>
+                </div>
+                <div>
+                    <label htmlFor="bill-budget" className="block text-sm font-medium text-secondary-gray">{t('bills.form.budget')}</label>
+                    <select id="bill-budget" value={budgetId} onChange={e => setBudgetId(e.target.value)} className={inputClass}>
+                        <option value="daily">{t('form.dailyMoney')}</option>
+                        {budgets.map(b => <option key={b.id} value={b.id}>{t('target.budget', { name: b.name })}</option>)}
+                    </select>
+                </div>
             </div>
-            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Simpan Aset</button>
+            {parseInt(dueDay, 10) > 28 && (
+                <p className="text-xs text-secondary-gray">{t('bills.form.monthEndHint')}</p>
+            )}
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('bills.form.save')}</button>
         </form>
     );
 };
 
+const ALERT_HISTORY_SHOWN = 20;
+
+const NotificationCenterModalContent: React.FC<{
+    reminders: BillOccurrence[];
+    settings: BillReminderSettings;
+    onChangeSettings: (settings: BillReminderSettings) => void;
+    alerts: BudgetAlert[];
+    alertSettings: BudgetAlertSettings;
+    onChangeAlertSettings: (settings: BudgetAlertSettings) => void;
+    aiQueue: QueuedAIRequest[];
+    isOnline: boolean;
+    onReviewQueued: (id: string) => void;
+    onRetryQueued: (id: string) => void;
+    onDeleteQueued: (id: string) => void;
+    onMarkPaid: (billId: number, month: string) => void;
+    onManageBills: () => void;
+}> = ({ reminders, settings, onChangeSettings, alerts, alertSettings, onChangeAlertSettings, aiQueue, isOnline, onReviewQueued, onRetryQueued, onDeleteQueued, onMarkPaid, onManageBills }) => {
+    const support = getNotificationSupport();
+    const checkboxClass = "mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy";
+
+    return (
+        <div className="space-y-4">
+            {aiQueue.length > 0 && (
+                <section>
+                    <h3 className="font-semibold text-dark-text mb-1">{t('aiQueue.title')}</h3>
+                    <ul className="divide-y divide-gray-100">
+                        {aiQueue.map(request => (
+                            <li key={request.id} className="flex justify-between items-center gap-3 py-3">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-dark-text text-sm truncate">
+                                        {request.kind === 'smartInput' ? t('aiQueue.smartInput', { text: request.text }) : t('aiQueue.scan')}
+                                    </p>
+                                    <p className={`text-xs ${request.failed ? 'text-danger-red' : 'text-secondary-gray'}`}>
+                                        {request.result ? t('aiQueue.ready') : request.failed ? t('aiQueue.failed') : isOnline ? t('aiQueue.sending') : t('aiQueue.waiting')}
+                                        {' · '}{formatDateTime(request.createdAt)}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    {request.result && (
+                                        <button onClick={() => onReviewQueued(request.id)} className="text-sm font-semibold px-3 py-2 rounded-lg bg-accent-teal text-white hover:bg-accent-teal-dark transition-colors">
+                                            {t('aiQueue.review')}
+                                        </button>
+                                    )}
+                                    {request.failed && (
+                                        <button onClick={() => onRetryQueued(request.id)} className="text-sm font-semibold px-3 py-2 rounded-lg bg-gray-200 text-dark-text hover:bg-gray-300 transition-colors">
+                                            {t('aiQueue.retry')}
+                                        </button>
+                                    )}
+                                    <button onClick={() => onDeleteQueued(request.id)} className="p-2 text-secondary-gray hover:text-danger-red" aria-label={t('common.delete')}>
+                                        <TrashIcon className="w-5 h-5" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+            <section>
+                <h3 className="font-semibold text-dark-text mb-1">{t('notifications.billsTitle')}</h3>
+                {reminders.length === 0 ? (
+                    <p className="text-sm text-secondary-gray py-2">{t('notifications.empty')}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {reminders.map(reminder => (
+                            <li key={`${reminder.bill.id}-${reminder.month}`} className="flex justify-between items-center gap-3 py-3">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-dark-text truncate">{reminder.bill.name}</p>
+                                    <p className="text-sm text-secondary-gray">{formatCurrency(reminder.bill.amount)}</p>
+                                    <p className={`text-xs font-semibold ${reminder.status === 'overdue' ? 'text-danger-red' : 'text-yellow-600'}`}>{describeBillStatus(reminder)}</p>
+                                </div>
+                                <button onClick={() => onMarkPaid(reminder.bill.id, reminder.month)} className="flex-shrink-0 text-sm font-semibold px-3 py-2 rounded-lg bg-accent-teal text-white hover:bg-accent-teal-dark transition-colors">
+                                    {t('bills.markPaid')}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <button onClick={onManageBills} className="w-full mt-2 bg-gray-200 text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors">
+                    {t('notifications.manageBills')}
+                </button>
+            </section>
+            <section>
+                <h3 className="font-semibold text-dark-text mb-1">{t('notifications.alertsTitle')}</h3>
+                {alerts.length === 0 ? (
+                    <p className="text-sm text-secondary-gray py-2">{t('notifications.noAlerts')}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                        {alerts.slice(0, ALERT_HISTORY_SHOWN).map(alert => {
+                            const { title, body } = describeBudgetAlert(alert);
+                            return (
+                                <li key={alert.id} className="flex items-start gap-3 py-3">
+                                    <ExclamationTriangleIcon className={`w-5 h-5 flex-shrink-0 ${alert.threshold >= 100 ? 'text-danger-red' : 'text-yellow-600'}`} />
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-dark-text text-sm">{title}</p>
+                                        <p className="text-sm text-secondary-gray">{body}</p>
+                                        <p className="text-xs text-secondary-gray">{formatDateTime(alert.timestamp)}</p>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </section>
+            <div className="p-3 bg-gray-50 rounded-lg border space-y-3">
+                <p className="font-semibold text-dark-text text-sm">{t('notifications.settingsTitle')}</p>
+                <label className="flex items-center justify-between gap-2 text-sm text-dark-text">
+                    {t('notifications.daysAhead')}
+                    <input
+                        type="number"
+                        min={0}
+                        max={14}
+                        value={settings.daysAhead}
+                        onChange={e => onChangeSettings({ ...settings, daysAhead: Math.max(0, Math.min(14, parseInt(e.target.value, 10) || 0)) })}
+                        className="w-20 p-2 border border-gray-300 rounded-lg text-sm text-dark-text"
+                    />
+                </label>
+                <label className="flex items-start gap-2 text-sm text-dark-text">
+                    <input type="checkbox" checked={alertSettings.daily} onChange={e => onChangeAlertSettings({ ...alertSettings, daily: e.target.checked })} className={checkboxClass} />
+                    <span>{t('notifications.dailyAlert')}</span>
+                </label>
+                <label className={`flex items-start gap-2 text-sm ${support === 'unsupported' ? 'text-secondary-gray' : 'text-dark-text'}`}>
+                    <input
+                        type="checkbox"
+                        checked={settings.notify && support === 'granted'}
+                        disabled={support === 'unsupported' || support === 'denied'}
+                        onChange={e => onChangeSettings({ ...settings, notify: e.target.checked })}
+                        className={checkboxClass}
+                    />
+                    <span>{t('notifications.browser')}</span>
+                </label>
+                <label className={`flex items-start gap-2 text-sm ${support === 'unsupported' ? 'text-secondary-gray' : 'text-dark-text'}`}>
+                    <input
+                        type="checkbox"
+                        checked={alertSettings.notify && support === 'granted'}
+                        disabled={support === 'unsupported' || support === 'denied'}
+                        onChange={e => onChangeAlertSettings({ ...alertSettings, notify: e.target.checked })}
+                        className={checkboxClass}
+                    />
+                    <span>{t('notifications.alertBrowser')}</span>
+                </label>
+                {support === 'unsupported' && <p className="text-xs text-secondary-gray">{t('notifications.unsupported')}</p>}
+                {support === 'denied' && <p className="text-xs text-danger-red">{t('notifications.denied')}</p>}
+            </div>
+        </div>
+    );
+};
+
+const BudgetAlertToast: React.FC<{ alert: BudgetAlert | null; onOpen: () => void }> = ({ alert, onOpen }) => {
+    if (!alert) return null;
+    const { title, body } = describeBudgetAlert(alert);
+    return (
+        <div className="fixed top-5 left-1/2 -translate-x-1/2 z-[90] w-full max-w-sm px-4 animate-fade-in">
+            <button onClick={onOpen} className={`w-full text-left text-white rounded-xl shadow-2xl p-4 flex items-center space-x-4 ${alert.threshold >= 100 ? 'bg-danger-red' : 'bg-yellow-600'}`}>
+                <ExclamationTriangleIcon className="w-8 h-8 flex-shrink-0" />
+                <div>
+                    <p className="font-bold">{title}</p>
+                    <p className="text-sm">{body}</p>
+                </div>
+            </button>
+        </div>
+    );
+};
 
 const IconColorPicker: React.FC<{
     selectedIcon: string;
@@ -2039,7 +3513,7 @@ const IconColorPicker: React.FC<{
     return (
         <div className="space-y-4">
             <div>
-                <label className="block text-sm font-medium text-secondary-gray">Pilih Ikon</label>
+                <label className="block text-sm font-medium text-secondary-gray">{t('form.chooseIcon')}</label>
                 <div className="mt-2 grid grid-cols-6 gap-2">
                     {availableIcons.map(iconName => (
                         <button
@@ -2054,7 +3528,7 @@ const IconColorPicker: React.FC<{
                 </div>
             </div>
             <div>
-                 <label className="block text-sm font-medium text-secondary-gray">Pilih Warna</label>
+                 <label className="block text-sm font-medium text-secondary-gray">{t('form.chooseColor')}</label>
                  <div className="mt-2 flex flex-wrap gap-3">
                     {availableColors.map(color => (
                         <button
@@ -2063,7 +3537,7 @@ const IconColorPicker: React.FC<{
                             onClick={() => onColorSelect(color)}
                             style={{ backgroundColor: color }}
                             className={`w-8 h-8 rounded-full border-2 transition-transform transform hover:scale-110 ${selectedColor === color ? 'border-white ring-2 ring-primary-navy' : 'border-transparent'}`}
-                            aria-label={`Select color ${color}`}
+                            aria-label={t('form.selectColor', { color })}
                         />
                     ))}
                  </div>
@@ -2072,56 +3546,70 @@ const IconColorPicker: React.FC<{
     )
 };
 
-const FundsManagementModalContent: React.FC<{ onSubmit: (type: 'add' | 'remove', desc: string, amount: number) => void, onViewHistory: () => void }> = ({ onSubmit, onViewHistory }) => {
+const FundsManagementModalContent: React.FC<{ currencies: string[], allTags: string[], onSubmit: (type: 'add' | 'remove', desc: string, amount: Money, currency: string, tags: string[], annotation: Annotated) => void, onViewHistory: () => void }> = ({ currencies, allTags, onSubmit, onViewHistory }) => {
     const [type, setType] = useState<'add' | 'remove'>('add');
     const [desc, setDesc] = useState('');
     const [amount, setAmount] = useState('');
+    const [currency, setCurrency] = useState(currencies[0]);
+    const [tags, setTags] = useState<string[]>([]);
+    const [note, setNote] = useState('');
+    const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const rawAmount = getRawNumber(amount);
+        const rawAmount = parseMoneyInput(amount, currency);
         if (desc && rawAmount > 0) {
-            onSubmit(type, desc, rawAmount);
+            onSubmit(type, desc, rawAmount, currency, tags, { note, attachmentIds });
             setDesc('');
             setAmount('');
+            setTags([]);
+            setNote('');
+            setAttachmentIds([]);
         }
     };
     return (
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label htmlFor="fund-trans-type" className="block text-sm font-medium text-secondary-gray">Jenis Transaksi</label>
+                <label htmlFor="fund-trans-type" className="block text-sm font-medium text-secondary-gray">{t('funds.type')}</label>
                 <select id="fund-trans-type" value={type} onChange={e => setType(e.target.value as 'add' | 'remove')} className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy">
-                    <option value="add">Pemasukan</option>
-                    <option value="remove">Pengeluaran Umum</option>
+                    <option value="add">{t('target.income')}</option>
+                    <option value="remove">{t('target.generalExpense')}</option>
                 </select>
             </div>
             <div>
-                <label htmlFor="fund-trans-desc" className="block text-sm font-medium text-secondary-gray">Keterangan</label>
+                <label htmlFor="fund-trans-desc" className="block text-sm font-medium text-secondary-gray">{t('form.description')}</label>
                 <input type="text" id="fund-trans-desc" value={desc} onChange={e => setDesc(e.target.value)} required className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
+            <CurrencySelect id="fund-trans-currency" value={currency} currencies={currencies} onChange={setCurrency} />
             <div>
-                <label htmlFor="fund-trans-amount" className="block text-sm font-medium text-secondary-gray">Nominal (Rp)</label>
-                <input type="text" id="fund-trans-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="fund-trans-amount" className="block text-sm font-medium text-secondary-gray">{t('form.amountIn', { currency: currency === 'IDR' ? 'Rp' : currency })}</label>
+                <input type="text" id="fund-trans-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value, getFractionDigits(currency)))} required inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
-            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Proses Transaksi</button>
-            <button type="button" onClick={onViewHistory} className="w-full bg-gray-200 text-dark-text font-bold py-3 rounded-lg hover:bg-gray-300 transition-colors mt-2">Lihat Riwayat</button>
+            <TagInput id="fund-trans-tags" tags={tags} allTags={allTags} onChange={setTags} />
+            <AnnotationFields id="fund-trans" note={note} attachmentIds={attachmentIds} onNoteChange={setNote} onAttachmentIdsChange={setAttachmentIds} />
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('funds.process')}</button>
+            <button type="button" onClick={onViewHistory} className="w-full bg-gray-200 text-dark-text font-bold py-3 rounded-lg hover:bg-gray-300 transition-colors mt-2">{t('funds.viewHistory')}</button>
         </form>
     );
 };
 
-const HistoryModalContent: React.FC<{ transactions: any[], type: string, budgetId?: number, onDelete: (timestamp: number, type: string, budgetId?: number) => void }> = ({ transactions, type, budgetId, onDelete }) => {
+const HistoryModalContent: React.FC<{ transactions: any[], type: string, budgetId?: number, onEdit: (id: string) => void, onDelete: (id: string, type: string, budgetId?: number) => void }> = ({ transactions, type, budgetId, onEdit, onDelete }) => {
     return (
         <ul className="max-h-80 overflow-y-auto -mx-6">
             {transactions.length === 0 ? (
-                <li className="px-6 py-4 text-center text-secondary-gray">Tidak ada riwayat.</li>
+                <li className="px-6 py-4 text-center text-secondary-gray">{t('history.empty')}</li>
             ) : (
                 transactions.map((item) => (
-                    <li key={item.timestamp} className="flex justify-between items-center px-6 py-3 border-b border-gray-100">
+                    <li key={item.id} className="flex justify-between items-center px-6 py-3 border-b border-gray-100">
                         <div>
                             <p className="font-semibold text-dark-text">{item.desc}</p>
                             <p className={`font-bold ${item.type === 'add' ? 'text-accent-teal' : 'text-danger-red'}`}>{item.type === 'add' ? '+' : '-'} {formatCurrency(item.amount)}</p>
-                            <p className="text-xs text-secondary-gray mt-1">{new Date(item.timestamp).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                            {formatOriginalAmount(item) && <p className="text-xs text-secondary-gray">{t('history.paid', { amount: formatOriginalAmount(item)! })}</p>}
+                            <p className="text-xs text-secondary-gray mt-1">{formatDateTime(item.timestamp)}</p>
+                        </div>
+                        <div className="flex items-center">
+                            <button onClick={() => onEdit(item.id)} className="text-gray-400 hover:text-primary-navy p-2" aria-label={t('common.editTransaction')}><PencilSquareIcon className="w-5 h-5" /></button>
+                            <button onClick={() => onDelete(item.id, type, budgetId)} className="text-gray-400 hover:text-danger-red text-xl p-2">&#128465;</button>
                         </div>
-                        <button onClick={() => onDelete(item.timestamp, type, budgetId)} className="text-gray-400 hover:text-danger-red text-xl p-2">&#128465;</button>
                     </li>
                 ))
             )}
@@ -2129,39 +3617,123 @@ const HistoryModalContent: React.FC<{ transactions: any[], type: string, budgetI
     );
 };
 
-const InfoModalContent: React.FC<{ monthlyIncome: number, totalAllocated: number, unallocatedFunds: number, generalAndDailyExpenses: number, remainingUnallocated: number }> = 
+// datetime-local values are in local time, minute precision.
+const toDateTimeInputValue = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const EditTransactionModalContent: React.FC<{
+    located: LocatedTransaction;
+    budgets: Budget[];
+    allTags: string[];
+    onSubmit: (draft: TransactionDraft) => void;
+}> = ({ located, budgets, allTags, onSubmit }) => {
+    const { draft: original, scope, savingsGoalId, legacyCategory } = located;
+    const [desc, setDesc] = useState(original.desc);
+    const [tags, setTags] = useState(original.tags);
+    const [note, setNote] = useState(original.note);
+    const [attachmentIds, setAttachmentIds] = useState(original.attachmentIds);
+    const [amount, setAmount] = useState(formatMoneyInput(original.amount));
+    const [dateTime, setDateTime] = useState(toDateTimeInputValue(original.timestamp));
+    const [target, setTarget] = useState(original.target ? encodeTarget(original.target) : 'keep');
+    const isSavingsDeposit = savingsGoalId !== undefined;
+
+    // Live entries stay in the running month; archived ones stay in closed months.
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const minDateTime = scope === 'live' ? toDateTimeInputValue(monthStart.getTime()) : undefined;
+    const maxDateTime = scope === 'live'
+        ? toDateTimeInputValue(new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59).getTime())
+        : toDateTimeInputValue(monthStart.getTime() - 60000);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rawAmount = parseMoneyInput(amount);
+        const pickedTime = new Date(dateTime).getTime();
+        if (!desc.trim() || rawAmount <= 0 || isNaN(pickedTime)) return;
+        if ((minDateTime && dateTime < minDateTime) || (maxDateTime && dateTime > maxDateTime)) return;
+
+        // Keep the original seconds so an unchanged minute keeps the same timestamp.
+        const timestamp = dateTime === toDateTimeInputValue(original.timestamp) ? original.timestamp : pickedTime + (original.timestamp % 60000);
+        onSubmit({
+            desc: desc.trim(),
+            amount: rawAmount,
+            timestamp,
+            target: target === 'keep' ? null : decodeTarget(target),
+            tags,
+            note,
+            attachmentIds,
+        });
+    };
+
+    const inputClass = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy disabled:bg-gray-100";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {scope === 'archive' && (
+                <p className="text-xs text-secondary-gray bg-gray-100 p-2 rounded-md">{t('editTransaction.archivedHint')}</p>
+            )}
+            <div>
+                <label htmlFor="edit-tx-desc" className="block text-sm font-medium text-secondary-gray">{t('form.descriptionLabel')}</label>
+                <input type="text" id="edit-tx-desc" value={desc} onChange={e => setDesc(e.target.value)} required disabled={isSavingsDeposit} className={inputClass}/>
+            </div>
+            <div>
+                <label htmlFor="edit-tx-amount" className="block text-sm font-medium text-secondary-gray">{t('form.amountRp')}</label>
+                <input type="text" id="edit-tx-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="decimal" className={inputClass}/>
+            </div>
+            <div>
+                <label htmlFor="edit-tx-time" className="block text-sm font-medium text-secondary-gray">{t('editTransaction.time')}</label>
+                <input type="datetime-local" id="edit-tx-time" value={dateTime} min={minDateTime} max={maxDateTime} onChange={e => setDateTime(e.target.value)} required className={inputClass}/>
+            </div>
+            <div>
+                <label htmlFor="edit-tx-target" className="block text-sm font-medium text-secondary-gray">{t('editTransaction.category')}</label>
+                <select id="edit-tx-target" value={target} onChange={e => setTarget(e.target.value)} disabled={isSavingsDeposit} className={inputClass}>
+                    {legacyCategory !== undefined && <option value="keep">{t('editTransaction.deletedBudget', { category: legacyCategory })}</option>}
+                    <TargetOptions budgets={budgets} />
+                </select>
+                {isSavingsDeposit && <p className="text-xs text-secondary-gray mt-1">{t('editTransaction.savingsHint')}</p>}
+            </div>
+            <TagInput id="edit-tx-tags" tags={tags} allTags={allTags} onChange={setTags} />
+            <AnnotationFields id="edit-tx" note={note} attachmentIds={attachmentIds} onNoteChange={setNote} onAttachmentIdsChange={setAttachmentIds} />
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('common.saveChanges')}</button>
+        </form>
+    );
+};
+
+const InfoModalContent: React.FC<{ monthlyIncome: Money, totalAllocated: Money, unallocatedFunds: Money, generalAndDailyExpenses: Money, remainingUnallocated: Money }> = 
 ({ monthlyIncome, totalAllocated, unallocatedFunds, generalAndDailyExpenses, remainingUnallocated }) => {
     return (
         <div>
             <div className="space-y-3 text-sm text-dark-text">
-                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">Total Pemasukan Bulan Ini</h3><p className="font-semibold text-primary-navy">{formatCurrency(monthlyIncome)}</p></div>
-                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">Dialokasikan ke Pos</h3><p className="font-semibold text-dark-text">- {formatCurrency(totalAllocated)}</p></div>
+                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">{t('info.income')}</h3><p className="font-semibold text-primary-navy">{formatCurrency(monthlyIncome)}</p></div>
+                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">{t('info.allocated')}</h3><p className="font-semibold text-dark-text">- {formatCurrency(totalAllocated)}</p></div>
                 <hr/>
-                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">Dana Tak Terikat (Awal)</h3><p className="font-semibold text-primary-navy">{formatCurrency(unallocatedFunds)}</p></div>
-                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">Pengeluaran Umum & Harian</h3><p className="font-semibold text-dark-text">- {formatCurrency(generalAndDailyExpenses)}</p></div>
+                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">{t('info.unallocated')}</h3><p className="font-semibold text-primary-navy">{formatCurrency(unallocatedFunds)}</p></div>
+                <div className="flex justify-between items-center"><h3 className="text-secondary-gray">{t('info.generalAndDaily')}</h3><p className="font-semibold text-dark-text">- {formatCurrency(generalAndDailyExpenses)}</p></div>
                 <hr/>
-                <div className="flex justify-between items-center font-bold text-base"><h3 className="text-dark-text">Sisa Dana Tak Terikat</h3><p className="text-primary-navy">{formatCurrency(remainingUnallocated)}</p></div>
+                <div className="flex justify-between items-center font-bold text-base"><h3 className="text-dark-text">{t('info.remaining')}</h3><p className="text-primary-navy">{formatCurrency(remainingUnallocated)}</p></div>
             </div>
         </div>
     );
 };
 
-const EditAssetModalContent: React.FC<{ currentAsset: number; onSubmit: (newAmount: number) => void; }> = ({ currentAsset, onSubmit }) => {
+const EditAssetModalContent: React.FC<{ currentAsset: Money; onSubmit: (newAmount: Money) => void; }> = ({ currentAsset, onSubmit }) => {
     const [amount, setAmount] = useState('');
     useEffect(() => {
-        setAmount(formatNumberInput(currentAsset));
+        setAmount(formatMoneyInput(currentAsset));
     }, [currentAsset]);
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSubmit(getRawNumber(amount));
+        onSubmit(parseMoneyInput(amount));
     };
     return (
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label htmlFor="new-asset-amount" className="block text-sm font-medium text-secondary-gray">Total Aset Seharusnya (Rp)</label>
-                <input type="text" id="new-asset-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="new-asset-amount" className="block text-sm font-medium text-secondary-gray">{t('editBalance.label')}</label>
+                <input type="text" id="new-asset-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
-            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Simpan Koreksi</button>
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('editBalance.save')}</button>
         </form>
     );
 };
@@ -2169,65 +3741,104 @@ const EditAssetModalContent: React.FC<{ currentAsset: number; onSubmit: (newAmou
 const SettingsModalContent: React.FC<{
     onExport: () => void;
     onImport: () => void;
+    onImportBankCsv: () => void;
     onManageArchived: () => void;
+    onManageCurrency: () => void;
     onManualBackup: () => void;
     onManageBackups: () => void;
     onResetMonthly: () => void;
     onResetAll: () => void;
-}> = ({ onExport, onImport, onManageArchived, onManualBackup, onManageBackups, onResetMonthly, onResetAll }) => {
+    locale: Locale;
+    onChangeLocale: (locale: Locale) => void;
+    aiProvider: AIProvider;
+    onManageAIProvider: () => void;
+}> = ({ onExport, onImport, onImportBankCsv, onManageArchived, onManageCurrency, onManualBackup, onManageBackups, onResetMonthly, onResetAll, locale, onChangeLocale, aiProvider, onManageAIProvider }) => {
     return (
         <div className="space-y-6">
+            <div className="bg-gray-50 rounded-lg border p-4">
+                <label htmlFor="settings-locale" className="block font-bold text-dark-text mb-3">{t('settings.language')}</label>
+                <select id="settings-locale" value={locale} onChange={e => onChangeLocale(e.target.value as Locale)} className="block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy">
+                    {locales.map(l => <option key={l} value={l}>{localeNames[l]}</option>)}
+                </select>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg border p-4">
+                <h4 className="font-bold text-dark-text mb-3">{t('settings.ai')}</h4>
+                <button
+                    onClick={onManageAIProvider}
+                    className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                    <SparklesIcon className="w-6 h-6"/>
+                    <span>{t('settings.aiProvider', { provider: t(aiProviderLabels[aiProvider.kind]) })}</span>
+                </button>
+                <p className="text-xs text-secondary-gray mt-2 text-center">{aiProvider.model}</p>
+            </div>
+
              <div className="bg-gray-50 rounded-lg border p-4">
-                <h4 className="font-bold text-dark-text mb-3">Manajemen Anggaran</h4>
+                <h4 className="font-bold text-dark-text mb-3">{t('settings.budgetManagement')}</h4>
                 <div className="flex flex-col gap-3">
                     <button
                         onClick={onManageArchived}
                         className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
                     >
                         <ArchiveBoxIcon className="w-6 h-6"/>
-                        <span>Kelola Pos Anggaran Diarsipkan</span>
+                        <span>{t('settings.archivedBudgets')}</span>
+                    </button>
+                    <button
+                        onClick={onManageCurrency}
+                        className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                        <ArrowPathIcon className="w-6 h-6"/>
+                        <span>{t('settings.currency')}</span>
                     </button>
                 </div>
             </div>
             
             <div className="bg-blue-50 rounded-lg border border-blue-300 p-4">
-                <h4 className="font-bold text-dark-text mb-3">Cadangan & Pemulihan</h4>
+                <h4 className="font-bold text-dark-text mb-3">{t('settings.backup')}</h4>
                 <div className="flex flex-col gap-3">
                      <button
                         onClick={onManualBackup}
                         className="w-full flex items-center justify-center gap-3 bg-white border-2 border-primary-navy text-primary-navy font-bold py-3 px-4 rounded-lg hover:bg-blue-100 transition-colors"
                     >
                         <ArrowDownTrayIcon className="w-6 h-6"/>
-                        <span>Cadangkan Manual Sekarang</span>
+                        <span>{t('settings.manualBackup')}</span>
                     </button>
                      <button
                         onClick={onManageBackups}
                         className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
                     >
                         <ServerStackIcon className="w-6 h-6"/>
-                        <span>Kelola Cadangan Internal</span>
+                        <span>{t('settings.manageBackups')}</span>
                     </button>
                 </div>
-                <p className="text-xs text-secondary-gray mt-3 text-center">Cadangan otomatis mingguan untuk memulihkan data jika terjadi kesalahan.</p>
+                <p className="text-xs text-secondary-gray mt-3 text-center">{t('settings.backupHint')}</p>
             </div>
 
 
             <div className="bg-gray-50 rounded-lg border p-4">
-                <h4 className="font-bold text-dark-text mb-3">Manajemen Data</h4>
+                <h4 className="font-bold text-dark-text mb-3">{t('settings.dataManagement')}</h4>
                 <div className="flex flex-col gap-3">
                     <button
                         onClick={onImport}
                         className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
                     >
                         <ArrowUpTrayIcon className="w-6 h-6"/>
-                        <span>Impor Data dari File</span>
+                        <span>{t('settings.import')}</span>
+                    </button>
+                    <button
+                        onClick={onImportBankCsv}
+                        className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                        <BuildingLibraryIcon className="w-6 h-6"/>
+                        <span>{t('settings.importBank')}</span>
                     </button>
                     <button
                         onClick={onExport}
                         className="w-full flex items-center justify-center gap-3 bg-white border-2 border-gray-300 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-100 transition-colors"
                     >
                          <ArrowDownTrayIcon className="w-6 h-6"/>
-                        <span>Ekspor Data ke File</span>
+                        <span>{t('settings.export')}</span>
                     </button>
                 </div>
             </div>
@@ -2235,24 +3846,24 @@ const SettingsModalContent: React.FC<{
             <div className="bg-red-50 rounded-lg border border-danger-red p-4">
                 <div className="flex items-center gap-2 mb-3">
                     <ExclamationTriangleIcon className="w-6 h-6 text-danger-red"/>
-                    <h4 className="font-bold text-danger-red">Zona Berbahaya</h4>
+                    <h4 className="font-bold text-danger-red">{t('settings.dangerZone')}</h4>
                 </div>
                 <div className="flex flex-col gap-3">
                     <button onClick={onResetMonthly} className="w-full bg-white border-2 border-danger-red text-danger-red font-bold py-3 px-4 rounded-lg hover:bg-red-100 transition-colors">
-                        Reset Data Bulan Ini
+                        {t('settings.resetMonth')}
                     </button>
                     <button onClick={onResetAll} className="w-full bg-danger-red text-white font-bold py-3 px-4 rounded-lg hover:bg-danger-red-dark transition-colors">
-                        Reset Semua Data Aplikasi
+                        {t('settings.resetAll')}
                     </button>
                 </div>
             </div>
 
             <div className="bg-gray-50 rounded-lg border p-4 text-center">
-                <h4 className="font-bold text-dark-text mb-2">Tentang Aplikasi</h4>
+                <h4 className="font-bold text-dark-text mb-2">{t('settings.about')}</h4>
                 <div className="space-y-1 text-sm text-secondary-gray">
-                    <p>Versi: {APP_VERSION}</p>
-                    <p>Pembuat Asli: Abdul Wahab Maulana</p>
-                    <p className="pt-1 text-xs">Teknologi: React, TypeScript, Tailwind, Gemini API</p>
+                    <p>{t('settings.version', { version: APP_VERSION })}</p>
+                    <p>{t('settings.author', { name: 'Abdul Wahab Maulana' })}</p>
+                    <p className="pt-1 text-xs">{t('settings.technology', { stack: 'React, TypeScript, Tailwind, Gemini API' })}</p>
                 </div>
             </div>
         </div>
@@ -2267,7 +3878,7 @@ const ArchivedBudgetsModalContent: React.FC<{
     return (
         <div className="space-y-3">
             {archivedBudgets.length === 0 ? (
-                <p className="text-center text-secondary-gray py-6">Tidak ada pos anggaran yang diarsipkan.</p>
+                <p className="text-center text-secondary-gray py-6">{t('archived.empty')}</p>
             ) : (
                 archivedBudgets.map(budget => (
                     <div key={budget.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -2282,11 +3893,11 @@ const ArchivedBudgetsModalContent: React.FC<{
                         <div className="flex items-center gap-2 flex-shrink-0">
                             <button onClick={() => onRestore(budget.id)} className="flex items-center gap-2 text-sm bg-accent-teal text-white font-semibold py-2 px-3 rounded-lg hover:bg-accent-teal-dark transition-colors">
                                 <ArrowUturnLeftIcon className="w-4 h-4" />
-                                <span>Pulihkan</span>
+                                <span>{t('common.restore')}</span>
                             </button>
                             <button 
                                 onClick={() => onDelete(budget.id)} 
-                                title="Hapus Permanen"
+                                title={t('archived.deletePermanently')}
                                 className="p-2 text-gray-400 hover:text-white hover:bg-danger-red rounded-lg transition-colors"
                             >
                                 <TrashIcon className="w-5 h-5" />
@@ -2299,46 +3910,575 @@ const ArchivedBudgetsModalContent: React.FC<{
     );
 };
 
+const CurrencyModalContent: React.FC<{
+    baseCurrency: string;
+    exchangeRates: ExchangeRate[];
+    onChangeBaseCurrency: (currency: string) => void;
+    onSaveRate: (currency: string, date: string, rate: number) => void;
+    onDeleteRate: (id: string) => void;
+}> = ({ baseCurrency, exchangeRates, onChangeBaseCurrency, onSaveRate, onDeleteRate }) => {
+    const ratedCurrencies = getRatedCurrencies(exchangeRates);
+    const knownCurrencies = [...new Set([...commonCurrencies, ...ratedCurrencies, baseCurrency])].sort();
+    const foreignCurrencies = knownCurrencies.filter(c => c !== baseCurrency);
+    const [nextBase, setNextBase] = useState(baseCurrency);
+    const [rateCurrency, setRateCurrency] = useState(foreignCurrencies[0]);
+    const [rateDate, setRateDate] = useState(toDateKey(new Date()));
+    const [rateValue, setRateValue] = useState('');
+
+    useEffect(() => {
+        setNextBase(baseCurrency);
+        if (rateCurrency === baseCurrency) setRateCurrency(foreignCurrencies[0]);
+    }, [baseCurrency]);
+
+    const handleSaveRate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const rate = Number(rateValue.replace(',', '.'));
+        if (rateCurrency && rateDate && rate > 0) {
+            onSaveRate(rateCurrency, rateDate, rate);
+            setRateValue('');
+        }
+    };
+
+    const sortedRates = [...exchangeRates].sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+    const canChangeBase = nextBase !== baseCurrency && ratedCurrencies.includes(nextBase);
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-gray-50 rounded-lg border p-4">
+                <h4 className="font-bold text-dark-text mb-1">{t('currency.base')}</h4>
+                <p className="text-xs text-secondary-gray mb-3">{t('currency.baseHint')}</p>
+                <div className="flex gap-2">
+                    <select value={nextBase} onChange={e => setNextBase(e.target.value)} className="flex-grow px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy">
+                        {knownCurrencies.map(c => <option key={c} value={c}>{c} - {formatCurrencyName(c)}</option>)}
+                    </select>
+                    <button onClick={() => onChangeBaseCurrency(nextBase)} disabled={!canChangeBase} className="bg-primary-navy text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-navy-dark transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed">
+                        {t('currency.change')}
+                    </button>
+                </div>
+                {nextBase !== baseCurrency && !canChangeBase && (
+                    <p className="text-xs text-danger-red mt-2">{t('currency.noRateFor', { currency: nextBase })}</p>
+                )}
+            </div>
+
+            <form onSubmit={handleSaveRate} className="bg-gray-50 rounded-lg border p-4 space-y-3">
+                <h4 className="font-bold text-dark-text">{t('currency.recordRate')}</h4>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="rate-currency" className="block text-sm font-medium text-secondary-gray">{t('currency.label')}</label>
+                        <select id="rate-currency" value={rateCurrency} onChange={e => setRateCurrency(e.target.value)} className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy">
+                            {foreignCurrencies.map(c => <option key={c} value={c}>{c} - {formatCurrencyName(c)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="rate-date" className="block text-sm font-medium text-secondary-gray">{t('currency.validFrom')}</label>
+                        <input type="date" id="rate-date" value={rateDate} onChange={e => setRateDate(e.target.value)} required className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="rate-value" className="block text-sm font-medium text-secondary-gray">1 {rateCurrency} = ... {baseCurrency}</label>
+                    <input type="text" id="rate-value" value={rateValue} onChange={e => setRateValue(e.target.value.replace(/[^0-9.,]/g, ''))} required inputMode="decimal" placeholder={t('currency.rateExample')} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                </div>
+                <button type="submit" className="w-full bg-accent-teal text-white font-bold py-2 rounded-lg hover:bg-accent-teal-dark transition-colors">{t('currency.saveRate')}</button>
+            </form>
+
+            <div>
+                <h4 className="font-bold text-dark-text mb-2">{t('currency.rateHistory')}</h4>
+                {sortedRates.length === 0 ? (
+                    <p className="text-sm text-secondary-gray text-center py-4">{t('currency.noRates', { currency: baseCurrency })}</p>
+                ) : (
+                    <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+                        {sortedRates.map(rate => (
+                            <li key={rate.id} className="flex justify-between items-center py-2">
+                                <div>
+                                    <p className="font-semibold text-dark-text">1 {rate.currency} = {formatNumber(rate.rate, 6)} {baseCurrency}</p>
+                                    <p className="text-xs text-secondary-gray">{t('currency.since', { date: formatDate(rate.date) })}</p>
+                                </div>
+                                <button onClick={() => onDeleteRate(rate.id)} className="text-gray-400 hover:text-danger-red p-2" aria-label={t('currency.deleteRate')}><TrashIcon className="w-5 h-5" /></button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <p className="text-xs text-secondary-gray mt-2">{t('currency.conversionHint')}</p>
+            </div>
+        </div>
+    );
+};
+
+const AIProviderModalContent: React.FC<{
+    settings: AIProviderSettings;
+    onSave: (settings: AIProviderSettings) => void;
+}> = ({ settings, onSave }) => {
+    const [draft, setDraft] = useState(settings);
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy";
+    const hints: { [key in AIProviderSettings['provider']]: MessageKey } = {
+        gemini: 'aiProvider.geminiHint',
+        openai: 'aiProvider.openaiHint',
+        mock: 'aiProvider.mockHint',
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(draft);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label htmlFor="ai-provider" className="block text-sm font-medium text-secondary-gray">{t('aiProvider.provider')}</label>
+                {/* The model names differ per provider, so switching starts from the default model. */}
+                <select id="ai-provider" value={draft.provider} onChange={e => setDraft({ ...draft, provider: e.target.value as AIProviderSettings['provider'], model: '' })} className={inputClassName}>
+                    {aiProviderKinds.map(kind => <option key={kind} value={kind}>{t(aiProviderLabels[kind])}</option>)}
+                </select>
+                <p className="text-xs text-secondary-gray mt-1">{t(hints[draft.provider])}</p>
+            </div>
+            {draft.provider !== 'mock' && (
+                <div>
+                    <label htmlFor="ai-model" className="block text-sm font-medium text-secondary-gray">{t('aiProvider.model')}</label>
+                    <input type="text" id="ai-model" value={draft.model} onChange={e => setDraft({ ...draft, model: e.target.value })} placeholder={DEFAULT_AI_MODELS[draft.provider]} className={inputClassName}/>
+                    <p className="text-xs text-secondary-gray mt-1">{t('aiProvider.modelHint', { model: DEFAULT_AI_MODELS[draft.provider] })}</p>
+                </div>
+            )}
+            {draft.provider === 'openai' && (
+                <>
+                    <div>
+                        <label htmlFor="ai-base-url" className="block text-sm font-medium text-secondary-gray">{t('aiProvider.baseUrl')}</label>
+                        <input type="url" id="ai-base-url" value={draft.baseUrl} onChange={e => setDraft({ ...draft, baseUrl: e.target.value })} required className={inputClassName}/>
+                        <p className="text-xs text-secondary-gray mt-1">{t('aiProvider.baseUrlHint')}</p>
+                    </div>
+                    <div>
+                        <label htmlFor="ai-api-key" className="block text-sm font-medium text-secondary-gray">{t('aiProvider.apiKey')}</label>
+                        <input type="password" id="ai-api-key" value={draft.apiKey} onChange={e => setDraft({ ...draft, apiKey: e.target.value })} autoComplete="off" className={inputClassName}/>
+                        <p className="text-xs text-secondary-gray mt-1">{t('aiProvider.apiKeyHint')}</p>
+                    </div>
+                </>
+            )}
+            <button type="submit" className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors">{t('common.save')}</button>
+        </form>
+    );
+};
+
+const retentionTierLabels: { [key in keyof RetentionPolicy]: MessageKey } = {
+    daily: 'backup.retention.daily',
+    weekly: 'backup.retention.weekly',
+    monthly: 'backup.retention.monthly',
+};
+
 const BackupRestoreModalContent: React.FC<{
-    backups: { key: string; timestamp: number }[];
+    backups: BackupInfo[];
+    storageKind: StorageAdapter['kind'];
     onRestore: (key: string) => void;
-}> = ({ backups, onRestore }) => {
+    onLabel: (key: string, label: string) => void;
+    onDelete: (key: string) => void;
+    onSaveRetentionPolicy: (policy: RetentionPolicy) => void;
+}> = ({ backups, storageKind, onRestore, onLabel, onDelete, onSaveRetentionPolicy }) => {
+    const [editingKey, setEditingKey] = useState<string | null>(null);
+    const [labelDraft, setLabelDraft] = useState('');
+    const [policy, setPolicy] = useState<RetentionPolicy>(() => loadRetentionPolicy(storageKind));
+
+    const startEditing = (backup: BackupInfo) => {
+        setEditingKey(backup.key);
+        setLabelDraft(backup.label || '');
+    };
+
+    const handleLabelSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (editingKey) onLabel(editingKey, labelDraft);
+        setEditingKey(null);
+    };
+
     return (
         <div className="space-y-3">
             {backups.length === 0 ? (
-                <p className="text-center text-secondary-gray py-6">Tidak ada cadangan internal yang ditemukan.</p>
+                <p className="text-center text-secondary-gray py-6">{t('backup.empty')}</p>
             ) : (
-                backups.map(backup => (
-                    <div key={backup.key} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div className="flex items-center gap-3 min-w-0">
-                           <ServerStackIcon className="w-6 h-6 text-secondary-gray flex-shrink-0" />
-                            <span className="font-semibold text-dark-text truncate">
-                                {new Date(backup.timestamp).toLocaleString('id-ID', { dateStyle: 'long', timeStyle: 'short' })}
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {backups.map(backup => {
+                        const date = formatDate(backup.timestamp, { dateStyle: 'long', timeStyle: 'short' });
+                        return (
+                            <div key={backup.key} className="p-3 bg-gray-50 rounded-lg">
+                                {editingKey === backup.key ? (
+                                    <form onSubmit={handleLabelSubmit} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            value={labelDraft}
+                                            onChange={e => setLabelDraft(e.target.value)}
+                                            placeholder={t('backup.labelPlaceholder')}
+                                            className="flex-grow p-2 border border-gray-300 rounded-lg text-sm"
+                                            autoFocus
+                                        />
+                                        <button type="submit" className="text-sm bg-primary-navy text-white font-semibold py-2 px-3 rounded-lg">{t('common.save')}</button>
+                                        <button type="button" onClick={() => setEditingKey(null)} className="text-sm text-secondary-gray font-semibold">{t('common.cancel')}</button>
+                                    </form>
+                                ) : (
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="flex items-center gap-3 min-w-0">
+                                            <ServerStackIcon className="w-6 h-6 text-secondary-gray flex-shrink-0" />
+                                            <div className="min-w-0">
+                                                <p className="font-semibold text-dark-text truncate">{backup.label || date}</p>
+                                                <p className="text-xs text-secondary-gray">{backup.label ? date : t('backup.automatic')}</p>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-1 flex-shrink-0">
+                                            <button onClick={() => startEditing(backup)} className="p-2 text-secondary-gray hover:text-primary-navy" title={t('backup.setLabel')}>
+                                                <PencilSquareIcon className="w-5 h-5" />
+                                            </button>
+                                            <button onClick={() => onDelete(backup.key)} className="p-2 text-secondary-gray hover:text-danger-red" title={t('backup.delete')}>
+                                                <TrashIcon className="w-5 h-5" />
+                                            </button>
+                                            <button onClick={() => onRestore(backup.key)} className="flex items-center gap-2 text-sm bg-accent-teal text-white font-semibold py-2 px-3 rounded-lg hover:bg-accent-teal-dark transition-colors">
+                                                <ArrowUturnLeftIcon className="w-4 h-4" />
+                                                <span>{t('common.restore')}</span>
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            <div className="p-3 bg-gray-50 rounded-lg border">
+                <p className="font-semibold text-dark-text text-sm mb-2">{t('backup.retentionTitle')}</p>
+                <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(retentionTierLabels) as (keyof RetentionPolicy)[]).map(tier => (
+                        <label key={tier} className="text-xs text-secondary-gray">
+                            {t(retentionTierLabels[tier])}
+                            <input
+                                type="number"
+                                min={0}
+                                max={99}
+                                value={policy[tier]}
+                                onChange={e => setPolicy(prev => ({ ...prev, [tier]: Math.max(0, Math.min(99, parseInt(e.target.value, 10) || 0)) }))}
+                                className="w-full p-2 mt-1 border border-gray-300 rounded-lg text-sm text-dark-text"
+                            />
+                        </label>
+                    ))}
+                </div>
+                <button onClick={() => onSaveRetentionPolicy(policy)} className="w-full mt-3 text-sm bg-primary-navy text-white font-semibold py-2 px-3 rounded-lg hover:bg-primary-navy-dark transition-colors">
+                    {t('backup.saveRetention')}
+                </button>
+            </div>
+            <p className="text-xs text-secondary-gray pt-2">{t('backup.retentionHint')}</p>
+        </div>
+    );
+};
+
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const ExportDataModalContent: React.FC<{
+    autoExportEncrypted: boolean;
+    attachmentCount: number;
+    onExport: (passphrase: string | null, includeAttachments: boolean) => Promise<void>;
+    onSaveAutoExportPassphrase: (passphrase: string | null) => void;
+}> = ({ autoExportEncrypted, attachmentCount, onExport, onSaveAutoExportPassphrase }) => {
+    const [encrypt, setEncrypt] = useState(autoExportEncrypted);
+    const [includeAttachments, setIncludeAttachments] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [useForAutoExport, setUseForAutoExport] = useState(autoExportEncrypted);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (encrypt && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setError(t('export.passphraseTooShort', { count: MIN_PASSPHRASE_LENGTH }));
+            return;
+        }
+        if (encrypt && passphrase !== confirmation) {
+            setError(t('export.passphraseMismatch'));
+            return;
+        }
+        setError(null);
+        setIsExporting(true);
+        try {
+            if (encrypt) onSaveAutoExportPassphrase(useForAutoExport ? passphrase : null);
+            await onExport(encrypt ? passphrase : null, includeAttachments && !encrypt);
+        } catch (err) {
+            console.error("Failed to export data", err);
+            setError(t('export.failed'));
+            setIsExporting(false);
+        }
+    };
+
+    const inputClassName = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy";
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-secondary-gray">{t('export.intro')}</p>
+            <label className="flex items-center gap-2 text-sm text-dark-text">
+                <input type="checkbox" checked={encrypt} onChange={e => setEncrypt(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy" />
+                {t('export.encrypt')}
+            </label>
+            {encrypt && (
+                <>
+                    <div>
+                        <label htmlFor="export-passphrase" className="block text-sm font-medium text-gray-700">{t('export.passphrase')}</label>
+                        <input type="password" id="export-passphrase" value={passphrase} onChange={e => setPassphrase(e.target.value)} autoComplete="new-password" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="export-passphrase-confirm" className="block text-sm font-medium text-gray-700">{t('export.repeatPassphrase')}</label>
+                        <input type="password" id="export-passphrase-confirm" value={confirmation} onChange={e => setConfirmation(e.target.value)} autoComplete="new-password" className={inputClassName} />
+                    </div>
+                    <label className="flex items-start gap-2 text-sm text-dark-text">
+                        <input type="checkbox" checked={useForAutoExport} onChange={e => setUseForAutoExport(e.target.checked)} className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy" />
+                        <span>{t('export.useForAutoExport')} <span className="text-secondary-gray">{t('export.storedOnDevice')}</span></span>
+                    </label>
+                    <p className="text-xs text-danger-red">{t('export.unrecoverable')}</p>
+                </>
+            )}
+            {attachmentCount > 0 && (
+                <label className={`flex items-start gap-2 text-sm ${encrypt ? 'text-secondary-gray' : 'text-dark-text'}`}>
+                    <input type="checkbox" checked={includeAttachments && !encrypt} disabled={encrypt} onChange={e => setIncludeAttachments(e.target.checked)} className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy" />
+                    <span>
+                        {t('export.includeAttachments', { count: attachmentCount })}
+                        {encrypt && <span className="block text-xs">{t('export.attachmentsNotEncrypted')}</span>}
+                    </span>
+                </label>
+            )}
+            {error && <p className="text-sm text-center text-danger-red bg-red-50 p-2 rounded-md">{error}</p>}
+            <button type="submit" disabled={isExporting} className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors disabled:opacity-50">
+                {isExporting ? t('export.preparing') : encrypt ? t('export.encrypted') : includeAttachments ? t('export.zip') : t('export.json')}
+            </button>
+        </form>
+    );
+};
+
+const DecryptImportModalContent: React.FC<{
+    fileName: string;
+    onSubmit: (passphrase: string) => Promise<void>;
+    onCancel: () => void;
+}> = ({ fileName, onSubmit, onCancel }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [isDecrypting, setIsDecrypting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase) return;
+        setIsDecrypting(true);
+        setError(null);
+        try {
+            await onSubmit(passphrase);
+        } catch (err) {
+            setError(err instanceof DecryptionError ? err.message : t('decrypt.unreadable'));
+            setIsDecrypting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-secondary-gray">{t('decrypt.intro', { name: fileName })}</p>
+            <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                placeholder={t('decrypt.placeholder')}
+                autoComplete="current-password"
+                autoFocus
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
+            />
+            {error && <p className="text-sm text-center text-danger-red bg-red-50 p-2 rounded-md">{error}</p>}
+            <div className="grid grid-cols-2 gap-3">
+                <button type="button" onClick={onCancel} className="bg-gray-200 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-300 transition-colors">{t('common.cancel')}</button>
+                <button type="submit" disabled={isDecrypting || !passphrase} className="bg-accent-teal text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-teal-dark transition-colors disabled:opacity-50">
+                    {isDecrypting ? t('decrypt.opening') : t('decrypt.open')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+type ImportMode = 'replace' | 'merge';
+
+interface PendingImport {
+    source: string;
+    state: AppState;
+    issues: ValidationIssue[];
+    migrations: Migration[];
+    /** Only JSON exports can be merged; internal backups always replace. */
+    allowMerge: boolean;
+}
+
+const importCountLabels: { [key in keyof StateCounts]: MessageKey } = {
+    budgets: 'import.count.budgets',
+    transactions: 'import.count.transactions',
+    goals: 'import.count.goals',
+    assets: 'import.count.assets',
+};
+
+const DIFF_PREVIEW_LIMIT = 5;
+
+// One side of a StateDiff: what the import adds, or what it throws away.
+const StateDiffSection: React.FC<{ title: string; changes: StateDiff['added']; tone: 'add' | 'remove' }> = ({ title, changes, tone }) => {
+    const [showAll, setShowAll] = useState(false);
+    const transactions = showAll ? changes.transactions : changes.transactions.slice(0, DIFF_PREVIEW_LIMIT);
+    const names = [
+        ...changes.budgets.map(b => t('import.budgetName', { name: b.name })),
+        ...changes.savingsGoals.map(g => t('import.goalName', { name: g.name })),
+    ];
+    if (names.length === 0 && changes.transactions.length === 0) return null;
+    return (
+        <div className={`p-3 rounded-lg border ${tone === 'add' ? 'bg-teal-50 border-teal-200' : 'bg-red-50 border-red-200'}`}>
+            <p className={`font-bold mb-2 ${tone === 'add' ? 'text-accent-teal' : 'text-danger-red'}`}>{title}</p>
+            {names.length > 0 && <p className="text-sm text-dark-text mb-2">{names.join(', ')}</p>}
+            {transactions.length > 0 && (
+                <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                    {transactions.map(transaction => (
+                        <li key={transaction.id} className="flex justify-between gap-2">
+                            <span className="truncate">
+                                <span className="text-secondary-gray">{formatDate(transaction.timestamp)}</span> {transaction.desc}
                             </span>
-                        </div>
-                        <div className="flex items-center gap-2 flex-shrink-0">
-                            <button onClick={() => onRestore(backup.key)} className="flex items-center gap-2 text-sm bg-accent-teal text-white font-semibold py-2 px-3 rounded-lg hover:bg-accent-teal-dark transition-colors">
-                                <ArrowUturnLeftIcon className="w-4 h-4" />
-                                <span>Pulihkan</span>
-                            </button>
-                        </div>
+                            <span className={`font-semibold flex-shrink-0 ${transaction.type === 'add' ? 'text-accent-teal' : 'text-danger-red'}`}>
+                                {transaction.type === 'add' ? '+' : '-'}{formatCurrency(transaction.amount)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {changes.transactions.length > transactions.length && (
+                <button onClick={() => setShowAll(true)} className="text-sm font-semibold text-primary-navy hover:underline mt-1">
+                    {t('import.showMore', { count: changes.transactions.length - transactions.length })}
+                </button>
+            )}
+        </div>
+    );
+};
+
+const ImportPreviewModalContent: React.FC<{
+    pending: PendingImport;
+    currentState: AppState;
+    onConfirm: (mode: ImportMode) => void;
+    onCancel: () => void;
+}> = ({ pending, currentState, onConfirm, onCancel }) => {
+    const [mode, setMode] = useState<ImportMode>('replace');
+    const merge = useMemo(() => mode === 'merge' ? mergeStates(currentState, pending.state) : null, [mode, currentState, pending.state]);
+    const current = countStateItems(currentState);
+    const incoming = countStateItems(merge ? merge.state : pending.state);
+    const diff = useMemo(() => diffStates(currentState, merge ? merge.state : pending.state), [currentState, merge, pending.state]);
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-secondary-gray">{t('import.sourceLabel')} <span className="font-semibold text-dark-text">{pending.source}</span></p>
+            {pending.allowMerge && (
+                <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+                    {([['replace', t('import.replaceAll')], ['merge', t('import.merge')]] as [ImportMode, string][]).map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => setMode(value)}
+                            className={`py-2 rounded-md text-sm font-semibold transition-colors ${mode === value ? 'bg-white text-primary-navy shadow' : 'text-secondary-gray'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-secondary-gray text-left border-b">
+                        <th className="py-2 font-semibold">{t('import.data')}</th>
+                        <th className="py-2 font-semibold text-right">{t('import.current')}</th>
+                        <th className="py-2 font-semibold text-right">{t('import.afterImport')}</th>
+                        <th className="py-2 font-semibold text-right">{t('import.difference')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {(Object.keys(importCountLabels) as (keyof StateCounts)[]).map(key => {
+                        const diff = incoming[key] - current[key];
+                        return (
+                            <tr key={key} className="border-b last:border-0">
+                                <td className="py-2 text-dark-text">{t(importCountLabels[key])}</td>
+                                <td className="py-2 text-right">{current[key]}</td>
+                                <td className="py-2 text-right font-semibold">{incoming[key]}</td>
+                                <td className={`py-2 text-right font-semibold ${diff > 0 ? 'text-accent-teal' : diff < 0 ? 'text-danger-red' : 'text-secondary-gray'}`}>
+                                    {diff > 0 ? `+${diff}` : diff}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <StateDiffSection title={t('import.willAdd')} changes={diff.added} tone="add" />
+            <StateDiffSection title={t('import.willRemove')} changes={diff.removed} tone="remove" />
+            {pending.issues.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <p className="font-bold text-yellow-700 mb-2 flex items-center gap-2">
+                        <ExclamationTriangleIcon className="w-5 h-5" />
+                        {t('import.issuesFound', { count: pending.issues.length })}
+                    </p>
+                    <IssueList issues={pending.issues} />
+                </div>
+            )}
+            {pending.migrations.length > 0 && (
+                <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                    <MigrationReport migrations={pending.migrations} />
+                </div>
+            )}
+            {merge ? (
+                merge.conflicts.length > 0 ? (
+                    <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                        <p className="font-bold text-dark-text mb-2">{t('import.conflicts', { count: merge.conflicts.length })}</p>
+                        <IssueList issues={merge.conflicts} />
                     </div>
-                ))
+                ) : (
+                    <p className="text-sm text-secondary-gray">{t('import.noConflicts')}</p>
+                )
+            ) : (
+                <p className="text-sm text-danger-red font-semibold">{t('import.replaceWarning')}</p>
             )}
-            <p className="text-xs text-secondary-gray pt-2">Aplikasi menyimpan hingga 4 cadangan mingguan terakhir secara otomatis. Cadangan ini disimpan di perangkat Anda dan akan hilang jika data browser dihapus.</p>
+            <div className="grid grid-cols-2 gap-3">
+                <button onClick={onCancel} className="bg-gray-200 text-dark-text font-bold py-3 px-4 rounded-lg hover:bg-gray-300 transition-colors">{t('common.cancel')}</button>
+                <button onClick={() => onConfirm(mode)} className="bg-accent-teal text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-teal-dark transition-colors">
+                    {mode === 'merge' ? t('import.merge') : pending.issues.length > 0 ? t('import.fixAndImport') : t('import.import')}
+                </button>
+            </div>
         </div>
     );
 };
 
+// Offered wherever several items are saved at once: books them as one split transaction.
+const SplitOption: React.FC<{
+    id: string;
+    isSplit: boolean;
+    desc: string;
+    onToggle: (isSplit: boolean) => void;
+    onDescChange: (desc: string) => void;
+}> = ({ id, isSplit, desc, onToggle, onDescChange }) => (
+    <div className="p-3 bg-blue-50 rounded-lg space-y-2">
+        <div className="flex items-center">
+            <input
+                id={`${id}-toggle`}
+                type="checkbox"
+                checked={isSplit}
+                onChange={e => onToggle(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy"
+            />
+            <label htmlFor={`${id}-toggle`} className="ml-2 block text-sm font-semibold text-dark-text">{t('split.saveAsOne')}</label>
+        </div>
+        {isSplit && (
+            <>
+                <input type="text" id={`${id}-desc`} value={desc} onChange={e => onDescChange(e.target.value)} placeholder={t('split.descPlaceholder')} aria-label={t('split.desc')} className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <p className="text-xs text-secondary-gray">{t('split.hint')}</p>
+            </>
+        )}
+    </div>
+);
 
 const ScanResultModalContent: React.FC<{ 
     isLoading: boolean;
     error: string | null;
+    /** Shown instead of the items, e.g. when the scan was queued until the device is online. */
+    notice?: string | null;
     items: ScannedItem[];
     budgets: Budget[];
     onItemsChange: (newItems: ScannedItem[]) => void;
-    onSave: () => void;
-}> = ({ isLoading, error, items, budgets, onItemsChange, onSave }) => {
+    /** The photo of a scanned receipt, saved along with the items. */
+    attachmentId?: string | null;
+    /** `splitDesc` is set when the items are to be saved as one split transaction. */
+    onSave: (splitDesc?: string) => void;
+}> = ({ isLoading, error, notice, items, budgets, onItemsChange, attachmentId, onSave }) => {
+    const [isSplit, setIsSplit] = useState(false);
+    const [splitDesc, setSplitDesc] = useState('');
+    const [viewingAttachmentId, setViewingAttachmentId] = useState<string | null>(null);
 
     const handleBudgetChange = (index: number, budgetId: string) => {
         const newItems = [...items];
@@ -2354,7 +4494,7 @@ const ScanResultModalContent: React.FC<{
     if (isLoading) {
         return <div className="text-center py-10">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-navy mx-auto"></div>
-            <p className="mt-4 text-secondary-gray">Memindai struk Anda...</p>
+            <p className="mt-4 text-secondary-gray">{t('scan.scanning')}</p>
         </div>;
     }
 
@@ -2362,8 +4502,12 @@ const ScanResultModalContent: React.FC<{
         return <div className="text-center py-10 text-danger-red">{error}</div>;
     }
 
+    if (notice) {
+        return <div className="text-center py-10 text-primary-navy">{notice}</div>;
+    }
+
     if (items.length === 0) {
-        return <div className="text-center py-10 text-secondary-gray">Tidak ada item yang terdeteksi.</div>;
+        return <div className="text-center py-10 text-secondary-gray">{t('scan.noItems')}</div>;
     }
     
     return (
@@ -2385,15 +4529,140 @@ const ScanResultModalContent: React.FC<{
                         onChange={e => handleBudgetChange(index, e.target.value)}
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm text-dark-text focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
                     >
-                        <option value="none">-- Pilih Pos Anggaran --</option>
-                        <option value="daily">Uang Harian</option>
+                        <option value="none">{t('form.chooseBudget')}</option>
+                        <option value="daily">{t('form.dailyMoney')}</option>
                         {budgets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
                     </select>
                 </div>
             ))}
             </div>
-            <button onClick={onSave} disabled={items.filter(i => i.budgetId !== 'none').length === 0} className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
-                Simpan Transaksi Terpilih
+            {items.length > 1 && <SplitOption id="scan-split" isSplit={isSplit} desc={splitDesc} onToggle={setIsSplit} onDescChange={setSplitDesc} />}
+            {attachmentId && (
+                <div className="flex items-center gap-3 text-xs text-secondary-gray">
+                    <AttachmentThumbnail id={attachmentId} onOpen={setViewingAttachmentId} />
+                    <span>{t('attachments.scanAttached')}</span>
+                    <AttachmentViewer id={viewingAttachmentId} onClose={() => setViewingAttachmentId(null)} />
+                </div>
+            )}
+            <button onClick={() => onSave(isSplit ? splitDesc.trim() : undefined)} disabled={items.filter(i => i.budgetId !== 'none').length === 0 || (isSplit && !splitDesc.trim())} className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                {t('scan.saveSelected')}
+            </button>
+        </div>
+    );
+};
+
+const BankImportModalContent: React.FC<{
+    fileName: string;
+    csvRows: string[][];
+    baseCurrency: string;
+    budgets: Budget[];
+    existingTransactions: GlobalTransaction[];
+    onSave: (rows: BankRow[]) => void;
+}> = ({ fileName, csvRows, baseCurrency, budgets, existingTransactions, onSave }) => {
+    const [step, setStep] = useState<'mapping' | 'review'>('mapping');
+    const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(csvRows));
+    const [rows, setRows] = useState<BankRow[]>([]);
+    const [skippedCount, setSkippedCount] = useState(0);
+
+    const columnCount = Math.max(...csvRows.map(r => r.length));
+    const columnNames = Array.from({ length: columnCount }, (_, i) =>
+        mapping.hasHeader && csvRows[0][i] ? csvRows[0][i] : t('bankImport.column', { number: i + 1 }));
+    const sampleRows = csvRows.slice(mapping.hasHeader ? 1 : 0, mapping.hasHeader ? 4 : 3);
+
+    const handleContinue = () => {
+        const result = mapBankRows(csvRows, mapping, existingTransactions, baseCurrency);
+        setRows(result.rows);
+        setSkippedCount(result.skipped.length);
+        setStep('review');
+    };
+
+    const updateRow = (index: number, changes: Partial<BankRow>) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+    };
+
+    const selectClassName = "mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm text-dark-text focus:outline-none focus:ring-primary-navy focus:border-primary-navy";
+
+    if (step === 'mapping') {
+        const columnSelect = (label: string, value: number | null, onChange: (value: number | null) => void, optional: boolean) => (
+            <div>
+                <label className="block text-sm font-medium text-secondary-gray">{label}</label>
+                <select value={value === null ? '' : value} onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))} className={selectClassName}>
+                    {optional && <option value="">{t('bankImport.none')}</option>}
+                    {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                </select>
+            </div>
+        );
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-secondary-gray">{t('bankImport.file')} <span className="font-semibold text-dark-text">{fileName}</span> {t('bankImport.rowCount', { count: csvRows.length })}</p>
+                <label className="flex items-center gap-2 text-sm text-dark-text">
+                    <input type="checkbox" checked={mapping.hasHeader} onChange={e => setMapping({ ...mapping, hasHeader: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy" />
+                    {t('bankImport.hasHeader')}
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                    {columnSelect(t('bankImport.date'), mapping.date, value => setMapping({ ...mapping, date: value ?? 0 }), false)}
+                    {columnSelect(t('bankImport.desc'), mapping.desc, value => setMapping({ ...mapping, desc: value ?? 0 }), false)}
+                    {columnSelect(t('bankImport.debit'), mapping.debit, value => setMapping({ ...mapping, debit: value }), true)}
+                    {columnSelect(t('bankImport.credit'), mapping.credit, value => setMapping({ ...mapping, credit: value }), true)}
+                </div>
+                <p className="text-xs text-secondary-gray">{t('bankImport.singleColumnHint')}</p>
+                <div className="overflow-x-auto border rounded-lg">
+                    <table className="w-full text-xs">
+                        <thead className="bg-gray-100">
+                            <tr>{columnNames.map((name, i) => <th key={i} className="px-2 py-1 text-left font-semibold whitespace-nowrap">{name}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {sampleRows.map((row, i) => (
+                                <tr key={i} className="border-t">{columnNames.map((_, j) => <td key={j} className="px-2 py-1 whitespace-nowrap">{row[j]}</td>)}</tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <button onClick={handleContinue} disabled={mapping.debit === null && mapping.credit === null} className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors disabled:bg-gray-400">
+                    {t('bankImport.continue')}
+                </button>
+            </div>
+        );
+    }
+
+    const includedCount = rows.filter(r => r.include).length;
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center text-sm">
+                <button onClick={() => setStep('mapping')} className="font-semibold text-primary-navy hover:underline">&larr; {t('bankImport.editMapping')}</button>
+                <span className="text-secondary-gray">{t('bankImport.transactionCount', { count: rows.length })}{skippedCount > 0 ? t('bankImport.skipped', { count: skippedCount }) : ''}</span>
+            </div>
+            {rows.length === 0 ? (
+                <div className="text-center py-10 text-secondary-gray">{t('bankImport.noRows')}</div>
+            ) : (
+                <div className="max-h-96 overflow-y-auto space-y-3 pr-2">
+                    {rows.map((row, index) => (
+                        <div key={row.line} className={`p-3 rounded-lg border ${row.include ? 'bg-gray-50' : 'bg-white opacity-60'}`}>
+                            <div className="flex justify-between items-start gap-2 mb-2">
+                                <label className="flex items-start gap-2 flex-grow min-w-0">
+                                    <input type="checkbox" checked={row.include} onChange={e => updateRow(index, { include: e.target.checked })} className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy" />
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-dark-text truncate">{row.desc}</p>
+                                        <p className="text-xs text-secondary-gray">{formatDate(row.timestamp)}</p>
+                                    </div>
+                                </label>
+                                <p className={`font-bold whitespace-nowrap ${row.type === 'add' ? 'text-accent-teal' : 'text-danger-red'}`}>{row.type === 'add' ? '+' : '-'} {formatCurrency(row.amount)}</p>
+                            </div>
+                            {row.duplicateOf && (
+                                <p className="text-xs text-yellow-700 mb-2">{t('bankImport.possibleDuplicate', { desc: row.duplicateOf.desc })}</p>
+                            )}
+                            {row.duplicateOfLine !== undefined && (
+                                <p className="text-xs text-yellow-700 mb-2">{t('bankImport.repeatedLine', { line: row.duplicateOfLine })}</p>
+                            )}
+                            <select value={encodeTarget(row.target)} onChange={e => updateRow(index, { target: decodeTarget(e.target.value) })} disabled={!row.include} className={selectClassName}>
+                                <TargetOptions budgets={budgets} />
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <button onClick={() => onSave(rows)} disabled={includedCount === 0} className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                {t('bankImport.save', { count: includedCount })}
             </button>
         </div>
     );
@@ -2404,16 +4673,18 @@ type ConversationStatus = 'idle' | 'connecting' | 'listening' | 'speaking' | 'pr
 type TranscriptItem = { speaker: 'user' | 'ai' | 'system'; text: string; isFinal?: boolean };
 
 const VoiceAssistantModalContent: React.FC<{
+    provider: AIProvider;
     budgets: Budget[];
+    baseCurrency: string;
     onFinish: (items: ScannedItem[]) => void;
     onClose: () => void;
-}> = ({ budgets, onFinish, onClose }) => {
+}> = ({ provider, budgets, baseCurrency, onFinish, onClose }) => {
     const [status, setStatus] = useState<ConversationStatus>('idle');
     const [transcript, setTranscript] = useState<TranscriptItem[]>([]);
     const [stagedTransactions, setStagedTransactions] = useState<ScannedItem[]>([]);
     const [error, setError] = useState<string | null>(null);
 
-    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+    const sessionPromiseRef = useRef<Promise<AIVoiceSession> | null>(null);
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
@@ -2450,21 +4721,26 @@ const VoiceAssistantModalContent: React.FC<{
         const startSession = async () => {
             setStatus('connecting');
             setError(null);
-            setTranscript([{ speaker: 'system', text: 'Menghubungkan ke Asisten AI...', isFinal: true }]);
+            setTranscript([{ speaker: 'system', text: t('voice.connectingToAssistant'), isFinal: true }]);
+
+            if (!provider.connectVoice) {
+                setError(t('voice.unsupportedProvider', { provider: t(aiProviderLabels[provider.kind]) }));
+                setStatus('error');
+                return;
+            }
 
             try {
-                const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
                 const budgetCategories = [...budgets.map(b => b.name), 'Uang Harian'];
 
-                const recordTransactionTool: FunctionDeclaration = {
+                const recordTransactionTool: AIFunctionDeclaration = {
                     name: 'catatTransaksi',
                     description: 'Mencatat satu transaksi keuangan. Gunakan ini untuk setiap item yang disebutkan pengguna.',
                     parameters: {
-                        type: Type.OBJECT,
+                        type: 'object',
                         properties: {
-                            desc: { type: Type.STRING, description: 'Deskripsi singkat transaksi, misal "Kopi" atau "Makan siang"' },
-                            amount: { type: Type.NUMBER, description: 'Jumlah uang yang dikeluarkan' },
-                            category: { type: Type.STRING, description: 'Kategori anggaran yang paling sesuai', enum: budgetCategories }
+                            desc: { type: 'string', description: 'Deskripsi singkat transaksi, misal "Kopi" atau "Makan siang"' },
+                            amount: { type: 'number', description: 'Jumlah uang yang dikeluarkan' },
+                            category: { type: 'string', description: 'Kategori anggaran yang paling sesuai', enum: budgetCategories }
                         },
                         required: ['desc', 'amount', 'category']
                     }
@@ -2479,17 +4755,11 @@ const VoiceAssistantModalContent: React.FC<{
 
                 nextAudioStartTimeRef.current = 0;
 
-                sessionPromiseRef.current = ai.live.connect({
-                    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                    config: {
-                        responseModalities: [Modality.AUDIO],
-                        inputAudioTranscription: {},
-                        outputAudioTranscription: {},
-                        tools: [{ functionDeclarations: [recordTransactionTool] }],
-                        systemInstruction: `Anda adalah asisten keuangan AI yang ramah dalam Bahasa Indonesia. Tugas Anda adalah membantu pengguna mencatat transaksi. Tanyakan detail jika perlu, konfirmasikan setiap transaksi setelah Anda memanggil fungsi 'catatTransaksi', dan tanyakan apakah ada lagi. Gunakan kategori yang tersedia: [${budgetCategories.join(', ')}]. Jika ragu, gunakan 'Uang Harian'.`
-                    },
+                sessionPromiseRef.current = provider.connectVoice({
+                    systemInstruction: t('ai.voiceInstruction', { categories: budgetCategories.join(', '), fallback: 'Uang Harian' }),
+                    tools: [recordTransactionTool],
                     callbacks: {
-                        onopen: async () => {
+                        onOpen: async () => {
                             try {
                                 const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
                                 streamRef.current = stream;
@@ -2498,9 +4768,8 @@ const VoiceAssistantModalContent: React.FC<{
 
                                 scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
                                     const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                                    const pcmBlob = createBlob(inputData);
                                     sessionPromiseRef.current?.then((session) => {
-                                        session.sendRealtimeInput({ media: pcmBlob });
+                                        session.sendAudio(inputData);
                                     });
                                 };
 
@@ -2510,100 +4779,94 @@ const VoiceAssistantModalContent: React.FC<{
                                 setStatus('listening');
                             } catch (err) {
                                 console.error('Microphone error:', err);
-                                setError('Gagal mengakses mikrofon. Mohon berikan izin dan coba lagi.');
+                                setError(t('voice.micFailed'));
                                 setStatus('error');
                             }
                         },
-                        onmessage: async (message: LiveServerMessage) => {
-                            if (message.serverContent?.inputTranscription) {
-                                currentUserTranscriptionRef.current += message.serverContent.inputTranscription.text;
-                                setTranscript(prev => {
-                                    const newTranscript = [...prev];
-                                    const last = newTranscript[newTranscript.length - 1];
-                                    if (last?.speaker === 'user' && !last.isFinal) {
-                                        last.text = currentUserTranscriptionRef.current;
-                                    } else {
-                                        newTranscript.push({ speaker: 'user', text: currentUserTranscriptionRef.current, isFinal: false });
-                                    }
-                                    return newTranscript;
-                                });
-                            }
-                             if (message.serverContent?.outputTranscription) {
-                                currentAiTranscriptionRef.current += message.serverContent.outputTranscription.text;
-                                 setTranscript(prev => {
-                                    const newTranscript = [...prev];
-                                    const last = newTranscript[newTranscript.length - 1];
-                                    if (last?.speaker === 'ai' && !last.isFinal) {
-                                        last.text = currentAiTranscriptionRef.current;
-                                    } else {
-                                        newTranscript.push({ speaker: 'ai', text: currentAiTranscriptionRef.current, isFinal: false });
-                                    }
-                                    return newTranscript;
-                                });
-                            }
-                             if(message.serverContent?.turnComplete) {
-                                setTranscript(prev => prev.map(t => ({...t, isFinal: true})));
-                                currentUserTranscriptionRef.current = '';
-                                currentAiTranscriptionRef.current = '';
-                            }
-                            if (message.toolCall?.functionCalls) {
-                                setStatus('processing');
-                                for (const fc of message.toolCall.functionCalls) {
-                                    const { desc, amount, category } = fc.args;
-                                    const matchedBudget = budgets.find(b => b.name === category);
-                                    const budgetId = matchedBudget ? matchedBudget.id : 'daily';
-                                    setStagedTransactions(prev => [...prev, { desc, amount, budgetId }]);
-                                    
-                                    const session = await sessionPromiseRef.current;
-                                    session?.sendToolResponse({
-                                      functionResponses: { id : fc.id, name: fc.name, response: { result: "OK" } }
-                                    });
+                        onInputTranscript: (text) => {
+                            currentUserTranscriptionRef.current += text;
+                            setTranscript(prev => {
+                                const newTranscript = [...prev];
+                                const last = newTranscript[newTranscript.length - 1];
+                                if (last?.speaker === 'user' && !last.isFinal) {
+                                    last.text = currentUserTranscriptionRef.current;
+                                } else {
+                                    newTranscript.push({ speaker: 'user', text: currentUserTranscriptionRef.current, isFinal: false });
                                 }
-                            }
-                             const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
-                            if (base64Audio) {
-                                setStatus('speaking');
-                                const audioContext = outputAudioContextRef.current!;
-                                nextAudioStartTimeRef.current = Math.max(nextAudioStartTimeRef.current, audioContext.currentTime);
-                                
-                                const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-                                const source = audioContext.createBufferSource();
-                                source.buffer = audioBuffer;
-                                source.connect(audioContext.destination);
-
-                                source.addEventListener('ended', () => {
-                                    outputAudioSourcesRef.current.delete(source);
-                                    if (outputAudioSourcesRef.current.size === 0) {
-                                        setStatus('listening');
-                                    }
-                                });
-
-                                source.start(nextAudioStartTimeRef.current);
-                                nextAudioStartTimeRef.current += audioBuffer.duration;
-                                outputAudioSourcesRef.current.add(source);
-                            }
+                                return newTranscript;
+                            });
+                        },
+                        onOutputTranscript: (text) => {
+                            currentAiTranscriptionRef.current += text;
+                            setTranscript(prev => {
+                                const newTranscript = [...prev];
+                                const last = newTranscript[newTranscript.length - 1];
+                                if (last?.speaker === 'ai' && !last.isFinal) {
+                                    last.text = currentAiTranscriptionRef.current;
+                                } else {
+                                    newTranscript.push({ speaker: 'ai', text: currentAiTranscriptionRef.current, isFinal: false });
+                                }
+                                return newTranscript;
+                            });
+                        },
+                        onTurnComplete: () => {
+                            setTranscript(prev => prev.map(t => ({...t, isFinal: true})));
+                            currentUserTranscriptionRef.current = '';
+                            currentAiTranscriptionRef.current = '';
                         },
-                        onerror: (e: ErrorEvent) => {
+                        onFunctionCall: async (call) => {
+                            setStatus('processing');
+                            const { desc, amount, category } = call.args;
+                            const matchedBudget = budgets.find(b => b.name === category);
+                            const budgetId = matchedBudget ? matchedBudget.id : 'daily';
+                            setStagedTransactions(prev => [...prev, { desc, amount: toMoney(Number(amount) || 0, baseCurrency), budgetId }]);
+
+                            const session = await sessionPromiseRef.current;
+                            session?.sendFunctionResponse(call, "OK");
+                        },
+                        onAudio: async (base64Audio) => {
+                            setStatus('speaking');
+                            const audioContext = outputAudioContextRef.current!;
+                            nextAudioStartTimeRef.current = Math.max(nextAudioStartTimeRef.current, audioContext.currentTime);
+                            
+                            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+                            const source = audioContext.createBufferSource();
+                            source.buffer = audioBuffer;
+                            source.connect(audioContext.destination);
+
+                            source.addEventListener('ended', () => {
+                                outputAudioSourcesRef.current.delete(source);
+                                if (outputAudioSourcesRef.current.size === 0) {
+                                    setStatus('listening');
+                                }
+                            });
+
+                            source.start(nextAudioStartTimeRef.current);
+                            nextAudioStartTimeRef.current += audioBuffer.duration;
+                            outputAudioSourcesRef.current.add(source);
+                        },
+                        onError: (e) => {
                              console.error('Session error:', e);
-                             setError('Koneksi ke Asisten AI gagal. Pastikan koneksi internet Anda stabil dan coba lagi.');
+                             setError(t('voice.connectionFailed'));
                              setStatus('error');
                              closeSession();
                         },
-                        onclose: () => {
+                        onClose: () => {
                             setStatus('finished');
                         }
                     }
                 });
+                await sessionPromiseRef.current;
             } catch (err) {
                 console.error('Failed to start session:', err);
-                setError('Gagal memulai sesi Asisten AI. Coba lagi.');
+                setError(t('voice.startFailed'));
                 setStatus('error');
             }
         };
 
         startSession();
         return () => closeSession();
-    }, [budgets, closeSession]);
+    }, [provider, budgets, baseCurrency, closeSession]);
 
     const handleFinishSession = () => {
         onFinish(stagedTransactions);
@@ -2611,14 +4874,14 @@ const VoiceAssistantModalContent: React.FC<{
     
     const StatusIndicator = () => {
         let color = 'bg-gray-400';
-        let text = 'Menunggu';
+        let text = t('voice.status.idle');
         switch (status) {
-            case 'connecting': color = 'bg-yellow-400 animate-pulse'; text = 'Menghubungkan...'; break;
-            case 'listening': color = 'bg-green-500 animate-pulse'; text = 'Mendengarkan...'; break;
-            case 'speaking': color = 'bg-blue-500'; text = 'AI Berbicara...'; break;
-            case 'processing': color = 'bg-yellow-400'; text = 'Memproses...'; break;
-            case 'finished': color = 'bg-gray-500'; text = 'Sesi Selesai'; break;
-            case 'error': color = 'bg-danger-red'; text = 'Error'; break;
+            case 'connecting': color = 'bg-yellow-400 animate-pulse'; text = t('voice.status.connecting'); break;
+            case 'listening': color = 'bg-green-500 animate-pulse'; text = t('voice.status.listening'); break;
+            case 'speaking': color = 'bg-blue-500'; text = t('voice.status.speaking'); break;
+            case 'processing': color = 'bg-yellow-400'; text = t('voice.status.processing'); break;
+            case 'finished': color = 'bg-gray-500'; text = t('voice.status.finished'); break;
+            case 'error': color = 'bg-danger-red'; text = t('voice.status.error'); break;
         }
         return <div className="flex items-center space-x-2 text-sm"><div className={`w-3 h-3 rounded-full ${color}`}></div><span>{text}</span></div>;
     };
@@ -2627,7 +4890,7 @@ const VoiceAssistantModalContent: React.FC<{
         <div className="flex flex-col h-[70vh]">
             <div className="flex justify-between items-center p-2 bg-gray-50 rounded-t-lg">
                 <StatusIndicator />
-                <button onClick={onClose} className="px-4 py-2 text-sm bg-danger-red text-white font-semibold rounded-lg hover:bg-danger-red-dark">Tutup Sesi</button>
+                <button onClick={onClose} className="px-4 py-2 text-sm bg-danger-red text-white font-semibold rounded-lg hover:bg-danger-red-dark">{t('voice.closeSession')}</button>
             </div>
              {error && <p className="p-2 text-center text-sm bg-red-100 text-danger-red">{error}</p>}
             
@@ -2643,7 +4906,7 @@ const VoiceAssistantModalContent: React.FC<{
 
             {stagedTransactions.length > 0 && (
                  <div className="flex-shrink-0 p-4 border-t">
-                    <h4 className="font-bold text-primary-navy mb-2">Transaksi yang akan dikonfirmasi:</h4>
+                    <h4 className="font-bold text-primary-navy mb-2">{t('voice.staged')}</h4>
                     <div className="max-h-28 overflow-y-auto space-y-2">
                         {stagedTransactions.map((item, index) => (
                             <div key={index} className="flex justify-between items-center text-sm p-2 bg-blue-50 rounded">
@@ -2653,7 +4916,7 @@ const VoiceAssistantModalContent: React.FC<{
                         ))}
                     </div>
                     <button onClick={handleFinishSession} className="w-full mt-3 bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark">
-                        Selesai & Konfirmasi ({stagedTransactions.length})
+                        {t('voice.finish', { count: stagedTransactions.length })}
                     </button>
                  </div>
             )}
@@ -2664,15 +4927,23 @@ const VoiceAssistantModalContent: React.FC<{
 const SmartInputModalContent: React.FC<{
     isProcessing: boolean;
     error: string | null;
+    /** Shown with the form or the results, e.g. when the text was queued or read without the AI. */
+    notice?: string | null;
     resultItems: ScannedItem[];
     budgets: Budget[];
     onProcess: (text: string) => void;
     onSave: () => void;
     onItemsChange: (items: ScannedItem[]) => void;
     onClearError: () => void;
-}> = ({ isProcessing, error, resultItems, budgets, onProcess, onSave, onItemsChange, onClearError }) => {
+}> = ({ isProcessing, error, notice, resultItems, budgets, onProcess, onSave, onItemsChange, onClearError }) => {
     const [text, setText] = useState('');
 
+    // A queued text is on its way; clear the field for the next one. Results read without
+    // the AI keep it, so "Input Ulang" can correct the text.
+    useEffect(() => {
+        if (notice && resultItems.length === 0) setText('');
+    }, [notice]);
+
     const handleBudgetChange = (index: number, budgetId: string) => {
         const newItems = [...resultItems];
         newItems[index].budgetId = budgetId === 'daily' || budgetId === 'none' ? budgetId : Number(budgetId);
@@ -2687,13 +4958,14 @@ const SmartInputModalContent: React.FC<{
     if (isProcessing) {
         return <div className="text-center py-10">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-navy mx-auto"></div>
-            <p className="mt-4 text-secondary-gray">AI sedang memproses...</p>
+            <p className="mt-4 text-secondary-gray">{t('smartInput.processing')}</p>
         </div>;
     }
 
     if (resultItems.length > 0) {
         return (
             <div className="space-y-4">
+                {notice && <p className="text-sm text-center text-primary-navy bg-blue-50 p-2 rounded-md">{notice}</p>}
                 <div className="max-h-80 overflow-y-auto space-y-3 pr-2">
                     {resultItems.map((item, index) => (
                         <div key={index} className="p-3 bg-gray-50 rounded-lg border">
@@ -2706,8 +4978,8 @@ const SmartInputModalContent: React.FC<{
                                 onChange={e => handleBudgetChange(index, e.target.value)}
                                 className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm text-dark-text focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
                             >
-                                <option value="none">-- Jangan Simpan --</option>
-                                <option value="daily">Uang Harian</option>
+                                <option value="none">{t('smartInput.dontSave')}</option>
+                                <option value="daily">{t('form.dailyMoney')}</option>
                                 {budgets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
                             </select>
                         </div>
@@ -2715,10 +4987,10 @@ const SmartInputModalContent: React.FC<{
                 </div>
                 <div className="grid grid-cols-2 gap-3">
                     <button onClick={handleRetry} className="w-full bg-gray-200 text-dark-text font-bold py-3 rounded-lg hover:bg-gray-300 transition-colors">
-                        Input Ulang
+                        {t('smartInput.retry')}
                     </button>
                     <button onClick={onSave} className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors">
-                        Simpan
+                        {t('common.save')}
                     </button>
                 </div>
             </div>
@@ -2728,19 +5000,20 @@ const SmartInputModalContent: React.FC<{
     return (
         <form onSubmit={(e) => { e.preventDefault(); onProcess(text); }} className="space-y-4">
             <div>
-                <label htmlFor="smart-input-text" className="block text-sm font-medium text-secondary-gray">Tuliskan pengeluaran Anda</label>
+                <label htmlFor="smart-input-text" className="block text-sm font-medium text-secondary-gray">{t('smartInput.label')}</label>
                 <textarea 
                     id="smart-input-text"
                     rows={4}
                     value={text}
                     onChange={e => setText(e.target.value)}
                     className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
-                    placeholder="Contoh: Beli kopi 25rb, makan siang 30000, dan bayar parkir 5rb"
+                    placeholder={t('smartInput.placeholder')}
                 />
             </div>
             {error && <p className="text-sm text-center text-danger-red bg-red-50 p-2 rounded-md">{error}</p>}
+            {notice && <p className="text-sm text-center text-primary-navy bg-blue-50 p-2 rounded-md">{notice}</p>}
             <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">
-                Proses dengan AI
+                {t('smartInput.submit')}
             </button>
         </form>
     );
@@ -2755,7 +5028,7 @@ const AIAdviceModalContent: React.FC<{
         return (
             <div className="text-center py-10">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-navy mx-auto"></div>
-                <p className="mt-4 text-secondary-gray">AI sedang menganalisis data Anda...</p>
+                <p className="mt-4 text-secondary-gray">{t('advice.analyzing')}</p>
             </div>
         );
     }
@@ -2851,7 +5124,7 @@ const AIChatModalContent: React.FC<{
                         type="text"
                         value={message}
                         onChange={(e) => setMessage(e.target.value)}
-                        placeholder="Ketik pertanyaan Anda..."
+                        placeholder={t('chat.placeholder')}
                         className="flex-grow px-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-1 focus:ring-primary-navy"
                         disabled={isLoading}
                     />
@@ -2876,18 +5149,20 @@ const MainMenu: React.FC<{
     onOpenSettings: () => void 
 }> = (props) => {
     const menuItems = [
-        { icon: BuildingLibraryIcon, label: 'Celengan', action: () => props.onNavigate('savings'), disabled: false },
-        { icon: CircleStackIcon, label: 'Aset & Kekayaan', action: () => props.onNavigate('netWorth'), disabled: false },
-        { icon: TrophyIcon, label: 'Lencana', action: () => props.onNavigate('achievements'), disabled: false },
-        { icon: FireIcon, label: 'Pencapaian Terbaik', action: () => props.onNavigate('personalBest'), disabled: false },
-        { icon: ListBulletIcon, label: 'Info Bulanan', action: props.onShowInfo, disabled: false },
-        { icon: DocumentTextIcon, label: 'Kelola Dana', action: props.onManageFunds, disabled: false },
-        { icon: CameraIcon, label: 'Scan Struk', action: () => {}, disabled: true },
-        { icon: SparklesIcon, label: 'Input Cerdas', action: () => {}, disabled: true },
-        { icon: LightbulbIcon, label: 'Saran AI', action: () => {}, disabled: true },
-        { icon: ChatBubbleLeftRightIcon, label: 'Tanya AI', action: () => {}, disabled: true },
-        { icon: SpeakerWaveIcon, label: 'Asisten Suara', action: () => {}, disabled: true },
-        { icon: Cog6ToothIcon, label: 'Pengaturan', action: props.onOpenSettings, disabled: false },
+        { icon: BuildingLibraryIcon, label: t('menu.savings'), action: () => props.onNavigate('savings'), disabled: false },
+        { icon: CircleStackIcon, label: t('menu.netWorth'), action: () => props.onNavigate('netWorth'), disabled: false },
+        { icon: ClockIcon, label: t('menu.recurring'), action: () => props.onNavigate('recurring'), disabled: false },
+        { icon: CalendarDaysIcon, label: t('menu.bills'), action: () => props.onNavigate('bills'), disabled: false },
+        { icon: TrophyIcon, label: t('menu.achievements'), action: () => props.onNavigate('achievements'), disabled: false },
+        { icon: FireIcon, label: t('menu.personalBest'), action: () => props.onNavigate('personalBest'), disabled: false },
+        { icon: ListBulletIcon, label: t('menu.info'), action: props.onShowInfo, disabled: false },
+        { icon: DocumentTextIcon, label: t('menu.funds'), action: props.onManageFunds, disabled: false },
+        { icon: CameraIcon, label: t('menu.scanReceipt'), action: props.onScanReceipt, disabled: false },
+        { icon: SparklesIcon, label: t('menu.smartInput'), action: props.onSmartInput, disabled: false },
+        { icon: LightbulbIcon, label: t('menu.aiAdvice'), action: props.onGetAIAdvice, disabled: false },
+        { icon: ChatBubbleLeftRightIcon, label: t('menu.askAI'), action: props.onAskAI, disabled: false },
+        { icon: SpeakerWaveIcon, label: t('menu.voice'), action: props.onVoiceInput, disabled: false },
+        { icon: Cog6ToothIcon, label: t('menu.settings'), action: props.onOpenSettings, disabled: false },
     ];
     return (
          <div className="grid grid-cols-4 gap-2">
@@ -2897,7 +5172,7 @@ const MainMenu: React.FC<{
                     onClick={item.action} 
                     disabled={item.disabled}
                     className="relative flex flex-col items-center justify-center p-2 rounded-lg hover:bg-gray-100 transition-colors space-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
-                    title={item.disabled ? 'Fitur Terkunci' : ''}
+                    title={item.disabled ? t('common.featureLocked') : ''}
                 >
                     <item.icon className="w-8 h-8 text-primary-navy" />
                     {item.disabled && (
@@ -2912,14 +5187,14 @@ const MainMenu: React.FC<{
     );
 };
 
-const AddSavingsGoalModalContent: React.FC<{ onSubmit: (name: string, isInfinite: boolean, targetAmount?: number) => void }> = ({ onSubmit }) => {
+const AddSavingsGoalModalContent: React.FC<{ onSubmit: (name: string, isInfinite: boolean, targetAmount?: Money) => void }> = ({ onSubmit }) => {
     const [name, setName] = useState('');
     const [amount, setAmount] = useState('');
     const [isInfinite, setIsInfinite] = useState(false);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const rawAmount = getRawNumber(amount);
+        const rawAmount = parseMoneyInput(amount);
         if (name.trim() && (isInfinite || rawAmount > 0)) {
             onSubmit(name.trim(), isInfinite, isInfinite ? undefined : rawAmount);
         }
@@ -2927,8 +5202,8 @@ const AddSavingsGoalModalContent: React.FC<{ onSubmit: (name: string, isInfinite
     return (
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label htmlFor="goal-name" className="block text-sm font-medium text-secondary-gray">Nama Tujuan</label>
-                <input type="text" id="goal-name" value={name} onChange={e => setName(e.target.value)} required placeholder="Contoh: Dana Darurat" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="goal-name" className="block text-sm font-medium text-secondary-gray">{t('savings.form.name')}</label>
+                <input type="text" id="goal-name" value={name} onChange={e => setName(e.target.value)} required placeholder={t('savings.form.namePlaceholder')} className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
             
             <div className="flex items-center">
@@ -2940,28 +5215,28 @@ const AddSavingsGoalModalContent: React.FC<{ onSubmit: (name: string, isInfinite
                     className="h-4 w-4 rounded border-gray-300 text-primary-navy focus:ring-primary-navy"
                 />
                 <label htmlFor="is-infinite-checkbox" className="ml-2 block text-sm text-secondary-gray">
-                    Tabungan tanpa target
+                    {t('savings.form.noTarget')}
                 </label>
             </div>
 
             {!isInfinite && (
                 <div>
-                    <label htmlFor="goal-amount" className="block text-sm font-medium text-secondary-gray">Target Dana (Rp)</label>
-                    <input type="text" id="goal-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required={!isInfinite} placeholder="Contoh: 15.000.000" inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                    <label htmlFor="goal-amount" className="block text-sm font-medium text-secondary-gray">{t('savings.form.target')}</label>
+                    <input type="text" id="goal-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required={!isInfinite} placeholder={t('savings.form.targetPlaceholder')} inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
                 </div>
             )}
-            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Buat Celengan</button>
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('savings.form.create')}</button>
         </form>
     );
 };
 
-const AddSavingsModalContent: React.FC<{ goal?: SavingsGoal; availableFunds: number; onSubmit: (amount: number) => void; }> = ({ goal, availableFunds, onSubmit }) => {
+const AddSavingsModalContent: React.FC<{ goal?: SavingsGoal; availableFunds: Money; onSubmit: (amount: Money) => void; }> = ({ goal, availableFunds, onSubmit }) => {
     const [amount, setAmount] = useState('');
     if (!goal) return null;
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const rawAmount = getRawNumber(amount);
+        const rawAmount = parseMoneyInput(amount);
         if (rawAmount > 0) {
             onSubmit(rawAmount);
         }
@@ -2970,14 +5245,14 @@ const AddSavingsModalContent: React.FC<{ goal?: SavingsGoal; availableFunds: num
     return (
         <form onSubmit={handleSubmit} className="space-y-4">
              <div className="p-3 bg-blue-50 rounded-lg text-center">
-                <p className="text-sm text-secondary-gray">Sisa Dana Tersedia</p>
+                <p className="text-sm text-secondary-gray">{t('savings.form.available')}</p>
                 <p className="font-bold text-lg text-primary-navy">{formatCurrency(availableFunds)}</p>
             </div>
             <div>
-                <label htmlFor="savings-amount" className="block text-sm font-medium text-secondary-gray">Nominal (Rp)</label>
-                <input type="text" id="savings-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="numeric" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
+                <label htmlFor="savings-amount" className="block text-sm font-medium text-secondary-gray">{t('savings.form.amount')}</label>
+                <input type="text" id="savings-amount" value={amount} onChange={e => setAmount(formatNumberInput(e.target.value))} required inputMode="decimal" className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-navy focus:border-primary-navy"/>
             </div>
-            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">Simpan</button>
+            <button type="submit" className="w-full bg-primary-navy text-white font-bold py-3 rounded-lg hover:bg-primary-navy-dark transition-colors">{t('common.save')}</button>
         </form>
     );
 };
@@ -2987,35 +5262,42 @@ const SavingsDetailModalContent: React.FC<{ goal?: SavingsGoal; onDelete: () =>
     return (
         <div className="space-y-4">
             <div className="max-h-80 overflow-y-auto -mx-6">
-                <h4 className="font-semibold text-secondary-gray px-6 pb-2 border-b">Riwayat Menabung</h4>
+                <h4 className="font-semibold text-secondary-gray px-6 pb-2 border-b">{t('savings.detail.history')}</h4>
                 {goal.history.length === 0 ? (
-                    <p className="px-6 py-4 text-center text-secondary-gray">Belum ada riwayat.</p>
+                    <p className="px-6 py-4 text-center text-secondary-gray">{t('savings.detail.empty')}</p>
                 ) : (
                     [...goal.history].reverse().map(item => (
-                        <div key={item.timestamp} className="flex justify-between items-center px-6 py-3 border-b border-gray-100">
+                        <div key={item.id} className="flex justify-between items-center px-6 py-3 border-b border-gray-100">
                             <div>
                                 <p className="font-semibold text-accent-teal">+ {formatCurrency(item.amount)}</p>
-                                <p className="text-xs text-secondary-gray mt-1">{new Date(item.timestamp).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                                <p className="text-xs text-secondary-gray mt-1">{formatDateTime(item.timestamp)}</p>
                             </div>
                         </div>
                     ))
                 )}
             </div>
-             <button type="button" onClick={onDelete} className="w-full bg-danger-red text-white font-bold py-3 rounded-lg hover:bg-danger-red-dark transition-colors">Hapus Celengan</button>
+             <button type="button" onClick={onDelete} className="w-full bg-danger-red text-white font-bold py-3 rounded-lg hover:bg-danger-red-dark transition-colors">{t('savings.detail.delete')}</button>
         </div>
     );
 }
 
 const BatchInputModalContent: React.FC<{ 
     budgets: Budget[];
-    onSave: (items: ScannedItem[]) => void;
-}> = ({ budgets, onSave }) => {
-    const [items, setItems] = useState<ScannedItem[]>([{ desc: '', amount: 0, budgetId: 'daily' }]);
+    allTags: string[];
+    onSave: (items: ScannedItem[], splitDesc?: string) => void;
+}> = ({ budgets, allTags, onSave }) => {
+    const [isSplit, setIsSplit] = useState(false);
+    const [splitDesc, setSplitDesc] = useState('');
+    const [items, setItems] = useState<ScannedItem[]>([{ desc: '', amount: ZERO, budgetId: 'daily' }]);
+    // The typed amounts, so a trailing decimal separator survives until the next digit.
+    const [amountTexts, setAmountTexts] = useState<string[]>(['']);
 
     const updateItem = (index: number, field: keyof ScannedItem, value: string | number) => {
         const newItems = [...items];
         if (field === 'amount') {
-            newItems[index][field] = getRawNumber(value as string);
+            const text = formatNumberInput(value as string);
+            setAmountTexts(amountTexts.map((current, i) => i === index ? text : current));
+            newItems[index][field] = parseMoneyInput(text);
         } else if (field === 'budgetId') {
             newItems[index][field] = value === 'daily' ? 'daily' : Number(value);
         } else {
@@ -3024,17 +5306,23 @@ const BatchInputModalContent: React.FC<{
         setItems(newItems);
     };
 
+    const updateTags = (index: number, tags: string[]) => {
+        setItems(items.map((item, i) => i === index ? { ...item, tags } : item));
+    };
+
     const addItem = () => {
-        setItems([...items, { desc: '', amount: 0, budgetId: 'daily' }]);
+        setItems([...items, { desc: '', amount: ZERO, budgetId: 'daily' }]);
+        setAmountTexts([...amountTexts, '']);
     };
 
     const deleteItem = (indexToDelete: number) => {
         if (items.length > 1) {
             setItems(items.filter((_, index) => index !== indexToDelete));
+            setAmountTexts(amountTexts.filter((_, index) => index !== indexToDelete));
         }
     };
 
-    const totalAmount = useMemo(() => items.reduce((sum, item) => sum + item.amount, 0), [items]);
+    const totalAmount = useMemo(() => sumBy(items, (item: ScannedItem) => item.amount), [items]);
 
     return (
         <div className="space-y-4">
@@ -3044,19 +5332,20 @@ const BatchInputModalContent: React.FC<{
                         <div className="flex-grow space-y-2">
                             <input
                                 type="text"
-                                placeholder="Keterangan"
+                                placeholder={t('batch.desc')}
                                 value={item.desc}
                                 onChange={(e) => updateItem(index, 'desc', e.target.value)}
                                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
                             />
                             <input
                                 type="text"
-                                placeholder="Nominal"
-                                value={item.amount > 0 ? formatNumberInput(item.amount) : ''}
+                                placeholder={t('batch.amount')}
+                                value={amountTexts[index]}
                                 onChange={(e) => updateItem(index, 'amount', e.target.value)}
-                                inputMode="numeric"
+                                inputMode="decimal"
                                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
                             />
+                            <TagInput id={`batch-tags-${index}`} tags={item.tags || []} allTags={allTags} onChange={tags => updateTags(index, tags)} compact />
                         </div>
                         <div className="flex-shrink-0 sm:w-48 space-y-2">
                              <select 
@@ -3064,7 +5353,7 @@ const BatchInputModalContent: React.FC<{
                                 onChange={(e) => updateItem(index, 'budgetId', e.target.value)}
                                 className="w-full h-10 px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm text-sm"
                             >
-                                <option value="daily">Uang Harian</option>
+                                <option value="daily">{t('form.dailyMoney')}</option>
                                 {budgets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
                             </select>
                             <button onClick={() => deleteItem(index)} disabled={items.length <= 1} className="w-full h-10 flex items-center justify-center bg-gray-200 text-dark-text font-bold rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed">
@@ -3076,15 +5365,16 @@ const BatchInputModalContent: React.FC<{
             </div>
              <button onClick={addItem} className="w-full flex items-center justify-center gap-2 bg-white border-2 border-dashed border-secondary-gray text-secondary-gray font-bold py-2 px-4 rounded-lg hover:bg-gray-50 hover:text-dark-text hover:border-dark-text transition-colors">
                 <PlusCircleIcon className="w-5 h-5" />
-                <span>Tambah Item</span>
+                <span>{t('batch.addItem')}</span>
             </button>
             <div className="border-t pt-4">
                 <div className="flex justify-between items-center mb-4">
-                    <span className="font-semibold text-secondary-gray">Total Pengeluaran</span>
+                    <span className="font-semibold text-secondary-gray">{t('batch.total')}</span>
                     <span className="font-bold text-xl text-danger-red">{formatCurrency(totalAmount)}</span>
                 </div>
-                <button onClick={() => onSave(items)} disabled={items.every(i => i.amount <= 0 || !i.desc.trim())} className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
-                    Simpan Semua
+                {items.length > 1 && <div className="mb-4"><SplitOption id="batch-split" isSplit={isSplit} desc={splitDesc} onToggle={setIsSplit} onDescChange={setSplitDesc} /></div>}
+                <button onClick={() => onSave(items, isSplit ? splitDesc.trim() : undefined)} disabled={items.every(i => i.amount <= 0 || !i.desc.trim()) || (isSplit && !splitDesc.trim())} className="w-full bg-accent-teal text-white font-bold py-3 rounded-lg hover:bg-accent-teal-dark transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                    {t('batch.saveAll')}
                 </button>
             </div>
         </div>
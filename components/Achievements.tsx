@@ -1,6 +1,9 @@
 import React, { useState, useMemo } from 'react';
 import type { Achievement, AppState } from '../types';
 import { BudgetIcon, LockClosedIcon, ClockIcon, TrophyIcon } from './Icons';
+import { t, localizeAchievement } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
+import { formatDate, formatNumber } from '../utils/format';
 
 interface AchievementsProps {
     state: AppState;
@@ -15,7 +18,14 @@ interface AchievementsProps {
     };
 }
 
-const achievementCategories = ['Dasar', 'Kebiasaan Baik', 'Master Anggaran', 'Tantangan', 'Eksplorasi'];
+// `category` values in data/achievements.ts and their labels.
+const achievementCategories: { category: string; label: MessageKey }[] = [
+    { category: 'Dasar', label: 'achievements.category.basic' },
+    { category: 'Kebiasaan Baik', label: 'achievements.category.habits' },
+    { category: 'Master Anggaran', label: 'achievements.category.budgetMaster' },
+    { category: 'Tantangan', label: 'achievements.category.challenge' },
+    { category: 'Eksplorasi', label: 'achievements.category.exploration' },
+];
 
 const ProgressBar: React.FC<{ current: number; target: number, className?: string }> = ({ current, target, className }) => {
     const percentage = target > 0 ? (current / target) * 100 : 0;
@@ -48,13 +58,13 @@ const AchievementCard: React.FC<{
             <div className={`flex-grow ${!isUnlocked ? 'opacity-60' : ''}`}>
                 <div className="flex justify-between items-start">
                     <h3 className="font-bold text-dark-text pr-2">{achievement.name}</h3>
-                    {achievement.isTimeLimited && <ClockIcon className="w-5 h-5 text-secondary-gray flex-shrink-0" title="Lencana Terbatas Waktu"/>}
+                    {achievement.isTimeLimited && <ClockIcon className="w-5 h-5 text-secondary-gray flex-shrink-0" title={t('achievements.timeLimited')}/>}
                 </div>
                 <p className="text-sm text-secondary-gray">{achievement.description}</p>
                 {!isUnlocked && progress && progress.target > 1 && (
                      <div className="mt-2">
                         <ProgressBar current={progress.current} target={progress.target} />
-                        <p className="text-xs text-secondary-gray text-right mt-1">{progress.current.toLocaleString()} / {progress.target.toLocaleString()}</p>
+                        <p className="text-xs text-secondary-gray text-right mt-1">{formatNumber(progress.current)} / {formatNumber(progress.target)}</p>
                     </div>
                 )}
             </div>
@@ -82,37 +92,37 @@ const AchievementDetailModal: React.FC<{
                 </div>
                 <h3 className="text-xl font-bold text-primary-navy">{achievement.name}</h3>
                 <p className="text-secondary-gray mt-1">{achievement.description}</p>
-                <p className="text-sm font-semibold text-warning-yellow mt-2">{achievement.points} Poin</p>
+                <p className="text-sm font-semibold text-warning-yellow mt-2">{t('achievements.points', { points: achievement.points })}</p>
 
                 <div className="mt-4 border-t pt-4">
                     {isUnlocked && unlockedTimestamp ? (
                         <div>
-                            <p className="font-semibold text-dark-text">Didapatkan pada:</p>
-                            <p className="text-secondary-gray">{new Date(unlockedTimestamp).toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+                            <p className="font-semibold text-dark-text">{t('achievements.unlockedOn')}</p>
+                            <p className="text-secondary-gray">{formatDate(unlockedTimestamp, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
                         </div>
                     ) : (
                         <div>
-                            <p className="font-semibold text-dark-text">Progress:</p>
+                            <p className="font-semibold text-dark-text">{t('achievements.progress')}</p>
                             {progress ? (
                                 <>
-                                    <p className="text-primary-navy text-2xl font-bold my-1">{progress.current.toLocaleString()} / {progress.target.toLocaleString()}</p>
+                                    <p className="text-primary-navy text-2xl font-bold my-1">{formatNumber(progress.current)} / {formatNumber(progress.target)}</p>
                                     <ProgressBar current={progress.current} target={progress.target} className="h-4"/>
                                 </>
                             ) : (
-                                <p className="text-secondary-gray">Anda belum memulai progress untuk lencana ini.</p>
+                                <p className="text-secondary-gray">{t('achievements.noProgress')}</p>
                             )}
                         </div>
                     )}
                 </div>
 
-                <button onClick={onClose} className="mt-6 w-full bg-gray-200 text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-gray-300">Tutup</button>
+                <button onClick={onClose} className="mt-6 w-full bg-gray-200 text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-gray-300">{t('common.close')}</button>
             </div>
         </div>
     );
 }
 
 const Achievements: React.FC<AchievementsProps> = ({ state, allAchievements, unlockedAchievements, achievementData, totalPoints, userLevel }) => {
-    const [activeCategory, setActiveCategory] = useState(achievementCategories[0]);
+    const [activeCategory, setActiveCategory] = useState(achievementCategories[0].category);
     const [selectedAchievement, setSelectedAchievement] = useState<Achievement | null>(null);
 
     const filteredAchievements = useMemo(() => {
@@ -125,36 +135,36 @@ const Achievements: React.FC<AchievementsProps> = ({ state, allAchievements, unl
 
     return (
         <main className="p-4 pb-24 animate-fade-in">
-            <h1 className="text-3xl font-bold text-primary-navy text-center mb-2">Lencana & Pencapaian</h1>
+            <h1 className="text-3xl font-bold text-primary-navy text-center mb-2">{t('achievements.title')}</h1>
 
             <section className="bg-white rounded-xl shadow-md p-4 mb-6">
                 <div className="flex items-center justify-between">
                     <h2 className="text-lg font-bold text-primary-navy">{userLevel.level}</h2>
-                    <p className="font-semibold text-warning-yellow">{totalPoints} Poin</p>
+                    <p className="font-semibold text-warning-yellow">{t('achievements.points', { points: totalPoints })}</p>
                 </div>
                 <div className="mt-2">
                     <ProgressBar current={totalPoints - userLevel.currentLevelPoints} target={userLevel.nextLevelPoints ? userLevel.nextLevelPoints - userLevel.currentLevelPoints : 1} className="h-3" />
                     <div className="flex justify-between text-xs text-secondary-gray mt-1">
-                        <span>Lv. Sebelumnya: {userLevel.currentLevelPoints}</span>
-                        {userLevel.nextLevelPoints && <span>Lv. Berikutnya: {userLevel.nextLevelPoints}</span>}
+                        <span>{t('achievements.previousLevel', { points: userLevel.currentLevelPoints })}</span>
+                        {userLevel.nextLevelPoints && <span>{t('achievements.nextLevel', { points: userLevel.nextLevelPoints })}</span>}
                     </div>
                 </div>
             </section>
 
             <div className="flex space-x-2 overflow-x-auto pb-4 mb-4 -mx-4 px-4">
-                {achievementCategories.map(category => (
+                {achievementCategories.map(({ category, label }) => (
                     <button 
                         key={category}
                         onClick={() => setActiveCategory(category)}
                         className={`px-4 py-2 text-sm font-semibold rounded-full whitespace-nowrap transition-colors ${activeCategory === category ? 'bg-primary-navy text-white' : 'bg-white text-secondary-gray hover:bg-gray-100'}`}
                     >
-                        {category}
+                        {t(label)}
                     </button>
                 ))}
             </div>
             
             <div className="grid md:grid-cols-2 gap-6">
-                {filteredAchievements.map(ach => {
+                {filteredAchievements.map(localizeAchievement).map(ach => {
                     let progress: { current: number; target: number } | undefined = undefined;
                     if (ach.progress) {
                         progress = ach.progress(state);
@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from 'react';
+import { PhotoIcon } from './Icons';
+import { getAttachmentUrl, peekAttachmentUrl } from '../utils/attachments';
+import { t } from '../utils/i18n';
+
+// Loads a stored photo, or its thumbnail, as an object URL; null while loading or when it is missing.
+const useAttachmentUrl = (id: string | null, variant: 'image' | 'thumbnail') => {
+    const [url, setUrl] = useState<string | null>(() => id ? peekAttachmentUrl(id, variant) ?? null : null);
+
+    useEffect(() => {
+        if (!id) return;
+        let isCurrent = true;
+        getAttachmentUrl(id, variant).then(result => {
+            if (isCurrent) setUrl(result);
+        });
+        return () => { isCurrent = false; };
+    }, [id, variant]);
+
+    return url;
+};
+
+interface AttachmentThumbnailProps {
+    id: string;
+    onOpen: (id: string) => void;
+    /** Number of further photos, shown as a badge. */
+    moreCount?: number;
+    className?: string;
+}
+
+export const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ id, onOpen, moreCount = 0, className = 'w-10 h-10' }) => {
+    const url = useAttachmentUrl(id, 'thumbnail');
+    return (
+        <button
+            type="button"
+            onClick={() => onOpen(id)}
+            className={`relative ${className} rounded-lg overflow-hidden bg-gray-100 border border-gray-200 flex items-center justify-center flex-shrink-0 hover:opacity-80 transition-opacity`}
+            aria-label={t('attachments.open')}
+        >
+            {url ? <img src={url} alt="" className="w-full h-full object-cover" /> : <PhotoIcon className="w-5 h-5 text-gray-400" />}
+            {moreCount > 0 && (
+                <span className="absolute bottom-0 right-0 bg-primary-navy text-white text-[10px] font-bold px-1 rounded-tl">+{moreCount}</span>
+            )}
+        </button>
+    );
+};
+
+/** A photo shown full screen, above any open modal. */
+export const AttachmentViewer: React.FC<{ id: string | null; onClose: () => void }> = ({ id, onClose }) => {
+    const url = useAttachmentUrl(id, 'image');
+    if (!id) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-90 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+            <button onClick={onClose} className="absolute top-4 right-4 text-white text-4xl leading-none" aria-label={t('common.close')}>&times;</button>
+            {url
+                ? <img src={url} alt={t('attachments.photo')} className="max-w-full max-h-full object-contain rounded" onClick={e => e.stopPropagation()} />
+                : <p className="text-white text-sm">{t('attachments.loading')}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import type { AppState, Bill, Budget } from '../types';
+import { PlusCircleIcon, BellIcon, TrashIcon } from './Icons';
+import { describeBillStatus, getBillOccurrence, type BillOccurrence } from '../utils/bills';
+import { toDateKey } from '../utils/recurring';
+import { getMonthKey } from '../utils/rollover';
+import { formatCurrency, formatMonth } from '../utils/format';
+import { t } from '../utils/i18n';
+
+const statusClasses: { [key in BillOccurrence['status']]: string } = {
+    paid: 'bg-accent-teal text-white',
+    overdue: 'bg-danger-red text-white',
+    dueSoon: 'bg-yellow-100 text-yellow-700',
+    upcoming: 'bg-gray-200 text-secondary-gray',
+};
+
+// This month's bill, preceded by last month's when it is still unpaid.
+const getOpenOccurrences = (bill: Bill, daysAhead: number, now: Date): BillOccurrence[] => {
+    const today = toDateKey(now);
+    const lastMonth = getBillOccurrence(bill, getMonthKey(new Date(now.getFullYear(), now.getMonth() - 1, 1)), today, daysAhead);
+    const thisMonth = getBillOccurrence(bill, getMonthKey(now), today, daysAhead);
+    return lastMonth.status === 'overdue' && lastMonth.dueDate >= toDateKey(new Date(bill.createdAt)) ? [lastMonth, thisMonth] : [thisMonth];
+};
+
+const BillCard: React.FC<{
+    bill: Bill;
+    budgets: Budget[];
+    occurrences: BillOccurrence[];
+    onEdit: () => void;
+    onMarkPaid: (month: string) => void;
+    onMarkUnpaid: (month: string) => void;
+    onDelete: () => void;
+}> = ({ bill, budgets, occurrences, onEdit, onMarkPaid, onMarkUnpaid, onDelete }) => {
+    const budget = budgets.find(b => b.id === bill.budgetId);
+    return (
+        <div className="bg-white rounded-xl shadow-md p-4 space-y-3 animate-fade-in">
+            <div>
+                <h3 className="text-lg font-bold text-dark-text">{bill.name}</h3>
+                <p className="text-sm text-secondary-gray">
+                    {t('bills.dueEveryMonth', { day: bill.dueDay })} &middot; {budget && !budget.isArchived ? budget.name : t('form.dailyMoney')}
+                </p>
+            </div>
+            <p className="font-bold text-2xl text-primary-navy">{formatCurrency(bill.amount)}</p>
+            <ul className="divide-y divide-gray-100">
+                {occurrences.map(occurrence => (
+                    <li key={occurrence.month} className="flex justify-between items-center gap-2 py-2 text-sm">
+                        <div>
+                            <p className="font-semibold text-dark-text">{formatMonth(occurrence.month)}</p>
+                            <span className={`inline-block mt-1 px-2 py-0.5 text-xs font-semibold rounded-full ${statusClasses[occurrence.status]}`}>{describeBillStatus(occurrence)}</span>
+                        </div>
+                        {occurrence.status === 'paid' ? (
+                            <button onClick={() => onMarkUnpaid(occurrence.month)} className="text-xs font-semibold px-3 py-2 rounded-md bg-gray-200 text-dark-text hover:bg-gray-300 transition-colors">
+                                {t('bills.markUnpaid')}
+                            </button>
+                        ) : (
+                            <button onClick={() => onMarkPaid(occurrence.month)} className="text-xs font-semibold px-3 py-2 rounded-md bg-accent-teal text-white hover:bg-accent-teal-dark transition-colors">
+                                {t('bills.markPaid')}
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            <div className="grid grid-cols-2 gap-3 pt-2">
+                <button onClick={onEdit} className="bg-gray-200 text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors">
+                    {t('common.edit')}
+                </button>
+                <button onClick={onDelete} className="bg-danger-red text-white font-bold py-2 px-4 rounded-lg hover:bg-danger-red-dark transition-colors flex items-center justify-center" aria-label={t('bills.deleteLabel', { name: bill.name })}>
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface BillsProps {
+    state: AppState;
+    reminderDaysAhead: number;
+    onAddBill: () => void;
+    onEditBill: (billId: number) => void;
+    onMarkPaid: (billId: number, month: string) => void;
+    onMarkUnpaid: (billId: number, month: string) => void;
+    onDeleteBill: (billId: number) => void;
+}
+
+const Bills: React.FC<BillsProps> = ({ state, reminderDaysAhead, onAddBill, onEditBill, onMarkPaid, onMarkUnpaid, onDeleteBill }) => {
+    const now = new Date();
+    const bills = [...state.bills].sort((a, b) => a.dueDay - b.dueDay || a.name.localeCompare(b.name));
+
+    return (
+        <main id="bills-page" className="p-4 pb-24 animate-fade-in">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-primary-navy">{t('bills.title')}</h1>
+                <button onClick={onAddBill} className="flex items-center space-x-2 bg-accent-teal text-white font-bold py-2 px-4 rounded-lg hover:bg-accent-teal-dark transition-colors shadow">
+                    <PlusCircleIcon className="w-6 h-6" />
+                    <span>{t('common.new')}</span>
+                </button>
+            </div>
+
+            {bills.length === 0 ? (
+                <div className="text-center py-16 bg-white rounded-xl shadow-md space-y-4">
+                    <BellIcon className="w-20 h-20 mx-auto text-secondary-gray" />
+                    <p className="text-secondary-gray">{t('bills.empty')}</p>
+                    <p className="text-secondary-gray">{t('bills.emptyHint')}</p>
+                </div>
+            ) : (
+                <div className="grid md:grid-cols-2 gap-6">
+                    {bills.map(bill => (
+                        <BillCard
+                            key={bill.id}
+                            bill={bill}
+                            budgets={state.budgets}
+                            occurrences={getOpenOccurrences(bill, reminderDaysAhead, now)}
+                            onEdit={() => onEditBill(bill.id)}
+                            onMarkPaid={(month) => onMarkPaid(bill.id, month)}
+                            onMarkUnpaid={(month) => onMarkUnpaid(bill.id, month)}
+                            onDelete={() => onDeleteBill(bill.id)}
+                        />
+                    ))}
+                </div>
+            )}
+        </main>
+    );
+};
+
+export default Bills;
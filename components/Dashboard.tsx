@@ -2,7 +2,11 @@
 
 import React, { useState } from 'react';
 import type { AppState, Budget, Transaction } from '../types';
-import { LightbulbIcon, ArrowPathIcon, PlusCircleIcon, BudgetIcon, LockClosedIcon, ListBulletIcon } from './Icons';
+import { LightbulbIcon, ArrowPathIcon, PlusCircleIcon, BudgetIcon, LockClosedIcon, ListBulletIcon, BellIcon } from './Icons';
+import { getBudgetQuota, getBudgetRemaining, getBudgetUsed, getDailyBudgetMax, getMonthlySummary } from '../utils/budget';
+import { absMoney, subtractMoney, sumBy, type Money } from '../utils/money';
+import { formatCurrency, formatDate } from '../utils/format';
+import { t } from '../utils/i18n';
 
 interface DashboardProps {
   state: AppState;
@@ -18,9 +22,11 @@ interface DashboardProps {
   onReorderBudgets: (reorderedBudgets: Budget[]) => void;
   onSetBudgetPermanence: (budgetId: number, isTemporary: boolean) => void;
   onOpenBatchInput: () => void;
+  /** Bills that are overdue or due soon. */
+  reminderCount: number;
+  onOpenNotifications: () => void;
 }
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
 
 const formatMarkdown = (text: string) => {
     return text
@@ -38,40 +44,39 @@ const formatMarkdown = (text: string) => {
 
 
 const OverviewCard: React.FC<{
-    monthlyIncome: number;
-    totalUsedOverall: number;
-    totalRemaining: number;
-    currentAvailableFunds: number;
-    totalDailySpentToday: number;
+    monthlyIncome: Money;
+    totalUsedOverall: Money;
+    totalRemaining: Money;
+    currentAvailableFunds: Money;
+    totalDailySpentToday: Money;
     onUseDailyBudget: () => void;
     onViewDailyHistory: () => void;
     onOpenBatchInput: () => void;
 }> = ({ monthlyIncome, totalUsedOverall, totalRemaining, currentAvailableFunds, totalDailySpentToday, onUseDailyBudget, onViewDailyHistory, onOpenBatchInput }) => {
-    const remainingDays = new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate() - new Date().getDate() + 1;
-    const dailyBudgetMax = remainingDays > 0 ? currentAvailableFunds / remainingDays : currentAvailableFunds;
-    const dailyBudgetRemaining = dailyBudgetMax - totalDailySpentToday;
+    const dailyBudgetMax = getDailyBudgetMax(currentAvailableFunds);
+    const dailyBudgetRemaining = subtractMoney(dailyBudgetMax, totalDailySpentToday);
     const dailyPercentageUsed = dailyBudgetMax > 0 ? (totalDailySpentToday / dailyBudgetMax) * 100 : 100;
 
     return (
         <section className="bg-white rounded-xl p-6 mb-6 shadow-md">
             <div className="text-center mb-4">
-                <h3 className="text-sm font-medium text-secondary-gray">Sisa Dana Bulan Ini</h3>
+                <h3 className="text-sm font-medium text-secondary-gray">{t('dashboard.remainingThisMonth')}</h3>
                 <p className={`font-bold text-4xl ${totalRemaining < 0 ? 'text-danger-red' : 'text-primary-navy'}`}>{formatCurrency(totalRemaining)}</p>
             </div>
 
             <div className="grid grid-cols-2 gap-4 text-center mb-6">
                 <div>
-                    <h4 className="text-xs text-secondary-gray">Pemasukan</h4>
+                    <h4 className="text-xs text-secondary-gray">{t('dashboard.income')}</h4>
                     <p className="font-semibold text-dark-text">{formatCurrency(monthlyIncome)}</p>
                 </div>
                 <div>
-                    <h4 className="text-xs text-secondary-gray">Terpakai</h4>
+                    <h4 className="text-xs text-secondary-gray">{t('dashboard.used')}</h4>
                     <p className="font-semibold text-dark-text">{formatCurrency(totalUsedOverall)}</p>
                 </div>
             </div>
 
             <div className="space-y-3 border-t pt-4">
-                <h3 className="font-semibold text-dark-text text-center">Anggaran Harian (Dana Tersedia)</h3>
+                <h3 className="font-semibold text-dark-text text-center">{t('dashboard.dailyBudget')}</h3>
                  <div onClick={onViewDailyHistory} className="cursor-pointer group">
                     <div className="w-full bg-gray-200 rounded-full h-4 overflow-hidden my-2">
                         <div
@@ -80,18 +85,18 @@ const OverviewCard: React.FC<{
                         ></div>
                     </div>
                     <p className="text-xs text-secondary-gray text-right group-hover:text-dark-text transition-colors">
-                        Sisa {formatCurrency(dailyBudgetRemaining)} dari kuota {formatCurrency(dailyBudgetMax)}
+                        {t('dashboard.dailyRemaining', { remaining: formatCurrency(dailyBudgetRemaining), quota: formatCurrency(dailyBudgetMax) })}
                     </p>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-3">
                     <button onClick={onUseDailyBudget} className="w-full bg-accent-teal text-white font-bold py-3 px-4 rounded-lg hover:bg-accent-teal-dark transition-colors shadow flex items-center justify-center gap-2">
                          <PlusCircleIcon className="w-5 h-5" />
-                        <span>Catat</span>
+                        <span>{t('dashboard.record')}</span>
                     </button>
                      <button onClick={onOpenBatchInput} className="w-full bg-white border-2 border-accent-teal text-accent-teal font-bold py-3 px-4 rounded-lg hover:bg-teal-50 transition-colors shadow flex items-center justify-center gap-2">
                         <ListBulletIcon className="w-5 h-5" />
-                        <span>Sekaligus</span>
+                        <span>{t('dashboard.batch')}</span>
                     </button>
                 </div>
             </div>
@@ -109,7 +114,7 @@ const AIInsightCard: React.FC<{
             <div className="flex justify-between items-center mb-2">
                 <div className="flex items-center space-x-2">
                     <LightbulbIcon className="w-6 h-6 text-warning-yellow" />
-                    <h2 className="text-xl font-bold text-primary-navy">Wawasan AI</h2>
+                    <h2 className="text-xl font-bold text-primary-navy">{t('dashboard.aiInsight')}</h2>
                 </div>
                 <button disabled={true} className="text-primary-navy disabled:text-gray-400 disabled:cursor-not-allowed">
                     <ArrowPathIcon className="w-6 h-6" isSpinning={false} />
@@ -117,8 +122,8 @@ const AIInsightCard: React.FC<{
             </div>
             <div className="text-center py-4 text-secondary-gray">
                 <LockClosedIcon className="w-12 h-12 mx-auto text-gray-300" />
-                <p className="mt-2 font-semibold">Fitur Terkunci</p>
-                <p className="text-sm">Tingkatkan ke versi premium untuk membuka wawasan AI.</p>
+                <p className="mt-2 font-semibold">{t('common.featureLocked')}</p>
+                <p className="text-sm">{t('dashboard.aiInsightLocked')}</p>
             </div>
         </section>
     );
@@ -127,6 +132,7 @@ const AIInsightCard: React.FC<{
 
 const BudgetItem: React.FC<{
     budget: Budget;
+    baseCurrency: string;
     onUse: () => void;
     onEdit: () => void;
     isExpanded: boolean;
@@ -137,10 +143,12 @@ const BudgetItem: React.FC<{
     onDragOverItem: (e: React.DragEvent<HTMLDivElement>) => void;
     onDropOnItem: (e: React.DragEvent<HTMLDivElement>) => void;
     onDragLeaveItem: () => void;
-}> = ({ budget, onUse, onEdit, isExpanded, onToggleExpand, isDragging, onDragStart, showDropIndicator, onDragOverItem, onDropOnItem, onDragLeaveItem }) => {
-    const usedAmount = budget.history.reduce((sum, item) => sum + item.amount, 0);
-    const remaining = budget.totalBudget - usedAmount;
-    const percentageUsed = budget.totalBudget > 0 ? (usedAmount / budget.totalBudget) * 100 : 0;
+}> = ({ budget, baseCurrency, onUse, onEdit, isExpanded, onToggleExpand, isDragging, onDragStart, showDropIndicator, onDragOverItem, onDropOnItem, onDragLeaveItem }) => {
+    const usedAmount = getBudgetUsed(budget);
+    const quota = getBudgetQuota(budget);
+    const carriedOver = budget.carriedOver || 0;
+    const remaining = getBudgetRemaining(budget);
+    const percentageUsed = quota > 0 ? (usedAmount / quota) * 100 : (usedAmount > 0 ? 100 : 0);
 
     let barColorClass = 'bg-accent-teal';
     if (percentageUsed >= 100) barColorClass = 'bg-danger-red';
@@ -173,7 +181,12 @@ const BudgetItem: React.FC<{
                     </div>
                     <div className="text-right flex-shrink-0">
                         <p className="font-bold text-primary-navy">{formatCurrency(remaining)}</p>
-                        <p className="text-xs text-secondary-gray">dari {formatCurrency(budget.totalBudget)}</p>
+                        <p className="text-xs text-secondary-gray">{t('common.ofAmount', { amount: formatCurrency(quota) })}</p>
+                        {carriedOver !== 0 && (
+                            <p className={`text-xs font-semibold ${carriedOver > 0 ? 'text-accent-teal' : 'text-danger-red'}`}>
+                                {t('dashboard.carriedOver', { amount: `${carriedOver > 0 ? '+' : '-'}${formatCurrency(absMoney(carriedOver))}` })}
+                            </p>
+                        )}
                     </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-5 overflow-hidden">
@@ -186,23 +199,23 @@ const BudgetItem: React.FC<{
             <div className={`transition-all duration-300 ease-in-out overflow-hidden ${isExpanded ? 'max-h-96' : 'max-h-0'}`}>
                 <div className="pb-4 px-4 border-t pt-3">
                     <button onClick={onUse} className="w-full bg-accent-teal text-white font-bold py-2 px-4 rounded-lg hover:bg-accent-teal-dark transition-colors mb-3">
-                        Gunakan Dana
+                        {t('dashboard.useFunds')}
                     </button>
-                    <h4 className="font-semibold text-sm text-secondary-gray mb-2">Riwayat Transaksi</h4>
+                    <h4 className="font-semibold text-sm text-secondary-gray mb-2">{t('common.transactionHistory')}</h4>
                     {budget.history.length > 0 ? (
                         <ul className="space-y-2 text-sm max-h-40 overflow-y-auto pr-2">
                             {[...budget.history].reverse().map((item: Transaction) => (
-                                <li key={item.timestamp} className="flex justify-between items-center">
+                                <li key={item.id} className="flex justify-between items-center">
                                     <span className="truncate pr-2 text-dark-text">{item.desc}</span>
                                     <span className="font-semibold text-danger-red flex-shrink-0">-{formatCurrency(item.amount)}</span>
                                 </li>
                             ))}
                         </ul>
                     ) : (
-                        <p className="text-sm text-secondary-gray text-center py-2">Belum ada transaksi.</p>
+                        <p className="text-sm text-secondary-gray text-center py-2">{t('dashboard.noTransactions')}</p>
                     )}
                     <button onClick={onEdit} className="mt-4 w-full bg-gray-200 text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-gray-300 text-sm">
-                        Edit / Arsipkan
+                        {t('dashboard.editOrArchive')}
                     </button>
                 </div>
             </div>
@@ -222,18 +235,9 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
     const fixedBudgets = activeBudgets.filter(b => !b.isTemporary).sort((a,b) => a.order - b.order);
     const temporaryBudgets = activeBudgets.filter(b => b.isTemporary).sort((a,b) => a.order - b.order);
     
-    const monthlyIncome = state.fundHistory.filter(t => t.type === 'add').reduce((sum, t) => sum + t.amount, 0);
-    const monthlyGeneralExpense = state.fundHistory.filter(t => t.type === 'remove').reduce((sum, t) => sum + t.amount, 0);
-    const totalUsedFromPosts = state.budgets.reduce((sum, b) => sum + b.history.reduce((s, h) => s + h.amount, 0), 0);
-    const totalDailySpent = state.dailyExpenses.reduce((sum, e) => sum + e.amount, 0);
-    const totalUsedOverall = monthlyGeneralExpense + totalUsedFromPosts + totalDailySpent;
-    const totalRemaining = monthlyIncome - totalUsedOverall;
-
-    const totalAllocated = state.budgets.reduce((sum, b) => sum + b.totalBudget, 0);
-    const unallocatedFunds = monthlyIncome - totalAllocated;
-    const currentAvailableFunds = unallocatedFunds - monthlyGeneralExpense - totalDailySpent;
+    const { monthlyIncome, totalUsedOverall, totalRemaining, currentAvailableFunds } = getMonthlySummary(state);
     const todaysDailyExpenses = state.dailyExpenses.filter(exp => new Date(exp.timestamp).toDateString() === new Date().toDateString());
-    const totalDailySpentToday = todaysDailyExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const totalDailySpentToday = sumBy(todaysDailyExpenses, (exp: Transaction) => exp.amount);
 
     const handleDropOnZone = (targetZone: 'fixed' | 'temporary') => {
         if (draggedId === null) return;
@@ -292,6 +296,7 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
             <BudgetItem 
                 key={budget.id}
                 budget={budget}
+                baseCurrency={state.baseCurrency}
                 isExpanded={expandedBudgetId === budget.id}
                 onToggleExpand={() => setExpandedBudgetId(prev => prev === budget.id ? null : budget.id)}
                 onUse={() => props.onUseBudget(budget.id)}
@@ -322,10 +327,20 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
     };
 
     return (
-        <main id="dashboard-page" className="p-4 pb-24" onDragEnd={handleDragEnd}>
-            <h1 className="text-3xl font-bold text-primary-navy text-center">Dashboard</h1>
+        <main id="dashboard-page" className="relative p-4 pb-24" onDragEnd={handleDragEnd}>
+            <button
+                onClick={props.onOpenNotifications}
+                className="absolute top-4 right-4 p-2 rounded-full text-primary-navy hover:bg-gray-200 transition-colors"
+                aria-label={props.reminderCount > 0 ? t('notifications.openWithCount', { count: props.reminderCount }) : t('notifications.open')}
+            >
+                <BellIcon className="w-7 h-7" />
+                {props.reminderCount > 0 && (
+                    <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-danger-red text-white text-xs font-bold flex items-center justify-center">{props.reminderCount}</span>
+                )}
+            </button>
+            <h1 className="text-3xl font-bold text-primary-navy text-center">{t('dashboard.title')}</h1>
             <p className="text-center text-secondary-gray mb-6">
-                {new Date().toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                {formatDate(new Date(), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
             </p>
 
             <OverviewCard
@@ -353,7 +368,7 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
                     onDrop={() => handleDropOnZone('fixed')}
                     className={`p-4 rounded-xl transition-colors duration-300 ${dragOverZone === 'fixed' ? 'bg-blue-100' : ''}`}
                 >
-                    <h2 className="text-2xl font-bold text-primary-navy mb-4">Anggaran Tetap</h2>
+                    <h2 className="text-2xl font-bold text-primary-navy mb-4">{t('dashboard.fixedBudgets')}</h2>
                     <div className="grid md:grid-cols-2 gap-6">
                         {renderBudgetList(fixedBudgets)}
                     </div>
@@ -366,12 +381,12 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
                     onDrop={() => handleDropOnZone('temporary')}
                     className={`p-4 rounded-xl transition-colors duration-300 border-2 border-dashed ${dragOverZone === 'temporary' ? 'bg-green-100 border-accent-teal' : 'border-secondary-gray'}`}
                 >
-                    <h2 className="text-2xl font-bold text-primary-navy mb-2">Anggaran Sementara (Bulan Ini Saja)</h2>
-                    <p className="text-sm text-secondary-gray mb-4">Seret pos dari atas ke sini untuk menjadikannya sementara. Anggaran di sini akan otomatis diarsipkan di akhir bulan.</p>
+                    <h2 className="text-2xl font-bold text-primary-navy mb-2">{t('dashboard.temporaryBudgets')}</h2>
+                    <p className="text-sm text-secondary-gray mb-4">{t('dashboard.temporaryHint')}</p>
                     <div className="grid md:grid-cols-2 gap-6">
                         {temporaryBudgets.length === 0 ? (
                              <div className="md:col-span-2 text-center text-secondary-gray py-6">
-                                <p>Belum ada anggaran sementara.</p>
+                                <p>{t('dashboard.noTemporaryBudgets')}</p>
                             </div>
                         ) : (
                             renderBudgetList(temporaryBudgets)
@@ -385,7 +400,7 @@ const Dashboard: React.FC<DashboardProps> = (props) => {
                         className="w-full flex items-center justify-center gap-2 bg-white border-2 border-dashed border-secondary-gray text-secondary-gray font-bold py-3 px-4 rounded-lg hover:bg-gray-50 hover:text-dark-text hover:border-dark-text transition-colors"
                     >
                         <PlusCircleIcon className="w-6 h-6" />
-                        <span>Tambah Pos Anggaran Baru</span>
+                        <span>{t('dashboard.addBudget')}</span>
                     </button>
                 </div>
             </section>
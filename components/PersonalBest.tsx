@@ -1,21 +1,14 @@
 import React, { useMemo } from 'react';
 import type { AppState, GlobalTransaction, Budget, SavingTransaction } from '../types';
 import { TrophyIcon, BuildingLibraryIcon, ShieldCheckIcon } from './Icons';
+import { formatCurrency, formatMonth } from '../utils/format';
+import { t } from '../utils/i18n';
+import { sumMoney, ZERO, type Money } from '../utils/money';
 
 interface PersonalBestProps {
     state: AppState;
 }
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
-
-const formatMonth = (monthStr: string) => {
-    if (!monthStr || !monthStr.includes('-')) return "Invalid Date";
-    const [year, month] = monthStr.split('-');
-    return new Date(Number(year), Number(month) - 1).toLocaleDateString('id-ID', {
-        month: 'long',
-        year: 'numeric',
-    });
-};
 
 const RankingCard: React.FC<{
     title: string;
@@ -34,7 +27,7 @@ const RankingCard: React.FC<{
                 <h2 className="text-xl font-bold text-primary-navy">{title}</h2>
             </div>
             {data.length === 0 ? (
-                <p className="text-center text-secondary-gray py-4">Belum ada data yang cukup untuk ditampilkan.</p>
+                <p className="text-center text-secondary-gray py-4">{t('personalBest.noData')}</p>
             ) : (
                 <ul className="space-y-3">
                     {data.map((item, index) => (
@@ -59,9 +52,9 @@ const PersonalBest: React.FC<PersonalBestProps> = ({ state }) => {
     const rankings = useMemo(() => {
         const dataByMonth: { 
             [month: string]: { 
-                totalSpending: number; 
-                totalSavings: number; 
-                budgetSpending: { [budgetName: string]: { spent: number; total: number } };
+                totalSpending: Money; 
+                totalSavings: Money; 
+                budgetSpending: { [budgetName: string]: { spent: Money; total: Money } };
             } 
         } = {};
 
@@ -80,18 +73,19 @@ const PersonalBest: React.FC<PersonalBestProps> = ({ state }) => {
         allTransactions.forEach(t => {
             const month = new Date(t.timestamp).toISOString().slice(0, 7);
             if (!dataByMonth[month]) {
-                dataByMonth[month] = { totalSpending: 0, totalSavings: 0, budgetSpending: {} };
+                dataByMonth[month] = { totalSpending: ZERO, totalSavings: ZERO, budgetSpending: {} };
             }
             if (t.type === 'remove') {
-                dataByMonth[month].totalSpending += t.amount;
+                dataByMonth[month].totalSpending = sumMoney([dataByMonth[month].totalSpending, t.amount]);
             }
             if (t.category) {
                 const currentBudget = state.budgets.find(b => b.name === t.category);
                 if (currentBudget) {
                      if (!dataByMonth[month].budgetSpending[t.category]) {
-                        dataByMonth[month].budgetSpending[t.category] = { spent: 0, total: currentBudget.totalBudget };
+                        dataByMonth[month].budgetSpending[t.category] = { spent: ZERO, total: currentBudget.totalBudget };
                     }
-                    dataByMonth[month].budgetSpending[t.category].spent += t.amount;
+                    const budgetSpending = dataByMonth[month].budgetSpending[t.category];
+                    budgetSpending.spent = sumMoney([budgetSpending.spent, t.amount]);
                 }
             }
         });
@@ -100,9 +94,9 @@ const PersonalBest: React.FC<PersonalBestProps> = ({ state }) => {
         allSavingsTransactions.forEach(t => {
             const month = new Date(t.timestamp).toISOString().slice(0, 7);
             if (!dataByMonth[month]) {
-                dataByMonth[month] = { totalSpending: 0, totalSavings: 0, budgetSpending: {} };
+                dataByMonth[month] = { totalSpending: ZERO, totalSavings: ZERO, budgetSpending: {} };
             }
-            dataByMonth[month].totalSavings += t.amount;
+            dataByMonth[month].totalSavings = sumMoney([dataByMonth[month].totalSavings, t.amount]);
         });
         
         // Final calculation and ranking
@@ -152,12 +146,12 @@ const PersonalBest: React.FC<PersonalBestProps> = ({ state }) => {
     if (rankings.spendingRanking.length < 2 && rankings.savingsRanking.length < 2 && rankings.disciplineRanking.length < 2) {
         return (
             <main className="p-4 pb-24 animate-fade-in text-center">
-                <h1 className="text-3xl font-bold text-primary-navy text-center mb-6">Pencapaian Terbaik Pribadi</h1>
+                <h1 className="text-3xl font-bold text-primary-navy text-center mb-6">{t('personalBest.title')}</h1>
                 <div className="bg-white rounded-xl shadow-md p-8 mt-6">
                     <TrophyIcon className="w-20 h-20 mx-auto text-secondary-gray opacity-50" />
-                    <h2 className="mt-4 text-xl font-bold text-dark-text">Data Belum Cukup</h2>
+                    <h2 className="mt-4 text-xl font-bold text-dark-text">{t('personalBest.notEnoughTitle')}</h2>
                     <p className="mt-2 text-secondary-gray max-w-xs mx-auto">
-                        Terus gunakan aplikasi setidaknya selama dua bulan untuk melihat perbandingan dan pencapaian terbaik Anda di sini.
+                        {t('personalBest.notEnoughHint')}
                     </p>
                 </div>
             </main>
@@ -166,30 +160,30 @@ const PersonalBest: React.FC<PersonalBestProps> = ({ state }) => {
 
     return (
         <main className="p-4 pb-24 animate-fade-in space-y-6">
-            <h1 className="text-3xl font-bold text-primary-navy text-center">Pencapaian Terbaik Pribadi</h1>
+            <h1 className="text-3xl font-bold text-primary-navy text-center">{t('personalBest.title')}</h1>
             
             <RankingCard
-                title="Bulan Paling Hemat"
+                title={t('personalBest.thriftiest')}
                 icon={ShieldCheckIcon}
                 data={rankings.spendingRanking}
                 valueFormatter={formatCurrency}
-                valueLabel="Total Pengeluaran"
+                valueLabel={t('personalBest.totalSpending')}
             />
             
             <RankingCard
-                title="Bulan Menabung Terbanyak"
+                title={t('personalBest.mostSaved')}
                 icon={BuildingLibraryIcon}
                 data={rankings.savingsRanking}
                 valueFormatter={formatCurrency}
-                valueLabel="Total Tabungan"
+                valueLabel={t('personalBest.totalSavings')}
             />
 
             <RankingCard
-                title="Bulan Paling Disiplin"
+                title={t('personalBest.mostDisciplined')}
                 icon={TrophyIcon}
                 data={rankings.disciplineRanking}
-                valueFormatter={(value) => `${value} Pos Anggaran`}
-                valueLabel="Pos Sesuai Anggaran"
+                valueFormatter={(value) => t('personalBest.budgetCount', { count: value })}
+                valueLabel={t('personalBest.budgetsOnTrack')}
             />
         </main>
     );
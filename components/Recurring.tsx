@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import type { AppState, RecurringRule, Budget } from '../types';
+import { PlusCircleIcon, ClockIcon, TrashIcon } from './Icons';
+import { describeFrequency, describeTarget, getUpcomingOccurrences, getOccurrenceAmount, isRuleFinished } from '../utils/recurring';
+import { formatCurrency, formatDate, formatMoneyInput, formatNumberInput, parseMoneyInput } from '../utils/format';
+import type { Money } from '../utils/money';
+import { t } from '../utils/i18n';
+
+const UPCOMING_COUNT = 3;
+
+const UpcomingOccurrence: React.FC<{
+    rule: RecurringRule;
+    date: string;
+    onToggleSkip: () => void;
+    onSetOverride: (amount: Money | null) => void;
+}> = ({ rule, date, onToggleSkip, onSetOverride }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [value, setValue] = useState('');
+    const isSkipped = rule.skippedDates.includes(date);
+    const amount = getOccurrenceAmount(rule, date);
+    const isOverridden = rule.amountOverrides[date] !== undefined;
+
+    const startEditing = () => {
+        setValue(formatMoneyInput(amount));
+        setIsEditing(true);
+    };
+
+    const commit = () => {
+        const raw = parseMoneyInput(value);
+        onSetOverride(raw > 0 ? raw : null);
+        setIsEditing(false);
+    };
+
+    return (
+        <li className={`flex justify-between items-center gap-2 py-2 text-sm ${isSkipped ? 'opacity-50' : ''}`}>
+            <span className={isSkipped ? 'line-through' : ''}>{formatDate(date, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}</span>
+            <div className="flex items-center gap-2">
+                {isEditing ? (
+                    <input
+                        type="text"
+                        autoFocus
+                        value={value}
+                        inputMode="decimal"
+                        onChange={e => setValue(formatNumberInput(e.target.value))}
+                        onBlur={commit}
+                        onKeyDown={e => e.key === 'Enter' && commit()}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-primary-navy focus:border-primary-navy"
+                    />
+                ) : (
+                    <button onClick={startEditing} disabled={isSkipped} className={`font-semibold hover:underline disabled:no-underline ${isOverridden ? 'text-accent-teal' : 'text-dark-text'}`} title={t('recurring.overrideHint')}>
+                        {formatCurrency(amount)}
+                    </button>
+                )}
+                <button onClick={onToggleSkip} className="text-xs font-semibold px-2 py-1 rounded-md bg-gray-200 text-dark-text hover:bg-gray-300 transition-colors">
+                    {isSkipped ? t('recurring.unskip') : t('recurring.skip')}
+                </button>
+            </div>
+        </li>
+    );
+};
+
+const RecurringRuleCard: React.FC<{
+    rule: RecurringRule;
+    budgets: Budget[];
+    onEdit: () => void;
+    onTogglePause: () => void;
+    onToggleSkip: (date: string) => void;
+    onSetOverride: (date: string, amount: Money | null) => void;
+    onDelete: () => void;
+}> = ({ rule, budgets, onEdit, onTogglePause, onToggleSkip, onSetOverride, onDelete }) => {
+    const isFinished = isRuleFinished(rule);
+    const isIncome = rule.target.kind === 'fund' && rule.target.type === 'add';
+    const upcoming = rule.isPaused || isFinished ? [] : getUpcomingOccurrences(rule, UPCOMING_COUNT);
+
+    return (
+        <div className="bg-white rounded-xl shadow-md p-4 space-y-3 animate-fade-in">
+            <div className="flex justify-between items-start gap-2">
+                <div>
+                    <h3 className="text-lg font-bold text-dark-text">{rule.desc}</h3>
+                    <p className="text-sm text-secondary-gray">{describeFrequency(rule)} &middot; {describeTarget(rule.target, budgets)}</p>
+                </div>
+                <span className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${isFinished ? 'bg-gray-200 text-secondary-gray' : rule.isPaused ? 'bg-yellow-100 text-yellow-700' : 'bg-accent-teal text-white'}`}>
+                    {isFinished ? t('recurring.finished') : rule.isPaused ? t('recurring.paused') : t('common.active')}
+                </span>
+            </div>
+
+            <p className={`font-bold text-2xl ${isIncome ? 'text-accent-teal' : 'text-primary-navy'}`}>
+                {isIncome ? '+' : '-'}{formatCurrency(rule.amount)}
+            </p>
+
+            {upcoming.length > 0 && (
+                <div>
+                    <p className="text-xs font-semibold text-secondary-gray uppercase">{t('recurring.upcoming')}</p>
+                    <ul className="divide-y divide-gray-100">
+                        {upcoming.map(date => (
+                            <UpcomingOccurrence
+                                key={date}
+                                rule={rule}
+                                date={date}
+                                onToggleSkip={() => onToggleSkip(date)}
+                                onSetOverride={(amount) => onSetOverride(date, amount)}
+                            />
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3 pt-2">
+                <button onClick={onTogglePause} disabled={isFinished} className="bg-yellow-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-yellow-600 transition-colors disabled:bg-gray-400">
+                    {rule.isPaused ? t('recurring.resume') : t('recurring.pause')}
+                </button>
+                <button onClick={onEdit} className="bg-gray-200 text-dark-text font-bold py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors">
+                    {t('common.edit')}
+                </button>
+                <button onClick={onDelete} className="bg-danger-red text-white font-bold py-2 px-4 rounded-lg hover:bg-danger-red-dark transition-colors flex items-center justify-center" aria-label={t('recurring.deleteLabel', { name: rule.desc })}>
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface RecurringProps {
+    state: AppState;
+    onAddRule: () => void;
+    onEditRule: (ruleId: number) => void;
+    onTogglePause: (ruleId: number) => void;
+    onToggleSkip: (ruleId: number, date: string) => void;
+    onSetOverride: (ruleId: number, date: string, amount: Money | null) => void;
+    onDeleteRule: (ruleId: number) => void;
+}
+
+const Recurring: React.FC<RecurringProps> = ({ state, onAddRule, onEditRule, onTogglePause, onToggleSkip, onSetOverride, onDeleteRule }) => {
+    const rules = [...state.recurringRules].sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+
+    return (
+        <main id="recurring-page" className="p-4 pb-24 animate-fade-in">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-primary-navy">{t('recurring.title')}</h1>
+                <button onClick={onAddRule} className="flex items-center space-x-2 bg-accent-teal text-white font-bold py-2 px-4 rounded-lg hover:bg-accent-teal-dark transition-colors shadow">
+                    <PlusCircleIcon className="w-6 h-6" />
+                    <span>{t('common.new')}</span>
+                </button>
+            </div>
+
+            {rules.length === 0 ? (
+                <div className="text-center py-16 bg-white rounded-xl shadow-md space-y-4">
+                    <ClockIcon className="w-20 h-20 mx-auto text-secondary-gray" />
+                    <p className="text-secondary-gray">{t('recurring.empty')}</p>
+                    <p className="text-secondary-gray">{t('recurring.emptyHint')}</p>
+                </div>
+            ) : (
+                <div className="grid md:grid-cols-2 gap-6">
+                    {rules.map(rule => (
+                        <RecurringRuleCard
+                            key={rule.id}
+                            rule={rule}
+                            budgets={state.budgets}
+                            onEdit={() => onEditRule(rule.id)}
+                            onTogglePause={() => onTogglePause(rule.id)}
+                            onToggleSkip={(date) => onToggleSkip(rule.id, date)}
+                            onSetOverride={(date, amount) => onSetOverride(rule.id, date, amount)}
+                            onDelete={() => onDeleteRule(rule.id)}
+                        />
+                    ))}
+                </div>
+            )}
+        </main>
+    );
+};
+
+export default Recurring;
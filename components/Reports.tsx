@@ -2,13 +2,22 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import type { AppState, GlobalTransaction } from '../types';
-import { SparklesIcon, CalendarDaysIcon, ListBulletIcon, ChevronLeftIcon, ChevronRightIcon, BudgetIcon, TrashIcon, LockClosedIcon } from './Icons';
+import { SparklesIcon, CalendarDaysIcon, ListBulletIcon, ChevronLeftIcon, ChevronRightIcon, BudgetIcon, TrashIcon, LockClosedIcon, PencilSquareIcon, ArrowDownTrayIcon, DocumentTextIcon } from './Icons';
+import { transactionsToCsv, savingsHistoryToCsv, assetsToCsv, budgetReportToCsv, downloadCsv } from '../utils/csv';
+import { formatCurrency, formatOriginalAmount, formatShortCurrency, formatDate, formatTime, formatMonth, getWeekdayNames } from '../utils/format';
+import { t } from '../utils/i18n';
+import { sumBy, sumMoney, sumSigned, ZERO, type Money } from '../utils/money';
+import { groupSplitLines, isSplitGroup, type SplitGroup } from '../utils/split';
+import { hasAllTags, normalizeTag } from '../utils/tags';
+import { AttachmentThumbnail, AttachmentViewer } from './Attachments';
 
 interface ReportsProps {
     state: AppState;
     onBack: () => void;
     onEditAsset: () => void;
-    onDeleteTransaction: (timestamp: number) => void;
+    onEditTransaction: (id: string) => void;
+    onDeleteTransaction: (id: string) => void;
+    onDeleteSplit: (splitId: string, desc: string) => void;
     aiSearchResults: GlobalTransaction[] | null;
     isSearchingWithAI: boolean;
     aiSearchError: string | null;
@@ -16,15 +25,8 @@ interface ReportsProps {
     onClearAiSearch: () => void;
 }
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
-const formatShortCurrency = (amount: number) => {
-    if (amount >= 1000000) return `${(amount / 1000000).toFixed(1)}jt`;
-    if (amount >= 1000) return `${Math.round(amount / 1000)}rb`;
-    return amount;
-};
-
 const Reports: React.FC<ReportsProps> = ({ 
-    state, onBack, onEditAsset, onDeleteTransaction,
+    state, onBack, onEditAsset, onEditTransaction, onDeleteTransaction, onDeleteSplit,
     aiSearchResults, isSearchingWithAI, aiSearchError, onAiSearch, onClearAiSearch 
 }) => {
     const [selectedMonth, setSelectedMonth] = useState('all');
@@ -34,6 +36,11 @@ const Reports: React.FC<ReportsProps> = ({
     const [selectedDate, setSelectedDate] = useState<string | null>(null);
     const [isMonthPickerOpen, setIsMonthPickerOpen] = useState(false);
     const monthPickerRef = useRef<HTMLDivElement>(null);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const exportMenuRef = useRef<HTMLDivElement>(null);
+    const [expandedSplits, setExpandedSplits] = useState<string[]>([]);
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [viewingAttachmentId, setViewingAttachmentId] = useState<string | null>(null);
 
     // For hiding header on scroll
     const [isHeaderVisible, setIsHeaderVisible] = useState(true);
@@ -46,6 +53,9 @@ const Reports: React.FC<ReportsProps> = ({
             if (monthPickerRef.current && !monthPickerRef.current.contains(event.target as Node)) {
                 setIsMonthPickerOpen(false);
             }
+            if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+                setIsExportMenuOpen(false);
+            }
         };
         document.addEventListener('mousedown', handleClickOutside);
         return () => {
@@ -95,13 +105,19 @@ const Reports: React.FC<ReportsProps> = ({
         return transactions.sort((a, b) => b.timestamp - a.timestamp);
     }, [state]);
 
-    const totalAsset = useMemo(() => allTransactions.reduce((sum, t) => t.type === 'add' ? sum + t.amount : sum - t.amount, 0), [allTransactions]);
+    const totalAsset = useMemo(() => sumSigned(allTransactions), [allTransactions]);
 
     const monthOptions = useMemo(() => {
         const options = new Set(allTransactions.map(t => new Date(t.timestamp).toISOString().slice(0, 7)));
         return [...options].sort().reverse();
     }, [allTransactions]);
 
+    const tagOptions = useMemo(() => [...new Set(allTransactions.flatMap(t => t.tags || []))].sort(), [allTransactions]);
+
+    const toggleTag = (tag: string) => {
+        setSelectedTags(prev => prev.includes(tag) ? prev.filter(other => other !== tag) : [...prev, tag]);
+    };
+
     const transactionsToDisplay = useMemo(() => {
         if (aiSearchResults !== null) {
             return aiSearchResults;
@@ -114,30 +130,38 @@ const Reports: React.FC<ReportsProps> = ({
 
         if (searchQuery.trim()) {
             const lowercasedQuery = searchQuery.trim().toLowerCase();
+            const tagQuery = normalizeTag(searchQuery);
             filtered = filtered.filter(t => 
                 t.desc.toLowerCase().includes(lowercasedQuery) ||
-                (t.category && t.category.toLowerCase().includes(lowercasedQuery))
+                (t.splitDesc && t.splitDesc.toLowerCase().includes(lowercasedQuery)) ||
+                (t.note && t.note.toLowerCase().includes(lowercasedQuery)) ||
+                (t.category && t.category.toLowerCase().includes(lowercasedQuery)) ||
+                (tagQuery && t.tags?.some(tag => tag.includes(tagQuery)))
             );
         }
 
+        if (selectedTags.length > 0) {
+            filtered = filtered.filter(t => hasAllTags(t, selectedTags));
+        }
+
         return filtered;
-    }, [allTransactions, selectedMonth, aiSearchResults, searchQuery]);
+    }, [allTransactions, selectedMonth, aiSearchResults, searchQuery, selectedTags]);
     
     const summaryExpense = useMemo(() => {
-        return transactionsToDisplay.reduce((sum, t) => (t.type === 'remove' ? sum + t.amount : sum), 0);
+        return sumBy(transactionsToDisplay.filter(t => t.type === 'remove'), (t: GlobalTransaction) => t.amount);
     }, [transactionsToDisplay]);
 
     const groupedTransactions = useMemo(() => {
-        const groups: { [date: string]: { transactions: GlobalTransaction[], dailyTotal: number } } = {};
+        const groups: { [date: string]: { transactions: GlobalTransaction[], dailyTotal: Money } } = {};
 
         transactionsToDisplay.forEach(t => {
             const date = new Date(t.timestamp).toLocaleDateString('fr-CA'); // YYYY-MM-DD
             if (!groups[date]) {
-                groups[date] = { transactions: [], dailyTotal: 0 };
+                groups[date] = { transactions: [], dailyTotal: ZERO };
             }
             groups[date].transactions.push(t);
             if (t.type === 'remove') {
-                groups[date].dailyTotal += t.amount;
+                groups[date].dailyTotal = sumMoney([groups[date].dailyTotal, t.amount]);
             }
         });
 
@@ -151,14 +175,14 @@ const Reports: React.FC<ReportsProps> = ({
     };
     
     const calendarTransactionsByDate = useMemo(() => {
-        const groups: { [date: string]: { income: number, expense: number, transactions: GlobalTransaction[] } } = {};
+        const groups: { [date: string]: { income: Money, expense: Money, transactions: GlobalTransaction[] } } = {};
         allTransactions.forEach(t => {
             const date = new Date(t.timestamp).toLocaleDateString('fr-CA'); // YYYY-MM-DD
             if (!groups[date]) {
-                groups[date] = { income: 0, expense: 0, transactions: [] };
+                groups[date] = { income: ZERO, expense: ZERO, transactions: [] };
             }
-            if (t.type === 'add') groups[date].income += t.amount;
-            else groups[date].expense += t.amount;
+            if (t.type === 'add') groups[date].income = sumMoney([groups[date].income, t.amount]);
+            else groups[date].expense = sumMoney([groups[date].expense, t.amount]);
             groups[date].transactions.push(t);
         });
         return groups;
@@ -174,12 +198,12 @@ const Reports: React.FC<ReportsProps> = ({
         setSelectedDate(null);
     };
 
-    const TransactionItem: React.FC<{t: GlobalTransaction, onDelete: (ts: number) => void}> = ({t, onDelete}) => (
-        <li key={t.timestamp} className="flex justify-between items-center py-3 px-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50 transition-colors duration-150">
+    const TransactionItem: React.FC<{t: GlobalTransaction, onEdit: (id: string) => void, onDelete: (id: string) => void}> = ({t: transaction, onEdit, onDelete}) => (
+        <li key={transaction.id} className="flex justify-between items-center py-3 px-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50 transition-colors duration-150">
             <div className="flex items-center gap-4 flex-1 min-w-0">
-                {t.icon && t.color ? (
-                    <div style={{ backgroundColor: t.color }} className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0">
-                        <BudgetIcon icon={t.icon} className="w-6 h-6 text-white" />
+                {transaction.icon && transaction.color ? (
+                    <div style={{ backgroundColor: transaction.color }} className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0">
+                        <BudgetIcon icon={transaction.icon} className="w-6 h-6 text-white" />
                     </div>
                 ) : (
                     <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center flex-shrink-0">
@@ -187,40 +211,147 @@ const Reports: React.FC<ReportsProps> = ({
                     </div>
                 )}
                 <div className="flex-1 min-w-0">
-                    <p className="font-bold text-dark-text truncate">{t.desc}</p>
+                    <p className="font-bold text-dark-text truncate">{transaction.desc}</p>
                     <p className="text-xs text-secondary-gray mt-1">
-                        {t.category ? `${t.category} • ` : ''}
-                        {new Date(t.timestamp).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}, {new Date(t.timestamp).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                        {transaction.category ? `${transaction.category} • ` : ''}
+                        {formatDate(transaction.timestamp, { day: 'numeric', month: 'short' })}, {formatTime(transaction.timestamp)}
                     </p>
+                    {transaction.tags && transaction.tags.length > 0 && (
+                        <p className="text-xs font-semibold text-primary-navy mt-1 truncate">{transaction.tags.map(tag => `#${tag}`).join(' ')}</p>
+                    )}
+                    {transaction.note && <p className="text-xs text-secondary-gray italic mt-1 line-clamp-2">{transaction.note}</p>}
                 </div>
+                {transaction.attachmentIds && transaction.attachmentIds.length > 0 && (
+                    <AttachmentThumbnail id={transaction.attachmentIds[0]} moreCount={transaction.attachmentIds.length - 1} onOpen={setViewingAttachmentId} />
+                )}
             </div>
             <div className="flex items-center gap-2 flex-shrink-0 ml-4">
                  <div className="text-right">
-                    <p className={`font-bold text-base ${t.type === 'add' ? 'text-accent-teal' : 'text-danger-red'}`}>{t.type === 'add' ? '+' : '-'} {formatCurrency(t.amount)}</p>
+                    <p className={`font-bold text-base ${transaction.type === 'add' ? 'text-accent-teal' : 'text-danger-red'}`}>{transaction.type === 'add' ? '+' : '-'} {formatCurrency(transaction.amount)}</p>
+                    {formatOriginalAmount(transaction) && <p className="text-xs text-secondary-gray">{formatOriginalAmount(transaction)}</p>}
                 </div>
-                <button onClick={() => onDelete(t.timestamp)} className="text-gray-400 hover:text-danger-red p-2">
+                <button onClick={() => onEdit(transaction.id)} className="text-gray-400 hover:text-primary-navy p-2" aria-label={t('common.editTransaction')}>
+                    <PencilSquareIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => onDelete(transaction.id)} className="text-gray-400 hover:text-danger-red p-2">
                     <TrashIcon className="w-5 h-5" />
                 </button>
             </div>
         </li>
     );
 
+    const toggleSplit = (splitId: string) => {
+        setExpandedSplits(prev => prev.includes(splitId) ? prev.filter(id => id !== splitId) : [...prev, splitId]);
+    };
+
+    // The lines of a split transaction, collapsed into one row that expands to show them.
+    const SplitGroupItem: React.FC<{group: SplitGroup}> = ({group}) => {
+        const isExpanded = expandedSplits.includes(group.splitId);
+        return (
+            <li className="border-b border-gray-100 last:border-b-0">
+                <div className="flex justify-between items-center py-3 px-3 hover:bg-gray-50 transition-colors duration-150">
+                    <button onClick={() => toggleSplit(group.splitId)} className="flex items-center gap-4 flex-1 min-w-0 text-left" aria-expanded={isExpanded}>
+                        <div className="w-10 h-10 rounded-full bg-primary-navy flex items-center justify-center flex-shrink-0">
+                            <DocumentTextIcon className="w-5 h-5 text-white" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-dark-text truncate">{group.desc}</p>
+                            <p className="text-xs text-secondary-gray mt-1">
+                                {t('split.lineCount', { count: group.lines.length })} • {formatDate(group.timestamp, { day: 'numeric', month: 'short' })}, {formatTime(group.timestamp)}
+                            </p>
+                        </div>
+                    </button>
+                    <div className="flex items-center gap-2 flex-shrink-0 ml-4">
+                        <p className="font-bold text-base text-danger-red">- {formatCurrency(group.amount)}</p>
+                        <button onClick={() => toggleSplit(group.splitId)} className="text-gray-400 hover:text-primary-navy p-2" aria-label={isExpanded ? t('split.hideLines') : t('split.showLines')}>
+                            <ChevronRightIcon className={`w-5 h-5 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                        </button>
+                        <button onClick={() => onDeleteSplit(group.splitId, group.desc)} className="text-gray-400 hover:text-danger-red p-2" aria-label={t('split.deleteAll')}>
+                            <TrashIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+                {isExpanded && (
+                    <ul className="ml-8 border-l-2 border-gray-100">
+                        {group.lines.map(line => (
+                            <TransactionItem key={line.id} t={line} onEdit={onEditTransaction} onDelete={onDeleteTransaction} />
+                        ))}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    const TransactionList: React.FC<{transactions: GlobalTransaction[]}> = ({transactions}) => (
+        <>
+            {groupSplitLines(transactions).map(entry => isSplitGroup(entry)
+                ? <SplitGroupItem key={entry.splitId} group={entry} />
+                : <TransactionItem key={entry.id} t={entry} onEdit={onEditTransaction} onDelete={onDeleteTransaction} />
+            )}
+        </>
+    );
+
+    // --- CSV EXPORT ---
+    // The transaction export follows what the list shows: month filter, search and AI results.
+    const handleExport = (kind: 'transactions' | 'budgets' | 'savings' | 'assets') => {
+        const suffix = selectedMonth === 'all' ? new Date().toLocaleDateString('fr-CA') : selectedMonth;
+        switch (kind) {
+            case 'transactions':
+                downloadCsv(`transaksi_${suffix}.csv`, transactionsToCsv(transactionsToDisplay, state.baseCurrency));
+                break;
+            case 'budgets':
+                downloadCsv(`anggaran_vs_realisasi_${suffix}.csv`, budgetReportToCsv(state, allTransactions, selectedMonth === 'all' ? monthOptions : [selectedMonth]));
+                break;
+            case 'savings':
+                downloadCsv(`riwayat_celengan_${suffix}.csv`, savingsHistoryToCsv(state.savingsGoals, state.baseCurrency));
+                break;
+            case 'assets':
+                downloadCsv(`aset_${suffix}.csv`, assetsToCsv(state));
+                break;
+        }
+        setIsExportMenuOpen(false);
+    };
+
     const displayMonthText = selectedMonth === 'all' 
-        ? 'Semua' 
-        : new Date(selectedMonth + '-02').toLocaleDateString('id-ID', { month: 'short', year: 'numeric' });
+        ? t('reports.all') 
+        : formatMonth(selectedMonth, 'short');
 
     return (
         <main className="p-4 pb-24 animate-fade-in">
-            <h1 className="text-3xl font-bold text-primary-navy text-center mb-6">Laporan Global</h1>
+            <h1 className="text-3xl font-bold text-primary-navy text-center mb-6">{t('reports.title')}</h1>
+            <AttachmentViewer id={viewingAttachmentId} onClose={() => setViewingAttachmentId(null)} />
 
             <section className="bg-white rounded-xl shadow-md flex flex-col">
                 <div className={`z-30 bg-white p-6 rounded-t-xl transition-transform duration-300 ease-in-out ${isHeaderVisible ? 'translate-y-0' : '-translate-y-full'}`}>
                     <div className="flex flex-col sm:flex-row justify-between sm:items-center mb-4 gap-4">
-                        <h2 className="text-xl font-bold text-primary-navy">Riwayat Transaksi</h2>
+                        <h2 className="text-xl font-bold text-primary-navy">{t('common.transactionHistory')}</h2>
                         <div className="flex items-center gap-4 self-start sm:self-center">
                             <div className="flex-shrink-0 bg-gray-100 p-1 rounded-lg flex space-x-1">
-                                <button onClick={() => setViewMode('list')} className={`flex items-center gap-2 px-3 py-1 text-sm font-semibold rounded-md transition-all ${viewMode === 'list' ? 'bg-white shadow' : 'text-secondary-gray hover:bg-gray-200'}`}><ListBulletIcon className="w-4 h-4" /> Daftar</button>
-                                <button onClick={() => setViewMode('calendar')} className={`flex items-center gap-2 px-3 py-1 text-sm font-semibold rounded-md transition-all ${viewMode === 'calendar' ? 'bg-white shadow' : 'text-secondary-gray hover:bg-gray-200'}`}><CalendarDaysIcon className="w-4 h-4" /> Kalender</button>
+                                <button onClick={() => setViewMode('list')} className={`flex items-center gap-2 px-3 py-1 text-sm font-semibold rounded-md transition-all ${viewMode === 'list' ? 'bg-white shadow' : 'text-secondary-gray hover:bg-gray-200'}`}><ListBulletIcon className="w-4 h-4" /> {t('reports.list')}</button>
+                                <button onClick={() => setViewMode('calendar')} className={`flex items-center gap-2 px-3 py-1 text-sm font-semibold rounded-md transition-all ${viewMode === 'calendar' ? 'bg-white shadow' : 'text-secondary-gray hover:bg-gray-200'}`}><CalendarDaysIcon className="w-4 h-4" /> {t('reports.calendar')}</button>
+                            </div>
+                            <div className="flex-shrink-0 relative" ref={exportMenuRef}>
+                                <button
+                                    onClick={() => setIsExportMenuOpen(prev => !prev)}
+                                    className="p-2 border border-gray-300 rounded-full bg-white hover:bg-gray-100"
+                                    title={t('reports.exportCsv')}
+                                >
+                                    <ArrowDownTrayIcon className="w-5 h-5 text-primary-navy" />
+                                </button>
+                                {isExportMenuOpen && (
+                                    <div className="absolute z-20 mt-1 right-0 w-60 bg-white rounded-lg shadow-lg border">
+                                        {([
+                                            ['transactions', t('reports.export.transactions', { period: displayMonthText })],
+                                            ['budgets', t('reports.export.budgets', { period: displayMonthText })],
+                                            ['savings', t('reports.export.savings')],
+                                            ['assets', t('reports.export.assets')],
+                                        ] as const).map(([kind, label]) => (
+                                            <button key={kind} onClick={() => handleExport(kind)} className="w-full text-left px-4 py-2 hover:bg-gray-100">
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                             <div className="flex-shrink-0 relative" ref={monthPickerRef}>
                                 <div className="flex items-center gap-2">
@@ -238,7 +369,7 @@ const Reports: React.FC<ReportsProps> = ({
                                             onClick={() => { setSelectedMonth('all'); setIsMonthPickerOpen(false); }}
                                             className="w-full text-left px-4 py-2 hover:bg-gray-100"
                                         >
-                                            Semua Waktu
+                                            {t('common.allTime')}
                                         </button>
                                         {monthOptions.map(month => (
                                             <button 
@@ -246,7 +377,7 @@ const Reports: React.FC<ReportsProps> = ({
                                                 onClick={() => { setSelectedMonth(month); setIsMonthPickerOpen(false); }}
                                                 className="w-full text-left px-4 py-2 hover:bg-gray-100"
                                             >
-                                                {new Date(month + '-02').toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}
+                                                {formatMonth(month)}
                                             </button>
                                         ))}
                                     </div>
@@ -258,14 +389,14 @@ const Reports: React.FC<ReportsProps> = ({
                     {viewMode === 'list' && (
                         <div className="flex flex-col md:flex-row gap-4 items-end">
                                 <div className="flex-grow">
-                                    <label htmlFor="search-filter" className="text-sm font-medium text-secondary-gray mb-1">Cari / Tanya AI</label>
+                                    <label htmlFor="search-filter" className="text-sm font-medium text-secondary-gray mb-1">{t('reports.searchLabel')}</label>
                                     <div className="flex gap-2">
                                         <input 
                                             type="text" 
                                             id="search-filter"
                                             value={searchQuery} 
                                             onChange={e => setSearchQuery(e.target.value)} 
-                                            placeholder="Ketik keterangan atau kategori..." 
+                                            placeholder={t('reports.searchPlaceholder')} 
                                             className="w-full p-3 pl-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-navy focus:border-transparent"
                                             disabled={isSearchingWithAI}
                                         />
@@ -273,7 +404,7 @@ const Reports: React.FC<ReportsProps> = ({
                                             type="button" 
                                             className="bg-primary-navy text-white font-bold p-3 rounded-lg hover:bg-primary-navy-dark transition-colors disabled:bg-gray-400 flex items-center justify-center" 
                                             disabled={true}
-                                            title="Pencarian Cerdas (AI) - Fitur Terkunci"
+                                            title={t('reports.aiSearchLocked')}
                                         >
                                             <LockClosedIcon className="w-6 h-6" />
                                         </button>
@@ -283,12 +414,30 @@ const Reports: React.FC<ReportsProps> = ({
                                 {aiSearchResults !== null && (
                                     <div className="self-end">
                                         <button onClick={() => { onClearAiSearch(); setSearchQuery(''); }} className="bg-gray-200 text-dark-text font-bold py-3 px-3 rounded-lg hover:bg-gray-300 transition-colors h-full">
-                                            Reset
+                                            {t('common.reset')}
                                         </button>
                                     </div>
                                 )}
                         </div>
                     )}
+                    {viewMode === 'list' && tagOptions.length > 0 && aiSearchResults === null && (
+                        <div className="mt-4 flex flex-wrap items-center gap-2">
+                            <span className="text-sm font-medium text-secondary-gray">{t('reports.tagFilter')}</span>
+                            {tagOptions.map(tag => (
+                                <button
+                                    key={tag}
+                                    onClick={() => toggleTag(tag)}
+                                    aria-pressed={selectedTags.includes(tag)}
+                                    className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${selectedTags.includes(tag) ? 'bg-primary-navy text-white' : 'bg-gray-100 text-secondary-gray hover:bg-gray-200'}`}
+                                >
+                                    #{tag}
+                                </button>
+                            ))}
+                            {selectedTags.length > 0 && (
+                                <button onClick={() => setSelectedTags([])} className="text-xs font-semibold text-accent-teal hover:underline">{t('reports.clearTagFilter')}</button>
+                            )}
+                        </div>
+                    )}
                 </div>
                 
                 {viewMode === 'list' && (
@@ -296,7 +445,7 @@ const Reports: React.FC<ReportsProps> = ({
                         {isSearchingWithAI && (
                             <div className="text-center py-4">
                                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-navy mx-auto"></div>
-                                <p className="mt-2 text-secondary-gray">AI sedang mencari...</p>
+                                <p className="mt-2 text-secondary-gray">{t('reports.aiSearching')}</p>
                             </div>
                         )}
 
@@ -304,9 +453,9 @@ const Reports: React.FC<ReportsProps> = ({
                             {Object.keys(groupedTransactions).length === 0 && !isSearchingWithAI ? (
                                 <div className="text-center text-secondary-gray py-12 px-6">
                                     <ListBulletIcon className="w-16 h-16 mx-auto text-gray-300" />
-                                    <h3 className="mt-4 text-lg font-semibold text-dark-text">Tidak Ada Transaksi Ditemukan</h3>
+                                    <h3 className="mt-4 text-lg font-semibold text-dark-text">{t('reports.noResults')}</h3>
                                     <p className="mt-1 text-sm text-secondary-gray">
-                                        {aiSearchResults !== null ? 'Pencarian AI tidak menemukan hasil.' : 'Coba ubah kata kunci pencarian atau pilih periode bulan yang berbeda.'}
+                                        {aiSearchResults !== null ? t('reports.noAiResults') : t('reports.noResultsHint')}
                                     </p>
                                 </div>
                             ) : (
@@ -319,8 +468,8 @@ const Reports: React.FC<ReportsProps> = ({
                                             <div className="flex items-center space-x-3">
                                                 <span className="text-2xl font-bold text-dark-text w-8 text-center">{aDate.getDate().toString().padStart(2, '0')}</span>
                                                 <div>
-                                                    <p className="font-semibold text-dark-text">{aDate.toLocaleDateString('id-ID', { weekday: 'long' })}</p>
-                                                    <p className="text-xs text-secondary-gray">{aDate.toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}</p>
+                                                    <p className="font-semibold text-dark-text">{formatDate(aDate, { weekday: 'long' })}</p>
+                                                    <p className="text-xs text-secondary-gray">{formatDate(aDate, { month: 'long', year: 'numeric' })}</p>
                                                 </div>
                                             </div>
                                             {group.dailyTotal > 0 && (
@@ -328,9 +477,7 @@ const Reports: React.FC<ReportsProps> = ({
                                             )}
                                         </div>
                                         <ul className="bg-white rounded-b-lg ">
-                                            {group.transactions.map(t => (
-                                                <TransactionItem key={t.timestamp} t={t} onDelete={onDeleteTransaction} />
-                                            ))}
+                                            <TransactionList transactions={group.transactions} />
                                         </ul>
                                     </div>
                                 )})
@@ -340,7 +487,7 @@ const Reports: React.FC<ReportsProps> = ({
                         <div className="mt-auto p-6 border-t">
                             <div className="bg-blue-50 border-l-4 border-accent-teal p-4 rounded-md text-center">
                                 <p className="text-lg font-bold text-danger-red">{formatCurrency(summaryExpense)}</p>
-                                <span className="text-sm text-secondary-gray">Total Pengeluaran (sesuai filter)</span>
+                                <span className="text-sm text-secondary-gray">{t('reports.filteredSpending')}</span>
                             </div>
                         </div>
                     </div>
@@ -354,8 +501,7 @@ const Reports: React.FC<ReportsProps> = ({
                            selectedDate={selectedDate}
                            onDateClick={(date) => setSelectedDate(prev => prev === date ? null : date)}
                            onChangeMonth={changeMonth}
-                           onDeleteTransaction={onDeleteTransaction}
-                           TransactionItem={TransactionItem}
+                           TransactionList={TransactionList}
                        />
                    </div>
                 )}
@@ -363,8 +509,8 @@ const Reports: React.FC<ReportsProps> = ({
             
             <section className="bg-white rounded-xl p-6 mt-6 shadow-md">
                 <div className="flex justify-between items-center">
-                    <h2 className="text-xl font-bold text-primary-navy">Dana Umum (Total Aset)</h2>
-                    <button onClick={onEditAsset} className="text-accent-teal font-semibold hover:underline">Edit</button>
+                    <h2 className="text-xl font-bold text-primary-navy">{t('reports.generalFunds')}</h2>
+                    <button onClick={onEditAsset} className="text-accent-teal font-semibold hover:underline">{t('common.edit')}</button>
                 </div>
                 <p className="text-3xl font-bold text-primary-navy text-center mt-2">{formatCurrency(totalAsset)}</p>
             </section>
@@ -375,13 +521,12 @@ const Reports: React.FC<ReportsProps> = ({
 
 const CalendarView: React.FC<{
     currentDate: Date;
-    transactionsByDate: { [key: string]: { income: number, expense: number, transactions: GlobalTransaction[] }};
+    transactionsByDate: { [key: string]: { income: Money, expense: Money, transactions: GlobalTransaction[] }};
     selectedDate: string | null;
     onDateClick: (date: string) => void;
     onChangeMonth: (offset: number) => void;
-    onDeleteTransaction: (timestamp: number) => void;
-    TransactionItem: React.FC<{t: GlobalTransaction, onDelete: (ts: number) => void}>;
-}> = ({ currentDate, transactionsByDate, selectedDate, onDateClick, onChangeMonth, onDeleteTransaction, TransactionItem }) => {
+    TransactionList: React.FC<{transactions: GlobalTransaction[]}>;
+}> = ({ currentDate, transactionsByDate, selectedDate, onDateClick, onChangeMonth, TransactionList }) => {
     const calendarDays = useMemo(() => {
         const year = currentDate.getFullYear();
         const month = currentDate.getMonth();
@@ -413,11 +558,11 @@ const CalendarView: React.FC<{
         <div>
             <div className="flex justify-between items-center mb-4">
                 <button onClick={() => onChangeMonth(-1)} className="p-2 rounded-full hover:bg-gray-100"><ChevronLeftIcon className="w-6 h-6" /></button>
-                <h3 className="text-lg font-bold text-primary-navy">{currentDate.toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}</h3>
+                <h3 className="text-lg font-bold text-primary-navy">{formatDate(currentDate, { month: 'long', year: 'numeric' })}</h3>
                 <button onClick={() => onChangeMonth(1)} className="p-2 rounded-full hover:bg-gray-100"><ChevronRightIcon className="w-6 h-6" /></button>
             </div>
             <div className="grid grid-cols-7 gap-1 text-center text-xs text-secondary-gray mb-2">
-                {['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'].map(day => <div key={day}>{day}</div>)}
+                {getWeekdayNames().map(day => <div key={day}>{day}</div>)}
             </div>
             <div className="grid grid-cols-7 gap-1">
                 {calendarDays.map(dayInfo => {
@@ -450,15 +595,13 @@ const CalendarView: React.FC<{
             {selectedDate && (
                 <div className="mt-6 animate-fade-in">
                     <h4 className="font-bold text-primary-navy mb-2 border-b pb-2">
-                        Transaksi pada {new Date(selectedDate + 'T00:00:00').toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long' })}
+                        {t('reports.transactionsOn', { date: formatDate(selectedDate, { weekday: 'long', day: 'numeric', month: 'long' }) })}
                     </h4>
                      <ul className="max-h-60 overflow-y-auto">
                         {(transactionsByDate[selectedDate]?.transactions || []).length > 0 ? (
-                           [...transactionsByDate[selectedDate].transactions].sort((a,b) => b.timestamp - a.timestamp).map(t => (
-                            <TransactionItem key={t.timestamp} t={t} onDelete={onDeleteTransaction} />
-                           ))
+                           <TransactionList transactions={[...transactionsByDate[selectedDate].transactions].sort((a,b) => b.timestamp - a.timestamp)} />
                         ) : (
-                            <li className="text-center text-secondary-gray py-4">Tidak ada transaksi pada tanggal ini.</li>
+                            <li className="text-center text-secondary-gray py-4">{t('reports.noTransactionsOnDate')}</li>
                         )}
                     </ul>
                 </div>
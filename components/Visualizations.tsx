@@ -5,20 +5,16 @@ import {
 } from 'recharts';
 import type { AppState, Budget, GlobalTransaction } from '../types';
 import { LightbulbIcon, SparklesIcon, LockClosedIcon } from './Icons';
+import { formatCurrency, formatShortCurrency, formatDate, formatMonth } from '../utils/format';
+import { t } from '../utils/i18n';
+import { sumMoney, ZERO, type Money } from '../utils/money';
+import { getTagTotals } from '../utils/tags';
 
 interface VisualizationsProps {
     state: AppState;
     onBack: () => void;
 }
 
-const formatCurrency = (amount: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
-const formatShortCurrency = (amount: number) => {
-    if (amount >= 1000000) return `${(amount / 1000000).toFixed(1)} Jt`;
-    if (amount >= 1000) return `${(amount / 1000).toFixed(0)} rb`;
-    return amount;
-};
-
-
 const COLORS = ['#2C3E50', '#1ABC9C', '#F1C40F', '#E74C3C', '#3498DB', '#9B59B6', '#E67E22', '#7F8C8D'];
 
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -45,7 +41,7 @@ const LockedAIAnalysisCard: React.FC<{ title: string }> = ({ title }) => (
         </div>
         <div className="text-center py-2 text-secondary-gray">
             <LockClosedIcon className="w-8 h-8 mx-auto text-gray-300" />
-            <p className="mt-1 text-sm font-semibold">Fitur AI Terkunci</p>
+            <p className="mt-1 text-sm font-semibold">{t('visualizations.aiLocked')}</p>
         </div>
     </div>
 );
@@ -54,11 +50,11 @@ const LockedAIForecastCard: React.FC = () => (
     <section className="bg-white rounded-xl p-6 shadow-md border-t-4 border-gray-300">
         <div className="flex items-center space-x-3 mb-2 opacity-50">
             <SparklesIcon className="w-7 h-7 text-gray-400" />
-            <h2 className="text-xl font-bold text-gray-400">Prediksi & Peringatan Dini</h2>
+            <h2 className="text-xl font-bold text-gray-400">{t('visualizations.forecast')}</h2>
         </div>
         <div className="text-center py-4 text-secondary-gray">
             <LockClosedIcon className="w-12 h-12 mx-auto text-gray-300" />
-            <p className="mt-2 font-semibold">Fitur Terkunci</p>
+            <p className="mt-2 font-semibold">{t('common.featureLocked')}</p>
         </div>
     </section>
 );
@@ -72,28 +68,28 @@ const TransactionDetailModal: React.FC<{
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4" onClick={onClose}>
             <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg animate-fade-in-up flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
                 <div className="flex justify-between items-center p-4 border-b flex-shrink-0">
-                    <h3 className="text-lg font-bold text-primary-navy">Detail Transaksi: {data.category}</h3>
+                    <h3 className="text-lg font-bold text-primary-navy">{t('visualizations.transactionDetail', { category: data.category })}</h3>
                     <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-2xl">&times;</button>
                 </div>
                 <div className="p-6 overflow-y-auto">
                     {data.transactions.length > 0 ? (
                         <ul className="space-y-2">
-                            {data.transactions.map(t => (
-                                <li key={t.timestamp} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
+                            {data.transactions.map(transaction => (
+                                <li key={transaction.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
                                     <div>
-                                        <p className="font-semibold text-dark-text">{t.desc}</p>
+                                        <p className="font-semibold text-dark-text">{transaction.desc}</p>
                                         <p className="text-xs text-secondary-gray mt-1">
-                                            {new Date(t.timestamp).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}
+                                            {formatDate(transaction.timestamp)}{transaction.splitDesc ? ` • ${transaction.splitDesc}` : ''}
                                         </p>
                                     </div>
                                     <p className="font-bold text-danger-red flex-shrink-0 ml-4">
-                                        -{formatCurrency(t.amount)}
+                                        -{formatCurrency(transaction.amount)}
                                     </p>
                                 </li>
                             ))}
                         </ul>
                     ) : (
-                         <p className="text-center text-secondary-gray py-4">Tidak ada transaksi untuk ditampilkan.</p>
+                         <p className="text-center text-secondary-gray py-4">{t('visualizations.noTransactions')}</p>
                     )}
                 </div>
             </div>
@@ -132,13 +128,13 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
     }, [allExpenses, selectedMonth]);
 
     const pieChartData = useMemo(() => {
-        const expenseByCategory: { [key: string]: number } = {};
+        const expenseByCategory: { [key: string]: Money } = {};
         filteredExpenses.forEach(expense => {
             const category = expense.category || 'Lain-lain';
             if (!expenseByCategory[category]) {
-                expenseByCategory[category] = 0;
+                expenseByCategory[category] = ZERO;
             }
-            expenseByCategory[category] += expense.amount;
+            expenseByCategory[category] = sumMoney([expenseByCategory[category], expense.amount]);
         });
 
         return Object.entries(expenseByCategory)
@@ -146,6 +142,16 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
             .sort((a, b) => b.value - a.value);
     }, [filteredExpenses]);
 
+    const tagChartData = useMemo(() => getTagTotals(filteredExpenses), [filteredExpenses]);
+
+    const handleTagClick = (data: any) => {
+        if (!data || !data.tag) return;
+        const transactions = filteredExpenses
+            .filter(e => e.tags?.includes(data.tag))
+            .sort((a, b) => b.amount - a.amount);
+        setDetailModalData({ category: `#${data.tag}`, transactions });
+    };
+
     const handlePieClick = (data: any) => {
         if (!data || !data.name) return;
         const category = data.name;
@@ -158,13 +164,13 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
     const trendData = useMemo(() => {
         if (selectedMonth === 'all') return [];
 
-        const dailyTotals: { [key: string]: number } = {};
+        const dailyTotals: { [key: string]: Money } = {};
         filteredExpenses.forEach(expense => {
             const date = new Date(expense.timestamp).toLocaleDateString('fr-CA'); // YYYY-MM-DD format
             if (!dailyTotals[date]) {
-                dailyTotals[date] = 0;
+                dailyTotals[date] = ZERO;
             }
-            dailyTotals[date] += expense.amount;
+            dailyTotals[date] = sumMoney([dailyTotals[date], expense.amount]);
         });
 
         const daysInMonth = new Date(Number(selectedMonth.slice(0,4)), Number(selectedMonth.slice(5,7)), 0).getDate();
@@ -173,30 +179,30 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
             const dateStr = `${selectedMonth}-${String(i).padStart(2, '0')}`;
             data.push({
                 day: String(i),
-                total: dailyTotals[dateStr] || 0,
+                total: dailyTotals[dateStr] || ZERO,
             });
         }
         return data;
     }, [filteredExpenses, selectedMonth]);
 
     const budgetComparisonData = useMemo(() => {
-        const expenseByCategory: { [key: string]: number } = {};
+        const expenseByCategory: { [key: string]: Money } = {};
         filteredExpenses.forEach(expense => {
             const category = expense.category || 'Lain-lain';
-            if (!expenseByCategory[category]) expenseByCategory[category] = 0;
-            expenseByCategory[category] += expense.amount;
+            if (!expenseByCategory[category]) expenseByCategory[category] = ZERO;
+            expenseByCategory[category] = sumMoney([expenseByCategory[category], expense.amount]);
         });
 
         return state.budgets.map(budget => ({
             name: budget.name,
-            Dianggarkan: budget.totalBudget,
-            Terpakai: expenseByCategory[budget.name] || 0
+            budgeted: budget.totalBudget,
+            spent: expenseByCategory[budget.name] || ZERO
         }));
     }, [filteredExpenses, state.budgets]);
     
     const titleText = selectedMonth === 'all' 
-                    ? 'Semua Waktu' 
-                    : new Date(selectedMonth + '-02').toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+                    ? t('common.allTime') 
+                    : formatMonth(selectedMonth);
 
     return (
         <main className="p-4 pb-24 animate-fade-in max-w-4xl mx-auto space-y-6">
@@ -211,13 +217,13 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
             `}</style>
             
             <header>
-                <h1 className="text-3xl font-bold text-primary-navy text-center">Visualisasi Pengeluaran</h1>
+                <h1 className="text-3xl font-bold text-primary-navy text-center">{t('visualizations.title')}</h1>
                 <div className="mt-4 max-w-md mx-auto">
-                    <label htmlFor="month-filter-visual" className="block text-sm font-medium text-secondary-gray mb-1">Pilih Periode Laporan</label>
+                    <label htmlFor="month-filter-visual" className="block text-sm font-medium text-secondary-gray mb-1">{t('visualizations.period')}</label>
                     <select id="month-filter-visual" value={selectedMonth} onChange={e => setSelectedMonth(e.target.value)} className="w-full p-2 border border-gray-300 rounded-md">
                         {monthOptions.map(month => (
                             <option key={month} value={month}>
-                                {month === 'all' ? 'Semua Waktu' : new Date(month + '-02').toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}
+                                {month === 'all' ? t('common.allTime') : formatMonth(month)}
                             </option>
                         ))}
                     </select>
@@ -230,7 +236,7 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
 
             {selectedMonth !== 'all' && (
                 <section className="bg-white rounded-xl p-6 shadow-md">
-                    <h2 className="text-xl font-bold text-primary-navy text-center mb-4">{`Tren Pengeluaran Harian (${titleText})`}</h2>
+                    <h2 className="text-xl font-bold text-primary-navy text-center mb-4">{t('visualizations.dailyTrend', { period: titleText })}</h2>
                     <div className="w-full h-80">
                         {trendData.length > 0 && trendData.some(d => d.total > 0) ? (
                             <ResponsiveContainer width="100%" height="100%">
@@ -240,22 +246,22 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
                                     <YAxis tickFormatter={formatShortCurrency} />
                                     <Tooltip content={<CustomTooltip />} />
                                     <Legend />
-                                    <Line type="monotone" dataKey="total" name="Total Pengeluaran" stroke="#2C3E50" strokeWidth={2} />
+                                    <Line type="monotone" dataKey="total" name={t('visualizations.totalSpending')} stroke="#2C3E50" strokeWidth={2} />
                                 </LineChart>
                             </ResponsiveContainer>
                         ) : (
                              <div className="flex items-center justify-center h-full text-secondary-gray">
-                                <p>Tidak ada data pengeluaran pada periode ini.</p>
+                                <p>{t('visualizations.noData')}</p>
                             </div>
                         )}
                     </div>
-                     <LockedAIAnalysisCard title="Analisis AI Tren Harian" />
+                     <LockedAIAnalysisCard title={t('visualizations.dailyTrendAnalysis')} />
                 </section>
             )}
 
             {budgetComparisonData.length > 0 && (
                 <section className="bg-white rounded-xl p-6 shadow-md">
-                    <h2 className="text-xl font-bold text-primary-navy text-center mb-4">{`Perbandingan Anggaran (${titleText})`}</h2>
+                    <h2 className="text-xl font-bold text-primary-navy text-center mb-4">{t('visualizations.budgetComparison', { period: titleText })}</h2>
                     <div className="w-full h-80">
                         <ResponsiveContainer width="100%" height="100%">
                             <BarChart data={budgetComparisonData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
@@ -264,17 +270,17 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
                                 <YAxis tickFormatter={formatShortCurrency} />
                                 <Tooltip content={<CustomTooltip />} />
                                 <Legend />
-                                <Bar dataKey="Dianggarkan" fill="#3498DB" />
-                                <Bar dataKey="Terpakai" fill="#E67E22" />
+                                <Bar dataKey="budgeted" name={t('visualizations.budgeted')} fill="#3498DB" />
+                                <Bar dataKey="spent" name={t('visualizations.spent')} fill="#E67E22" />
                             </BarChart>
                         </ResponsiveContainer>
                     </div>
-                     <LockedAIAnalysisCard title="Analisis AI Perbandingan Anggaran" />
+                     <LockedAIAnalysisCard title={t('visualizations.budgetComparisonAnalysis')} />
                 </section>
             )}
 
             <section className="bg-white rounded-xl p-6 shadow-md">
-                <h2 className="text-xl font-bold text-primary-navy text-center mb-4">{`Alokasi Pengeluaran (${titleText})`}</h2>
+                <h2 className="text-xl font-bold text-primary-navy text-center mb-4">{t('visualizations.allocation', { period: titleText })}</h2>
                 <div className="w-full h-80 mb-6">
                    {pieChartData.length > 0 ? (
                      <ResponsiveContainer width="100%" height="100%">
@@ -299,7 +305,7 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
                     </ResponsiveContainer>
                    ) : (
                     <div className="flex items-center justify-center h-full text-secondary-gray">
-                        <p>Tidak ada data pengeluaran pada periode ini.</p>
+                        <p>{t('visualizations.noData')}</p>
                     </div>
                    )}
                 </div>
@@ -307,8 +313,8 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
                 <table className="w-full text-sm text-left text-gray-500">
                     <thead className="text-xs text-gray-700 uppercase bg-gray-50">
                         <tr>
-                            <th scope="col" className="px-6 py-3">Kategori</th>
-                            <th scope="col" className="px-6 py-3 text-right">Total Terpakai</th>
+                            <th scope="col" className="px-6 py-3">{t('visualizations.category')}</th>
+                            <th scope="col" className="px-6 py-3 text-right">{t('visualizations.totalSpent')}</th>
                         </tr>
                     </thead>
                     <tbody>
@@ -319,12 +325,34 @@ const Visualizations: React.FC<VisualizationsProps> = ({ state, onBack }) => {
                             </tr>
                         )) : (
                             <tr>
-                                <td colSpan={2} className="text-center py-4">Tidak ada data.</td>
+                                <td colSpan={2} className="text-center py-4">{t('visualizations.empty')}</td>
                             </tr>
                         )}
                     </tbody>
                 </table>
-                 <LockedAIAnalysisCard title="Analisis AI Alokasi Pengeluaran" />
+                 <LockedAIAnalysisCard title={t('visualizations.allocationAnalysis')} />
+            </section>
+
+            <section className="bg-white rounded-xl p-6 shadow-md">
+                <h2 className="text-xl font-bold text-primary-navy text-center mb-1">{t('visualizations.tagBreakdown', { period: titleText })}</h2>
+                <p className="text-xs text-secondary-gray text-center mb-4">{t('visualizations.tagHint')}</p>
+                {tagChartData.length > 0 ? (
+                    <div className="w-full" style={{ height: Math.max(160, tagChartData.length * 40) }}>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={tagChartData.map(d => ({ ...d, label: `#${d.tag}` }))} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis type="number" tickFormatter={formatShortCurrency} />
+                                <YAxis type="category" dataKey="label" width={110} />
+                                <Tooltip content={<CustomTooltip />} />
+                                <Bar dataKey="total" name={t('visualizations.spent')} fill="#1ABC9C" onClick={handleTagClick} className="cursor-pointer" />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                ) : (
+                    <div className="flex items-center justify-center h-24 text-secondary-gray">
+                        <p>{t('visualizations.noTags')}</p>
+                    </div>
+                )}
             </section>
             
             {detailModalData && (
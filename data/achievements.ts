@@ -1,6 +1,12 @@
 // FIX: Import GlobalTransaction type to resolve compilation error.
 import type { AppState, FundTransaction, Transaction, SavingTransaction, GlobalTransaction } from '../types';
 import type { Achievement } from '../types';
+import { getBudgetQuota, getBudgetRemaining, getBudgetUsed, getMonthlySummary } from '../utils/budget';
+import { fromMoney, sumMoney, sumBy, sumSigned, toMoney, ZERO, type Money } from '../utils/money';
+
+// Amounts in the conditions below are in the base currency, like the amounts they are
+// compared with; progress is shown in the same plain numbers.
+const amountIn = (state: AppState, value: number) => toMoney(value, state.baseCurrency);
 
 export const allAchievements: Achievement[] = [
     // --- Kategori: Dasar ---
@@ -61,8 +67,8 @@ export const allAchievements: Achievement[] = [
         points: 5,
         condition: (state: AppState) => {
             return state.budgets.some(b => {
-                const used = b.history.reduce((sum, h) => sum + h.amount, 0);
-                return b.totalBudget > 0 && used > b.totalBudget;
+                const quota = getBudgetQuota(b);
+                return quota > 0 && getBudgetUsed(b) > quota;
             });
         }
     },
@@ -209,10 +215,7 @@ export const allAchievements: Achievement[] = [
         points: 50,
         condition: (state: AppState) => {
             if (state.budgets.length === 0) return false;
-            return state.budgets.every(b => {
-                const used = b.history.reduce((sum, h) => sum + h.amount, 0);
-                return (b.totalBudget - used) >= 0;
-            });
+            return state.budgets.every(b => getBudgetRemaining(b) >= 0);
         }
     },
     {
@@ -223,15 +226,13 @@ export const allAchievements: Achievement[] = [
         category: 'Master Anggaran',
         points: 30,
         condition: (state: AppState) => {
-            const monthlyIncome = state.fundHistory.filter(t => t.type === 'add').reduce((sum, t) => sum + t.amount, 0);
+            const { monthlyIncome, totalAllocated } = getMonthlySummary(state);
             if (monthlyIncome === 0) return false;
-            const totalAllocated = state.budgets.reduce((sum, b) => sum + b.totalBudget, 0);
             return totalAllocated >= monthlyIncome;
         },
         progress: (state) => {
-            const monthlyIncome = state.fundHistory.filter(t => t.type === 'add').reduce((sum, t) => sum + t.amount, 0);
-            const totalAllocated = state.budgets.reduce((sum, b) => sum + b.totalBudget, 0);
-            return { current: totalAllocated, target: monthlyIncome };
+            const { monthlyIncome, totalAllocated } = getMonthlySummary(state);
+            return { current: fromMoney(totalAllocated, state.baseCurrency), target: fromMoney(monthlyIncome, state.baseCurrency) };
         }
     },
     {
@@ -241,7 +242,7 @@ export const allAchievements: Achievement[] = [
         icon: 'ShieldCheckIcon',
         category: 'Master Anggaran',
         points: 60,
-        condition: (state: AppState) => state.budgets.some(b => b.name.toLowerCase().includes('dana darurat') && b.totalBudget >= 1000000)
+        condition: (state: AppState) => state.budgets.some(b => b.name.toLowerCase().includes('dana darurat') && b.totalBudget >= amountIn(state, 1000000))
     },
      {
         id: 'finance-early-retirement',
@@ -260,13 +261,9 @@ export const allAchievements: Achievement[] = [
         category: 'Master Anggaran',
         points: 40,
         condition: (state: AppState) => {
-            const totalUsedFromPosts = state.budgets.reduce((sum, b) => sum + b.history.reduce((s, h) => s + h.amount, 0), 0);
-            const totalDailySpent = state.dailyExpenses.reduce((sum, e) => sum + e.amount, 0);
-            const monthlyGeneralExpense = state.fundHistory.filter(t => t.type === 'remove').reduce((sum, t) => sum + t.amount, 0);
-            const totalUsedOverall = monthlyGeneralExpense + totalUsedFromPosts + totalDailySpent;
+            const { totalUsedOverall, generalAndDailyExpenses } = getMonthlySummary(state);
             if (totalUsedOverall === 0) return false;
-            const generalAndDaily = totalDailySpent + monthlyGeneralExpense;
-            return (generalAndDaily / totalUsedOverall) < 0.05;
+            return (generalAndDailyExpenses / totalUsedOverall) < 0.05;
         }
     },
     
@@ -279,14 +276,13 @@ export const allAchievements: Achievement[] = [
         category: 'Tantangan',
         points: 20,
         condition: (state: AppState) => {
-            const allExpensesByDay: { [key: string]: number } = {};
+            const allExpensesByDay: { [key: string]: Money } = {};
             const allExpenses: (Transaction | FundTransaction)[] = [...state.fundHistory.filter(t => t.type === 'remove'), ...state.dailyExpenses, ...state.budgets.flatMap(b => b.history), ...state.archives.flatMap(a => a.transactions.filter(t => t.type === 'remove'))];
             allExpenses.forEach(t => {
                 const dayKey = new Date(t.timestamp).toISOString().slice(0, 10);
-                if (!allExpensesByDay[dayKey]) allExpensesByDay[dayKey] = 0;
-                allExpensesByDay[dayKey] += t.amount;
+                allExpensesByDay[dayKey] = sumMoney([allExpensesByDay[dayKey] || ZERO, t.amount]);
             });
-            return Object.values(allExpensesByDay).some(total => total > 0 && total < 50000);
+            return Object.values(allExpensesByDay).some(total => total > 0 && total < amountIn(state, 50000));
         }
     },
     {
@@ -298,13 +294,13 @@ export const allAchievements: Achievement[] = [
         points: 80,
         condition: (state: AppState) => {
             const allTxns: GlobalTransaction[] = [...state.fundHistory, ...state.archives.flatMap(a => a.transactions)];
-            const totalAsset = allTxns.reduce((sum, t) => t.type === 'add' ? sum + t.amount : sum - t.amount, 0);
-            return totalAsset >= 1000000;
+            const totalAsset = sumSigned(allTxns);
+            return totalAsset >= amountIn(state, 1000000);
         },
         progress: (state) => {
              const allTxns: GlobalTransaction[] = [...state.fundHistory, ...state.archives.flatMap(a => a.transactions)];
-            const totalAsset = allTxns.reduce((sum, t) => t.type === 'add' ? sum + t.amount : sum - t.amount, 0);
-            return { current: totalAsset, target: 1000000 };
+            const totalAsset = sumSigned(allTxns);
+            return { current: fromMoney(totalAsset, state.baseCurrency), target: 1000000 };
         }
     },
     {
@@ -418,25 +414,25 @@ export const allAchievements: Achievement[] = [
         condition: (state: AppState) => {
             const today = new Date();
             if (today.getMonth() !== 7) return false; // 7 = August
-            const augustSavings = state.savingsGoals
+            const augustDeposits = state.savingsGoals
                 .flatMap(g => g.history)
                 .filter(h => {
                     const d = new Date(h.timestamp);
                     return d.getMonth() === 7 && d.getFullYear() === today.getFullYear()
-                })
-                .reduce((sum, h) => sum + h.amount, 0);
-            return augustSavings >= 170845;
+                });
+            const augustSavings = sumBy(augustDeposits, h => h.amount);
+            return augustSavings >= amountIn(state, 170845);
         },
         progress: (state) => {
             const today = new Date();
-            const augustSavings = state.savingsGoals
+            const augustDeposits = state.savingsGoals
                 .flatMap(g => g.history)
                 .filter(h => {
                     const d = new Date(h.timestamp);
                     return d.getMonth() === 7 && d.getFullYear() === today.getFullYear()
-                })
-                .reduce((sum, h) => sum + h.amount, 0);
-            return { current: augustSavings, target: 170845 };
+                });
+            const augustSavings = sumBy(augustDeposits, h => h.amount);
+            return { current: fromMoney(augustSavings, state.baseCurrency), target: 170845 };
         }
     },
 
@@ -0,0 +1,48 @@
+// Keywords the offline smart input parser (utils/smartInput.ts) uses to place an expense
+// in a budget. A budget belongs to a group when a word of its name starts with one of
+// the group's `names`; an expense belongs to it when it mentions one of the `keywords`.
+// All lowercase; keywords may span several words.
+
+export interface CategoryKeywords {
+    names: string[];
+    keywords: string[];
+}
+
+export const categoryKeywords: CategoryKeywords[] = [
+    {
+        names: ['makan', 'minum', 'kuliner', 'konsumsi', 'jajan', 'food'],
+        keywords: ['makan', 'sarapan', 'nasi', 'kopi', 'teh', 'susu', 'snack', 'jajan', 'bakso', 'mie', 'sate', 'ayam', 'roti', 'gorengan', 'warteg', 'warung', 'minum', 'gofood', 'grabfood', 'shopeefood', 'resto', 'restoran', 'kafe', 'cafe', 'martabak', 'seblak', 'boba'],
+    },
+    {
+        names: ['transport', 'bensin', 'kendaraan', 'bbm', 'motor', 'mobil', 'perjalanan'],
+        keywords: ['bensin', 'pertalite', 'pertamax', 'solar', 'bbm', 'ojek', 'ojol', 'gojek', 'grab', 'maxim', 'taksi', 'taxi', 'parkir', 'tol', 'bus', 'busway', 'transjakarta', 'kereta', 'krl', 'mrt', 'lrt', 'angkot', 'servis', 'service', 'oli', 'ban', 'cuci motor', 'cuci mobil'],
+    },
+    {
+        names: ['belanja', 'kebutuhan', 'rumah', 'dapur', 'groceries', 'bulanan'],
+        keywords: ['sabun', 'sampo', 'shampo', 'beras', 'minyak', 'gula', 'telur', 'sayur', 'buah', 'indomaret', 'alfamart', 'supermarket', 'pasar', 'galon', 'gas', 'elpiji', 'deterjen', 'tisu', 'pasta gigi', 'popok'],
+    },
+    {
+        names: ['tagihan', 'utilitas', 'listrik', 'internet', 'pulsa', 'cicilan', 'bills'],
+        keywords: ['listrik', 'pln', 'token', 'pulsa', 'kuota', 'paket data', 'internet', 'wifi', 'indihome', 'pdam', 'air', 'bpjs', 'cicilan', 'kartu kredit', 'iuran', 'sewa', 'kos', 'kontrakan', 'asuransi'],
+    },
+    {
+        names: ['hiburan', 'rekreasi', 'liburan', 'hobi', 'entertainment'],
+        keywords: ['nonton', 'bioskop', 'film', 'netflix', 'spotify', 'youtube', 'game', 'konser', 'karaoke', 'liburan', 'wisata', 'hotel', 'tiket'],
+    },
+    {
+        names: ['kesehatan', 'medis', 'obat', 'health'],
+        keywords: ['obat', 'apotek', 'dokter', 'klinik', 'rumah sakit', 'vitamin', 'periksa', 'gigi', 'masker'],
+    },
+    {
+        names: ['pendidikan', 'sekolah', 'kursus', 'edukasi', 'kuliah'],
+        keywords: ['buku', 'sekolah', 'spp', 'kursus', 'les', 'kuliah', 'ukt', 'alat tulis', 'fotokopi', 'print'],
+    },
+    {
+        names: ['pakaian', 'fashion', 'sandang', 'baju'],
+        keywords: ['baju', 'celana', 'sepatu', 'sandal', 'kaos', 'jaket', 'tas', 'kemeja', 'jilbab', 'kerudung', 'laundry'],
+    },
+    {
+        names: ['sosial', 'donasi', 'sedekah', 'amal', 'zakat', 'hadiah'],
+        keywords: ['sedekah', 'infak', 'zakat', 'donasi', 'kondangan', 'sumbangan', 'amal', 'kado', 'hadiah', 'arisan'],
+    },
+];
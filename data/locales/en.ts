@@ -0,0 +1,878 @@
+import type { Messages } from '../../utils/i18n';
+
+export const en: Messages = {
+    'common.new': 'New',
+    'common.add': 'Add',
+    'common.edit': 'Edit',
+    'common.delete': 'Delete',
+    'common.close': 'Close',
+    'common.detail': 'Details',
+    'common.active': 'Active',
+    'common.reset': 'Reset',
+    'common.featureLocked': 'Feature Locked',
+    'common.ofAmount': 'of {amount}',
+    'common.allTime': 'All Time',
+    'common.transactionHistory': 'Transaction History',
+    'common.editTransaction': 'Edit transaction',
+    'common.cancel': 'Cancel',
+    'common.ok': 'OK',
+    'common.save': 'Save',
+    'common.saveChanges': 'Save Changes',
+    'common.restore': 'Restore',
+
+    'dashboard.title': 'Dashboard',
+    'dashboard.remainingThisMonth': 'Funds Left This Month',
+    'dashboard.income': 'Income',
+    'dashboard.used': 'Spent',
+    'dashboard.dailyBudget': 'Daily Budget (Available Funds)',
+    'dashboard.dailyRemaining': '{remaining} left of {quota}',
+    'dashboard.record': 'Record',
+    'dashboard.batch': 'Batch',
+    'dashboard.aiInsight': 'AI Insight',
+    'dashboard.aiInsightLocked': 'Upgrade to premium to unlock AI insights.',
+    'dashboard.carriedOver': '{amount} carried over from last month',
+    'dashboard.useFunds': 'Use Funds',
+    'dashboard.noTransactions': 'No transactions yet.',
+    'dashboard.editOrArchive': 'Edit / Archive',
+    'dashboard.fixedBudgets': 'Fixed Budgets',
+    'dashboard.temporaryBudgets': 'Temporary Budgets (This Month Only)',
+    'dashboard.temporaryHint': 'Drag a budget here from above to make it temporary. Budgets here are archived automatically at the end of the month.',
+    'dashboard.noTemporaryBudgets': 'No temporary budgets yet.',
+    'dashboard.addBudget': 'Add New Budget',
+
+    'achievements.title': 'Badges & Achievements',
+    'achievements.points': '{points} Points',
+    'achievements.timeLimited': 'Time-Limited Badge',
+    'achievements.unlockedOn': 'Earned on:',
+    'achievements.progress': 'Progress:',
+    'achievements.noProgress': 'You have not made progress on this badge yet.',
+    'achievements.previousLevel': 'Previous Lv.: {points}',
+    'achievements.nextLevel': 'Next Lv.: {points}',
+    'achievements.category.basic': 'Basics',
+    'achievements.category.habits': 'Good Habits',
+    'achievements.category.budgetMaster': 'Budget Master',
+    'achievements.category.challenge': 'Challenges',
+    'achievements.category.exploration': 'Exploration',
+    'achievements.unlockedToast': 'Badge Unlocked!',
+
+    'savings.title': 'Savings',
+    'savings.reached': 'Reached!',
+    'savings.flexible': 'Flexible',
+    'savings.collected': 'Amount Saved',
+    'savings.open': 'Open',
+    'savings.empty': 'You have no savings goals yet.',
+    'savings.emptyHint': 'Start saving for your goals!',
+    'savings.form.name': 'Goal Name',
+    'savings.form.namePlaceholder': 'E.g. Emergency Fund',
+    'savings.form.noTarget': 'Savings without a target',
+    'savings.form.target': 'Target Amount (Rp)',
+    'savings.form.targetPlaceholder': 'E.g. 15,000,000',
+    'savings.form.create': 'Create Savings Goal',
+    'savings.form.available': 'Available Funds',
+    'savings.form.amount': 'Amount (Rp)',
+    'savings.detail.history': 'Savings History',
+    'savings.detail.empty': 'No history yet.',
+    'savings.detail.delete': 'Delete Savings Goal',
+
+    'netWorth.title': 'Assets & Net Worth',
+    'netWorth.total': 'Total Net Worth',
+    'netWorth.allocation': 'Asset Allocation',
+    'netWorth.nonCash': 'Non-Cash Assets',
+    'netWorth.cash': 'Cash',
+    'netWorth.allocationEmpty': 'Add assets to see how your wealth is allocated.',
+    'netWorth.inventory': 'Non-Cash Asset Inventory',
+    'netWorth.empty': 'You have not added any non-cash assets.',
+    'netWorth.emptyHint': 'For example: laptop, vehicle, gold.',
+    'netWorth.unitPrice': '{quantity} units @ {price}',
+    'netWorth.noRate': 'No {currency} exchange rate yet',
+
+    'personalBest.title': 'Personal Bests',
+    'personalBest.noData': 'Not enough data to show yet.',
+    'personalBest.notEnoughTitle': 'Not Enough Data',
+    'personalBest.notEnoughHint': 'Keep using the app for at least two months to see comparisons and your best months here.',
+    'personalBest.thriftiest': 'Thriftiest Months',
+    'personalBest.totalSpending': 'Total Spending',
+    'personalBest.mostSaved': 'Top Saving Months',
+    'personalBest.totalSavings': 'Total Savings',
+    'personalBest.mostDisciplined': 'Most Disciplined Months',
+    'personalBest.budgetCount': '{count} Budgets',
+    'personalBest.budgetsOnTrack': 'Budgets on Track',
+
+    'recurring.title': 'Recurring Transactions',
+    'recurring.overrideHint': 'Change the amount for this date only',
+    'recurring.unskip': 'Undo Skip',
+    'recurring.skip': 'Skip',
+    'recurring.finished': 'Finished',
+    'recurring.paused': 'Paused',
+    'recurring.upcoming': 'Upcoming',
+    'recurring.resume': 'Resume',
+    'recurring.pause': 'Pause',
+    'recurring.deleteLabel': 'Delete {name}',
+    'recurring.empty': 'No recurring transactions yet.',
+    'recurring.emptyHint': 'Record your salary, rent or subscriptions once and the rest happens automatically!',
+    'recurring.frequency.daily': 'Every day',
+    'recurring.frequency.weekly': 'Every week',
+    'recurring.frequency.monthly': 'Every month',
+    'recurring.frequency.custom': 'Custom',
+    'recurring.frequency.everyDays': 'Every {days} days',
+    'recurring.target.income': 'Income',
+    'recurring.target.generalExpense': 'General Expense',
+    'recurring.target.daily': 'Daily Money',
+    'recurring.target.deletedBudget': 'Deleted budget (Daily Money)',
+    'recurring.form.descPlaceholder': 'e.g. Salary, Rent, Internet Subscription',
+    'recurring.form.amountPlaceholder': 'e.g. 1,500,000',
+    'recurring.form.target': 'Record As',
+    'recurring.form.frequency': 'Frequency',
+    'recurring.form.interval': 'Every (days)',
+    'recurring.form.start': 'Start',
+    'recurring.form.end': 'End (optional)',
+    'recurring.form.monthEndHint': 'In shorter months, the transaction is recorded on the last day of the month.',
+    'recurring.form.save': 'Save Recurring Transaction',
+
+    'bills.title': 'Monthly Bills',
+    'bills.dueEveryMonth': 'Due on day {day} of every month',
+    'bills.markPaid': 'Mark Paid',
+    'bills.markUnpaid': 'Undo Paid',
+    'bills.deleteLabel': 'Delete {name}',
+    'bills.empty': 'No bills yet.',
+    'bills.emptyHint': 'Add electricity, insurance or credit-card bills so none slips by.',
+    'bills.status.paid': 'Paid',
+    'bills.status.overdue': '{days} days overdue',
+    'bills.status.dueToday': 'Due today',
+    'bills.status.dueIn': 'Due in {days} days',
+    'bills.status.dueOn': 'Due {date}',
+    'bills.form.name': 'Bill Name',
+    'bills.form.namePlaceholder': 'e.g. Electricity, Insurance, Credit Card',
+    'bills.form.amountPlaceholder': 'e.g. 350,000',
+    'bills.form.dueDay': 'Due Day',
+    'bills.form.budget': 'Paid From',
+    'bills.form.monthEndHint': 'In shorter months the bill is due on the last day of the month.',
+    'bills.form.save': 'Save Bill',
+
+    'notifications.open': 'Open notifications',
+    'notifications.billsTitle': 'Bills',
+    'notifications.alertsTitle': 'Budget Alerts',
+    'notifications.noAlerts': 'No budget alerts yet.',
+    'notifications.dailyAlert': 'Alert when daily spending passes the daily limit',
+    'notifications.alertBrowser': 'Browser notifications for budget alerts while the app is in the background',
+    'notifications.openWithCount': 'Open notifications ({count} bills)',
+    'notifications.empty': 'No bills need paying soon.',
+    'notifications.settingsTitle': 'Reminders',
+    'notifications.daysAhead': 'Remind this many days ahead',
+    'notifications.browser': 'Browser notifications for bills (once a day)',
+    'notifications.unsupported': 'This browser does not support notifications.',
+    'notifications.denied': 'Notification permission was denied. Allow it in the browser settings.',
+    'notifications.manageBills': 'Manage Bills',
+
+    'alerts.budgetThresholdTitle': '{name} is {threshold}% used',
+    'alerts.budgetSpentTitle': 'The {name} budget is used up',
+    'alerts.dailyTitle': 'Today\'s spending passed the daily limit',
+    'alerts.spentOf': '{spent} of {limit} used',
+
+    'aiQueue.title': 'AI Queue',
+    'aiQueue.queued': 'No connection. The request is saved and sent automatically once online; the result appears in notifications.',
+    'aiQueue.smartInput': 'Smart input: "{text}"',
+    'aiQueue.scan': 'Receipt scan',
+    'aiQueue.waiting': 'Waiting for a connection',
+    'aiQueue.sending': 'Processing',
+    'aiQueue.ready': 'Ready to review',
+    'aiQueue.failed': 'Failed',
+    'aiQueue.review': 'Review',
+    'aiQueue.retry': 'Retry',
+
+    'pwa.offline': 'Offline. Your data is still saved on this device.',
+    'pwa.offlineQueued': 'Offline. {count} AI requests are waiting for a connection.',
+    'pwa.update': 'A new version is available',
+    'pwa.updateVersion': 'Version {version} is available',
+    'pwa.updateHint': 'You are on version {version}. Reload to update.',
+    'pwa.updateNow': 'Update Now',
+
+    'aiProvider.kind.gemini': 'Google Gemini',
+    'aiProvider.kind.openai': 'OpenAI-compatible (Ollama, llama.cpp)',
+    'aiProvider.kind.mock': 'Mock (offline, for development)',
+    'aiProvider.provider': 'Provider',
+    'aiProvider.model': 'Model',
+    'aiProvider.modelHint': 'Leave empty to use {model}.',
+    'aiProvider.baseUrl': 'Server URL',
+    'aiProvider.baseUrlHint': 'Up to and including /v1, e.g. http://localhost:11434/v1 for Ollama.',
+    'aiProvider.apiKey': 'API key (optional)',
+    'aiProvider.apiKeyHint': 'Stored unencrypted on this device. Local servers usually do not need one.',
+    'aiProvider.geminiHint': 'Uses the Gemini API key from the app configuration.',
+    'aiProvider.openaiHint': 'The voice assistant is only available with Google Gemini.',
+    'aiProvider.mockHint': 'Answers with sample data, without a connection. The voice assistant is not available.',
+    'aiProvider.mock.sample': 'Sample',
+    'aiProvider.mock.answer': 'This is a sample answer from the mock AI provider. Choose another provider in Settings for real answers.',
+    'aiProvider.mock.chatReply': 'Sample answer to: "{text}"',
+
+    'reports.title': 'Global Report',
+    'reports.all': 'All',
+    'reports.list': 'List',
+    'reports.calendar': 'Calendar',
+    'reports.exportCsv': 'Export CSV',
+    'reports.export.transactions': 'Transactions ({period})',
+    'reports.export.budgets': 'Budget vs Actual ({period})',
+    'reports.export.savings': 'Savings History',
+    'reports.export.assets': 'Assets',
+    'reports.searchLabel': 'Search / Ask AI',
+    'reports.searchPlaceholder': 'Type a description, category, tag or note...',
+    'reports.aiSearchLocked': 'Smart Search (AI) - Feature Locked',
+    'reports.aiSearching': 'AI is searching...',
+    'reports.noResults': 'No Transactions Found',
+    'reports.noAiResults': 'The AI search found nothing.',
+    'reports.noResultsHint': 'Try another search term or pick a different month.',
+    'reports.tagFilter': 'Filter by tag:',
+    'reports.clearTagFilter': 'Clear',
+    'reports.filteredSpending': 'Total Spending (filtered)',
+    'reports.generalFunds': 'General Funds (Total Assets)',
+    'reports.transactionsOn': 'Transactions on {date}',
+    'reports.noTransactionsOnDate': 'No transactions on this date.',
+
+    'split.saveAsOne': 'Save as one split transaction',
+    'split.desc': 'Transaction name',
+    'split.descPlaceholder': 'E.g. Weekly groceries',
+    'split.hint': 'Each item still goes to its own budget, but shows as one transaction in Reports.',
+    'split.lineCount': 'Split • {count} items',
+    'split.showLines': 'Show items',
+    'split.hideLines': 'Hide items',
+    'split.deleteAll': 'Delete split transaction',
+
+    'tags.label': 'Tags',
+    'tags.placeholder': 'E.g. bali-trip, office',
+    'tags.remove': 'Remove tag {tag}',
+
+    'attachments.note': 'Note (optional)',
+    'attachments.notePlaceholder': 'E.g. split the bill with Rina',
+    'attachments.photos': 'Receipt Photos',
+    'attachments.add': 'Add',
+    'attachments.saving': 'Saving...',
+    'attachments.remove': 'Remove photo',
+    'attachments.open': 'View photo',
+    'attachments.photo': 'Receipt photo',
+    'attachments.loading': 'Loading photo...',
+    'attachments.saveFailed': 'The photo could not be saved. Try another photo or free up storage space.',
+    'attachments.storageNotReady': 'Photo storage is not ready yet.',
+    'attachments.compressFailed': 'The photo could not be compressed.',
+    'attachments.scanAttached': 'The receipt photo will be saved with these transactions.',
+
+    'visualizations.title': 'Spending Charts',
+    'visualizations.aiLocked': 'AI Feature Locked',
+    'visualizations.forecast': 'Forecast & Early Warnings',
+    'visualizations.transactionDetail': 'Transaction Details: {category}',
+    'visualizations.noTransactions': 'No transactions to show.',
+    'visualizations.period': 'Report Period',
+    'visualizations.dailyTrend': 'Daily Spending Trend ({period})',
+    'visualizations.totalSpending': 'Total Spending',
+    'visualizations.noData': 'No spending in this period.',
+    'visualizations.dailyTrendAnalysis': 'AI Daily Trend Analysis',
+    'visualizations.budgetComparison': 'Budget Comparison ({period})',
+    'visualizations.budgeted': 'Budgeted',
+    'visualizations.spent': 'Spent',
+    'visualizations.budgetComparisonAnalysis': 'AI Budget Comparison Analysis',
+    'visualizations.allocation': 'Spending Allocation ({period})',
+    'visualizations.category': 'Category',
+    'visualizations.totalSpent': 'Total Spent',
+    'visualizations.empty': 'No data.',
+    'visualizations.allocationAnalysis': 'AI Spending Allocation Analysis',
+    'visualizations.tagBreakdown': 'Spending by Tag ({period})',
+    'visualizations.tagHint': 'Expenses with several tags count toward each of them. Click a bar to see its transactions.',
+    'visualizations.noTags': 'No tagged expenses in this period.',
+
+    'budget.rollover.reset': 'Start from zero (reset)',
+    'budget.rollover.carrySurplus': 'Carry the surplus to next month',
+    'budget.rollover.carryDeficit': 'Carry the shortfall to next month',
+    'budget.rollover.sweepToSavings': 'Move the surplus to savings',
+
+    'app.migrated': 'Your data was updated to the latest format:',
+    'app.showMoreIssues': 'Show {count} more issues',
+    'app.loadFailed': 'Failed to load data.',
+    'app.loadFailedBackup': 'The old data was kept as an internal backup.',
+    'app.monthArchivedBefore': 'A new month has started. The data of',
+    'app.monthArchivedAfter': 'was archived automatically and can be found in Reports.',
+    'app.recurringPosted': 'recurring transactions that fell due were recorded automatically.',
+
+    'backup.periodicTitle': 'Periodic Backup Available',
+    'backup.periodicEncrypted': 'The file is encrypted with your automatic export passphrase.',
+    'backup.periodicHint': 'Keep a copy of your data safe.',
+    'backup.downloadNow': 'Download Now',
+    'backup.later': 'Later',
+    'backup.notFound': 'Backup data not found.',
+    'backup.labelledSource': 'Backup "{label}" ({date})',
+    'backup.source': 'Backup {date}',
+    'backup.loadFailed': 'Could not load the backup. The file may be damaged.',
+    'backup.confirmDelete': 'Delete this backup? Its data cannot be recovered.',
+    'backup.confirmPrune': 'With this policy, {count} old automatic backups will be deleted. Continue?',
+    'backup.retention.daily': 'Daily',
+    'backup.retention.weekly': 'Weekly',
+    'backup.retention.monthly': 'Monthly',
+    'backup.empty': 'No internal backups found.',
+    'backup.labelPlaceholder': 'E.g. Before statement import',
+    'backup.automatic': 'Automatic',
+    'backup.setLabel': 'Add label',
+    'backup.delete': 'Delete backup',
+    'backup.retentionTitle': 'Automatic Backup Retention',
+    'backup.saveRetention': 'Save Rules',
+    'backup.retentionHint': 'The app makes one automatic backup a day and keeps the newest backup of the last few days, weeks and months according to the rules above. Labelled backups are never deleted automatically. Backups are stored on this device and are lost if the browser data is cleared.',
+
+    'undo.undone': 'Undone: {description}',
+    'undo.redo': 'Redo',
+    'undo.undo': 'Undo',
+
+    'storage.saveFailed': 'Could not save data on this device. Recent changes may not have been saved.',
+    'storage.unreadable': 'The stored data could not be read.',
+    'storage.quotaExceeded': 'Device storage is full, so the latest changes were not saved. Delete old internal backups or export your data, then try again.',
+    'storage.indexedDbBlocked': 'Storage is blocked by another tab of this app.',
+
+    'action.budgetCreated': 'Budget "{name}" created',
+    'action.budgetEdited': 'Budget "{name}" changed',
+    'action.budgetArchived': 'Budget "{name}" archived',
+    'action.budgetRestored': 'Budget "{name}" restored',
+    'action.budgetDeleted': 'Budget "{name}" deleted',
+    'action.budgetsReordered': 'Budget order changed',
+    'action.budgetMadeTemporary': 'Budget "{name}" made temporary',
+    'action.budgetMadeFixed': 'Budget "{name}" made fixed',
+    'action.expenseRecorded': 'Expense "{desc}" recorded',
+    'action.expensesRecorded': '{count} expenses recorded',
+    'action.splitRecorded': 'Split transaction "{desc}" recorded',
+    'action.incomeRecorded': 'Income "{desc}" recorded',
+    'action.transactionDeleted': 'Transaction "{desc}" deleted',
+    'action.transactionDeletedUnnamed': 'Transaction deleted',
+    'action.transactionEdited': 'Transaction "{desc}" changed',
+    'action.splitDeleted': 'Split transaction "{desc}" deleted',
+    'action.balanceCorrected': 'Asset balance corrected',
+    'action.assetAdded': 'Asset "{name}" added',
+    'action.assetEdited': 'Asset "{name}" changed',
+    'action.assetDeleted': 'Asset "{name}" deleted',
+    'action.rateSaved': '{currency} rate for {date} saved',
+    'action.rateDeleted': '{currency} rate for {date} deleted',
+    'action.baseCurrencyChanged': 'Base currency changed to {currency}',
+    'action.savingsGoalCreated': 'Savings goal "{name}" created',
+    'action.savingsAdded': 'Deposit to "{name}" recorded',
+    'action.savingsGoalOpened': 'Savings goal "{name}" opened',
+    'action.savingsGoalDeleted': 'Savings goal "{name}" deleted',
+    'action.recurringCreated': 'Recurring transaction "{desc}" created',
+    'action.recurringEdited': 'Recurring transaction "{desc}" changed',
+    'action.recurringResumed': 'Recurring transaction "{desc}" resumed',
+    'action.recurringPaused': 'Recurring transaction "{desc}" paused',
+    'action.recurringScheduleChanged': 'Recurring schedule for {date} changed',
+    'action.recurringAmountChanged': 'Recurring amount for {date} changed',
+    'action.recurringDeleted': 'Recurring transaction "{desc}" deleted',
+    'action.billCreated': 'Bill "{name}" added',
+    'action.billEdited': 'Bill "{name}" edited',
+    'action.billDeleted': 'Bill "{name}" deleted',
+    'action.billMarkedUnpaid': 'Bill "{name}" for {month} marked unpaid',
+    'action.bankRowsImported': '{count} bank statement transactions imported',
+    'action.dataMerged': 'Data merged',
+    'action.dataReplaced': 'Data replaced',
+    'action.monthReset': 'This month\'s data reset',
+
+    'confirm.archiveBudget': 'Archive this budget? You can restore it any time from Settings.',
+    'confirm.deletePermanentlyTitle': 'Delete Permanently?',
+    'confirm.deleteBudgetBefore': 'You are about to delete the budget "',
+    'confirm.deleteBudgetAfter': '" and ALL of its transaction history.',
+    'confirm.overageExpense': 'The expense of',
+    'confirm.overageAmount': 'The amount of',
+    'confirm.overageExceeds': 'exceeds the remaining quota.',
+    'confirm.overageTakenBefore': 'An amount of',
+    'confirm.overageTakenAfter': 'will be taken from "Available Funds". Continue?',
+    'confirm.deleteAsset': 'Remove this asset from the list?',
+    'confirm.changeBaseCurrencyBefore': 'Change the base currency to',
+    'confirm.changeBaseCurrencyAfter': '? All amounts are converted at the recorded rates, and amounts in {currency} stay visible as original amounts.',
+    'confirm.insufficientFunds': 'Not enough available funds. Only this much is available:',
+    'confirm.openSavingsGoal': 'Open the savings goal "{name}"? {amount} will be returned to available funds and the goal will be emptied.',
+    'confirm.deleteFlexibleSavingsGoal': 'Delete the savings goal "{name}"? {amount} will be returned.',
+    'confirm.deleteSavingsGoal': 'Delete the savings goal "{name}"? {amount} will be returned to available funds.',
+    'confirm.recurringBackfilled': 'The start date has passed. Transactions due since then were recorded automatically.',
+    'confirm.deleteRecurring': 'Delete the recurring transaction "{desc}"? Transactions already recorded are kept.',
+    'confirm.deleteBill': 'Delete the bill "{name}"? Payments already recorded are kept.',
+    'confirm.resetMonth': 'WARNING: This deletes all of this month\'s data WITHOUT archiving it. For testing only. Continue?',
+    'confirm.resetAllTitle': 'DELETE ALL DATA?',
+    'confirm.resetAll': 'This cannot be undone and permanently deletes all your budgets, transactions and achievements.',
+    'confirm.deleteGlobalTransaction': 'PERMANENTLY delete this transaction from all data?',
+    'confirm.deleteSplit': 'Permanently delete the split transaction "{desc}" and all its items?',
+    'confirm.deleteTransaction': 'Delete this transaction? The money will be returned.',
+
+    'import.fileSource': 'File {name}',
+    'import.loadFailed': 'Could not load the file. Make sure the backup is intact and a valid .json file.',
+    'import.decryptedLoadFailed': 'Could not load the file. Make sure the backup is intact.',
+    'import.csvEmpty': 'The CSV file is empty or cannot be read.',
+    'import.bankRowsSaved': '{count} bank statement transactions saved.',
+    'import.corrupt': 'The data cannot be loaded because it is damaged:',
+    'import.count.budgets': 'Budgets',
+    'import.count.transactions': 'Transactions',
+    'import.count.goals': 'Savings goals',
+    'import.count.assets': 'Assets',
+    'import.budgetName': 'Budget "{name}"',
+    'import.goalName': 'Savings goal "{name}"',
+    'import.showMore': 'Show {count} more transactions',
+    'import.replaceAll': 'Replace All',
+    'import.merge': 'Merge',
+    'import.data': 'Data',
+    'import.current': 'Current',
+    'import.afterImport': 'After import',
+    'import.difference': 'Difference',
+    'import.willAdd': 'Will be added',
+    'import.willRemove': 'Will be removed',
+    'import.issuesFound': 'Found {count} problems that will be fixed automatically',
+    'import.conflicts': '{count} differences need your review',
+    'import.noConflicts': 'The data from both devices can be merged without conflicts.',
+    'import.replaceWarning': 'All current data will be replaced and cannot be recovered.',
+    'import.fixAndImport': 'Fix & Import',
+    'import.import': 'Import',
+    'import.sourceLabel': 'Source:',
+    'import.zipCorrupt': 'The ZIP file is damaged or not supported.',
+    'import.zipCompressionUnavailable': 'This browser cannot open compressed ZIP files.',
+    'import.zipMethodUnsupported': 'Unsupported ZIP compression method ({method}).',
+    'import.zipNoData': 'The ZIP file contains no budget data.',
+
+    'location.item': '{location} #{index}',
+    'location.entry': '{location}, entry #{index}',
+    'location.history': '{location}, history',
+    'location.file': 'File',
+    'location.budgets': 'Budgets',
+    'location.budget': 'Budget "{name}"',
+    'location.archives': 'Archives',
+    'location.archive': 'Archive {month}',
+    'location.goals': 'Savings goals',
+    'location.goal': 'Savings goal "{name}"',
+    'location.deletedGoals': 'Deleted savings goals',
+    'location.assets': 'Assets',
+    'location.asset': 'Asset "{name}"',
+    'location.recurringRules': 'Recurring transactions',
+    'location.recurringRule': 'Recurring transaction "{name}"',
+    'location.bills': 'Bills',
+    'location.bill': 'Bill "{name}"',
+    'location.budgetAlerts': 'Budget alerts',
+    'location.exchangeRates': 'Exchange rates',
+    'location.exchangeRate': 'Exchange rate {currency}',
+    'location.dailyExpenses': 'Daily expenses',
+    'location.fundHistory': 'Fund history',
+    'location.baseCurrency': 'Base currency',
+    'location.achievements': 'Badges',
+
+    'validation.notList': 'Not a list.',
+    'validation.notObject': 'The entry is not an object.',
+    'validation.notJsonObject': 'The data is not a JSON object.',
+    'validation.missingBudgets': 'The budget list is missing.',
+    'validation.missingArchives': 'The monthly archive list is missing.',
+    'validation.invalidAmount': 'Invalid amount ({value}).',
+    'validation.amountAsText': 'The amount is stored as text.',
+    'validation.negativeAmount': 'The amount is negative.',
+    'validation.invalidTimestamp': 'Invalid transaction time.',
+    'validation.unknownType': 'Unknown transaction type ({type}).',
+    'validation.missingDesc': 'The description is empty or not text.',
+    'validation.missingId': 'The transaction has no ID.',
+    'validation.invalidTransactionId': 'The transaction ID is invalid or duplicated.',
+    'validation.invalidOriginalCurrency': 'Invalid original currency.',
+    'validation.invalidTags': 'Invalid tags.',
+    'validation.invalidNote': 'The note is not text.',
+    'validation.invalidAttachments': 'Invalid photo list.',
+    'validation.invalidId': 'Invalid ID.',
+    'validation.duplicateId': 'Duplicate ID ({id}).',
+    'validation.emptyBudgetName': 'The budget name is empty.',
+    'validation.invalidBudgetAmount': 'Invalid budget amount ({value}).',
+    'validation.missingHistory': 'The transaction history is missing.',
+    'validation.invalidThresholds': 'Invalid alert thresholds.',
+    'validation.invalidArchiveMonth': 'Invalid archive month ({month}).',
+    'validation.duplicateArchiveMonth': 'The same month appears more than once.',
+    'validation.emptyGoalName': 'The savings goal name is empty.',
+    'validation.invalidSavedAmount': 'Invalid saved amount.',
+    'validation.invalidGoalTarget': 'Invalid savings target.',
+    'validation.invalidOpenedAt': 'Invalid time the goal was opened.',
+    'validation.emptyAssetName': 'The asset name is empty.',
+    'validation.invalidQuantity': 'Invalid quantity ({value}).',
+    'validation.invalidPrice': 'Invalid price per unit ({value}).',
+    'validation.unknownCurrency': 'Unknown currency ({currency}).',
+    'validation.invalidSchedule': 'Invalid schedule dates.',
+    'validation.unknownTarget': 'Unknown transaction target.',
+    'validation.emptyBillName': 'The bill name is empty.',
+    'validation.invalidDueDay': 'Invalid due day ({value}).',
+    'validation.invalidBillBudget': 'Invalid budget.',
+    'validation.invalidPayments': 'Invalid payment history.',
+    'validation.invalidAlert': 'Invalid alert data.',
+    'validation.invalidDeletedGoal': 'Invalid deleted savings goal data.',
+    'validation.invalidRate': 'Invalid currency, date or rate.',
+    'validation.unknownBaseCurrency': 'Unknown currency code ({currency}).',
+    'validation.invalidAchievements': 'Invalid badge data.',
+    'validation.invalidAchievementData': 'Invalid badge progress data.',
+    'validation.invalidLastArchiveDate': 'Invalid last archive date.',
+    'validation.invalidSchemaVersion': 'Invalid schema version.',
+    'validation.repair.cleared': 'Cleared.',
+    'validation.repair.removed': 'Removed.',
+    'validation.repair.entryRemoved': 'Entry removed.',
+    'validation.repair.toNumber': 'Converted to a number.',
+    'validation.repair.madePositive': 'Made positive.',
+    'validation.repair.filled': 'Set to "{text}".',
+    'validation.repair.named': 'Named "{name}".',
+    'validation.repair.newId': 'Given a new ID.',
+    'validation.repair.newIdValue': 'Given a new ID ({id}).',
+    'validation.repair.baseAmountOnly': 'Only the amount in the base currency is kept.',
+    'validation.repair.textTagsOnly': 'Only text tags are kept.',
+    'validation.repair.noteRemoved': 'Note removed.',
+    'validation.repair.textPhotoIdsOnly': 'Only text photo IDs are kept.',
+    'validation.repair.setToZero': 'Set to 0.',
+    'validation.repair.emptyHistory': 'An empty history was created.',
+    'validation.repair.validThresholdsOnly': 'Only valid thresholds are kept.',
+    'validation.repair.archiveRemoved': 'Archive removed.',
+    'validation.repair.archivesCombined': 'Its transactions were combined.',
+    'validation.repair.recomputed': 'Recalculated from the history.',
+    'validation.repair.noTarget': 'Turned into a goal without a target.',
+    'validation.repair.baseCurrency': 'Treated as the base currency.',
+    'validation.repair.ruleRemoved': 'Rule removed.',
+    'validation.repair.firstDay': 'Set to the 1st.',
+    'validation.repair.paidFromDaily': 'Paid from daily money.',
+    'validation.repair.validPaymentsOnly': 'Only valid payments are kept.',
+    'validation.repair.alertRemoved': 'Alert removed.',
+    'validation.repair.rateRemoved': 'Rate removed.',
+    'validation.repair.rupiah': 'Set to Rupiah (IDR).',
+    'validation.repair.badgesCleared': 'Badge list cleared.',
+    'validation.repair.progressReset': 'Progress reset.',
+    'validation.repair.version1': 'Treated as version 1.',
+
+    'merge.keepLocal': 'This device\'s data is kept.',
+    'merge.transaction': 'Transaction',
+    'merge.currencyDiffers': 'The imported data uses {incoming}, this device {local}.',
+    'merge.converted': 'Amounts were converted to {currency} with the rates from the imported data.',
+    'merge.notConverted': 'The imported data has no {currency} rate, so amounts were not converted.',
+    'merge.entryDiffers': '"{desc}" ({date}) is recorded differently on the two devices.',
+    'merge.budgetAmountDiffers': 'Budget amounts differ ({local} and {incoming}).',
+    'merge.rolloverDiffers': 'The month-end leftover rule differs.',
+    'merge.archivedOnOneDevice': 'The budget is archived on one device only.',
+    'merge.goalTargetDiffers': 'Savings targets differ.',
+    'merge.assetDiffers': 'Asset quantity or price differs.',
+    'merge.amountDiffers': 'Amounts differ ({local} and {incoming}).',
+    'merge.billDiffers': 'Amount or due day differs.',
+    'merge.rateDiffers': 'Rates differ ({local} and {incoming}).',
+
+    'migration.notObject': 'The data is not a JSON object.',
+    'migration.newerVersion': 'The data comes from a newer version of the app (schema v{version}). Update the app first.',
+    'migration.stepFailed': 'Migration to schema v{version} failed: {problem}',
+    'migration.v2': 'Badges now store when they were unlocked.',
+    'migration.v2.problem': 'Badge data is not a list of unlock times.',
+    'migration.v3': 'Added room for recurring transactions.',
+    'migration.v3.problem': 'The recurring transaction list is missing.',
+    'migration.v4': 'Every transaction was given a unique ID.',
+    'migration.v4.problem': 'Some transactions still have no ID.',
+    'migration.v5': 'Added a base currency (Rupiah) and an exchange rate table.',
+    'migration.v5.problem': 'The exchange rate table is missing.',
+    'migration.v6': 'Added room for monthly bills.',
+    'migration.v6.problem': 'The bill list is missing.',
+    'migration.v7': 'Added a budget alert history.',
+    'migration.v7.problem': 'The budget alert history is missing.',
+    'migration.v8': 'Deleted savings goals are recorded so they do not return when data is merged.',
+    'migration.v8.problem': 'The deleted savings goal list is missing.',
+    'migration.v9': 'Amounts are stored as whole numbers in the smallest unit of their currency (cents for USD).',
+    'migration.v9.problem': 'Some amounts are not whole numbers.',
+
+    'ai.scanFailed': 'Could not scan the receipt. Try again with a clearer picture.',
+    'ai.smartInputEmpty': 'Please enter a transaction description.',
+    'ai.smartInputPrompt': 'Analyze the following text containing financial transactions. Extract each individual transaction (description and amount). For each transaction, pick the best matching budget category from this list: [{categories}]. If none fits, use "{fallback}". Your response MUST be a valid JSON array of objects, each with the keys "desc", "amount" and "category". Text: "{text}"',
+    'ai.smartInputFailed': 'Could not process the input. Try again with a simpler format.',
+    'ai.budgetUsedLine': '* {name}: {used} spent of {quota}',
+    'ai.noBudgets': 'No budgets have been created.',
+    'ai.advicePrompt': 'Here is a summary of my finances for this month in Rupiah (IDR):\n\n* Total Income: {income}\n* Total Spending: {spending}\n* Remaining This Month: {remaining}\n\nSpending by Budget:\n{budgetDetails}\n\nTotal Daily Spending (outside budgets): {dailySpent}\n\nRemaining Funds Not Tied to a Budget: {unallocated}\n\nBased on this data, give me a short analysis and some practical advice in English to manage my money better. Focus on areas where I could save or optimize. Answer in bullet points using markdown.',
+    'ai.adviceFailed': 'Could not get advice from the AI. Please try again later.',
+    'ai.weekBudgetLine': '* {name}: {used} spent',
+    'ai.noWeekBudgetSpending': 'No significant spending from budgets.',
+    'ai.insightPrompt': 'As an AI finance assistant, give a short analysis and proactive warnings based on the last 7 days of financial data (in IDR).\nFocus on:\n1. Significant largest income or expenses.\n2. A warning if total spending is close to or above income.\n3. Any wasteful spending trends.\n\nAnswer briefly, sharply and to the point in English, without a greeting.\n\nFinancial Data for the Last 7 Days:\n- Income: {income}\n- Total Spending: {spending}\n- Spending from Budgets:\n{budgetDetails}\n- Daily/General Spending: {dailySpending}',
+    'ai.noInsight': 'No suggestions right now.',
+    'ai.insightFailed': 'Could not fetch insights. Check your connection or try again.',
+    'ai.insightNeedsIncome': 'Add this month\'s income to get AI insights.',
+    'ai.chatBudgetLine': '* Budget "{name}": quota {quota}, spent {used}, remaining {remaining}',
+    'ai.chatTransactionLine': '* {date}: {desc} ({sign} {amount}) - Category: {category}',
+    'ai.incomeCategory': 'Income',
+    'ai.generalCategory': 'General',
+    'ai.chatContext': 'You are a friendly and helpful AI finance assistant. Your task is to answer the user\'s questions ONLY based on the financial data I give you below. Do not make up information or give advice beyond the data. Answer in English. Here is a summary of the user\'s finances for this month (in IDR): **Overview:** * Total Income: {income}, * Total Spending: {spending}, * Remaining (Income - Spending): {remaining}, * Total Allocated to Budgets: {allocated}, * Available for Daily/General Spending (outside budgets): {available}. **Budgets:** {budgetDetails}. **Last 10 Transactions:** {transactions}. The data is complete. You are ready to answer the user\'s questions.',
+    'ai.chatReady': 'Data received. I am ready to help.',
+    'ai.chatGreeting': 'Hi! I am your AI assistant. Ask me anything about your finances this month.',
+    'ai.chatStartFailed': 'Could not start the chat session. Please try again.',
+    'ai.chatInactive': 'The chat session is not active. Please close and reopen it.',
+    'ai.chatSendFailed': 'Could not send the message. Please try again.',
+    'ai.searchFailed': 'The AI search failed. Try again.',
+    'ai.voiceInstruction': 'You are a friendly AI finance assistant speaking English. Your job is to help the user record transactions. Ask for details when needed, confirm each transaction after you call the \'catatTransaksi\' function, and ask whether there is anything else. Use the available categories: [{categories}]. If unsure, use \'{fallback}\'.',
+
+    'history.funds': 'This Month\'s Fund History',
+    'history.daily': 'Daily Spending History',
+    'history.empty': 'No history.',
+    'history.paid': 'Paid {amount}',
+
+    'level.beginner': 'Finance Beginner',
+    'level.smartManager': 'Smart Manager',
+    'level.budgetExpert': 'Budget Expert',
+    'level.financeSultan': 'Finance Sultan',
+    'level.master': 'Money Master',
+
+    'modal.editBudget': 'Edit Budget',
+    'modal.useMoney': 'Spend Money',
+    'modal.editAsset': 'Edit Asset',
+    'modal.addAsset': 'Add New Asset',
+    'modal.editRecurring': 'Edit Recurring Transaction',
+    'modal.addRecurring': 'Add Recurring Transaction',
+    'modal.editBill': 'Edit Bill',
+    'modal.addBill': 'Add Bill',
+    'modal.notifications': 'Notifications',
+    'modal.aiProvider': 'AI Provider',
+    'modal.batchInput': 'Record Multiple Expenses',
+    'modal.addBudget': 'Create New Budget',
+    'modal.addSavingsGoal': 'Create New Savings Goal',
+    'modal.funds': 'Manage This Month\'s Funds',
+    'modal.editTransaction': 'Edit Transaction',
+    'modal.info': 'This Month\'s Finances',
+    'modal.editBalance': 'Correct Asset Balance',
+    'modal.menu': 'Menu & Options',
+    'modal.settings': 'Settings & Options',
+    'modal.currency': 'Currencies & Rates',
+    'modal.bankImport': 'Import Bank Statement',
+    'modal.archivedBudgets': 'Manage Archived Budgets',
+    'modal.importPreview': 'Data Import Preview',
+    'modal.exportData': 'Export Data',
+    'modal.decryptImport': 'Open Encrypted File',
+    'modal.backupRestore': 'Internal Backups',
+    'modal.scanResult': 'Receipt Scan Results',
+    'modal.voiceAssistant': 'Interactive Voice Assistant',
+    'modal.voiceResult': 'Confirm Voice Transactions',
+    'modal.smartInput': 'Smart Transaction Input',
+    'modal.aiAdvice': 'AI Financial Advice',
+    'modal.aiChat': 'Ask AI',
+    'modal.addSavings': 'Add Savings: {name}',
+    'modal.savingsDetail': 'Details: {name}',
+
+    'nav.dashboard': 'Dashboard',
+    'nav.reports': 'Reports',
+    'nav.charts': 'Charts',
+    'nav.menu': 'Menu',
+
+    'currency.label': 'Currency',
+    'currency.base': 'Base Currency',
+    'currency.baseHint': 'All totals are calculated in this currency. To switch, first record a rate for the new currency.',
+    'currency.change': 'Change',
+    'currency.noRateFor': 'There is no rate for {currency} yet. Add one below first.',
+    'currency.recordRate': 'Record Rate',
+    'currency.validFrom': 'Valid From',
+    'currency.rateExample': 'E.g. 16250',
+    'currency.saveRate': 'Save Rate',
+    'currency.rateHistory': 'Rate History',
+    'currency.noRates': 'No rates yet. Transactions and assets can only be recorded in {currency}.',
+    'currency.since': 'Since {date}',
+    'currency.deleteRate': 'Delete rate',
+    'currency.conversionHint': 'Transactions are converted at the rate valid on their date when recorded. Changing a rate does not change recorded transactions.',
+
+    'form.allocation': 'Allocate To',
+    'form.dailyMoney': 'Daily Money',
+    'form.description': 'Description',
+    'form.analyzing': 'Analyzing...',
+    'form.moveTo': 'Move to "{category}"',
+    'form.budgetName': 'Budget Name',
+    'form.quota': 'Budget Amount (Rp)',
+    'form.amountIn': 'Amount ({currency})',
+    'form.rolloverPolicy': 'Remaining Quota at Month End',
+    'form.rolloverGoal': 'Target Savings Goal',
+    'form.chooseGoal': '-- Choose a Savings Goal --',
+    'form.noGoalsHint': 'Create a savings goal in the Savings menu first.',
+    'form.alertThresholds': 'Alert When Used',
+    'form.alertThresholdsHint': 'Each threshold alerts once a month.',
+    'form.alertThresholdsOff': 'Alerts are off for this budget.',
+    'form.archiveBudget': 'Archive This Budget',
+    'form.budgetNameNew': 'Budget Name',
+    'form.budgetNamePlaceholder': 'e.g. Monthly Groceries',
+    'form.amountPlaceholder': 'e.g. 1,000,000',
+    'form.addBudget': 'Add Budget',
+    'form.chooseIcon': 'Choose an Icon',
+    'form.chooseColor': 'Choose a Color',
+    'form.selectColor': 'Select color {color}',
+    'form.descriptionLabel': 'Description',
+    'form.amountRp': 'Amount (Rp)',
+    'form.chooseBudget': '-- Choose Budget --',
+
+    'asset.name': 'Asset Name',
+    'asset.namePlaceholder': 'e.g. MacBook Pro laptop',
+    'asset.quantity': 'Quantity',
+    'asset.quantityPlaceholder': 'e.g. 1',
+    'asset.price': 'Estimated Price per Unit ({currency})',
+    'asset.pricePlaceholder': 'e.g. 20,000,000',
+    'asset.save': 'Save Asset',
+
+    'target.income': 'Income',
+    'target.generalExpense': 'General Expense',
+    'target.budget': 'Budget: {name}',
+    'target.archived': ' (archived)',
+
+    'funds.type': 'Transaction Type',
+    'funds.process': 'Process Transaction',
+    'funds.viewHistory': 'View History',
+
+    'editTransaction.archivedHint': 'This transaction is archived. Changes only affect that month\'s report.',
+    'editTransaction.time': 'Time',
+    'editTransaction.category': 'Category',
+    'editTransaction.deletedBudget': '{category} (deleted budget)',
+    'editTransaction.savingsHint': 'Savings deposit: the savings goal is adjusted too.',
+
+    'info.income': 'Total Income This Month',
+    'info.allocated': 'Allocated to Budgets',
+    'info.unallocated': 'Unallocated Funds (Start)',
+    'info.generalAndDaily': 'General & Daily Spending',
+    'info.remaining': 'Remaining Unallocated Funds',
+
+    'editBalance.label': 'Actual Total Assets (Rp)',
+    'editBalance.save': 'Save Correction',
+
+    'settings.language': 'Language / Bahasa',
+    'settings.budgetManagement': 'Budget Management',
+    'settings.archivedBudgets': 'Manage Archived Budgets',
+    'settings.currency': 'Currencies & Rates',
+    'settings.ai': 'AI Assistant',
+    'settings.aiProvider': 'AI provider: {provider}',
+    'settings.backup': 'Backup & Restore',
+    'settings.manualBackup': 'Back Up Now',
+    'settings.manageBackups': 'Manage Internal Backups',
+    'settings.backupHint': 'Automatic daily backups to restore your data if something goes wrong.',
+    'settings.dataManagement': 'Data Management',
+    'settings.import': 'Import Data from File',
+    'settings.importBank': 'Import Bank Statement (CSV)',
+    'settings.export': 'Export Data to File',
+    'settings.dangerZone': 'Danger Zone',
+    'settings.resetMonth': 'Reset This Month\'s Data',
+    'settings.resetAll': 'Reset All App Data',
+    'settings.about': 'About',
+    'settings.version': 'Version: {version}',
+    'settings.author': 'Original Author: {name}',
+    'settings.technology': 'Technology: {stack}',
+
+    'archived.empty': 'No archived budgets.',
+    'archived.deletePermanently': 'Delete Permanently',
+
+    'export.passphraseTooShort': 'The passphrase needs at least {count} characters.',
+    'export.passphraseMismatch': 'The passphrases do not match.',
+    'export.failed': 'Could not create the export file.',
+    'export.intro': 'The export file contains your entire financial history. Encryption protects it if the file ends up somewhere others can access.',
+    'export.encrypt': 'Encrypt with a passphrase',
+    'export.passphrase': 'Passphrase',
+    'export.repeatPassphrase': 'Repeat Passphrase',
+    'export.useForAutoExport': 'Also use for automatic periodic backups',
+    'export.storedOnDevice': '(the passphrase is stored on this device)',
+    'export.unrecoverable': 'Passphrases cannot be recovered. Without it, this file cannot be opened.',
+    'export.preparing': 'Preparing...',
+    'export.encrypted': 'Export Encrypted',
+    'export.json': 'Export JSON',
+    'export.zip': 'Export ZIP with Photos',
+    'export.includeAttachments': 'Include {count} receipt photos (.zip file)',
+    'export.attachmentsNotEncrypted': 'Photos cannot be included in an encrypted export.',
+
+    'decrypt.unreadable': 'The file contents could not be read after decrypting.',
+    'decrypt.wrongPassphrase': 'Wrong passphrase or damaged backup file.',
+    'decrypt.newerVersion': 'This file was made by a newer version of the app. Update the app first.',
+    'decrypt.invalidFile': 'The encrypted file is invalid or damaged.',
+    'decrypt.intro': 'The file {name} is encrypted. Enter the passphrase used when exporting it.',
+    'decrypt.placeholder': 'Passphrase',
+    'decrypt.opening': 'Opening...',
+    'decrypt.open': 'Open File',
+
+    'scan.scanning': 'Scanning your receipt...',
+    'scan.noItems': 'No items detected.',
+    'scan.saveSelected': 'Save Selected Transactions',
+
+    'bankImport.column': 'Column {number}',
+    'bankImport.none': '-- None --',
+    'bankImport.file': 'File:',
+    'bankImport.rowCount': '({count} rows)',
+    'bankImport.hasHeader': 'First row contains column headers',
+    'bankImport.date': 'Date',
+    'bankImport.desc': 'Description',
+    'bankImport.debit': 'Debit (money out)',
+    'bankImport.credit': 'Credit (money in)',
+    'bankImport.singleColumnHint': 'If your bank has a single amount column, choose it for both debit and credit. Negative amounts or amounts ending in DB count as money out.',
+    'bankImport.continue': 'Continue to Review',
+    'bankImport.editMapping': 'Edit Column Mapping',
+    'bankImport.transactionCount': '{count} transactions',
+    'bankImport.skipped': ', {count} rows skipped',
+    'bankImport.noRows': 'No transactions could be read. Check the column mapping.',
+    'bankImport.possibleDuplicate': 'Possible duplicate: "{desc}" is already recorded on the same date.',
+    'bankImport.repeatedLine': 'Possible duplicate: same as line {line} of this file.',
+    'bankImport.save': 'Save {count} Transactions',
+
+    'voice.connectingToAssistant': 'Connecting to the AI Assistant...',
+    'voice.micFailed': 'Could not access the microphone. Please grant permission and try again.',
+    'voice.connectionFailed': 'The connection to the AI Assistant failed. Check that your internet connection is stable and try again.',
+    'voice.startFailed': 'Could not start the AI Assistant session. Try again.',
+    'voice.unsupportedProvider': 'The voice assistant is not available with {provider}. Choose Google Gemini in Settings.',
+    'voice.status.idle': 'Waiting',
+    'voice.status.connecting': 'Connecting...',
+    'voice.status.listening': 'Listening...',
+    'voice.status.speaking': 'AI Speaking...',
+    'voice.status.processing': 'Processing...',
+    'voice.status.finished': 'Session Ended',
+    'voice.status.error': 'Error',
+    'voice.closeSession': 'End Session',
+    'voice.staged': 'Transactions to confirm:',
+    'voice.finish': 'Finish & Confirm ({count})',
+
+    'smartInput.processing': 'The AI is processing...',
+    'smartInput.dontSave': '-- Don\'t Save --',
+    'smartInput.retry': 'Start Over',
+    'smartInput.label': 'Describe your expenses',
+    'smartInput.placeholder': 'E.g. Coffee 25k, lunch 30000, and parking 5k',
+    'smartInput.submit': 'Process with AI',
+    'smartInput.parsedLocally': 'The AI is unavailable, so the text was read on this device. Check the amounts and categories before saving.',
+    'smartInput.defaultDesc': 'Expense',
+
+    'advice.analyzing': 'The AI is analyzing your data...',
+
+    'chat.placeholder': 'Type your question...',
+
+    'menu.savings': 'Savings',
+    'menu.netWorth': 'Assets & Net Worth',
+    'menu.recurring': 'Recurring',
+    'menu.bills': 'Monthly Bills',
+    'menu.achievements': 'Badges',
+    'menu.personalBest': 'Personal Bests',
+    'menu.info': 'Monthly Info',
+    'menu.funds': 'Manage Funds',
+    'menu.scanReceipt': 'Scan Receipt',
+    'menu.smartInput': 'Smart Input',
+    'menu.aiAdvice': 'AI Advice',
+    'menu.askAI': 'Ask AI',
+    'menu.voice': 'Voice Assistant',
+    'menu.settings': 'Settings',
+
+    'batch.desc': 'Description',
+    'batch.amount': 'Amount',
+    'batch.addItem': 'Add Item',
+    'batch.total': 'Total Spending',
+    'batch.saveAll': 'Save All',
+};
+
+/** English names and descriptions of the achievements in data/achievements.ts, by id. */
+export const enAchievements: { [id: string]: { name: string; description: string } } = {
+    'first-transaction': { name: 'First Step', description: 'Record your first transaction.' },
+    'first-budget': { name: 'Reliable Planner', description: 'Create your first budget.' },
+    'first-saving-goal': { name: 'Dream Big', description: 'Create your first savings goal.' },
+    'super-saver': { name: 'True Saver', description: 'Reach the target of one of your savings goals.' },
+    'over-budget': { name: 'Learning from Mistakes', description: 'Spend more than the limit of one of your budgets.' },
+    'daily-streak-7': { name: 'Daily Discipline', description: 'Keep your daily funds out of the red for 7 days in a row.' },
+    'daily-streak-30': { name: 'Daily Master', description: 'Keep your daily funds out of the red for 30 days in a row.' },
+    'monthly-streak-14': { name: 'Financial Momentum', description: 'Keep your monthly funds out of the red for 14 days in a row.' },
+    'monthly-streak-30': { name: 'Budget Expert', description: 'Keep your monthly funds out of the red for 30 days in a row.' },
+    'monthly-streak-90': { name: 'Finance King', description: 'Keep your monthly funds out of the red for 90 days in a row.' },
+    'no-spend-day': { name: 'No-Spend Day', description: 'Get through a day without any spending.' },
+    'habit-app-open-7': { name: 'Golden Routine', description: 'Open the app 7 days in a row.' },
+    'habit-app-open-30': { name: 'Dedicated User', description: 'Open the app 30 days in a row.' },
+    'habit-morning-person-5': { name: 'Early Bird', description: 'Record spending before noon for 5 days in a row.' },
+    'milestone-saving-marathon': { name: 'Savings Sprinter', description: 'Add to a savings goal every day for a whole week.' },
+    'budget-master': { name: 'Budget Collector', description: 'Have 5 or more budgets.' },
+    'budget-portfolio-manager': { name: 'Portfolio Manager', description: 'Have 10 or more active budgets.' },
+    'budget-all-surplus': { name: 'Surplus Everywhere', description: 'Finish a month with money left in every budget.' },
+    'budget-architect': { name: 'Financial Architect', description: 'Allocate 100% of your income to budgets.' },
+    'budget-emergency-fund': { name: 'Line of Defense', description: 'Create a "Dana Darurat" (emergency fund) budget of at least Rp 1,000,000.' },
+    'finance-early-retirement': { name: 'Future Visionary', description: 'Create a budget named "Pensiun" or "Dana Hari Tua" (retirement).' },
+    'finance-no-leaks': { name: 'Tightly Shut Tap', description: 'Keep general/daily spending below 5% of the month\'s total spending.' },
+    'challenge-survival-mode': { name: 'Survival Mode', description: 'Spend less than Rp 50,000 in a single day.' },
+    'milestone-millionaire': { name: 'Millionaires\' Club', description: 'Reach total assets (general funds) of Rp 1,000,000.' },
+    'milestone-safe-finish': { name: 'Strong Finish', description: 'No spending at all in the last 3 days of the month.' },
+    'habit-perfect-month': { name: 'Perfect Record Keeper', description: 'Record a transaction every day for a whole month.' },
+    'habit-no-impulse-buy': { name: 'Peace of Mind', description: 'No "Hiburan" (entertainment) or "Jajan" (snacks) spending on the weekend.' },
+    'finance-no-subscription': { name: 'Commitment-Free', description: 'Go a month without "Langganan" (subscription) spending.' },
+    'event-new-year-resolution': { name: 'New Year\'s Resolution', description: 'Create a new savings goal in January.' },
+    'event-independence-day-saver': { name: 'Financial Freedom Fighter', description: 'Save at least Rp 170,845 in August.' },
+    'finance-discount-hunter': { name: 'Eye for a Deal', description: 'Record 5 transactions containing "diskon", "cashback" or "promo".' },
+    'finance-multiple-incomes': { name: 'Money Machine', description: 'Have 3 or more different income sources in one month.' },
+    'explore-icon-artist': { name: 'Budget Artist', description: 'Use 10 different icons for your budgets.' },
+};
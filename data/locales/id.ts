@@ -0,0 +1,841 @@
+// Indonesian messages, the reference catalog: its keys define MessageKey in utils/i18n.ts.
+// Placeholders in braces are filled by t().
+export const id = {
+    'common.new': 'Baru',
+    'common.add': 'Tambah',
+    'common.edit': 'Edit',
+    'common.delete': 'Hapus',
+    'common.close': 'Tutup',
+    'common.detail': 'Detail',
+    'common.active': 'Aktif',
+    'common.reset': 'Reset',
+    'common.featureLocked': 'Fitur Terkunci',
+    'common.ofAmount': 'dari {amount}',
+    'common.allTime': 'Semua Waktu',
+    'common.transactionHistory': 'Riwayat Transaksi',
+    'common.editTransaction': 'Edit transaksi',
+    'common.cancel': 'Batal',
+    'common.ok': 'OK',
+    'common.save': 'Simpan',
+    'common.saveChanges': 'Simpan Perubahan',
+    'common.restore': 'Pulihkan',
+
+    'dashboard.title': 'Dashboard',
+    'dashboard.remainingThisMonth': 'Sisa Dana Bulan Ini',
+    'dashboard.income': 'Pemasukan',
+    'dashboard.used': 'Terpakai',
+    'dashboard.dailyBudget': 'Anggaran Harian (Dana Tersedia)',
+    'dashboard.dailyRemaining': 'Sisa {remaining} dari kuota {quota}',
+    'dashboard.record': 'Catat',
+    'dashboard.batch': 'Sekaligus',
+    'dashboard.aiInsight': 'Wawasan AI',
+    'dashboard.aiInsightLocked': 'Tingkatkan ke versi premium untuk membuka wawasan AI.',
+    'dashboard.carriedOver': '{amount} dibawa dari bulan lalu',
+    'dashboard.useFunds': 'Gunakan Dana',
+    'dashboard.noTransactions': 'Belum ada transaksi.',
+    'dashboard.editOrArchive': 'Edit / Arsipkan',
+    'dashboard.fixedBudgets': 'Anggaran Tetap',
+    'dashboard.temporaryBudgets': 'Anggaran Sementara (Bulan Ini Saja)',
+    'dashboard.temporaryHint': 'Seret pos dari atas ke sini untuk menjadikannya sementara. Anggaran di sini akan otomatis diarsipkan di akhir bulan.',
+    'dashboard.noTemporaryBudgets': 'Belum ada anggaran sementara.',
+    'dashboard.addBudget': 'Tambah Pos Anggaran Baru',
+
+    'achievements.title': 'Lencana & Pencapaian',
+    'achievements.points': '{points} Poin',
+    'achievements.timeLimited': 'Lencana Terbatas Waktu',
+    'achievements.unlockedOn': 'Didapatkan pada:',
+    'achievements.progress': 'Progress:',
+    'achievements.noProgress': 'Anda belum memulai progress untuk lencana ini.',
+    'achievements.previousLevel': 'Lv. Sebelumnya: {points}',
+    'achievements.nextLevel': 'Lv. Berikutnya: {points}',
+    'achievements.category.basic': 'Dasar',
+    'achievements.category.habits': 'Kebiasaan Baik',
+    'achievements.category.budgetMaster': 'Master Anggaran',
+    'achievements.category.challenge': 'Tantangan',
+    'achievements.category.exploration': 'Eksplorasi',
+    'achievements.unlockedToast': 'Lencana Terbuka!',
+
+    'savings.title': 'Celengan',
+    'savings.reached': 'Tercapai!',
+    'savings.flexible': 'Fleksibel',
+    'savings.collected': 'Dana Terkumpul',
+    'savings.open': 'Buka',
+    'savings.empty': 'Anda belum punya celengan.',
+    'savings.emptyHint': 'Yuk, mulai menabung untuk tujuan Anda!',
+    'savings.form.name': 'Nama Tujuan',
+    'savings.form.namePlaceholder': 'Contoh: Dana Darurat',
+    'savings.form.noTarget': 'Tabungan tanpa target',
+    'savings.form.target': 'Target Dana (Rp)',
+    'savings.form.targetPlaceholder': 'Contoh: 15.000.000',
+    'savings.form.create': 'Buat Celengan',
+    'savings.form.available': 'Sisa Dana Tersedia',
+    'savings.form.amount': 'Nominal (Rp)',
+    'savings.detail.history': 'Riwayat Menabung',
+    'savings.detail.empty': 'Belum ada riwayat.',
+    'savings.detail.delete': 'Hapus Celengan',
+
+    'netWorth.title': 'Aset & Kekayaan Bersih',
+    'netWorth.total': 'Total Nilai Bersih',
+    'netWorth.allocation': 'Alokasi Aset',
+    'netWorth.nonCash': 'Aset Non-Tunai',
+    'netWorth.cash': 'Aset Tunai',
+    'netWorth.allocationEmpty': 'Mulai tambahkan aset untuk melihat alokasi kekayaan Anda.',
+    'netWorth.inventory': 'Inventaris Aset Non-Tunai',
+    'netWorth.empty': 'Anda belum menambahkan aset non-tunai.',
+    'netWorth.emptyHint': 'Contoh: Laptop, Kendaraan, Emas, dll.',
+    'netWorth.unitPrice': '{quantity} unit @ {price}',
+    'netWorth.noRate': 'Kurs {currency} belum ada',
+
+    'personalBest.title': 'Pencapaian Terbaik Pribadi',
+    'personalBest.noData': 'Belum ada data yang cukup untuk ditampilkan.',
+    'personalBest.notEnoughTitle': 'Data Belum Cukup',
+    'personalBest.notEnoughHint': 'Terus gunakan aplikasi setidaknya selama dua bulan untuk melihat perbandingan dan pencapaian terbaik Anda di sini.',
+    'personalBest.thriftiest': 'Bulan Paling Hemat',
+    'personalBest.totalSpending': 'Total Pengeluaran',
+    'personalBest.mostSaved': 'Bulan Menabung Terbanyak',
+    'personalBest.totalSavings': 'Total Tabungan',
+    'personalBest.mostDisciplined': 'Bulan Paling Disiplin',
+    'personalBest.budgetCount': '{count} Pos Anggaran',
+    'personalBest.budgetsOnTrack': 'Pos Sesuai Anggaran',
+
+    'recurring.title': 'Transaksi Rutin',
+    'recurring.overrideHint': 'Ubah jumlah untuk tanggal ini saja',
+    'recurring.unskip': 'Batal Lewati',
+    'recurring.skip': 'Lewati',
+    'recurring.finished': 'Selesai',
+    'recurring.paused': 'Dijeda',
+    'recurring.upcoming': 'Jadwal Berikutnya',
+    'recurring.resume': 'Lanjutkan',
+    'recurring.pause': 'Jeda',
+    'recurring.deleteLabel': 'Hapus {name}',
+    'recurring.empty': 'Belum ada transaksi rutin.',
+    'recurring.emptyHint': 'Catat gaji, sewa, atau langganan sekali saja, sisanya otomatis!',
+    'recurring.frequency.daily': 'Setiap hari',
+    'recurring.frequency.weekly': 'Setiap minggu',
+    'recurring.frequency.monthly': 'Setiap bulan',
+    'recurring.frequency.custom': 'Kustom',
+    'recurring.frequency.everyDays': 'Setiap {days} hari',
+    'recurring.target.income': 'Pemasukan',
+    'recurring.target.generalExpense': 'Pengeluaran Umum',
+    'recurring.target.daily': 'Uang Harian',
+    'recurring.target.deletedBudget': 'Pos dihapus (Uang Harian)',
+    'recurring.form.descPlaceholder': 'Contoh: Gaji, Sewa Kos, Langganan Internet',
+    'recurring.form.amountPlaceholder': 'Contoh: 1.500.000',
+    'recurring.form.target': 'Dicatat Sebagai',
+    'recurring.form.frequency': 'Frekuensi',
+    'recurring.form.interval': 'Setiap (hari)',
+    'recurring.form.start': 'Mulai',
+    'recurring.form.end': 'Berakhir (opsional)',
+    'recurring.form.monthEndHint': 'Pada bulan yang lebih pendek, transaksi akan dicatat di hari terakhir bulan tersebut.',
+    'recurring.form.save': 'Simpan Transaksi Rutin',
+
+    'bills.title': 'Tagihan Bulanan',
+    'bills.dueEveryMonth': 'Jatuh tempo tiap tanggal {day}',
+    'bills.markPaid': 'Tandai Lunas',
+    'bills.markUnpaid': 'Batal Lunas',
+    'bills.deleteLabel': 'Hapus {name}',
+    'bills.empty': 'Belum ada tagihan.',
+    'bills.emptyHint': 'Catat listrik, BPJS, atau kartu kredit agar tidak lupa bayar.',
+    'bills.status.paid': 'Lunas',
+    'bills.status.overdue': 'Terlambat {days} hari',
+    'bills.status.dueToday': 'Jatuh tempo hari ini',
+    'bills.status.dueIn': 'Jatuh tempo {days} hari lagi',
+    'bills.status.dueOn': 'Jatuh tempo {date}',
+    'bills.form.name': 'Nama Tagihan',
+    'bills.form.namePlaceholder': 'Contoh: Listrik, BPJS, Kartu Kredit',
+    'bills.form.amountPlaceholder': 'Contoh: 350.000',
+    'bills.form.dueDay': 'Tanggal Jatuh Tempo',
+    'bills.form.budget': 'Dibayar Dari',
+    'bills.form.monthEndHint': 'Pada bulan yang lebih pendek, tagihan jatuh tempo di hari terakhir bulan tersebut.',
+    'bills.form.save': 'Simpan Tagihan',
+
+    'notifications.open': 'Buka notifikasi',
+    'notifications.billsTitle': 'Tagihan',
+    'notifications.alertsTitle': 'Peringatan Anggaran',
+    'notifications.noAlerts': 'Belum ada peringatan anggaran.',
+    'notifications.dailyAlert': 'Peringatkan saat pengeluaran harian melewati batas harian',
+    'notifications.alertBrowser': 'Notifikasi browser untuk peringatan anggaran saat aplikasi di latar belakang',
+    'notifications.openWithCount': 'Buka notifikasi ({count} tagihan)',
+    'notifications.empty': 'Tidak ada tagihan yang perlu dibayar dalam waktu dekat.',
+    'notifications.settingsTitle': 'Pengingat',
+    'notifications.daysAhead': 'Ingatkan berapa hari sebelumnya',
+    'notifications.browser': 'Notifikasi browser untuk tagihan (sekali sehari)',
+    'notifications.unsupported': 'Browser ini tidak mendukung notifikasi.',
+    'notifications.denied': 'Izin notifikasi ditolak. Aktifkan lewat pengaturan browser.',
+    'notifications.manageBills': 'Kelola Tagihan',
+
+    'alerts.budgetThresholdTitle': '{name} sudah terpakai {threshold}%',
+    'alerts.budgetSpentTitle': 'Anggaran {name} sudah habis',
+    'alerts.dailyTitle': 'Pengeluaran hari ini melewati batas harian',
+    'alerts.spentOf': 'Terpakai {spent} dari {limit}',
+
+    'aiQueue.title': 'Antrean AI',
+    'aiQueue.queued': 'Tidak ada koneksi. Permintaan disimpan dan diproses otomatis saat online; hasilnya muncul di notifikasi.',
+    'aiQueue.smartInput': 'Input cerdas: "{text}"',
+    'aiQueue.scan': 'Pindai struk',
+    'aiQueue.waiting': 'Menunggu koneksi',
+    'aiQueue.sending': 'Sedang diproses',
+    'aiQueue.ready': 'Siap ditinjau',
+    'aiQueue.failed': 'Gagal diproses',
+    'aiQueue.review': 'Tinjau',
+    'aiQueue.retry': 'Coba Lagi',
+
+    'pwa.offline': 'Offline. Data tetap tersimpan di perangkat ini.',
+    'pwa.offlineQueued': 'Offline. {count} permintaan AI menunggu koneksi.',
+    'pwa.update': 'Versi baru tersedia',
+    'pwa.updateVersion': 'Versi {version} tersedia',
+    'pwa.updateHint': 'Anda memakai versi {version}. Muat ulang untuk memperbarui.',
+    'pwa.updateNow': 'Perbarui Sekarang',
+
+    'aiProvider.kind.gemini': 'Google Gemini',
+    'aiProvider.kind.openai': 'Kompatibel OpenAI (Ollama, llama.cpp)',
+    'aiProvider.kind.mock': 'Tiruan (offline, untuk pengembangan)',
+    'aiProvider.provider': 'Penyedia',
+    'aiProvider.model': 'Model',
+    'aiProvider.modelHint': 'Kosongkan untuk memakai {model}.',
+    'aiProvider.baseUrl': 'Alamat server',
+    'aiProvider.baseUrlHint': 'Sampai dengan /v1, misalnya http://localhost:11434/v1 untuk Ollama.',
+    'aiProvider.apiKey': 'Kunci API (opsional)',
+    'aiProvider.apiKeyHint': 'Disimpan tanpa enkripsi di perangkat ini. Server lokal biasanya tidak memerlukannya.',
+    'aiProvider.geminiHint': 'Memakai kunci API Gemini dari konfigurasi aplikasi.',
+    'aiProvider.openaiHint': 'Asisten suara hanya tersedia dengan Google Gemini.',
+    'aiProvider.mockHint': 'Menjawab dengan data contoh tanpa koneksi. Asisten suara tidak tersedia.',
+    'aiProvider.mock.sample': 'Contoh',
+    'aiProvider.mock.answer': 'Ini jawaban contoh dari penyedia AI tiruan. Pilih penyedia lain di Pengaturan untuk jawaban sungguhan.',
+    'aiProvider.mock.chatReply': 'Jawaban contoh untuk: "{text}"',
+
+    'reports.title': 'Laporan Global',
+    'reports.all': 'Semua',
+    'reports.list': 'Daftar',
+    'reports.calendar': 'Kalender',
+    'reports.exportCsv': 'Ekspor CSV',
+    'reports.export.transactions': 'Transaksi ({period})',
+    'reports.export.budgets': 'Anggaran vs Realisasi ({period})',
+    'reports.export.savings': 'Riwayat Celengan',
+    'reports.export.assets': 'Aset',
+    'reports.searchLabel': 'Cari / Tanya AI',
+    'reports.searchPlaceholder': 'Ketik keterangan, kategori, tag, atau catatan...',
+    'reports.aiSearchLocked': 'Pencarian Cerdas (AI) - Fitur Terkunci',
+    'reports.aiSearching': 'AI sedang mencari...',
+    'reports.noResults': 'Tidak Ada Transaksi Ditemukan',
+    'reports.noAiResults': 'Pencarian AI tidak menemukan hasil.',
+    'reports.noResultsHint': 'Coba ubah kata kunci pencarian atau pilih periode bulan yang berbeda.',
+    'reports.tagFilter': 'Filter tag:',
+    'reports.clearTagFilter': 'Hapus filter',
+    'reports.filteredSpending': 'Total Pengeluaran (sesuai filter)',
+    'reports.generalFunds': 'Dana Umum (Total Aset)',
+    'reports.transactionsOn': 'Transaksi pada {date}',
+    'reports.noTransactionsOnDate': 'Tidak ada transaksi pada tanggal ini.',
+
+    'split.saveAsOne': 'Simpan sebagai satu transaksi split',
+    'split.desc': 'Nama transaksi',
+    'split.descPlaceholder': 'Contoh: Belanja Bulanan',
+    'split.hint': 'Setiap item tetap masuk ke pos masing-masing, tetapi tampil sebagai satu transaksi di Laporan.',
+    'split.lineCount': 'Split • {count} item',
+    'split.showLines': 'Tampilkan rincian',
+    'split.hideLines': 'Sembunyikan rincian',
+    'split.deleteAll': 'Hapus transaksi split',
+
+    'tags.label': 'Tag',
+    'tags.placeholder': 'Contoh: liburan-bali, kantor',
+    'tags.remove': 'Hapus tag {tag}',
+
+    'attachments.note': 'Catatan (opsional)',
+    'attachments.notePlaceholder': 'Contoh: dibayar patungan dengan Rina',
+    'attachments.photos': 'Foto Struk',
+    'attachments.add': 'Tambah',
+    'attachments.saving': 'Menyimpan...',
+    'attachments.remove': 'Hapus foto',
+    'attachments.open': 'Lihat foto',
+    'attachments.photo': 'Foto struk',
+    'attachments.loading': 'Memuat foto...',
+    'attachments.saveFailed': 'Foto tidak dapat disimpan. Coba foto lain atau kosongkan ruang penyimpanan.',
+    'attachments.storageNotReady': 'Penyimpanan foto belum siap.',
+    'attachments.compressFailed': 'Foto tidak dapat dikompresi.',
+    'attachments.scanAttached': 'Foto struk akan disimpan bersama transaksi ini.',
+
+    'visualizations.title': 'Visualisasi Pengeluaran',
+    'visualizations.aiLocked': 'Fitur AI Terkunci',
+    'visualizations.forecast': 'Prediksi & Peringatan Dini',
+    'visualizations.transactionDetail': 'Detail Transaksi: {category}',
+    'visualizations.noTransactions': 'Tidak ada transaksi untuk ditampilkan.',
+    'visualizations.period': 'Pilih Periode Laporan',
+    'visualizations.dailyTrend': 'Tren Pengeluaran Harian ({period})',
+    'visualizations.totalSpending': 'Total Pengeluaran',
+    'visualizations.noData': 'Tidak ada data pengeluaran pada periode ini.',
+    'visualizations.dailyTrendAnalysis': 'Analisis AI Tren Harian',
+    'visualizations.budgetComparison': 'Perbandingan Anggaran ({period})',
+    'visualizations.budgeted': 'Dianggarkan',
+    'visualizations.spent': 'Terpakai',
+    'visualizations.budgetComparisonAnalysis': 'Analisis AI Perbandingan Anggaran',
+    'visualizations.allocation': 'Alokasi Pengeluaran ({period})',
+    'visualizations.category': 'Kategori',
+    'visualizations.totalSpent': 'Total Terpakai',
+    'visualizations.empty': 'Tidak ada data.',
+    'visualizations.allocationAnalysis': 'Analisis AI Alokasi Pengeluaran',
+    'visualizations.tagBreakdown': 'Pengeluaran per Tag ({period})',
+    'visualizations.tagHint': 'Pengeluaran dengan beberapa tag dihitung di setiap tagnya. Klik batang untuk melihat transaksinya.',
+    'visualizations.noTags': 'Belum ada pengeluaran bertag pada periode ini.',
+
+    'budget.rollover.reset': 'Mulai dari nol (reset)',
+    'budget.rollover.carrySurplus': 'Bawa sisa ke bulan depan',
+    'budget.rollover.carryDeficit': 'Bawa kekurangan ke bulan depan',
+    'budget.rollover.sweepToSavings': 'Pindahkan sisa ke celengan',
+
+    'app.migrated': 'Data Anda telah diperbarui ke format terbaru:',
+    'app.showMoreIssues': 'Tampilkan {count} masalah lainnya',
+    'app.loadFailed': 'Gagal memuat data.',
+    'app.loadFailedBackup': 'Data lama disimpan sebagai cadangan internal.',
+    'app.monthArchivedBefore': 'Bulan baru telah dimulai. Data',
+    'app.monthArchivedAfter': 'telah diarsipkan otomatis dan bisa dilihat di Laporan.',
+    'app.recurringPosted': 'transaksi rutin yang jatuh tempo telah dicatat otomatis.',
+
+    'backup.periodicTitle': 'Cadangan Periodik Tersedia',
+    'backup.periodicEncrypted': 'Berkas terenkripsi dengan kata sandi ekspor otomatis Anda.',
+    'backup.periodicHint': 'Simpan data Anda untuk keamanan.',
+    'backup.downloadNow': 'Unduh Sekarang',
+    'backup.later': 'Nanti',
+    'backup.notFound': 'Gagal menemukan data cadangan.',
+    'backup.labelledSource': 'Cadangan "{label}" ({date})',
+    'backup.source': 'Cadangan {date}',
+    'backup.loadFailed': 'Gagal memuat cadangan. File mungkin rusak.',
+    'backup.confirmDelete': 'Hapus cadangan ini? Data di dalamnya tidak dapat dipulihkan lagi.',
+    'backup.confirmPrune': 'Dengan aturan ini, {count} cadangan otomatis lama akan dihapus. Lanjutkan?',
+    'backup.retention.daily': 'Harian',
+    'backup.retention.weekly': 'Mingguan',
+    'backup.retention.monthly': 'Bulanan',
+    'backup.empty': 'Tidak ada cadangan internal yang ditemukan.',
+    'backup.labelPlaceholder': 'Mis. Sebelum impor mutasi',
+    'backup.automatic': 'Otomatis',
+    'backup.setLabel': 'Beri label',
+    'backup.delete': 'Hapus cadangan',
+    'backup.retentionTitle': 'Aturan Penyimpanan Cadangan Otomatis',
+    'backup.saveRetention': 'Simpan Aturan',
+    'backup.retentionHint': 'Aplikasi membuat satu cadangan otomatis setiap hari dan menyimpan cadangan terbaru dari sejumlah hari, minggu, dan bulan terakhir sesuai aturan di atas. Cadangan berlabel tidak pernah dihapus otomatis. Cadangan ini disimpan di perangkat Anda dan akan hilang jika data browser dihapus.',
+
+    'undo.undone': 'Dibatalkan: {description}',
+    'undo.redo': 'Ulangi',
+    'undo.undo': 'Urungkan',
+
+    'storage.saveFailed': 'Gagal menyimpan data ke perangkat. Perubahan terbaru mungkin belum tersimpan.',
+    'storage.unreadable': 'Data tersimpan tidak dapat dibaca.',
+    'storage.quotaExceeded': 'Penyimpanan perangkat penuh, sehingga perubahan terbaru belum tersimpan. Hapus cadangan internal lama atau ekspor data Anda, lalu coba lagi.',
+    'storage.indexedDbBlocked': 'Penyimpanan diblokir oleh tab lain aplikasi ini.',
+
+    'action.budgetCreated': 'Pos "{name}" dibuat',
+    'action.budgetEdited': 'Pos "{name}" diubah',
+    'action.budgetArchived': 'Pos "{name}" diarsipkan',
+    'action.budgetRestored': 'Pos "{name}" dipulihkan',
+    'action.budgetDeleted': 'Pos "{name}" dihapus',
+    'action.budgetsReordered': 'Urutan pos diubah',
+    'action.budgetMadeTemporary': 'Pos "{name}" dijadikan sementara',
+    'action.budgetMadeFixed': 'Pos "{name}" dijadikan tetap',
+    'action.expenseRecorded': 'Pengeluaran "{desc}" dicatat',
+    'action.expensesRecorded': '{count} pengeluaran dicatat',
+    'action.splitRecorded': 'Transaksi split "{desc}" dicatat',
+    'action.incomeRecorded': 'Pemasukan "{desc}" dicatat',
+    'action.transactionDeleted': 'Transaksi "{desc}" dihapus',
+    'action.transactionDeletedUnnamed': 'Transaksi dihapus',
+    'action.transactionEdited': 'Transaksi "{desc}" diubah',
+    'action.splitDeleted': 'Transaksi split "{desc}" dihapus',
+    'action.balanceCorrected': 'Saldo aset dikoreksi',
+    'action.assetAdded': 'Aset "{name}" ditambahkan',
+    'action.assetEdited': 'Aset "{name}" diubah',
+    'action.assetDeleted': 'Aset "{name}" dihapus',
+    'action.rateSaved': 'Kurs {currency} tanggal {date} disimpan',
+    'action.rateDeleted': 'Kurs {currency} tanggal {date} dihapus',
+    'action.baseCurrencyChanged': 'Mata uang dasar diubah ke {currency}',
+    'action.savingsGoalCreated': 'Celengan "{name}" dibuat',
+    'action.savingsAdded': 'Tabungan ke "{name}" dicatat',
+    'action.savingsGoalOpened': 'Celengan "{name}" dibuka',
+    'action.savingsGoalDeleted': 'Celengan "{name}" dihapus',
+    'action.recurringCreated': 'Transaksi rutin "{desc}" dibuat',
+    'action.recurringEdited': 'Transaksi rutin "{desc}" diubah',
+    'action.recurringResumed': 'Transaksi rutin "{desc}" dilanjutkan',
+    'action.recurringPaused': 'Transaksi rutin "{desc}" dijeda',
+    'action.recurringScheduleChanged': 'Jadwal transaksi rutin {date} diubah',
+    'action.recurringAmountChanged': 'Jumlah transaksi rutin {date} diubah',
+    'action.recurringDeleted': 'Transaksi rutin "{desc}" dihapus',
+    'action.billCreated': 'Tagihan "{name}" ditambahkan',
+    'action.billEdited': 'Tagihan "{name}" diubah',
+    'action.billDeleted': 'Tagihan "{name}" dihapus',
+    'action.billMarkedUnpaid': 'Tagihan "{name}" {month} ditandai belum lunas',
+    'action.bankRowsImported': '{count} transaksi dari mutasi bank diimpor',
+    'action.dataMerged': 'Data digabungkan',
+    'action.dataReplaced': 'Data diganti',
+    'action.monthReset': 'Data bulan ini direset',
+
+    'confirm.archiveBudget': 'Anda yakin ingin mengarsipkan pos ini? Anda bisa memulihkannya kapan saja dari menu Pengaturan.',
+    'confirm.deletePermanentlyTitle': 'Hapus Permanen?',
+    'confirm.deleteBudgetBefore': 'Anda akan menghapus pos "',
+    'confirm.deleteBudgetAfter': '" dan SEMUA riwayat transaksinya.',
+    'confirm.overageExpense': 'Pengeluaran',
+    'confirm.overageAmount': 'Jumlah',
+    'confirm.overageExceeds': 'melebihi sisa kuota.',
+    'confirm.overageTakenBefore': 'Sebesar',
+    'confirm.overageTakenAfter': 'akan diambil dari "Dana Tersedia". Lanjutkan?',
+    'confirm.deleteAsset': 'Anda yakin ingin menghapus aset ini dari daftar?',
+    'confirm.changeBaseCurrencyBefore': 'Ubah mata uang dasar ke',
+    'confirm.changeBaseCurrencyAfter': '? Semua nominal dikonversi dengan kurs yang tercatat, dan nominal dalam {currency} tetap terlihat sebagai nominal asli.',
+    'confirm.insufficientFunds': 'Dana tersedia tidak mencukupi. Sisa dana tersedia hanya',
+    'confirm.openSavingsGoal': 'Anda yakin ingin "membuka" tabungan "{name}"? Dana sebesar {amount} akan dikembalikan ke dana tersedia dan tabungan ini akan menjadi kosong.',
+    'confirm.deleteFlexibleSavingsGoal': 'Anda yakin ingin menghapus celengan "{name}"? Dana sebesar {amount} akan dikembalikan.',
+    'confirm.deleteSavingsGoal': 'Anda yakin ingin menghapus celengan "{name}"? Dana sebesar {amount} akan dikembalikan ke dana tersedia.',
+    'confirm.recurringBackfilled': 'Tanggal mulai sudah lewat. Transaksi yang seharusnya terjadi sejak tanggal tersebut telah dicatat otomatis.',
+    'confirm.deleteRecurring': 'Hapus transaksi rutin "{desc}"? Transaksi yang sudah tercatat tidak akan terhapus.',
+    'confirm.deleteBill': 'Hapus tagihan "{name}"? Pembayaran yang sudah tercatat tidak akan terhapus.',
+    'confirm.resetMonth': 'PERINGATAN: Ini akan menghapus semua data bulan ini TANPA diarsipkan. Hanya untuk uji coba. Lanjutkan?',
+    'confirm.resetAllTitle': 'HAPUS SEMUA DATA?',
+    'confirm.resetAll': 'Tindakan ini tidak dapat diurungkan dan akan menghapus semua anggaran, transaksi, dan pencapaian Anda secara permanen.',
+    'confirm.deleteGlobalTransaction': 'Yakin ingin menghapus transaksi ini secara PERMANEN dari seluruh data?',
+    'confirm.deleteSplit': 'Yakin ingin menghapus transaksi split "{desc}" beserta semua itemnya secara PERMANEN?',
+    'confirm.deleteTransaction': 'Yakin menghapus transaksi ini? Dana akan dikembalikan.',
+
+    'import.fileSource': 'Berkas {name}',
+    'import.loadFailed': 'Gagal memuat file. Pastikan file cadangan tidak rusak dan berformat .json yang benar.',
+    'import.decryptedLoadFailed': 'Gagal memuat file. Pastikan file cadangan tidak rusak.',
+    'import.csvEmpty': 'File CSV kosong atau tidak dapat dibaca.',
+    'import.bankRowsSaved': '{count} transaksi dari mutasi bank berhasil disimpan.',
+    'import.corrupt': 'Data tidak dapat dimuat karena rusak:',
+    'import.count.budgets': 'Pos anggaran',
+    'import.count.transactions': 'Transaksi',
+    'import.count.goals': 'Celengan',
+    'import.count.assets': 'Aset',
+    'import.budgetName': 'Pos "{name}"',
+    'import.goalName': 'Celengan "{name}"',
+    'import.showMore': 'Tampilkan {count} transaksi lainnya',
+    'import.replaceAll': 'Ganti Semua',
+    'import.merge': 'Gabungkan',
+    'import.data': 'Data',
+    'import.current': 'Saat ini',
+    'import.afterImport': 'Setelah impor',
+    'import.difference': 'Selisih',
+    'import.willAdd': 'Akan ditambahkan',
+    'import.willRemove': 'Akan dihapus',
+    'import.issuesFound': 'Ditemukan {count} masalah yang akan diperbaiki otomatis',
+    'import.conflicts': '{count} perbedaan perlu Anda periksa',
+    'import.noConflicts': 'Data dari kedua perangkat dapat digabung tanpa konflik.',
+    'import.replaceWarning': 'Semua data saat ini akan diganti dan tidak dapat dikembalikan.',
+    'import.fixAndImport': 'Perbaiki & Impor',
+    'import.import': 'Impor',
+    'import.sourceLabel': 'Sumber:',
+    'import.zipCorrupt': 'Berkas ZIP rusak atau tidak didukung.',
+    'import.zipCompressionUnavailable': 'Browser ini tidak dapat membuka berkas ZIP yang dikompresi.',
+    'import.zipMethodUnsupported': 'Metode kompresi ZIP tidak didukung ({method}).',
+    'import.zipNoData': 'Berkas ZIP tidak berisi data anggaran.',
+
+    'location.item': '{location} #{index}',
+    'location.entry': '{location}, entri #{index}',
+    'location.history': '{location}, riwayat',
+    'location.file': 'Berkas',
+    'location.budgets': 'Pos anggaran',
+    'location.budget': 'Pos "{name}"',
+    'location.archives': 'Arsip',
+    'location.archive': 'Arsip {month}',
+    'location.goals': 'Celengan',
+    'location.goal': 'Celengan "{name}"',
+    'location.deletedGoals': 'Celengan yang dihapus',
+    'location.assets': 'Aset',
+    'location.asset': 'Aset "{name}"',
+    'location.recurringRules': 'Transaksi rutin',
+    'location.recurringRule': 'Transaksi rutin "{name}"',
+    'location.bills': 'Tagihan',
+    'location.bill': 'Tagihan "{name}"',
+    'location.budgetAlerts': 'Peringatan anggaran',
+    'location.exchangeRates': 'Kurs',
+    'location.exchangeRate': 'Kurs {currency}',
+    'location.dailyExpenses': 'Pengeluaran harian',
+    'location.fundHistory': 'Riwayat dana',
+    'location.baseCurrency': 'Mata uang dasar',
+    'location.achievements': 'Lencana',
+
+    'validation.notList': 'Bukan berupa daftar.',
+    'validation.notObject': 'Entri bukan berupa objek.',
+    'validation.notJsonObject': 'Data tidak berformat objek JSON.',
+    'validation.missingBudgets': 'Daftar pos anggaran tidak ditemukan.',
+    'validation.missingArchives': 'Daftar arsip bulanan tidak ditemukan.',
+    'validation.invalidAmount': 'Jumlah tidak valid ({value}).',
+    'validation.amountAsText': 'Jumlah tersimpan sebagai teks.',
+    'validation.negativeAmount': 'Jumlah bernilai negatif.',
+    'validation.invalidTimestamp': 'Waktu transaksi tidak valid.',
+    'validation.unknownType': 'Jenis transaksi tidak dikenal ({type}).',
+    'validation.missingDesc': 'Keterangan kosong atau bukan teks.',
+    'validation.missingId': 'Transaksi tidak memiliki ID.',
+    'validation.invalidTransactionId': 'ID transaksi tidak valid atau ganda.',
+    'validation.invalidOriginalCurrency': 'Mata uang asli tidak valid.',
+    'validation.invalidTags': 'Tag tidak valid.',
+    'validation.invalidNote': 'Catatan bukan teks.',
+    'validation.invalidAttachments': 'Daftar foto tidak valid.',
+    'validation.invalidId': 'ID tidak valid.',
+    'validation.duplicateId': 'ID ganda ({id}).',
+    'validation.emptyBudgetName': 'Nama pos kosong.',
+    'validation.invalidBudgetAmount': 'Jumlah anggaran tidak valid ({value}).',
+    'validation.missingHistory': 'Riwayat transaksi tidak ditemukan.',
+    'validation.invalidThresholds': 'Batas peringatan tidak valid.',
+    'validation.invalidArchiveMonth': 'Bulan arsip tidak valid ({month}).',
+    'validation.duplicateArchiveMonth': 'Bulan yang sama muncul lebih dari sekali.',
+    'validation.emptyGoalName': 'Nama celengan kosong.',
+    'validation.invalidSavedAmount': 'Jumlah terkumpul tidak valid.',
+    'validation.invalidGoalTarget': 'Target celengan tidak valid.',
+    'validation.invalidOpenedAt': 'Waktu celengan dibuka tidak valid.',
+    'validation.emptyAssetName': 'Nama aset kosong.',
+    'validation.invalidQuantity': 'Jumlah unit tidak valid ({value}).',
+    'validation.invalidPrice': 'Harga per unit tidak valid ({value}).',
+    'validation.unknownCurrency': 'Mata uang tidak dikenal ({currency}).',
+    'validation.invalidSchedule': 'Tanggal jadwal tidak valid.',
+    'validation.unknownTarget': 'Tujuan transaksi tidak dikenal.',
+    'validation.emptyBillName': 'Nama tagihan kosong.',
+    'validation.invalidDueDay': 'Tanggal jatuh tempo tidak valid ({value}).',
+    'validation.invalidBillBudget': 'Pos anggaran tidak valid.',
+    'validation.invalidPayments': 'Riwayat pembayaran tidak valid.',
+    'validation.invalidAlert': 'Data peringatan tidak valid.',
+    'validation.invalidDeletedGoal': 'Data celengan yang dihapus tidak valid.',
+    'validation.invalidRate': 'Mata uang, tanggal, atau nilai kurs tidak valid.',
+    'validation.unknownBaseCurrency': 'Kode mata uang tidak dikenal ({currency}).',
+    'validation.invalidAchievements': 'Data lencana tidak valid.',
+    'validation.invalidAchievementData': 'Data progres lencana tidak valid.',
+    'validation.invalidLastArchiveDate': 'Tanggal pengarsipan terakhir tidak valid.',
+    'validation.invalidSchemaVersion': 'Versi skema tidak valid.',
+    'validation.repair.cleared': 'Dikosongkan.',
+    'validation.repair.removed': 'Dihapus.',
+    'validation.repair.entryRemoved': 'Entri dihapus.',
+    'validation.repair.toNumber': 'Diubah menjadi angka.',
+    'validation.repair.madePositive': 'Dijadikan positif.',
+    'validation.repair.filled': 'Diisi "{text}".',
+    'validation.repair.named': 'Diberi nama "{name}".',
+    'validation.repair.newId': 'Diberi ID baru.',
+    'validation.repair.newIdValue': 'Diberi ID baru ({id}).',
+    'validation.repair.baseAmountOnly': 'Hanya jumlah dalam mata uang dasar yang disimpan.',
+    'validation.repair.textTagsOnly': 'Hanya tag berupa teks yang disimpan.',
+    'validation.repair.noteRemoved': 'Catatan dihapus.',
+    'validation.repair.textPhotoIdsOnly': 'Hanya ID foto berupa teks yang disimpan.',
+    'validation.repair.setToZero': 'Diatur menjadi 0.',
+    'validation.repair.emptyHistory': 'Dibuat riwayat kosong.',
+    'validation.repair.validThresholdsOnly': 'Hanya batas yang valid yang disimpan.',
+    'validation.repair.archiveRemoved': 'Arsip dihapus.',
+    'validation.repair.archivesCombined': 'Transaksinya digabung.',
+    'validation.repair.recomputed': 'Dihitung ulang dari riwayat.',
+    'validation.repair.noTarget': 'Dijadikan celengan tanpa target.',
+    'validation.repair.baseCurrency': 'Dianggap mata uang dasar.',
+    'validation.repair.ruleRemoved': 'Aturan dihapus.',
+    'validation.repair.firstDay': 'Diatur ke tanggal 1.',
+    'validation.repair.paidFromDaily': 'Dibayar dari uang harian.',
+    'validation.repair.validPaymentsOnly': 'Hanya pembayaran yang valid yang disimpan.',
+    'validation.repair.alertRemoved': 'Peringatan dihapus.',
+    'validation.repair.rateRemoved': 'Kurs dihapus.',
+    'validation.repair.rupiah': 'Diatur ke Rupiah (IDR).',
+    'validation.repair.badgesCleared': 'Daftar lencana dikosongkan.',
+    'validation.repair.progressReset': 'Progres direset.',
+    'validation.repair.version1': 'Dianggap versi 1.',
+
+    'merge.keepLocal': 'Dipakai data perangkat ini.',
+    'merge.transaction': 'Transaksi',
+    'merge.currencyDiffers': 'Data yang diimpor memakai {incoming}, perangkat ini {local}.',
+    'merge.converted': 'Jumlah dikonversi ke {currency} dengan kurs dari data yang diimpor.',
+    'merge.notConverted': 'Tidak ada kurs {currency} di data yang diimpor, jumlah tidak dikonversi.',
+    'merge.entryDiffers': '"{desc}" ({date}) tercatat berbeda di kedua perangkat.',
+    'merge.budgetAmountDiffers': 'Jumlah anggaran berbeda ({local} dan {incoming}).',
+    'merge.rolloverDiffers': 'Aturan sisa anggaran akhir bulan berbeda.',
+    'merge.archivedOnOneDevice': 'Pos diarsipkan di salah satu perangkat saja.',
+    'merge.goalTargetDiffers': 'Target celengan berbeda.',
+    'merge.assetDiffers': 'Jumlah atau harga aset berbeda.',
+    'merge.amountDiffers': 'Jumlah berbeda ({local} dan {incoming}).',
+    'merge.billDiffers': 'Jumlah atau tanggal jatuh tempo berbeda.',
+    'merge.rateDiffers': 'Nilai kurs berbeda ({local} dan {incoming}).',
+
+    'migration.notObject': 'Data tidak berformat objek JSON.',
+    'migration.newerVersion': 'Data berasal dari versi aplikasi yang lebih baru (skema v{version}). Perbarui aplikasi terlebih dahulu.',
+    'migration.stepFailed': 'Migrasi ke skema v{version} gagal: {problem}',
+    'migration.v2': 'Lencana kini menyimpan waktu saat dibuka.',
+    'migration.v2.problem': 'Data lencana tidak berformat daftar waktu buka.',
+    'migration.v3': 'Menambahkan tempat untuk transaksi rutin.',
+    'migration.v3.problem': 'Daftar transaksi rutin tidak ditemukan.',
+    'migration.v4': 'Setiap transaksi diberi ID unik.',
+    'migration.v4.problem': 'Masih ada transaksi tanpa ID.',
+    'migration.v5': 'Menambahkan mata uang dasar (Rupiah) dan tabel kurs.',
+    'migration.v5.problem': 'Tabel kurs tidak ditemukan.',
+    'migration.v6': 'Menambahkan tempat untuk tagihan bulanan.',
+    'migration.v6.problem': 'Daftar tagihan tidak ditemukan.',
+    'migration.v7': 'Menambahkan riwayat peringatan anggaran.',
+    'migration.v7.problem': 'Riwayat peringatan anggaran tidak ditemukan.',
+    'migration.v8': 'Celengan yang dihapus dicatat agar tidak muncul lagi saat data digabung.',
+    'migration.v8.problem': 'Daftar celengan yang dihapus tidak ditemukan.',
+    'migration.v9': 'Jumlah uang disimpan sebagai bilangan bulat dalam satuan terkecil mata uang (sen untuk USD).',
+    'migration.v9.problem': 'Ada jumlah uang yang bukan bilangan bulat.',
+
+    'ai.scanFailed': 'Gagal memindai struk. Coba lagi dengan gambar yang lebih jelas.',
+    'ai.smartInputEmpty': 'Mohon masukkan deskripsi transaksi.',
+    'ai.smartInputPrompt': 'Analisis teks berikut yang berisi transaksi keuangan dalam Bahasa Indonesia. Ekstrak setiap transaksi individual (deskripsi dan jumlahnya). Untuk setiap transaksi, tentukan kategori anggaran yang paling sesuai dari daftar ini: [{categories}]. Jika tidak ada yang cocok, gunakan "{fallback}". Respons Anda HARUS berupa array JSON yang valid dari objek, di mana setiap objek memiliki kunci "desc", "amount", dan "category". Teks: "{text}"',
+    'ai.smartInputFailed': 'Gagal memproses input. Coba lagi dengan format yang lebih sederhana.',
+    'ai.budgetUsedLine': '* {name}: Terpakai {used} dari kuota {quota}',
+    'ai.noBudgets': 'Tidak ada pos anggaran yang dibuat.',
+    'ai.advicePrompt': 'Berikut adalah ringkasan data keuangan saya untuk bulan ini dalam Rupiah (IDR):\n\n* Total Pemasukan: {income}\n* Total Pengeluaran: {spending}\n* Sisa Dana Bulan Ini: {remaining}\n\nRincian Pengeluaran berdasarkan Pos Anggaran:\n{budgetDetails}\n\nTotal Pengeluaran Harian (di luar pos anggaran): {dailySpent}\n\nSisa Dana yang Tidak Terikat Anggaran: {unallocated}\n\nBerdasarkan data ini, berikan saya analisis singkat dan beberapa saran praktis dalam Bahasa Indonesia untuk mengelola keuangan saya dengan lebih baik. Fokus pada area di mana saya bisa berhemat atau melakukan optimalisasi. Berikan jawaban dalam format poin-poin (bullet points) menggunakan markdown.',
+    'ai.adviceFailed': 'Gagal mendapatkan saran dari AI. Silakan coba lagi nanti.',
+    'ai.weekBudgetLine': '* {name}: Terpakai {used}',
+    'ai.noWeekBudgetSpending': 'Tidak ada pengeluaran signifikan dari pos anggaran.',
+    'ai.insightPrompt': 'Sebagai asisten keuangan AI, berikan analisis singkat dan peringatan proaktif berdasarkan data keuangan 7 hari terakhir ini (dalam IDR). \nFokus pada:\n1. Pemasukan atau pengeluaran terbesar yang signifikan.\n2. Peringatan jika total pengeluaran mendekati atau melebihi pemasukan.\n3. Sorot tren boros jika ada.\n\nBerikan jawaban singkat, tajam, dan langsung ke intinya dalam Bahasa Indonesia tanpa sapaan.\n\nData Keuangan 7 Hari Terakhir:\n- Pemasukan: {income}\n- Pengeluaran Total: {spending}\n- Pengeluaran dari Pos Anggaran:\n{budgetDetails}\n- Pengeluaran Harian/Umum: {dailySpending}',
+    'ai.noInsight': 'Tidak ada saran untuk saat ini.',
+    'ai.insightFailed': 'Gagal mengambil wawasan. Periksa koneksi atau coba lagi.',
+    'ai.insightNeedsIncome': 'Tambahkan pemasukan bulan ini untuk mendapatkan wawasan dari AI.',
+    'ai.chatBudgetLine': '* Pos Anggaran "{name}": Kuota {quota}, Terpakai {used}, Sisa {remaining}',
+    'ai.chatTransactionLine': '* {date}: {desc} ({sign} {amount}) - Kategori: {category}',
+    'ai.incomeCategory': 'Pemasukan',
+    'ai.generalCategory': 'Umum',
+    'ai.chatContext': 'Anda adalah asisten keuangan AI yang ramah dan membantu. Tugas Anda adalah menjawab pertanyaan pengguna HANYA berdasarkan data keuangan yang saya berikan di bawah ini. Jangan membuat informasi atau memberikan saran di luar data. Jawab dalam Bahasa Indonesia. Berikut adalah ringkasan data keuangan pengguna untuk bulan ini (dalam IDR): **Ringkasan Umum:** * Total Pemasukan: {income}, * Total Pengeluaran Keseluruhan: {spending}, * Sisa Dana (Pemasukan - Pengeluaran): {remaining}, * Total Dana yang Dialokasikan ke Pos Anggaran: {allocated}, * Dana Tersedia Untuk Pengeluaran Harian/Umum (di luar pos): {available}. **Rincian Pos Anggaran:** {budgetDetails}. **Rincian 10 Transaksi Terakhir:** {transactions}. Data sudah lengkap. Anda siap menjawab pertanyaan pengguna.',
+    'ai.chatReady': 'Data diterima. Saya siap membantu.',
+    'ai.chatGreeting': 'Halo! Saya asisten AI Anda. Silakan tanyakan apa saja tentang data keuangan Anda bulan ini.',
+    'ai.chatStartFailed': 'Gagal memulai sesi chat. Silakan coba lagi.',
+    'ai.chatInactive': 'Sesi chat tidak aktif. Silakan tutup dan buka kembali.',
+    'ai.chatSendFailed': 'Gagal mengirim pesan. Mohon coba lagi.',
+    'ai.searchFailed': 'Gagal melakukan pencarian AI. Coba lagi.',
+    'ai.voiceInstruction': 'Anda adalah asisten keuangan AI yang ramah dalam Bahasa Indonesia. Tugas Anda adalah membantu pengguna mencatat transaksi. Tanyakan detail jika perlu, konfirmasikan setiap transaksi setelah Anda memanggil fungsi \'catatTransaksi\', dan tanyakan apakah ada lagi. Gunakan kategori yang tersedia: [{categories}]. Jika ragu, gunakan \'{fallback}\'.',
+
+    'history.funds': 'Riwayat Dana Bulan Ini',
+    'history.daily': 'Riwayat Pengeluaran Harian',
+    'history.empty': 'Tidak ada riwayat.',
+    'history.paid': 'Dibayar {amount}',
+
+    'level.beginner': 'Pemula Finansial',
+    'level.smartManager': 'Pengelola Cerdas',
+    'level.budgetExpert': 'Pakar Anggaran',
+    'level.financeSultan': 'Sultan Finansial',
+    'level.master': 'Master Keuangan',
+
+    'modal.editBudget': 'Edit Pos Anggaran',
+    'modal.useMoney': 'Gunakan Uang',
+    'modal.editAsset': 'Edit Aset',
+    'modal.addAsset': 'Tambah Aset Baru',
+    'modal.editRecurring': 'Edit Transaksi Rutin',
+    'modal.addRecurring': 'Tambah Transaksi Rutin',
+    'modal.editBill': 'Edit Tagihan',
+    'modal.addBill': 'Tambah Tagihan',
+    'modal.notifications': 'Notifikasi',
+    'modal.aiProvider': 'Penyedia AI',
+    'modal.batchInput': 'Catat Banyak Pengeluaran',
+    'modal.addBudget': 'Buat Pos Anggaran Baru',
+    'modal.addSavingsGoal': 'Buat Celengan Baru',
+    'modal.funds': 'Kelola Dana Bulan Ini',
+    'modal.editTransaction': 'Edit Transaksi',
+    'modal.info': 'Info Keuangan Bulan Ini',
+    'modal.editBalance': 'Koreksi Saldo Aset',
+    'modal.menu': 'Menu & Opsi',
+    'modal.settings': 'Pengaturan & Opsi',
+    'modal.currency': 'Mata Uang & Kurs',
+    'modal.bankImport': 'Impor Mutasi Bank',
+    'modal.archivedBudgets': 'Kelola Anggaran Diarsipkan',
+    'modal.importPreview': 'Pratinjau Impor Data',
+    'modal.exportData': 'Ekspor Data',
+    'modal.decryptImport': 'Buka Berkas Terenkripsi',
+    'modal.backupRestore': 'Cadangan Internal',
+    'modal.scanResult': 'Hasil Pindai Struk',
+    'modal.voiceAssistant': 'Asisten Suara Interaktif',
+    'modal.voiceResult': 'Konfirmasi Transaksi Suara',
+    'modal.smartInput': 'Input Transaksi Cerdas',
+    'modal.aiAdvice': 'Saran Keuangan dari AI',
+    'modal.aiChat': 'Tanya AI',
+    'modal.addSavings': 'Tambah Tabungan: {name}',
+    'modal.savingsDetail': 'Detail: {name}',
+
+    'nav.dashboard': 'Dashboard',
+    'nav.reports': 'Laporan',
+    'nav.charts': 'Grafik',
+    'nav.menu': 'Menu',
+
+    'currency.label': 'Mata Uang',
+    'currency.base': 'Mata Uang Dasar',
+    'currency.baseHint': 'Semua total dihitung dalam mata uang ini. Untuk menggantinya, catat dulu kurs mata uang tujuan.',
+    'currency.change': 'Ubah',
+    'currency.noRateFor': 'Belum ada kurs {currency}. Tambahkan kurs di bawah terlebih dahulu.',
+    'currency.recordRate': 'Catat Kurs',
+    'currency.validFrom': 'Berlaku Sejak',
+    'currency.rateExample': 'Contoh: 16250',
+    'currency.saveRate': 'Simpan Kurs',
+    'currency.rateHistory': 'Riwayat Kurs',
+    'currency.noRates': 'Belum ada kurs. Transaksi dan aset hanya bisa dicatat dalam {currency}.',
+    'currency.since': 'Sejak {date}',
+    'currency.deleteRate': 'Hapus kurs',
+    'currency.conversionHint': 'Transaksi dikonversi dengan kurs yang berlaku pada tanggalnya saat dicatat. Mengubah kurs tidak mengubah transaksi yang sudah tercatat.',
+
+    'form.allocation': 'Alokasi Dana',
+    'form.dailyMoney': 'Uang Harian',
+    'form.description': 'Keterangan',
+    'form.analyzing': 'Menganalisis...',
+    'form.moveTo': 'Pindahkan ke "{category}"',
+    'form.budgetName': 'Nama Pos Anggaran',
+    'form.quota': 'Kuota Dana (Rp)',
+    'form.amountIn': 'Nominal ({currency})',
+    'form.rolloverPolicy': 'Sisa Kuota di Akhir Bulan',
+    'form.rolloverGoal': 'Celengan Tujuan',
+    'form.chooseGoal': '-- Pilih Celengan --',
+    'form.noGoalsHint': 'Buat celengan terlebih dahulu di menu Celengan.',
+    'form.alertThresholds': 'Peringatan Saat Terpakai',
+    'form.alertThresholdsHint': 'Setiap batas memberi peringatan sekali per bulan.',
+    'form.alertThresholdsOff': 'Peringatan untuk pos ini nonaktif.',
+    'form.archiveBudget': 'Arsipkan Pos Ini',
+    'form.budgetNameNew': 'Nama Anggaran',
+    'form.budgetNamePlaceholder': 'Contoh: Belanja Bulanan',
+    'form.amountPlaceholder': 'Contoh: 1.000.000',
+    'form.addBudget': 'Tambah Pos Anggaran',
+    'form.chooseIcon': 'Pilih Ikon',
+    'form.chooseColor': 'Pilih Warna',
+    'form.selectColor': 'Pilih warna {color}',
+    'form.descriptionLabel': 'Deskripsi',
+    'form.amountRp': 'Jumlah (Rp)',
+    'form.chooseBudget': '-- Pilih Pos Anggaran --',
+
+    'asset.name': 'Nama Aset',
+    'asset.namePlaceholder': 'Contoh: Laptop MacBook Pro',
+    'asset.quantity': 'Jumlah',
+    'asset.quantityPlaceholder': 'Contoh: 1',
+    'asset.price': 'Perkiraan Harga per Unit ({currency})',
+    'asset.pricePlaceholder': 'Contoh: 20.000.000',
+    'asset.save': 'Simpan Aset',
+
+    'target.income': 'Pemasukan',
+    'target.generalExpense': 'Pengeluaran Umum',
+    'target.budget': 'Pos: {name}',
+    'target.archived': ' (diarsipkan)',
+
+    'funds.type': 'Jenis Transaksi',
+    'funds.process': 'Proses Transaksi',
+    'funds.viewHistory': 'Lihat Riwayat',
+
+    'editTransaction.archivedHint': 'Transaksi ini sudah diarsipkan. Perubahan hanya memengaruhi laporan bulan terkait.',
+    'editTransaction.time': 'Waktu',
+    'editTransaction.category': 'Kategori',
+    'editTransaction.deletedBudget': '{category} (pos dihapus)',
+    'editTransaction.savingsHint': 'Setoran celengan: jumlah celengan akan ikut disesuaikan.',
+
+    'info.income': 'Total Pemasukan Bulan Ini',
+    'info.allocated': 'Dialokasikan ke Pos',
+    'info.unallocated': 'Dana Tak Terikat (Awal)',
+    'info.generalAndDaily': 'Pengeluaran Umum & Harian',
+    'info.remaining': 'Sisa Dana Tak Terikat',
+
+    'editBalance.label': 'Total Aset Seharusnya (Rp)',
+    'editBalance.save': 'Simpan Koreksi',
+
+    'settings.language': 'Bahasa / Language',
+    'settings.budgetManagement': 'Manajemen Anggaran',
+    'settings.archivedBudgets': 'Kelola Pos Anggaran Diarsipkan',
+    'settings.currency': 'Mata Uang & Kurs',
+    'settings.ai': 'Asisten AI',
+    'settings.aiProvider': 'Penyedia AI: {provider}',
+    'settings.backup': 'Cadangan & Pemulihan',
+    'settings.manualBackup': 'Cadangkan Manual Sekarang',
+    'settings.manageBackups': 'Kelola Cadangan Internal',
+    'settings.backupHint': 'Cadangan otomatis harian untuk memulihkan data jika terjadi kesalahan.',
+    'settings.dataManagement': 'Manajemen Data',
+    'settings.import': 'Impor Data dari File',
+    'settings.importBank': 'Impor Mutasi Bank (CSV)',
+    'settings.export': 'Ekspor Data ke File',
+    'settings.dangerZone': 'Zona Berbahaya',
+    'settings.resetMonth': 'Reset Data Bulan Ini',
+    'settings.resetAll': 'Reset Semua Data Aplikasi',
+    'settings.about': 'Tentang Aplikasi',
+    'settings.version': 'Versi: {version}',
+    'settings.author': 'Pembuat Asli: {name}',
+    'settings.technology': 'Teknologi: {stack}',
+
+    'archived.empty': 'Tidak ada pos anggaran yang diarsipkan.',
+    'archived.deletePermanently': 'Hapus Permanen',
+
+    'export.passphraseTooShort': 'Kata sandi minimal {count} karakter.',
+    'export.passphraseMismatch': 'Konfirmasi kata sandi tidak cocok.',
+    'export.failed': 'Gagal membuat berkas ekspor.',
+    'export.intro': 'Berkas ekspor berisi seluruh riwayat keuangan Anda. Enkripsi melindunginya jika berkas tersimpan di tempat yang dapat diakses orang lain.',
+    'export.encrypt': 'Enkripsi dengan kata sandi',
+    'export.passphrase': 'Kata Sandi',
+    'export.repeatPassphrase': 'Ulangi Kata Sandi',
+    'export.useForAutoExport': 'Gunakan juga untuk cadangan periodik otomatis',
+    'export.storedOnDevice': '(kata sandi disimpan di perangkat ini)',
+    'export.unrecoverable': 'Kata sandi tidak dapat dipulihkan. Tanpa kata sandi, berkas ini tidak dapat dibuka.',
+    'export.preparing': 'Menyiapkan...',
+    'export.encrypted': 'Ekspor Terenkripsi',
+    'export.json': 'Ekspor JSON',
+    'export.zip': 'Ekspor ZIP dengan Foto',
+    'export.includeAttachments': 'Sertakan {count} foto struk (berkas .zip)',
+    'export.attachmentsNotEncrypted': 'Foto tidak dapat disertakan dalam ekspor terenkripsi.',
+
+    'decrypt.unreadable': 'Isi berkas tidak dapat dibaca setelah dibuka.',
+    'decrypt.wrongPassphrase': 'Kata sandi salah atau berkas cadangan rusak.',
+    'decrypt.newerVersion': 'Berkas ini dibuat oleh versi aplikasi yang lebih baru. Perbarui aplikasi terlebih dahulu.',
+    'decrypt.invalidFile': 'File terenkripsi tidak valid atau rusak.',
+    'decrypt.intro': 'Berkas {name} terenkripsi. Masukkan kata sandi yang digunakan saat mengekspor.',
+    'decrypt.placeholder': 'Kata sandi',
+    'decrypt.opening': 'Membuka...',
+    'decrypt.open': 'Buka Berkas',
+
+    'scan.scanning': 'Memindai struk Anda...',
+    'scan.noItems': 'Tidak ada item yang terdeteksi.',
+    'scan.saveSelected': 'Simpan Transaksi Terpilih',
+
+    'bankImport.column': 'Kolom {number}',
+    'bankImport.none': '-- Tidak ada --',
+    'bankImport.file': 'Berkas:',
+    'bankImport.rowCount': '({count} baris)',
+    'bankImport.hasHeader': 'Baris pertama berisi judul kolom',
+    'bankImport.date': 'Tanggal',
+    'bankImport.desc': 'Keterangan',
+    'bankImport.debit': 'Debit (uang keluar)',
+    'bankImport.credit': 'Kredit (uang masuk)',
+    'bankImport.singleColumnHint': 'Jika bank Anda hanya punya satu kolom jumlah, pilih kolom itu untuk debit dan kredit. Jumlah negatif atau berakhiran DB dianggap uang keluar.',
+    'bankImport.continue': 'Lanjut ke Peninjauan',
+    'bankImport.editMapping': 'Ubah Pemetaan Kolom',
+    'bankImport.transactionCount': '{count} transaksi',
+    'bankImport.skipped': ', {count} baris dilewati',
+    'bankImport.noRows': 'Tidak ada transaksi yang terbaca. Periksa kembali pemetaan kolom.',
+    'bankImport.possibleDuplicate': 'Kemungkinan duplikat: "{desc}" sudah tercatat di tanggal yang sama.',
+    'bankImport.repeatedLine': 'Kemungkinan duplikat: sama dengan baris {line} di berkas ini.',
+    'bankImport.save': 'Simpan {count} Transaksi',
+
+    'voice.connectingToAssistant': 'Menghubungkan ke Asisten AI...',
+    'voice.micFailed': 'Gagal mengakses mikrofon. Mohon berikan izin dan coba lagi.',
+    'voice.connectionFailed': 'Koneksi ke Asisten AI gagal. Pastikan koneksi internet Anda stabil dan coba lagi.',
+    'voice.startFailed': 'Gagal memulai sesi Asisten AI. Coba lagi.',
+    'voice.unsupportedProvider': 'Asisten suara tidak tersedia dengan {provider}. Pilih Google Gemini di Pengaturan.',
+    'voice.status.idle': 'Menunggu',
+    'voice.status.connecting': 'Menghubungkan...',
+    'voice.status.listening': 'Mendengarkan...',
+    'voice.status.speaking': 'AI Berbicara...',
+    'voice.status.processing': 'Memproses...',
+    'voice.status.finished': 'Sesi Selesai',
+    'voice.status.error': 'Error',
+    'voice.closeSession': 'Tutup Sesi',
+    'voice.staged': 'Transaksi yang akan dikonfirmasi:',
+    'voice.finish': 'Selesai & Konfirmasi ({count})',
+
+    'smartInput.processing': 'AI sedang memproses...',
+    'smartInput.dontSave': '-- Jangan Simpan --',
+    'smartInput.retry': 'Input Ulang',
+    'smartInput.label': 'Tuliskan pengeluaran Anda',
+    'smartInput.placeholder': 'Contoh: Beli kopi 25rb, makan siang 30000, dan bayar parkir 5rb',
+    'smartInput.submit': 'Proses dengan AI',
+    'smartInput.parsedLocally': 'AI tidak tersedia, jadi teks dibaca di perangkat ini. Periksa jumlah dan kategorinya sebelum menyimpan.',
+    'smartInput.defaultDesc': 'Pengeluaran',
+
+    'advice.analyzing': 'AI sedang menganalisis data Anda...',
+
+    'chat.placeholder': 'Ketik pertanyaan Anda...',
+
+    'menu.savings': 'Celengan',
+    'menu.netWorth': 'Aset & Kekayaan',
+    'menu.recurring': 'Transaksi Rutin',
+    'menu.bills': 'Tagihan Bulanan',
+    'menu.achievements': 'Lencana',
+    'menu.personalBest': 'Pencapaian Terbaik',
+    'menu.info': 'Info Bulanan',
+    'menu.funds': 'Kelola Dana',
+    'menu.scanReceipt': 'Scan Struk',
+    'menu.smartInput': 'Input Cerdas',
+    'menu.aiAdvice': 'Saran AI',
+    'menu.askAI': 'Tanya AI',
+    'menu.voice': 'Asisten Suara',
+    'menu.settings': 'Pengaturan',
+
+    'batch.desc': 'Keterangan',
+    'batch.amount': 'Nominal',
+    'batch.addItem': 'Tambah Item',
+    'batch.total': 'Total Pengeluaran',
+    'batch.saveAll': 'Simpan Semua',
+};
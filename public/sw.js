@@ -0,0 +1,100 @@
+// Service worker of the budgeting app. It precaches the build so the app opens and works
+// without a connection (see utils/pwa.ts), and it serves notifications (see
+// utils/notifications.ts): tapping one focuses an open window of the app or opens it.
+//
+// precache-manifest.js is written by the build (see vite.config.ts). A new build changes
+// it, so the browser installs this worker again; the new worker waits until the app asks
+// it to take over, which lets the user choose when to reload.
+
+try {
+    importScripts('/precache-manifest.js');
+} catch {
+    // The dev server has no manifest: nothing is precached and requests go to the network.
+}
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST || { version: 'dev', hash: 'dev', files: [] };
+const PRECACHE = `budget-app-precache-${PRECACHE_MANIFEST.hash}`;
+const RUNTIME = 'budget-app-runtime';
+const APP_SHELL = '/index.html';
+// Loaded from CDNs by index.html; cached up front so the first offline start has styles.
+const CDN_FILES = ['https://cdn.tailwindcss.com'];
+
+const cacheCdnFiles = async () => {
+    const cache = await caches.open(RUNTIME);
+    await Promise.all(CDN_FILES.map(async url => {
+        try {
+            await cache.put(url, await fetch(new Request(url, { mode: 'no-cors' })));
+        } catch {
+            // Cached on first use instead.
+        }
+    }));
+};
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(PRECACHE);
+        await cache.addAll(PRECACHE_MANIFEST.files);
+        await cacheCdnFiles();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names
+            .filter(name => name.startsWith('budget-app-precache-') && name !== PRECACHE)
+            .map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('message', event => {
+    if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+    if (event.data?.type === 'GET_VERSION') event.ports[0]?.postMessage(PRECACHE_MANIFEST.version);
+});
+
+// Cached copy first, refreshed in the background for the next start.
+const staleWhileRevalidate = async (event, request) => {
+    const cache = await caches.open(RUNTIME);
+    const cached = await cache.match(request);
+    const refresh = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (cached) {
+        event.waitUntil(refresh.catch(() => {}));
+        return cached;
+    }
+    return refresh;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (url.origin === self.location.origin) {
+        if (PRECACHE_MANIFEST.files.length === 0) return;
+        // The app is a single page: every navigation gets the cached shell.
+        const cacheKey = request.mode === 'navigate' ? APP_SHELL : request;
+        event.respondWith(caches.open(PRECACHE)
+            .then(cache => cache.match(cacheKey, { ignoreSearch: request.mode === 'navigate' }))
+            .then(cached => cached || fetch(request)));
+        return;
+    }
+
+    // Scripts, styles and fonts from CDNs. API calls are left to the network.
+    if (['script', 'style', 'font'].includes(request.destination)) {
+        event.respondWith(staleWhileRevalidate(event, request));
+    }
+});
+
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const open = windows.find(client => client.url.startsWith(self.registration.scope));
+        if (open) return open.focus();
+        return self.clients.openWindow(self.registration.scope);
+    })());
+});
@@ -1,32 +1,73 @@
 import React from 'react';
+import type { Money } from './utils/money';
 
-export interface Transaction {
+// Every amount is a Money: integer minor units of its currency (see utils/money.ts).
+
+// Entries paid in a foreign currency. `amount` is always in the base currency; these
+// keep what was actually paid (see utils/currency.ts).
+export interface ForeignAmount {
+  currency?: string; // ISO 4217 code, only set when it differs from the base currency
+  originalAmount?: Money; // In `currency`
+}
+
+// Lines of a split transaction: one purchase (a supermarket receipt) spread over several
+// budgets and daily money. Each line is stored with its budget like any other entry, so
+// per-category totals need no special case; the shared `splitId` groups them for display
+// (see utils/split.ts).
+export interface SplitLine {
+  splitId?: string;
+  splitDesc?: string; // Description of the whole purchase
+}
+
+// Free-form labels across categories ("liburan-bali", "kantor"), stored normalized
+// (see utils/tags.ts) and only on entries that have any.
+export interface Tagged {
+  tags?: string[];
+}
+
+// A longer note and receipt photos. Photos are kept in their own storage (see
+// utils/attachments.ts); entries only hold their ids.
+export interface Annotated {
+  note?: string;
+  attachmentIds?: string[];
+}
+
+export interface Transaction extends ForeignAmount, SplitLine, Tagged, Annotated {
+  id: string;
   desc: string;
-  amount: number;
+  amount: Money;
   timestamp: number;
   sourceCategory?: string; // For daily expense overages
+  overageOf?: string; // For daily expense overages: id of the budget entry they spilled over from
 }
 
+export type BudgetRolloverPolicy = 'reset' | 'carry-surplus' | 'carry-deficit' | 'sweep-to-savings';
+
 export interface Budget {
   id: number;
   name: string;
-  totalBudget: number;
+  totalBudget: Money;
   history: Transaction[];
   icon?: string;
   color?: string;
   order: number;
   isArchived: boolean;
   isTemporary: boolean;
+  rolloverPolicy?: BudgetRolloverPolicy; // defaults to 'reset'
+  rolloverGoalId?: number; // SavingsGoal that receives leftovers for 'sweep-to-savings'
+  carriedOver?: Money; // Signed amount carried from last month (+ surplus, - deficit)
+  alertThresholds?: number[]; // Percentages of the quota that raise an alert; defaults to 80 and 100
 }
 
-export interface FundTransaction {
+export interface FundTransaction extends ForeignAmount, Tagged, Annotated {
+  id: string;
   type: 'add' | 'remove';
   desc: string;
-  amount: number;
+  amount: Money;
   timestamp: number;
 }
 
-export interface GlobalTransaction extends FundTransaction {
+export interface GlobalTransaction extends FundTransaction, SplitLine {
     category?: string;
     icon?: string;
     color?: string;
@@ -37,21 +78,31 @@ export interface Archive {
   transactions: GlobalTransaction[];
 }
 
-export interface SavingTransaction {
-  amount: number;
+export interface SavingTransaction extends ForeignAmount {
+  id: string;
+  amount: Money;
   timestamp: number;
   note?: string;
+  fundTransactionId?: string; // The 'Tabungan: <goal>' fund entry that paid for this deposit
 }
 
 export interface SavingsGoal {
   id: number;
   name: string;
-  targetAmount?: number;
+  targetAmount?: Money;
   isInfinite: boolean;
-  savedAmount: number;
+  savedAmount: Money;
   history: SavingTransaction[];
   createdAt: number;
   isCompleted: boolean;
+  openedAt?: number; // Last time the goal was opened: deposits up to then went back to the fund
+}
+
+// Left behind by a deleted savings goal, so merging data from another device does not
+// bring it back (see utils/merge.ts). Goals are matched by name across devices.
+export interface DeletedSavingsGoal {
+  name: string;
+  deletedAt: number;
 }
 
 export interface Achievement {
@@ -71,8 +122,65 @@ export interface Achievement {
 export interface Asset {
   id: number;
   name: string;
-  quantity: number;
-  pricePerUnit: number;
+  quantity: number; // May be fractional: grams of gold, crypto, fund units
+  pricePerUnit: Money; // In `currency`
+  currency?: string; // Defaults to the base currency
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency: string; // ISO 4217 code
+  date: string; // YYYY-MM-DD, valid from this day until the next rate for the currency
+  rate: number; // Value of one unit of `currency` in the base currency
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export type RecurringTarget =
+  | { kind: 'fund'; type: 'add' | 'remove' }
+  | { kind: 'budget'; budgetId: number }
+  | { kind: 'daily' };
+
+export interface RecurringRule {
+  id: number;
+  desc: string;
+  amount: Money;
+  frequency: RecurrenceFrequency;
+  intervalDays?: number; // Only for 'custom': repeat every N days
+  startDate: string; // YYYY-MM-DD, first occurrence
+  endDate?: string; // YYYY-MM-DD, last possible occurrence (inclusive)
+  target: RecurringTarget;
+  nextDueDate: string; // YYYY-MM-DD, first occurrence not yet posted
+  isPaused: boolean;
+  skippedDates: string[]; // Upcoming occurrences the user chose to skip
+  amountOverrides: { [date: string]: Money }; // Per-occurrence amount edits
+  createdAt: number;
+}
+
+// A bill due every month on `dueDay` (see utils/bills.ts). Paying it records an expense
+// on `budgetId`, or on daily money when unset.
+export interface Bill {
+  id: number;
+  name: string;
+  amount: Money;
+  dueDay: number; // 1-31, clamped to the last day of shorter months
+  budgetId?: number;
+  payments: { [month: string]: string }; // YYYY-MM -> id of the expense that paid it
+  createdAt: number;
+}
+
+// Raised once when spending crosses an alert threshold (see utils/budgetAlerts.ts):
+// per budget and month, or for the daily budget per day.
+export interface BudgetAlert {
+  id: string;
+  kind: 'budget' | 'daily';
+  budgetId?: number; // Set for 'budget' alerts
+  name: string; // Budget name when the alert was raised
+  threshold: number; // Percentage of the limit
+  period: string; // YYYY-MM for budgets, YYYY-MM-DD for the daily budget
+  spent: Money;
+  limit: Money;
+  timestamp: number;
 }
 
 export interface AppState {
@@ -82,6 +190,7 @@ export interface AppState {
   archives: Archive[];
   lastArchiveDate: string | null;
   savingsGoals: SavingsGoal[];
+  deletedSavingsGoals: DeletedSavingsGoal[];
   unlockedAchievements: { [id: string]: number }; // id: timestamp
   achievementData?: {
     monthlyStreak?: number;
@@ -93,10 +202,17 @@ export interface AppState {
     lastStreakCheck?: string; // YYYY-MM-DD
   };
   assets: Asset[];
+  recurringRules: RecurringRule[];
+  bills: Bill[];
+  budgetAlerts: BudgetAlert[]; // Newest first
+  baseCurrency: string; // ISO 4217 code every amount is stored in, in its minor units
+  exchangeRates: ExchangeRate[];
+  schemaVersion: number; // See utils/migrations.ts
 }
 
 export interface ScannedItem {
   desc: string;
-  amount: number;
+  amount: Money;
   budgetId: number | 'daily' | 'none';
+  tags?: string[];
 }
\ No newline at end of file
@@ -0,0 +1,337 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import type { LiveServerMessage } from '@google/genai';
+import { t } from './i18n';
+import type { MessageKey } from './i18n';
+
+// --- AI PROVIDERS ---
+// Every AI feature talks to an AIProvider instead of a particular service. The prompts
+// stay with the features; a provider only sends them and returns the answer. Gemini is
+// the default. An OpenAI-compatible endpoint covers hosted services as well as a local
+// Ollama or llama.cpp server, and the mock answers with fixed data so the app can be
+// developed and tested without a key or a connection. Live voice needs Gemini.
+
+export type AIProviderKind = 'gemini' | 'openai' | 'mock';
+
+export const aiProviderKinds: AIProviderKind[] = ['gemini', 'openai', 'mock'];
+
+export const aiProviderLabels: { [key in AIProviderKind]: MessageKey } = {
+    gemini: 'aiProvider.kind.gemini',
+    openai: 'aiProvider.kind.openai',
+    mock: 'aiProvider.kind.mock',
+};
+
+/** Used when the settings leave the model empty. */
+export const DEFAULT_AI_MODELS: { [key in AIProviderKind]: string } = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'llama3.2',
+    mock: 'mock',
+};
+
+const GEMINI_VOICE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/** The part of JSON Schema that all providers understand. */
+export interface AISchema {
+    type: 'array' | 'object' | 'string' | 'number';
+    description?: string;
+    items?: AISchema;
+    properties?: { [name: string]: AISchema };
+    required?: string[];
+    enum?: string[];
+}
+
+export interface AIImage {
+    mimeType: string;
+    /** Base64, without the data URL prefix. */
+    data: string;
+}
+
+export interface AIJSONRequest {
+    prompt: string;
+    schema: AISchema;
+    images?: AIImage[];
+}
+
+export interface AIChatMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface AIChatSession {
+    /** The model's reply; the conversation so far is kept by the session. */
+    sendMessage(text: string): Promise<string>;
+}
+
+export interface AIFunctionDeclaration {
+    name: string;
+    description: string;
+    parameters: AISchema;
+}
+
+export interface AIFunctionCall {
+    id?: string;
+    name: string;
+    args: { [name: string]: any };
+}
+
+export interface AIVoiceCallbacks {
+    onOpen: () => void;
+    onInputTranscript: (text: string) => void;
+    onOutputTranscript: (text: string) => void;
+    onTurnComplete: () => void;
+    /** Answered through `AIVoiceSession.sendFunctionResponse`. */
+    onFunctionCall: (call: AIFunctionCall) => void;
+    /** 16-bit PCM at 24 kHz, base64. */
+    onAudio: (data: string) => void;
+    onError: (error: unknown) => void;
+    onClose: () => void;
+}
+
+export interface AIVoiceOptions {
+    systemInstruction: string;
+    tools: AIFunctionDeclaration[];
+    callbacks: AIVoiceCallbacks;
+}
+
+export interface AIVoiceSession {
+    /** Microphone samples at 16 kHz. */
+    sendAudio(samples: Float32Array): void;
+    sendFunctionResponse(call: AIFunctionCall, result: string): void;
+    close(): void;
+}
+
+export interface AIProvider {
+    readonly kind: AIProviderKind;
+    readonly model: string;
+    /** False when the provider answers without internet: the mock, or a server on this device. */
+    readonly requiresConnection: boolean;
+    generateText(prompt: string): Promise<string>;
+    /** The answer parsed as JSON shaped like `schema`. */
+    generateJSON<T>(request: AIJSONRequest): Promise<T>;
+    /** A conversation that continues after `history`. */
+    startChat(history: AIChatMessage[]): AIChatSession;
+    /** Undefined when the provider has no live voice. */
+    connectVoice?(options: AIVoiceOptions): Promise<AIVoiceSession>;
+}
+
+// Models sometimes wrap JSON in a Markdown code block despite being asked not to.
+const parseJSONAnswer = (text: string) => JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+
+// --- GEMINI ---
+
+// The client is created per request: without an API key the constructor throws, which
+// should fail the request rather than the app.
+const createGeminiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+
+function encode(bytes: Uint8Array) {
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+// Float samples to the 16-bit PCM the Live API expects.
+const createPcmBlob = (samples: Float32Array) => {
+    const int16 = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        int16[i] = samples[i] * 32768;
+    }
+    return { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' };
+};
+
+const connectGeminiVoice = async ({ systemInstruction, tools, callbacks }: AIVoiceOptions): Promise<AIVoiceSession> => {
+    const session = await createGeminiClient().live.connect({
+        model: GEMINI_VOICE_MODEL,
+        config: {
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            tools: [{ functionDeclarations: tools.map(({ parameters, ...tool }) => ({ ...tool, parametersJsonSchema: parameters })) }],
+            systemInstruction,
+        },
+        callbacks: {
+            onopen: callbacks.onOpen,
+            onmessage: (message: LiveServerMessage) => {
+                const content = message.serverContent;
+                if (content?.inputTranscription?.text) callbacks.onInputTranscript(content.inputTranscription.text);
+                if (content?.outputTranscription?.text) callbacks.onOutputTranscript(content.outputTranscription.text);
+                if (content?.turnComplete) callbacks.onTurnComplete();
+                message.toolCall?.functionCalls?.forEach(call => callbacks.onFunctionCall({ id: call.id, name: call.name ?? '', args: call.args ?? {} }));
+                const audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+                if (audio) callbacks.onAudio(audio);
+            },
+            onerror: (e: ErrorEvent) => callbacks.onError(e),
+            onclose: () => callbacks.onClose(),
+        },
+    });
+    return {
+        sendAudio: samples => session.sendRealtimeInput({ media: createPcmBlob(samples) }),
+        sendFunctionResponse: (call, result) => session.sendToolResponse({ functionResponses: { id: call.id, name: call.name, response: { result } } }),
+        close: () => session.close(),
+    };
+};
+
+const createGeminiProvider = (model: string): AIProvider => ({
+    kind: 'gemini',
+    model,
+    requiresConnection: true,
+    async generateText(prompt) {
+        const response = await createGeminiClient().models.generateContent({ model, contents: prompt });
+        return response.text ?? '';
+    },
+    async generateJSON({ prompt, schema, images = [] }) {
+        const response = await createGeminiClient().models.generateContent({
+            model,
+            contents: { parts: [...images.map(image => ({ inlineData: image })), { text: prompt }] },
+            config: { responseMimeType: 'application/json', responseJsonSchema: schema },
+        });
+        return parseJSONAnswer(response.text ?? '');
+    },
+    startChat(history) {
+        const chat = createGeminiClient().chats.create({
+            model,
+            history: history.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+        });
+        return {
+            sendMessage: async text => (await chat.sendMessage({ message: text })).text ?? '',
+        };
+    },
+    connectVoice: connectGeminiVoice,
+});
+
+// --- OPENAI-COMPATIBLE ---
+// The chat completions API, which Ollama and llama.cpp serve as well.
+
+type OpenAIContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+type OpenAIMessage = { role: 'user' | 'assistant'; content: OpenAIContent };
+
+const isLocalUrl = (url: string) => {
+    try {
+        return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+    } catch {
+        return false;
+    }
+};
+
+const createOpenAICompatibleProvider = (model: string, baseUrl: string, apiKey: string): AIProvider => {
+    const complete = async (messages: OpenAIMessage[], responseFormat?: object): Promise<string> => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify({ model, messages, ...(responseFormat ? { response_format: responseFormat } : {}) }),
+        });
+        if (!response.ok) throw new Error(`Server AI menolak permintaan (HTTP ${response.status}).`);
+        const data = await response.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') throw new Error("Format respons AI tidak terduga.");
+        return content;
+    };
+
+    return {
+        kind: 'openai',
+        model,
+        requiresConnection: !isLocalUrl(baseUrl),
+        generateText: prompt => complete([{ role: 'user', content: prompt }]),
+        async generateJSON({ prompt, schema, images = [] }) {
+            // Servers that ignore `response_format` still get the schema in the prompt.
+            const text = `${prompt}\n\nRespond only with JSON matching this JSON Schema:\n${JSON.stringify(schema)}`;
+            const content: OpenAIContent = images.length === 0 ? text : [
+                { type: 'text', text },
+                ...images.map(image => ({ type: 'image_url' as const, image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+            ];
+            const answer = await complete([{ role: 'user', content }], { type: 'json_schema', json_schema: { name: 'response', schema } });
+            return parseJSONAnswer(answer);
+        },
+        startChat(history) {
+            const messages: OpenAIMessage[] = history.map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text }));
+            return {
+                async sendMessage(text) {
+                    const reply = await complete([...messages, { role: 'user', content: text }]);
+                    messages.push({ role: 'user', content: text }, { role: 'assistant', content: reply });
+                    return reply;
+                },
+            };
+        },
+    };
+};
+
+// --- MOCK ---
+// Fixed answers after a short delay, so loading states still show. JSON answers follow
+// the requested schema: one item per array, the first option of an enum.
+
+const MOCK_DELAY_MS = 300;
+
+const mockAnswer = <T>(answer: T) => new Promise<T>(resolve => setTimeout(() => resolve(answer), MOCK_DELAY_MS));
+
+const sampleFromSchema = (schema: AISchema): unknown => {
+    switch (schema.type) {
+        case 'array': return schema.items ? [sampleFromSchema(schema.items)] : [];
+        case 'object': return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]) => [name, sampleFromSchema(property)]));
+        case 'string': return schema.enum?.[0] ?? t('aiProvider.mock.sample');
+        case 'number': return 10000;
+    }
+};
+
+const createMockProvider = (): AIProvider => ({
+    kind: 'mock',
+    model: DEFAULT_AI_MODELS.mock,
+    requiresConnection: false,
+    generateText: () => mockAnswer(t('aiProvider.mock.answer')),
+    generateJSON: <T>({ schema }: AIJSONRequest) => mockAnswer(sampleFromSchema(schema) as T),
+    startChat: () => ({
+        sendMessage: text => mockAnswer(t('aiProvider.mock.chatReply', { text })),
+    }),
+});
+
+export const createAIProvider = (settings: AIProviderSettings): AIProvider => {
+    const model = settings.model.trim() || DEFAULT_AI_MODELS[settings.provider];
+    switch (settings.provider) {
+        case 'openai': return createOpenAICompatibleProvider(model, settings.baseUrl.trim() || DEFAULT_AI_PROVIDER_SETTINGS.baseUrl, settings.apiKey.trim());
+        case 'mock': return createMockProvider();
+        default: return createGeminiProvider(model);
+    }
+};
+
+// --- PROVIDER SETTINGS ---
+// A device preference, like the reminder settings. The key of an OpenAI-compatible
+// service is kept here in plain text, next to the unencrypted app data; the Gemini key
+// comes from the build.
+
+export interface AIProviderSettings {
+    provider: AIProviderKind;
+    /** Empty for the provider's default model. */
+    model: string;
+    /** The OpenAI-compatible endpoint, up to and including `/v1`. */
+    baseUrl: string;
+    /** Sent as a bearer token; local servers need none. */
+    apiKey: string;
+}
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+    provider: 'gemini',
+    model: '',
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+};
+
+const AI_PROVIDER_SETTINGS_KEY = 'aiProviderSettings';
+
+export const loadAIProviderSettings = (): AIProviderSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(AI_PROVIDER_SETTINGS_KEY) || 'null');
+        if (!saved) return DEFAULT_AI_PROVIDER_SETTINGS;
+        const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+        return {
+            provider: aiProviderKinds.includes(saved.provider) ? saved.provider : DEFAULT_AI_PROVIDER_SETTINGS.provider,
+            model: text(saved.model, DEFAULT_AI_PROVIDER_SETTINGS.model),
+            baseUrl: text(saved.baseUrl, DEFAULT_AI_PROVIDER_SETTINGS.baseUrl),
+            apiKey: text(saved.apiKey, DEFAULT_AI_PROVIDER_SETTINGS.apiKey),
+        };
+    } catch {
+        return DEFAULT_AI_PROVIDER_SETTINGS;
+    }
+};
+
+export const saveAIProviderSettings = (settings: AIProviderSettings) => {
+    localStorage.setItem(AI_PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+};
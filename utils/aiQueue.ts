@@ -0,0 +1,60 @@
+import type { ScannedItem } from '../types';
+import { generateId } from './id';
+
+// --- AI REQUEST QUEUE ---
+// Smart input and receipt scans need the AI service. Without a connection the request
+// is kept here and sent once the device is back online; the result then waits in the
+// notification center until the user reviews it. Scans keep their photo as a stored
+// attachment, so only its id is queued. The queue belongs to the device, like the
+// reminder settings, and is not part of exported data.
+
+export type QueuedAIRequestInput =
+    | { kind: 'smartInput'; text: string }
+    | { kind: 'scan'; attachmentId: string };
+
+export type QueuedAIRequest = QueuedAIRequestInput & {
+    id: string;
+    createdAt: number;
+    /** Set once the request was answered. */
+    result?: ScannedItem[];
+    /** Set when the service answered with an error; retried only on request. */
+    failed?: boolean;
+};
+
+const AI_QUEUE_KEY = 'aiRequestQueue';
+
+export const loadAIQueue = (): QueuedAIRequest[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(AI_QUEUE_KEY) || '[]');
+        return Array.isArray(saved)
+            ? saved.filter(r => r && typeof r.id === 'string' && (r.kind === 'smartInput' ? typeof r.text === 'string' : r.kind === 'scan' && typeof r.attachmentId === 'string'))
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveAIQueue = (queue: QueuedAIRequest[]) => {
+    localStorage.setItem(AI_QUEUE_KEY, JSON.stringify(queue));
+};
+
+export const createQueuedAIRequest = (input: QueuedAIRequestInput): QueuedAIRequest => ({ ...input, id: generateId(), createdAt: Date.now() });
+
+/** The first request still waiting to be sent, oldest first. */
+export const getNextPendingRequest = (queue: QueuedAIRequest[]) => queue.find(r => !r.result && !r.failed);
+
+/** Photos of queued scans, which the attachment cleanup must keep. */
+export const getQueuedAttachmentIds = (queue: QueuedAIRequest[]) =>
+    queue.flatMap(r => r.kind === 'scan' ? [r.attachmentId] : []);
+
+// The browser may report being online while requests still fail (captive portals, a
+// flaky network), so such a request is retried after a growing delay.
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+/** How long to wait before the `attempt`th retry (0-based): 5 s, 10 s, 20 s, up to 5 minutes. */
+export const getRetryDelay = (attempt: number) => Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+
+/** True when a failed request looks like a lost connection rather than an error of the service. */
+export const isOfflineError = (error: unknown) =>
+    !navigator.onLine || (error instanceof TypeError && /fetch|network/i.test(error.message));
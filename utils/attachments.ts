@@ -0,0 +1,165 @@
+import type { Annotated, AppState } from '../types';
+import type { StorageAdapter } from './storage';
+import { generateId } from './id';
+import { createZip, readZip, ZipError, type ZipEntry } from './zip';
+import { LocalizedError } from './i18n';
+
+// --- ATTACHMENTS ---
+// Receipt photos on transactions. Photos are compressed to JPEG and written to storage
+// with a small thumbnail for lists; entries only keep `attachmentIds`. Removing a photo
+// or deleting its transaction leaves the stored image alone, so undo can bring it back;
+// photos nothing refers to any more are pruned the next time the app starts.
+
+const IMAGE_MAX_SIZE = 1600;
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_SIZE = 240;
+const THUMBNAIL_QUALITY = 0.7;
+
+let storage: StorageAdapter | null = null;
+
+/** Sets where photos are kept. App calls it once the storage adapter is ready. */
+export const setAttachmentStorage = (adapter: StorageAdapter) => {
+    storage = adapter;
+};
+
+const requireStorage = () => {
+    if (!storage) throw new LocalizedError('attachments.storageNotReady');
+    return storage;
+};
+
+/** `{ note, attachmentIds }` for a new or edited entry, leaving out whatever is empty. */
+export const annotationPart = (note?: string, attachmentIds?: string[]): Annotated => ({
+    ...(note?.trim() ? { note: note.trim() } : {}),
+    ...(attachmentIds && attachmentIds.length > 0 ? { attachmentIds: [...new Set(attachmentIds)] } : {}),
+});
+
+// --- COMPRESSION ---
+
+/** Scales `image` down to fit `maxSize` pixels and encodes it as JPEG. */
+const resizeImage = async (image: Blob, maxSize: number, quality: number): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d')!;
+    // JPEG has no transparency; keep transparent screenshots readable.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new LocalizedError('attachments.compressFailed')),
+        'image/jpeg',
+        quality,
+    ));
+};
+
+const storeImage = async (id: string, image: Blob, compress: boolean) => {
+    const stored = compress ? await resizeImage(image, IMAGE_MAX_SIZE, IMAGE_QUALITY) : image;
+    const thumbnail = await resizeImage(stored, THUMBNAIL_SIZE, THUMBNAIL_QUALITY);
+    await requireStorage().writeAttachment({ id, image: stored, thumbnail, createdAt: Date.now() });
+};
+
+/** Compresses and stores a photo, returning the id to put in `attachmentIds`. */
+export const saveAttachment = async (file: Blob): Promise<string> => {
+    const id = generateId();
+    await storeImage(id, file, true);
+    return id;
+};
+
+/** The stored photo itself, e.g. to scan it again; null when it is not in storage. */
+export const readAttachmentImage = async (id: string): Promise<Blob | null> =>
+    (await requireStorage().readAttachment(id))?.image ?? null;
+
+// --- DISPLAY ---
+// Object URLs are cached for the session: the same thumbnail shows up in several lists,
+// and photos are few enough that keeping them alive costs little.
+const urlCache = new Map<string, Promise<string | null>>();
+const loadedUrls = new Map<string, string | null>();
+
+/** The URL of a photo that was already loaded, so lists can render it without a flicker. */
+export const peekAttachmentUrl = (id: string, variant: 'image' | 'thumbnail') => loadedUrls.get(`${variant}:${id}`);
+
+/** An object URL for the photo or its thumbnail; null when it is not in storage. */
+export const getAttachmentUrl = (id: string, variant: 'image' | 'thumbnail'): Promise<string | null> => {
+    const key = `${variant}:${id}`;
+    let url = urlCache.get(key);
+    if (!url) {
+        url = requireStorage().readAttachment(id)
+            .then(attachment => attachment ? URL.createObjectURL(attachment[variant]) : null)
+            .catch(() => null)
+            .then(result => {
+                loadedUrls.set(key, result);
+                return result;
+            });
+        urlCache.set(key, url);
+    }
+    return url;
+};
+
+// --- HOUSEKEEPING ---
+
+/** Every photo id used by a transaction of `state`, live or archived. */
+export const getReferencedAttachmentIds = (state: AppState): Set<string> => {
+    const entries: Annotated[] = [
+        ...state.fundHistory,
+        ...state.dailyExpenses,
+        ...state.budgets.flatMap(b => b.history),
+        ...state.archives.flatMap(a => a.transactions),
+    ];
+    return new Set(entries.flatMap(entry => entry.attachmentIds || []));
+};
+
+/**
+ * Deletes stored photos that none of `states` refers to. Pass the internal backups
+ * along with the current state, so restoring a backup keeps its photos, and `keepIds`
+ * for photos that are waiting to be used, like receipts of queued scans.
+ */
+export const pruneAttachments = async (adapter: StorageAdapter, states: AppState[], keepIds: string[] = []) => {
+    const referenced = new Set([...keepIds, ...states.flatMap(state => [...getReferencedAttachmentIds(state)])]);
+    const orphans = (await adapter.listAttachmentIds()).filter(id => !referenced.has(id));
+    for (const id of orphans) {
+        await adapter.deleteAttachment(id);
+    }
+    return orphans.length;
+};
+
+// --- ARCHIVE EXPORT ---
+// The export with photos is a ZIP holding the regular JSON export as `data.json` and
+// every photo it refers to as `attachments/<id>.jpg`.
+
+export const ATTACHMENT_ARCHIVE_EXTENSION = '.zip';
+const ARCHIVE_DATA_FILE = 'data.json';
+const ARCHIVE_ATTACHMENT_DIR = 'attachments/';
+
+export const isAttachmentArchive = (file: File) =>
+    file.name.toLowerCase().endsWith(ATTACHMENT_ARCHIVE_EXTENSION) || file.type === 'application/zip';
+
+/** Packs the export text and the photos of `state`; photos missing from storage are skipped. */
+export const createAttachmentArchive = async (dataText: string, state: AppState): Promise<Blob> => {
+    const entries: ZipEntry[] = [{ name: ARCHIVE_DATA_FILE, data: new TextEncoder().encode(dataText) }];
+    for (const id of getReferencedAttachmentIds(state)) {
+        const attachment = await requireStorage().readAttachment(id);
+        if (attachment) {
+            entries.push({ name: `${ARCHIVE_ATTACHMENT_DIR}${id}.jpg`, data: new Uint8Array(await attachment.image.arrayBuffer()) });
+        }
+    }
+    return createZip(entries);
+};
+
+/**
+ * Stores the photos of an archive and returns its export text, to be imported like a
+ * JSON file. Throws ZipError when the archive has no `data.json`.
+ */
+export const readAttachmentArchive = async (buffer: ArrayBuffer): Promise<string> => {
+    const files = await readZip(buffer);
+    const data = files.get(ARCHIVE_DATA_FILE);
+    if (!data) throw new ZipError('import.zipNoData');
+    for (const [name, image] of files) {
+        if (!name.startsWith(ARCHIVE_ATTACHMENT_DIR) || !name.endsWith('.jpg')) continue;
+        const id = name.slice(ARCHIVE_ATTACHMENT_DIR.length, -'.jpg'.length);
+        if (id && !id.includes('/')) await storeImage(id, new Blob([image as BlobPart], { type: 'image/jpeg' }), false);
+    }
+    return new TextDecoder().decode(data);
+};
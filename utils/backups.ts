@@ -0,0 +1,130 @@
+import type { AppState, Budget, SavingsGoal } from '../types';
+import type { BackupInfo, StorageAdapter } from './storage';
+import type { Money } from './money';
+import { getMonthKey } from './rollover';
+
+// --- RETENTION POLICY ---
+// Automatic backups are thinned out in tiers: the newest backup of each of the last
+// `daily` days, of each of the last `weekly` weeks and of each of the last `monthly`
+// months is kept. A backup that qualifies for any tier survives. Labelled backups are
+// never pruned.
+
+export interface RetentionPolicy {
+    daily: number;
+    weekly: number;
+    monthly: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { daily: 7, weekly: 4, monthly: 6 };
+// localStorage holds only about 5 MB for the data and every backup together.
+export const LOCAL_STORAGE_RETENTION_POLICY: RetentionPolicy = { daily: 2, weekly: 1, monthly: 1 };
+
+// A device preference, like `lastAutoExportDate`, so it is not part of exported data.
+const RETENTION_POLICY_KEY = 'backupRetentionPolicy';
+
+/** The saved policy, or the default for the kind of storage the backups live in. */
+export const loadRetentionPolicy = (storageKind: StorageAdapter['kind']): RetentionPolicy => {
+    const defaults = storageKind === 'localStorage' ? LOCAL_STORAGE_RETENTION_POLICY : DEFAULT_RETENTION_POLICY;
+    try {
+        const saved = JSON.parse(localStorage.getItem(RETENTION_POLICY_KEY) || 'null');
+        if (!saved) return defaults;
+        const count = (value: any, fallback: number) => Number.isInteger(value) && value >= 0 ? value : fallback;
+        return {
+            daily: count(saved.daily, defaults.daily),
+            weekly: count(saved.weekly, defaults.weekly),
+            monthly: count(saved.monthly, defaults.monthly),
+        };
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy) => {
+    localStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(policy));
+};
+
+const dayKey = (timestamp: number) => new Date(timestamp).toLocaleDateString('fr-CA');
+
+// Weeks start on Monday; the key is the date of that Monday.
+const weekKey = (timestamp: number) => {
+    const date = new Date(timestamp);
+    date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+    return dayKey(date.getTime());
+};
+
+export const isSameBackupDay = (a: number, b: number) => dayKey(a) === dayKey(b);
+
+/** Keys of the automatic backups the policy no longer needs, given backups newest first. */
+export const selectBackupsToPrune = (backups: BackupInfo[], policy: RetentionPolicy): string[] => {
+    const automatic = backups.filter(b => !b.label);
+    const kept = new Set<string>();
+    const keepNewestPer = (period: (timestamp: number) => string, limit: number) => {
+        const seen = new Set<string>();
+        for (const backup of automatic) {
+            const key = period(backup.timestamp);
+            if (seen.has(key)) continue;
+            if (seen.size >= limit) break;
+            seen.add(key);
+            kept.add(backup.key);
+        }
+    };
+    keepNewestPer(dayKey, policy.daily);
+    keepNewestPer(weekKey, policy.weekly);
+    keepNewestPer(getMonthKey, policy.monthly);
+    // Whatever the policy says, the newest backup is never deleted.
+    if (automatic.length > 0) kept.add(automatic[0].key);
+    return automatic.filter(b => !kept.has(b.key)).map(b => b.key);
+};
+
+// --- RESTORE PREVIEW ---
+
+export interface DiffTransaction {
+    id: string;
+    desc: string;
+    amount: Money;
+    timestamp: number;
+    type: 'add' | 'remove';
+}
+
+export interface StateDiff {
+    /** In the restored data only. */
+    added: { transactions: DiffTransaction[]; budgets: Budget[]; savingsGoals: SavingsGoal[] };
+    /** In the current data only; lost by restoring. */
+    removed: { transactions: DiffTransaction[]; budgets: Budget[]; savingsGoals: SavingsGoal[] };
+}
+
+// Savings deposits are left out: each one mirrors a "Tabungan" entry in the fund history.
+const listTransactions = (state: AppState): DiffTransaction[] => [
+    ...state.fundHistory,
+    ...state.dailyExpenses.map(t => ({ ...t, type: 'remove' as const })),
+    ...state.budgets.flatMap(b => b.history.map(t => ({ ...t, type: 'remove' as const }))),
+    ...state.archives.flatMap(a => a.transactions),
+].map(({ id, desc, amount, timestamp, type }) => ({ id, desc, amount, timestamp, type }));
+
+const difference = <T, K>(from: T[], other: T[], key: (item: T) => K) => {
+    const keys = new Set(other.map(key));
+    return from.filter(item => !keys.has(key(item)));
+};
+
+/**
+ * What replacing `current` with `next` would add and remove. Transactions, budgets
+ * and savings goals are matched by id, so an entry that was edited in the meantime
+ * counts as unchanged.
+ */
+export const diffStates = (current: AppState, next: AppState): StateDiff => {
+    const currentTransactions = listTransactions(current);
+    const nextTransactions = listTransactions(next);
+    const byNewest = (a: DiffTransaction, b: DiffTransaction) => b.timestamp - a.timestamp;
+    return {
+        added: {
+            transactions: difference(nextTransactions, currentTransactions, t => t.id).sort(byNewest),
+            budgets: difference(next.budgets, current.budgets, b => b.id),
+            savingsGoals: difference(next.savingsGoals, current.savingsGoals, g => g.id),
+        },
+        removed: {
+            transactions: difference(currentTransactions, nextTransactions, t => t.id).sort(byNewest),
+            budgets: difference(current.budgets, next.budgets, b => b.id),
+            savingsGoals: difference(current.savingsGoals, next.savingsGoals, g => g.id),
+        },
+    };
+};
@@ -0,0 +1,217 @@
+import type { AppState, GlobalTransaction } from '../types';
+import { postTransaction, postArchivedTransaction } from './transactions';
+import type { TransactionTarget } from './transactions';
+import { getMonthKey } from './rollover';
+import { generateId } from './id';
+import { toMoney, type Money } from './money';
+
+// --- BANK STATEMENT IMPORT ---
+// Turns a bank or e-wallet mutation export (already split by parseCsv) into
+// transactions. The user maps columns once, then reviews every row before saving.
+
+export interface ColumnMapping {
+    hasHeader: boolean;
+    date: number;
+    desc: number;
+    /** Money out. May point at the same column as `credit` for signed single-column exports. */
+    debit: number | null;
+    /** Money in. */
+    credit: number | null;
+}
+
+export interface BankRow {
+    /** Line number in the file (1-based), shown in the review table. */
+    line: number;
+    timestamp: number;
+    desc: string;
+    amount: Money;
+    type: 'add' | 'remove';
+    target: TransactionTarget;
+    include: boolean;
+    /** Existing transaction on the same day with the same amount and direction. */
+    duplicateOf?: GlobalTransaction;
+    /** Earlier line of the same file with the same day, amount, direction and description. */
+    duplicateOfLine?: number;
+}
+
+export interface SkippedLine {
+    line: number;
+    reason: string;
+}
+
+const MONTH_NAMES: { [prefix: string]: number } = {
+    jan: 1, feb: 2, mar: 3, apr: 4, mei: 5, may: 5, jun: 6, jul: 7,
+    agu: 8, agt: 8, aug: 8, sep: 9, okt: 10, oct: 10, nov: 11, des: 12, dec: 12,
+};
+
+// Rows without a time of day are booked at noon so they never slip into a neighbouring day.
+const DEFAULT_HOUR = 12;
+
+/**
+ * Parses amounts as written by Indonesian banks ("1.250.000,00", "Rp 15.000") as well
+ * as the English style some e-wallets use ("1,250,000.00"). A separator followed by
+ * exactly three digits is read as a thousands separator. Parentheses or a minus sign
+ * make the result negative.
+ */
+export const parseIndonesianNumber = (text: string): number | null => {
+    const negative = /^\s*(-|\()/.test(text) || /-\s*$/.test(text);
+    const cleaned = text.replace(/[^\d.,]/g, '');
+    if (!/\d/.test(cleaned)) return null;
+
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+    const decimalIndex = Math.max(lastComma, lastDot);
+    const decimals = cleaned.length - decimalIndex - 1;
+    const hasDecimals = decimalIndex >= 0 && (decimals !== 3 || (lastComma >= 0 && lastDot >= 0));
+
+    const integerPart = (hasDecimals ? cleaned.slice(0, decimalIndex) : cleaned).replace(/[.,]/g, '');
+    const value = Number(`${integerPart || '0'}${hasDecimals ? `.${cleaned.slice(decimalIndex + 1)}` : ''}`);
+    if (!Number.isFinite(value)) return null;
+    return negative ? -value : value;
+};
+
+/**
+ * Parses the dates found in Indonesian bank exports: "31/01/2024", "31-01-24",
+ * "2024-01-31", "31 Jan 2024" or "31 Agu 2024", optionally followed by a time.
+ * Dates without a year ("31/01", as in some statements) are placed in the most
+ * recent matching day that is not in the future.
+ */
+export const parseBankDate = (text: string, now: Date = new Date()): number | null => {
+    const value = text.trim().toLowerCase();
+    let year: number, month: number, day: number;
+    let match: RegExpMatchArray | null;
+
+    if ((match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/))) {
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else if ((match = value.match(/^(\d{1,2})[-/.](\d{1,2})(?:[-/.](\d{2,4}))?(?!\d)/))) {
+        [day, month] = [Number(match[1]), Number(match[2])];
+        year = match[3] ? Number(match[3]) : now.getFullYear();
+        if (match[3] && match[3].length === 2) year += 2000;
+        if (!match[3] && new Date(year, month - 1, day) > now) year--;
+    } else if ((match = value.match(/^(\d{1,2})[\s-]+([a-z]{3})[a-z]*[\s-]+(\d{2,4})/))) {
+        day = Number(match[1]);
+        month = MONTH_NAMES[match[2]];
+        year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+        if (!month) return null;
+    } else {
+        return null;
+    }
+
+    const time = value.match(/(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*$/);
+    const date = time && match[0].length < value.length
+        ? new Date(year, month - 1, day, Number(time[1]), Number(time[2]), Number(time[3] || 0))
+        : new Date(year, month - 1, day, DEFAULT_HOUR);
+    // Reject impossible dates such as 31/02 instead of letting Date roll them over.
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return date.getTime();
+};
+
+const HEADER_PATTERNS: { [key in 'date' | 'desc' | 'debit' | 'credit']: RegExp } = {
+    date: /tanggal|tgl|date|waktu/i,
+    desc: /keterangan|deskripsi|description|uraian|catatan|remark|detail/i,
+    debit: /debit|debet|keluar|\bdb\b|withdraw|pengeluaran/i,
+    credit: /kredit|credit|masuk|\bcr\b|deposit|pemasukan/i,
+};
+
+/** Guesses the mapping from header names, falling back to the first columns. */
+export const guessColumnMapping = (rows: string[][]): ColumnMapping => {
+    const header = rows[0] || [];
+    const find = (pattern: RegExp) => {
+        const index = header.findIndex(cell => pattern.test(cell));
+        return index >= 0 ? index : null;
+    };
+    const date = find(HEADER_PATTERNS.date);
+    const hasHeader = date !== null || parseBankDate(header[0] || '') === null;
+    const amountColumn = hasHeader ? find(/jumlah|nominal|amount|mutasi/i) : null;
+    const debit = hasHeader ? find(HEADER_PATTERNS.debit) ?? amountColumn : null;
+    const credit = hasHeader ? find(HEADER_PATTERNS.credit) ?? amountColumn : null;
+    return {
+        hasHeader,
+        date: date ?? 0,
+        desc: (hasHeader ? find(HEADER_PATTERNS.desc) : null) ?? Math.min(1, header.length - 1),
+        debit: debit ?? (credit === null ? Math.min(2, header.length - 1) : null),
+        credit,
+    };
+};
+
+// Single-column exports mark direction with a sign or a DB/CR (debet/kredit) suffix.
+const readSignedAmount = (cell: string): { amount: number; type: 'add' | 'remove' } | null => {
+    const value = parseIndonesianNumber(cell);
+    if (value === null || value === 0) return null;
+    const isDebit = value < 0 || /\b(db|d|debet|debit)\s*$/i.test(cell);
+    return { amount: Math.abs(value), type: isDebit ? 'remove' : 'add' };
+};
+
+const readAmount = (row: string[], mapping: ColumnMapping): { amount: number; type: 'add' | 'remove' } | null => {
+    if (mapping.debit !== null && mapping.debit === mapping.credit) return readSignedAmount(row[mapping.debit] || '');
+    const debit = mapping.debit !== null ? Math.abs(parseIndonesianNumber(row[mapping.debit] || '') || 0) : 0;
+    const credit = mapping.credit !== null ? Math.abs(parseIndonesianNumber(row[mapping.credit] || '') || 0) : 0;
+    if (credit > 0) return { amount: credit, type: 'add' };
+    if (debit > 0) return { amount: debit, type: 'remove' };
+    return null;
+};
+
+/**
+ * Converts mapped CSV rows into reviewable bank rows. Lines without a readable date
+ * or amount (opening balances, footers) are skipped and reported. A row that matches
+ * an existing transaction on the same day, amount and direction, or repeats an earlier
+ * line of the file (overlapping statements pasted together), is flagged as a likely
+ * duplicate and left out by default. Each existing transaction accounts for one row
+ * only, so two identical purchases on one day are not both hidden by a single entry.
+ */
+export const mapBankRows = (rows: string[][], mapping: ColumnMapping, existing: GlobalTransaction[], currency: string): { rows: BankRow[]; skipped: SkippedLine[] } => {
+    const dayKey = (timestamp: number) => new Date(timestamp).toLocaleDateString('fr-CA');
+    const bankRows: BankRow[] = [];
+    const skipped: SkippedLine[] = [];
+    const matchedExisting = new Set<GlobalTransaction>();
+
+    rows.forEach((row, index) => {
+        if (mapping.hasHeader && index === 0) return;
+        const line = index + 1;
+        const timestamp = parseBankDate(row[mapping.date] || '');
+        if (timestamp === null) {
+            skipped.push({ line, reason: `Tanggal tidak dikenali ("${row[mapping.date] || ''}").` });
+            return;
+        }
+        const parsed = readAmount(row, mapping);
+        if (!parsed) {
+            skipped.push({ line, reason: 'Jumlah debit/kredit kosong atau tidak valid.' });
+            return;
+        }
+        const amount = toMoney(parsed.amount, currency);
+        const desc = (row[mapping.desc] || '').replace(/\s+/g, ' ').trim() || 'Mutasi bank';
+        const duplicateOf = existing.find(t => !matchedExisting.has(t) && t.type === parsed.type && t.amount === amount && dayKey(t.timestamp) === dayKey(timestamp));
+        if (duplicateOf) matchedExisting.add(duplicateOf);
+        const duplicateOfLine = duplicateOf ? undefined : bankRows.find(r => r.type === parsed.type && r.amount === amount && r.desc === desc && dayKey(r.timestamp) === dayKey(timestamp))?.line;
+        bankRows.push({
+            line,
+            timestamp,
+            desc,
+            amount,
+            type: parsed.type,
+            target: parsed.type === 'add' ? { kind: 'fund', type: 'add' } : { kind: 'daily' },
+            include: !duplicateOf && duplicateOfLine === undefined,
+            duplicateOf,
+            duplicateOfLine,
+        });
+    });
+
+    return { rows: bankRows, skipped };
+};
+
+/**
+ * Books the included rows. Rows from the running month go through postTransaction
+ * like a manual entry; rows from closed months go straight into their archive.
+ */
+export const postBankRows = (state: AppState, rows: BankRow[], now: Date = new Date()): AppState => {
+    const currentMonth = getMonthKey(now);
+    return rows
+        .filter(row => row.include)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .reduce((newState, row) => {
+            const input = { id: generateId(), desc: row.desc, amount: row.amount, timestamp: row.timestamp };
+            return getMonthKey(row.timestamp) < currentMonth
+                ? postArchivedTransaction(newState, row.target, input)
+                : postTransaction(newState, row.target, input);
+        }, state);
+};
@@ -0,0 +1,128 @@
+import type { AppState, Bill } from '../types';
+import { daysBetween, toDateKey } from './recurring';
+import { getMonthKey } from './rollover';
+import { formatDate } from './format';
+import { t } from './i18n';
+
+// --- BILLS ---
+// Monthly bills (electricity, BPJS, credit card) with a due day. A bill is paid per
+// month: `payments` maps the month to the expense that paid it, so the status resets
+// by itself when a new month starts. Reminders cover last month's unpaid bills and
+// those due within the next few days.
+
+export type BillStatus = 'paid' | 'overdue' | 'dueSoon' | 'upcoming';
+
+export interface BillOccurrence {
+    bill: Bill;
+    month: string; // YYYY-MM
+    dueDate: string; // YYYY-MM-DD
+    /** Negative once the due date has passed. */
+    daysUntilDue: number;
+    status: BillStatus;
+}
+
+/** The due date of `bill` in `month` (YYYY-MM); the 31st falls on the 30th or 28th in shorter months. */
+export const getBillDueDate = (bill: Pick<Bill, 'dueDay'>, month: string): string => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const daysInMonth = new Date(year, monthNumber, 0).getDate();
+    return toDateKey(new Date(year, monthNumber - 1, Math.min(bill.dueDay, daysInMonth)));
+};
+
+export const isBillPaid = (bill: Bill, month: string) => bill.payments[month] !== undefined;
+
+const shiftMonth = (month: string, offset: number) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return getMonthKey(new Date(year, monthNumber - 1 + offset, 1));
+};
+
+/** The bill in `month`, judged on `today` with reminders `daysAhead` days before the due date. */
+export const getBillOccurrence = (bill: Bill, month: string, today: string, daysAhead: number): BillOccurrence => {
+    const dueDate = getBillDueDate(bill, month);
+    const daysUntilDue = daysBetween(today, dueDate);
+    let status: BillStatus = 'upcoming';
+    if (isBillPaid(bill, month)) status = 'paid';
+    else if (daysUntilDue < 0) status = 'overdue';
+    else if (daysUntilDue <= daysAhead) status = 'dueSoon';
+    return { bill, month, dueDate, daysUntilDue, status };
+};
+
+/**
+ * Unpaid bills that need attention on `now`: overdue ones from last month and this
+ * month, and those due within `daysAhead` days (which may already be next month's).
+ * Due dates before the bill was created are left out. Most urgent first.
+ */
+export const getBillReminders = (bills: Bill[], daysAhead: number, now: Date = new Date()): BillOccurrence[] => {
+    const today = toDateKey(now);
+    const month = getMonthKey(now);
+    return bills
+        .flatMap(bill => [-1, 0, 1].map(offset => getBillOccurrence(bill, shiftMonth(month, offset), today, daysAhead))
+            .filter(o => (o.status === 'overdue' || o.status === 'dueSoon') && o.dueDate >= toDateKey(new Date(bill.createdAt))))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.bill.name.localeCompare(b.bill.name));
+};
+
+/** "Paid", "3 days overdue", "Due today", "Due in 2 days" or the due date. */
+export const describeBillStatus = (occurrence: BillOccurrence) => {
+    const { status, daysUntilDue, dueDate } = occurrence;
+    if (status === 'paid') return t('bills.status.paid');
+    if (status === 'overdue') return t('bills.status.overdue', { days: -daysUntilDue });
+    if (daysUntilDue === 0) return t('bills.status.dueToday');
+    if (status === 'dueSoon') return t('bills.status.dueIn', { days: daysUntilDue });
+    return t('bills.status.dueOn', { date: formatDate(dueDate, { day: 'numeric', month: 'short' }) });
+};
+
+/** Records that the expense `transactionId` paid `bill` for `month`. */
+export const markBillPaid = (state: AppState, billId: number, month: string, transactionId: string): AppState => ({
+    ...state,
+    bills: state.bills.map(b => b.id === billId ? { ...b, payments: { ...b.payments, [month]: transactionId } } : b),
+});
+
+/** Sets the bill back to unpaid for `month`. The expense that paid it is kept. */
+export const markBillUnpaid = (state: AppState, billId: number, month: string): AppState => ({
+    ...state,
+    bills: state.bills.map(b => {
+        if (b.id !== billId) return b;
+        const { [month]: _removed, ...payments } = b.payments;
+        return { ...b, payments };
+    }),
+});
+
+// --- REMINDER SETTINGS ---
+// A device preference, like the backup retention policy: notifications are allowed per
+// browser, so they are not part of exported data.
+
+export interface BillReminderSettings {
+    /** Remind this many days before the due date. */
+    daysAhead: number;
+    /** Also show browser notifications, once a day. */
+    notify: boolean;
+}
+
+export const DEFAULT_BILL_REMINDER_SETTINGS: BillReminderSettings = { daysAhead: 3, notify: false };
+
+const BILL_REMINDER_SETTINGS_KEY = 'billReminderSettings';
+const LAST_BILL_NOTIFICATION_KEY = 'lastBillNotificationDate';
+
+export const loadBillReminderSettings = (): BillReminderSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(BILL_REMINDER_SETTINGS_KEY) || 'null');
+        if (!saved) return DEFAULT_BILL_REMINDER_SETTINGS;
+        return {
+            daysAhead: Number.isInteger(saved.daysAhead) && saved.daysAhead >= 0 ? saved.daysAhead : DEFAULT_BILL_REMINDER_SETTINGS.daysAhead,
+            notify: saved.notify === true,
+        };
+    } catch {
+        return DEFAULT_BILL_REMINDER_SETTINGS;
+    }
+};
+
+export const saveBillReminderSettings = (settings: BillReminderSettings) => {
+    localStorage.setItem(BILL_REMINDER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** True the first time it is called on a given day, so notifications are shown once a day. */
+export const claimDailyBillNotification = (now: Date = new Date()) => {
+    const today = toDateKey(now);
+    if (localStorage.getItem(LAST_BILL_NOTIFICATION_KEY) === today) return false;
+    localStorage.setItem(LAST_BILL_NOTIFICATION_KEY, today);
+    return true;
+};
@@ -0,0 +1,70 @@
+import type { AppState, Budget, BudgetRolloverPolicy } from '../types';
+import type { MessageKey } from './i18n';
+import { subtractMoney, sumBy, sumMoney, ZERO, type Money } from './money';
+
+// Amounts are in the base currency.
+export const getBudgetUsed = (budget: Budget) => sumBy(budget.history, item => item.amount);
+
+// This month's quota: the fixed allocation plus whatever was carried from last month.
+export const getBudgetQuota = (budget: Budget) => sumMoney([budget.totalBudget, budget.carriedOver || ZERO]);
+
+// What is left of this month's quota; negative once the budget is overspent.
+export const getBudgetRemaining = (budget: Budget) => subtractMoney(getBudgetQuota(budget), getBudgetUsed(budget));
+
+// What daily money may spend per day: the available funds spread over the days left
+// in the month, today included.
+export const getDailyBudgetMax = (currentAvailableFunds: Money, now: Date = new Date()) => {
+    const remainingDays = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate() - now.getDate() + 1;
+    return remainingDays > 0 ? Math.round(currentAvailableFunds / remainingDays) as Money : currentAvailableFunds;
+};
+
+export interface MonthlySummary {
+    monthlyIncome: Money;
+    monthlyGeneralExpense: Money;
+    totalUsedFromPosts: Money;
+    totalDailySpent: Money;
+    /** General, budget and daily spending together. */
+    totalUsedOverall: Money;
+    /** Income minus all spending. */
+    totalRemaining: Money;
+    /** The budgets' quotas, carried amounts included. */
+    totalAllocated: Money;
+    /** Income not allocated to any budget. */
+    unallocatedFunds: Money;
+    generalAndDailyExpenses: Money;
+    /** Unallocated funds minus general and daily spending: what daily spending can still draw on. */
+    currentAvailableFunds: Money;
+}
+
+/** Totals of the running month. */
+export const getMonthlySummary = (state: Pick<AppState, 'fundHistory' | 'budgets' | 'dailyExpenses'>): MonthlySummary => {
+    const income = sumBy(state.fundHistory.filter(t => t.type === 'add'), t => t.amount);
+    const generalExpense = sumBy(state.fundHistory.filter(t => t.type === 'remove'), t => t.amount);
+    const usedFromPosts = sumBy(state.budgets, getBudgetUsed);
+    const dailySpent = sumBy(state.dailyExpenses, e => e.amount);
+    // A carried amount is funded by its own entry in `fundHistory` (see utils/rollover.ts),
+    // so it belongs to the allocation like the quota it extends.
+    const allocated = sumBy(state.budgets, getBudgetQuota);
+    const generalAndDailyExpenses = sumMoney([generalExpense, dailySpent]);
+    const totalUsedOverall = sumMoney([generalAndDailyExpenses, usedFromPosts]);
+    const unallocatedFunds = subtractMoney(income, allocated);
+    return {
+        monthlyIncome: income,
+        monthlyGeneralExpense: generalExpense,
+        totalUsedFromPosts: usedFromPosts,
+        totalDailySpent: dailySpent,
+        totalUsedOverall,
+        totalRemaining: subtractMoney(income, totalUsedOverall),
+        totalAllocated: allocated,
+        unallocatedFunds,
+        generalAndDailyExpenses,
+        currentAvailableFunds: subtractMoney(unallocatedFunds, generalAndDailyExpenses),
+    };
+};
+
+export const rolloverPolicyLabels: { [key in BudgetRolloverPolicy]: MessageKey } = {
+    'reset': 'budget.rollover.reset',
+    'carry-surplus': 'budget.rollover.carrySurplus',
+    'carry-deficit': 'budget.rollover.carryDeficit',
+    'sweep-to-savings': 'budget.rollover.sweepToSavings',
+};
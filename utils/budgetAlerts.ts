@@ -0,0 +1,99 @@
+import type { AppState, Budget, BudgetAlert } from '../types';
+import { getBudgetQuota, getBudgetUsed, getDailyBudgetMax, getMonthlySummary } from './budget';
+import { nonNegative, sumBy } from './money';
+import { toDateKey } from './recurring';
+import { getMonthKey } from './rollover';
+import { generateId } from './id';
+import { formatCurrency } from './format';
+import { t } from './i18n';
+
+// --- BUDGET ALERTS ---
+// A budget raises an alert when its spending crosses one of its thresholds, a
+// percentage of the month's quota. Each threshold fires once per month: an alert also
+// covers the lower thresholds, so a single large expense raises one alert, not three.
+// Daily money raises one alert per day once today's spending passes its daily limit.
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+export const ALERT_THRESHOLD_OPTIONS = [50, 80, 90, 100];
+const MAX_ALERT_HISTORY = 100;
+
+export const getAlertThresholds = (budget: Budget) => budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS;
+
+const hasAlert = (alerts: BudgetAlert[], kind: BudgetAlert['kind'], period: string, threshold: number, budgetId?: number) =>
+    alerts.some(a => a.kind === kind && a.budgetId === budgetId && a.period === period && a.threshold >= threshold);
+
+/**
+ * Raises the alerts `state` has earned on `now` and adds them to its history. Returns
+ * the state unchanged when there are none. `daily` turns the daily money alert on.
+ */
+export const checkBudgetAlerts = (state: AppState, daily: boolean, now: Date = new Date()): { state: AppState; raised: BudgetAlert[] } => {
+    const month = getMonthKey(now);
+    const raised: BudgetAlert[] = [];
+
+    state.budgets.filter(b => !b.isArchived).forEach(budget => {
+        const limit = getBudgetQuota(budget);
+        if (limit <= 0) return;
+        const spent = getBudgetUsed(budget);
+        const crossed = getAlertThresholds(budget).filter(threshold => spent * 100 >= threshold * limit);
+        if (crossed.length === 0) return;
+        const threshold = Math.max(...crossed);
+        if (hasAlert(state.budgetAlerts, 'budget', month, threshold, budget.id)) return;
+        raised.push({ id: generateId(), kind: 'budget', budgetId: budget.id, name: budget.name, threshold, period: month, spent, limit, timestamp: now.getTime() });
+    });
+
+    if (daily) {
+        const today = toDateKey(now);
+        const spent = sumBy(state.dailyExpenses.filter(e => toDateKey(new Date(e.timestamp)) === today), e => e.amount);
+        const limit = nonNegative(getDailyBudgetMax(getMonthlySummary(state).currentAvailableFunds, now));
+        if (spent > limit && !hasAlert(state.budgetAlerts, 'daily', today, 100)) {
+            raised.push({ id: generateId(), kind: 'daily', name: t('form.dailyMoney'), threshold: 100, period: today, spent, limit, timestamp: now.getTime() });
+        }
+    }
+
+    if (raised.length === 0) return { state, raised };
+    return { state: { ...state, budgetAlerts: [...raised, ...state.budgetAlerts].slice(0, MAX_ALERT_HISTORY) }, raised };
+};
+
+/** The headline and the amounts of an alert, for toasts, notifications and the history list. */
+export const describeBudgetAlert = (alert: BudgetAlert) => ({
+    title: alert.kind === 'daily'
+        ? t('alerts.dailyTitle')
+        : t(alert.threshold >= 100 ? 'alerts.budgetSpentTitle' : 'alerts.budgetThresholdTitle', { name: alert.name, threshold: alert.threshold }),
+    body: t('alerts.spentOf', { spent: formatCurrency(alert.spent), limit: formatCurrency(alert.limit) }),
+});
+
+// --- ALERT SETTINGS ---
+// Device preferences, like the bill reminder settings.
+
+export interface BudgetAlertSettings {
+    /** Alert when today's daily spending passes the daily limit. */
+    daily: boolean;
+    /** Also show a browser notification when the app is in the background. */
+    notify: boolean;
+}
+
+export const DEFAULT_BUDGET_ALERT_SETTINGS: BudgetAlertSettings = { daily: true, notify: false };
+
+const BUDGET_ALERT_SETTINGS_KEY = 'budgetAlertSettings';
+const ALERTS_SEEN_KEY = 'budgetAlertsSeenAt';
+
+export const loadBudgetAlertSettings = (): BudgetAlertSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(BUDGET_ALERT_SETTINGS_KEY) || 'null');
+        if (!saved) return DEFAULT_BUDGET_ALERT_SETTINGS;
+        return { daily: saved.daily !== false, notify: saved.notify === true };
+    } catch {
+        return DEFAULT_BUDGET_ALERT_SETTINGS;
+    }
+};
+
+export const saveBudgetAlertSettings = (settings: BudgetAlertSettings) => {
+    localStorage.setItem(BUDGET_ALERT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** When the alert history was last opened; newer alerts count as unread. */
+export const loadAlertsSeenAt = () => Number(localStorage.getItem(ALERTS_SEEN_KEY)) || 0;
+
+export const saveAlertsSeenAt = (timestamp: number) => {
+    localStorage.setItem(ALERTS_SEEN_KEY, String(timestamp));
+};
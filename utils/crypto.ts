@@ -0,0 +1,134 @@
+import { LocalizedError } from './i18n';
+import type { MessageKey } from './i18n';
+
+// --- ENCRYPTED EXPORT ---
+// A passphrase-protected alternative to the plain JSON export. The file is a small JSON
+// envelope whose `format` field marks it as encrypted, so import can tell the two apart
+// before asking for the passphrase. The key is derived with PBKDF2 (SHA-256) and the
+// export is sealed with AES-GCM, which also detects a wrong passphrase or a damaged file.
+
+export const ENCRYPTED_FORMAT = 'anggaran-encrypted';
+export const ENCRYPTED_EXTENSION = '.enc';
+
+const FORMAT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+// Files are read back with at most this many iterations: the count comes from the file,
+// and a crafted one would otherwise keep the tab busy deriving the key for hours.
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+const SALT_BYTES = 16;
+const MAX_SALT_BYTES = 64;
+const IV_BYTES = 12;
+
+export interface EncryptedExport {
+    format: typeof ENCRYPTED_FORMAT;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    /** Base64 ciphertext of the JSON export. */
+    data: string;
+}
+
+export class DecryptionError extends LocalizedError {
+    constructor(messageKey: MessageKey = 'decrypt.wrongPassphrase') {
+        super(messageKey);
+        this.name = 'DecryptionError';
+    }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    // Chunked, because spreading a large array into fromCharCode overflows the stack.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const isEncryptedExport = (data: any): data is EncryptedExport =>
+    !!data && typeof data === 'object' && data.format === ENCRYPTED_FORMAT;
+
+/** Encrypts the export text and returns the envelope, ready to be written to a file. */
+export const encryptExport = async (plainText: string, passphrase: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const cipherText = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plainText));
+    const envelope: EncryptedExport = {
+        format: ENCRYPTED_FORMAT,
+        version: FORMAT_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(cipherText)),
+    };
+    return JSON.stringify(envelope);
+};
+
+/**
+ * The key parameters of an envelope read from a file. Throws DecryptionError when they
+ * are not what encryptExport writes: fewer iterations would weaken the key, far more
+ * would freeze the tab.
+ */
+const readKeyParameters = (envelope: EncryptedExport) => {
+    const { kdf, cipher } = envelope;
+    const invalid = () => new DecryptionError('decrypt.invalidFile');
+    if (!kdf || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || !cipher || cipher.name !== 'AES-GCM'
+        || typeof kdf.salt !== 'string' || typeof cipher.iv !== 'string' || typeof envelope.data !== 'string') {
+        throw invalid();
+    }
+    if (!Number.isInteger(kdf.iterations) || kdf.iterations < PBKDF2_ITERATIONS || kdf.iterations > MAX_PBKDF2_ITERATIONS) {
+        throw invalid();
+    }
+    let salt: Uint8Array, iv: Uint8Array, data: Uint8Array;
+    try {
+        salt = fromBase64(kdf.salt);
+        iv = fromBase64(cipher.iv);
+        data = fromBase64(envelope.data);
+    } catch {
+        throw invalid();
+    }
+    if (salt.length < SALT_BYTES || salt.length > MAX_SALT_BYTES || iv.length !== IV_BYTES) throw invalid();
+    return { salt, iv, data, iterations: kdf.iterations };
+};
+
+/** Returns the original export text. Throws DecryptionError for a wrong passphrase or damaged file. */
+export const decryptExport = async (envelope: EncryptedExport, passphrase: string): Promise<string> => {
+    if (envelope.version > FORMAT_VERSION) {
+        throw new DecryptionError('decrypt.newerVersion');
+    }
+    const { salt, iv, data, iterations } = readKeyParameters(envelope);
+    try {
+        const key = await deriveKey(passphrase, salt, iterations);
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+        return new TextDecoder().decode(plain);
+    } catch {
+        throw new DecryptionError();
+    }
+};
+
+// --- AUTOMATIC EXPORT PREFERENCE ---
+// The periodic export runs without asking, so its passphrase has to be remembered on
+// this device. The app data itself is stored unencrypted here, so keeping the passphrase
+// next to it only protects the downloaded files, which is what the option is for.
+
+// Present only while encryption of the automatic export is switched on.
+const AUTO_EXPORT_PASSPHRASE_KEY = 'autoExportPassphrase';
+
+export const loadAutoExportPassphrase = (): string | null => localStorage.getItem(AUTO_EXPORT_PASSPHRASE_KEY) || null;
+
+export const saveAutoExportPassphrase = (passphrase: string | null) => {
+    if (passphrase) localStorage.setItem(AUTO_EXPORT_PASSPHRASE_KEY, passphrase);
+    else localStorage.removeItem(AUTO_EXPORT_PASSPHRASE_KEY);
+};
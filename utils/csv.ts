@@ -0,0 +1,165 @@
+import type { AppState, GlobalTransaction, SavingsGoal } from '../types';
+import { getBudgetQuota } from './budget';
+import { getAssetPrice, getAssetValue } from './currency';
+import { fromMoney, subtractMoney, sumMoney, negateMoney, ZERO, type Money } from './money';
+import { getMonthKey } from './rollover';
+
+// --- CSV EXPORT ---
+// Spreadsheet-friendly exports. Amounts are written as plain decimal numbers in their
+// currency (12.5, not the stored 1250 cents) without thousand separators, and every
+// file starts with a UTF-8 BOM so Excel opens Indonesian text correctly.
+
+type CsvValue = string | number | null | undefined;
+
+const escapeCsvValue = (value: CsvValue) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+    // Keep spreadsheets from evaluating descriptions such as "=SUM(...)" as formulas.
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+    '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+const formatDateTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString('fr-CA')} ${date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * One row per transaction, oldest first. Expenses are negative so the column can be
+ * summed; `Jumlah` is in the base currency, foreign payments also fill the original
+ * currency columns. Lines of a split transaction name their purchase in `Transaksi Split`,
+ * and `Tag` lists the tags separated by commas. Photos are only part of the ZIP backup.
+ */
+export const transactionsToCsv = (transactions: GlobalTransaction[], baseCurrency: string) => toCsv(
+    ['Tanggal', 'Keterangan', 'Jenis', 'Kategori', 'Jumlah', 'Mata Uang Asli', 'Jumlah Asli', 'Transaksi Split', 'Tag', 'Catatan'],
+    [...transactions]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(t => [
+            formatDateTime(t.timestamp),
+            t.desc,
+            t.type === 'add' ? 'Pemasukan' : 'Pengeluaran',
+            t.category || (t.type === 'add' ? 'Pemasukan' : 'Pengeluaran Umum'),
+            fromMoney(t.type === 'add' ? t.amount : negateMoney(t.amount), baseCurrency),
+            t.currency,
+            t.currency && t.originalAmount !== undefined ? fromMoney(t.type === 'add' ? t.originalAmount : negateMoney(t.originalAmount), t.currency) : undefined,
+            t.splitDesc,
+            t.tags?.join(', '),
+            t.note,
+        ]),
+);
+
+export const savingsHistoryToCsv = (goals: SavingsGoal[], baseCurrency: string) => toCsv(
+    ['Celengan', 'Tanggal', 'Jumlah', 'Catatan'],
+    goals.flatMap(g => [...g.history]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(h => [g.name, formatDateTime(h.timestamp), fromMoney(h.amount, baseCurrency), h.note])),
+);
+
+/** `Nilai` is in the asset's own currency, `Nilai (<base>)` empty when that currency has no rate. */
+export const assetsToCsv = (state: AppState) => toCsv(
+    ['Aset', 'Jumlah Unit', 'Mata Uang', 'Harga per Unit', 'Nilai', `Nilai (${state.baseCurrency})`],
+    state.assets.map(a => {
+        const currency = a.currency || state.baseCurrency;
+        const value = getAssetValue(state, a);
+        return [a.name, a.quantity, currency, fromMoney(a.pricePerUnit, currency), fromMoney(getAssetPrice(a), currency), value === null ? null : fromMoney(value, state.baseCurrency)];
+    }),
+);
+
+/**
+ * Budget versus actual spending per month and budget, for the given YYYY-MM months.
+ * Archives do not record past allocations, so closed months are compared against the
+ * budget's current allocation; the running month uses its quota including carry-over.
+ */
+export const budgetReportToCsv = (state: AppState, transactions: GlobalTransaction[], months: string[]) => {
+    const currentMonth = getMonthKey(new Date());
+    const spent: { [month: string]: { [category: string]: Money } } = {};
+    transactions.forEach(t => {
+        if (t.type !== 'remove' || !t.category) return;
+        const month = getMonthKey(t.timestamp);
+        spent[month] = spent[month] || {};
+        spent[month][t.category] = sumMoney([spent[month][t.category] || ZERO, t.amount]);
+    });
+
+    const toAmount = (amount: Money) => fromMoney(amount, state.baseCurrency);
+    const rows = [...months].sort().flatMap(month => state.budgets
+        .filter(b => !b.isArchived || spent[month]?.[b.name])
+        .sort((a, b) => a.order - b.order)
+        .map(b => {
+            const planned = month === currentMonth && !b.isArchived ? getBudgetQuota(b) : b.totalBudget;
+            const actual = spent[month]?.[b.name] || ZERO;
+            return [month, b.name, toAmount(planned), toAmount(actual), toAmount(subtractMoney(planned, actual))];
+        }));
+
+    return toCsv(['Bulan', 'Pos Anggaran', 'Anggaran', 'Realisasi', 'Selisih'], rows);
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// --- CSV IMPORT ---
+// Bank exports differ in separator: comma, semicolon (Excel with Indonesian locale)
+// or tab. A title line or a comma inside an amount can mislead a single line, so the
+// separator that splits the most of the first lines into the same number of cells
+// wins, and among those the one giving the most cells. Quoted cells are ignored.
+const DELIMITER_SAMPLE_LINES = 10;
+
+const detectDelimiter = (lines: string[]) => {
+    const sample = lines.map(line => line.replace(/"[^"]*"/g, '')).filter(line => line.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+    const scores = [',', ';', '\t'].map(d => {
+        const counts = sample.map(line => line.split(d).length - 1).filter(count => count > 0);
+        const frequency = new Map<number, number>();
+        counts.forEach(count => frequency.set(count, (frequency.get(count) ?? 0) + 1));
+        const [cells, lineCount] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [0, 0];
+        return { d, lineCount, cells };
+    });
+    return scores.sort((a, b) => b.lineCount - a.lineCount || b.cells - a.cells)[0].d;
+};
+
+/** Splits CSV text into rows of cells, honouring quoted cells. Empty lines are dropped. */
+export const parseCsv = (text: string): string[][] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(content.split(/\r?\n/));
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(cell.trim());
+        if (row.some(c => c !== '')) rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else cell += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) endRow();
+    return rows;
+};
@@ -0,0 +1,132 @@
+import type { AppState, Asset, ExchangeRate, ForeignAmount } from '../types';
+import { toDateKey } from './recurring';
+import { convertMoney, multiplyMoney, sumBy, type Money } from './money';
+
+// --- CURRENCIES ---
+// Every amount in AppState is in minor units of the base currency (`state.baseCurrency`),
+// so totals can keep summing `amount`. An entry paid in another currency is converted
+// when it is recorded, at the rate valid on its date, and keeps what was actually paid
+// in `currency` and `originalAmount`. Assets are priced in their own currency and
+// valued at the latest rate.
+
+export const DEFAULT_CURRENCY = 'IDR';
+
+/** Offered when recording exchange rates; names come from formatCurrencyName in utils/format.ts. */
+export const commonCurrencies = ['IDR', 'USD', 'EUR', 'SGD', 'MYR', 'JPY', 'AUD', 'GBP', 'SAR', 'CNY'];
+
+// --- EXCHANGE RATES ---
+
+/** Currencies that have at least one rate, i.e. can be used besides the base currency. */
+export const getRatedCurrencies = (rates: ExchangeRate[]) => [...new Set(rates.map(r => r.currency))].sort();
+
+/**
+ * Value of one unit of `currency` in the base currency on `date` (YYYY-MM-DD): the
+ * newest rate on or before that day, or the oldest rate when the date predates them
+ * all. Null when the currency has no rate.
+ */
+export const getExchangeRate = (rates: ExchangeRate[], currency: string, date: string): number | null => {
+    const history = rates.filter(r => r.currency === currency).sort((a, b) => a.date.localeCompare(b.date));
+    if (history.length === 0) return null;
+    const valid = history.filter(r => r.date <= date);
+    return (valid.length > 0 ? valid[valid.length - 1] : history[0]).rate;
+};
+
+/**
+ * The base-currency amount and foreign-currency fields for an entry of `amount` in
+ * `currency`, converted at the rate of `timestamp`. Null when there is no rate.
+ */
+export const toBaseAmount = (state: AppState, amount: Money, currency: string, timestamp: number): ({ amount: Money } & ForeignAmount) | null => {
+    if (currency === state.baseCurrency) return { amount };
+    const rate = getExchangeRate(state.exchangeRates, currency, toDateKey(new Date(timestamp)));
+    if (rate === null) return null;
+    return { amount: convertMoney(amount, currency, state.baseCurrency, rate), currency, originalAmount: amount };
+};
+
+/** The value of an asset in its own currency. */
+export const getAssetPrice = (asset: Asset) => multiplyMoney(asset.pricePerUnit, asset.quantity);
+
+/** Current value of an asset in the base currency, or null when its currency has no rate. */
+export const getAssetValue = (state: AppState, asset: Asset): Money | null => {
+    const value = getAssetPrice(asset);
+    if (!asset.currency || asset.currency === state.baseCurrency) return value;
+    const rate = getExchangeRate(state.exchangeRates, asset.currency, toDateKey(new Date()));
+    return rate === null ? null : convertMoney(value, asset.currency, state.baseCurrency, rate);
+};
+
+// --- CHANGING THE BASE CURRENCY ---
+
+/**
+ * Converts every amount to `next`, which needs an exchange rate. Transactions use the
+ * rate of their own date; budgets, savings targets, recurring amounts, bills and alert
+ * amounts use today's.
+ * Entries in the old base currency remember it as their original currency, and the
+ * rate table is re-expressed in the new base. Returns null when `next` has no rate.
+ */
+export const changeBaseCurrency = (state: AppState, next: string): AppState | null => {
+    const previous = state.baseCurrency;
+    if (next === previous) return state;
+    const today = toDateKey(new Date());
+    const rateOn = (date: string) => getExchangeRate(state.exchangeRates, next, date);
+    const todayRate = rateOn(today);
+    if (todayRate === null) return null;
+    const convert = (amount: Money, rate: number = todayRate) => convertMoney(amount, previous, next, 1 / rate);
+
+    const convertEntry = <T extends ForeignAmount & { amount: Money; timestamp: number }>(entry: T): T => {
+        if (entry.currency === next && entry.originalAmount !== undefined) {
+            const { currency: _currency, originalAmount, ...rest } = entry;
+            return { ...rest, amount: originalAmount } as T;
+        }
+        const amount = convert(entry.amount, rateOn(toDateKey(new Date(entry.timestamp)))!);
+        return entry.currency ? { ...entry, amount } : { ...entry, amount, currency: previous, originalAmount: entry.amount };
+    };
+
+    const savingsGoals = state.savingsGoals.map(g => {
+        const history = g.history.map(convertEntry);
+        return {
+            ...g,
+            history,
+            savedAmount: sumBy(history, h => h.amount),
+            targetAmount: g.targetAmount !== undefined ? convert(g.targetAmount) : undefined,
+        };
+    });
+
+    // Rates were "1 unit = x previous"; they become "1 unit = x / (rate of next) next".
+    const exchangeRates: ExchangeRate[] = [
+        ...state.exchangeRates
+            .filter(r => r.currency !== next)
+            .map(r => ({ ...r, rate: r.rate / rateOn(r.date)! })),
+        ...state.exchangeRates
+            .filter(r => r.currency === next)
+            .map(r => ({ ...r, currency: previous, rate: 1 / r.rate })),
+    ];
+
+    return {
+        ...state,
+        baseCurrency: next,
+        exchangeRates,
+        fundHistory: state.fundHistory.map(convertEntry),
+        dailyExpenses: state.dailyExpenses.map(convertEntry),
+        budgets: state.budgets.map(b => ({
+            ...b,
+            totalBudget: convert(b.totalBudget),
+            carriedOver: b.carriedOver !== undefined ? convert(b.carriedOver) : undefined,
+            history: b.history.map(convertEntry),
+        })),
+        archives: state.archives.map(a => ({ ...a, transactions: a.transactions.map(convertEntry) })),
+        savingsGoals,
+        assets: state.assets.map(a => {
+            if (a.currency === next) {
+                const { currency: _currency, ...rest } = a;
+                return rest;
+            }
+            return a.currency ? a : { ...a, currency: previous };
+        }),
+        recurringRules: state.recurringRules.map(r => ({
+            ...r,
+            amount: convert(r.amount),
+            amountOverrides: Object.fromEntries(Object.entries(r.amountOverrides).map(([date, amount]) => [date, convert(amount)])),
+        })),
+        bills: state.bills.map(b => ({ ...b, amount: convert(b.amount) })),
+        budgetAlerts: state.budgetAlerts.map(a => ({ ...a, spent: convert(a.spent), limit: convert(a.limit) })),
+    };
+};
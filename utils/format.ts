@@ -0,0 +1,126 @@
+import type { ForeignAmount } from '../types';
+import { DEFAULT_CURRENCY } from './currency';
+import { fromMoney, getFractionDigits, toMoney, type Money } from './money';
+import { getLocale, localeTags } from './i18n';
+
+// --- FORMATTING ---
+// Every number, amount and date shown in the UI goes through these helpers, so they
+// follow the selected locale (see utils/i18n.ts) and the base currency.
+
+const localeTag = () => localeTags[getLocale()];
+
+let baseCurrency = DEFAULT_CURRENCY;
+
+/** Sets the default currency of formatCurrency. App keeps it in step with `state.baseCurrency`. */
+export const setBaseCurrency = (currency: string) => {
+    baseCurrency = currency;
+};
+
+/** Where they exist, decimals are shown only when the amount is not whole: "US$12" but "US$12,50". */
+export const formatCurrency = (amount: Money, currency: string = baseCurrency) => {
+    const value = fromMoney(amount, currency);
+    return new Intl.NumberFormat(localeTag(), {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: Number.isInteger(value) ? 0 : getFractionDigits(currency),
+        maximumFractionDigits: getFractionDigits(currency),
+    }).format(value);
+};
+
+/** "US$12,50" for entries paid in a foreign currency, otherwise null. */
+export const formatOriginalAmount = (entry: ForeignAmount) =>
+    entry.currency && entry.originalAmount !== undefined ? formatCurrency(entry.originalAmount, entry.currency) : null;
+
+/** "Dolar Amerika Serikat" / "US Dollar"; the code itself when the browser has no name for it. */
+export const formatCurrencyName = (currency: string) => {
+    try {
+        return new Intl.DisplayNames(localeTag(), { type: 'currency' }).of(currency) || currency;
+    } catch {
+        return currency;
+    }
+};
+
+const shortUnits = {
+    id: { million: ' jt', thousand: ' rb' },
+    en: { million: 'M', thousand: 'K' },
+};
+
+/** Chart axes and calendar cells: "1,5 jt" and "250 rb", or "1.5M" and "250K" in English. */
+export const formatShortCurrency = (money: Money) => {
+    const amount = fromMoney(money, baseCurrency);
+    const units = shortUnits[getLocale()];
+    if (Math.abs(amount) >= 1000000) return `${formatNumber(amount / 1000000, 1)}${units.million}`;
+    if (Math.abs(amount) >= 1000) return `${formatNumber(Math.round(amount / 1000))}${units.thousand}`;
+    return formatNumber(amount);
+};
+
+export const formatNumber = (value: number, maximumFractionDigits = 0) =>
+    new Intl.NumberFormat(localeTag(), { maximumFractionDigits }).format(value);
+
+// --- AMOUNT INPUTS ---
+// Amount fields show group separators while typing and accept the locale's decimal
+// separator ("12,50" in Indonesian, "12.50" in English) up to `fractionDigits` decimals,
+// which default to those of the base currency. In rupiah fields, which take no decimals,
+// whatever follows the decimal separator is dropped: "1,5" is 1, never 15.
+
+const getSeparators = () => {
+    const parts = new Intl.NumberFormat(localeTag()).formatToParts(1000.5);
+    return {
+        group: parts.find(p => p.type === 'group')?.value ?? ',',
+        decimal: parts.find(p => p.type === 'decimal')?.value ?? '.',
+    };
+};
+
+/**
+ * The input text for `value`: a stored number, or what was just typed. Typed text keeps
+ * a trailing decimal separator and zeros ("12," or "12,50") so decimals can be entered.
+ */
+export const formatNumberInput = (value: string | number, fractionDigits = getFractionDigits(baseCurrency)) => {
+    if (typeof value === 'number') return formatNumber(value, fractionDigits);
+    const { decimal } = getSeparators();
+    const separatorIndex = value.indexOf(decimal);
+    const integerDigits = (separatorIndex === -1 ? value : value.slice(0, separatorIndex)).replace(/[^0-9]/g, '');
+    if (separatorIndex === -1 || fractionDigits === 0) return integerDigits === '' ? '' : formatNumber(Number(integerDigits));
+    const fraction = value.slice(separatorIndex + 1).replace(/[^0-9]/g, '').slice(0, fractionDigits);
+    return `${formatNumber(Number(integerDigits))}${decimal}${fraction}`;
+};
+
+/** The number in an amount field, with at most `fractionDigits` decimals; 0 when it is empty. */
+export const parseNumberInput = (value: string, fractionDigits = getFractionDigits(baseCurrency)) => {
+    const { decimal } = getSeparators();
+    const [integerPart, fraction = ''] = value.split(decimal);
+    return Number(`${integerPart.replace(/[^0-9]/g, '')}.${fraction.replace(/[^0-9]/g, '').slice(0, fractionDigits)}`) || 0;
+};
+
+/** The input text for a stored amount of `currency`. */
+export const formatMoneyInput = (amount: Money, currency: string = baseCurrency) =>
+    formatNumberInput(fromMoney(amount, currency), getFractionDigits(currency));
+
+/** What is typed into an amount field of `currency`, as it is stored. */
+export const parseMoneyInput = (value: string, currency: string = baseCurrency) =>
+    toMoney(parseNumberInput(value, getFractionDigits(currency)), currency);
+
+// --- DATES ---
+
+// YYYY-MM-DD and YYYY-MM keys are read as local dates, not UTC midnight.
+const toDate = (value: Date | number | string) => {
+    if (typeof value !== 'string') return new Date(value);
+    return new Date(value.length === 7 ? `${value}-01T00:00:00` : `${value}T00:00:00`);
+};
+
+export const formatDate = (value: Date | number | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+    toDate(value).toLocaleDateString(localeTag(), options);
+
+export const formatTime = (value: Date | number) =>
+    toDate(value).toLocaleTimeString(localeTag(), { hour: '2-digit', minute: '2-digit' });
+
+export const formatDateTime = (value: Date | number) =>
+    toDate(value).toLocaleString(localeTag(), { dateStyle: 'medium', timeStyle: 'short' });
+
+/** "Oktober 2026" for a YYYY-MM key, or "Okt 2026" with `short`. */
+export const formatMonth = (monthKey: string, month: 'long' | 'short' = 'long') =>
+    formatDate(monthKey, { month, year: 'numeric' });
+
+/** Weekday names starting on Sunday, for calendar headers. */
+export const getWeekdayNames = (weekday: 'short' | 'long' = 'short') =>
+    Array.from({ length: 7 }, (_, day) => formatDate(new Date(2024, 0, 7 + day), { weekday }));
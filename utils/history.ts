@@ -0,0 +1,59 @@
+import type { AppState } from '../types';
+
+// --- UNDO HISTORY ---
+// Every user action that goes through `updateState` keeps a snapshot of the state it
+// replaced. State updates never mutate the previous object, so snapshots share most of
+// their data with the live state and a few dozen of them are cheap to keep.
+
+export const MAX_UNDO_STEPS = 30;
+
+export interface HistoryAction {
+    /** Shown in the undo toast, e.g. `Pos "Makan" dihapus`. */
+    description: string;
+    /** Deletes, archives and other changes that are easy to regret raise an "Urungkan" toast. */
+    destructive?: boolean;
+}
+
+interface HistoryEntry {
+    description: string;
+    state: AppState;
+}
+
+export interface UndoHistory {
+    /** Oldest first; the last entry is the state before the most recent action. */
+    past: HistoryEntry[];
+    /** States that were undone, most recently undone last. */
+    future: HistoryEntry[];
+}
+
+export const emptyHistory: UndoHistory = { past: [], future: [] };
+
+/** Records `before` as the state to return to when `description` is undone. A new action discards the redo stack. */
+export const recordChange = (history: UndoHistory, description: string, before: AppState): UndoHistory => ({
+    past: [...history.past, { description, state: before }].slice(-MAX_UNDO_STEPS),
+    future: [],
+});
+
+// Undo and redo are the same move in opposite directions: take the nearest entry
+// from one stack and leave the current state on the other.
+const step = (from: HistoryEntry[], to: HistoryEntry[], current: AppState) => {
+    const entry = from[from.length - 1];
+    if (!entry) return null;
+    return {
+        from: from.slice(0, -1),
+        to: [...to, { description: entry.description, state: current }],
+        entry,
+    };
+};
+
+export const undoChange = (history: UndoHistory, current: AppState) => {
+    const result = step(history.past, history.future, current);
+    if (!result) return null;
+    return { history: { past: result.from, future: result.to }, state: result.entry.state, description: result.entry.description };
+};
+
+export const redoChange = (history: UndoHistory, current: AppState) => {
+    const result = step(history.future, history.past, current);
+    if (!result) return null;
+    return { history: { past: result.to, future: result.from }, state: result.entry.state, description: result.entry.description };
+};
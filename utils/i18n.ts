@@ -0,0 +1,80 @@
+import type { Achievement } from '../types';
+import { id } from '../data/locales/id';
+import { en, enAchievements } from '../data/locales/en';
+
+// --- LOCALES ---
+// UI text lives in message catalogs under data/locales. The Indonesian catalog is the
+// reference: its keys define MessageKey, and every other catalog must provide all of
+// them. Stored data (category names such as "Harian", "[Overage]" descriptions) is
+// never translated, only what is shown around it.
+
+export type Locale = 'id' | 'en';
+export type MessageKey = keyof typeof id;
+export type Messages = { [key in MessageKey]: string };
+
+const catalogs: { [key in Locale]: Messages } = { id, en };
+
+export const locales: Locale[] = ['id', 'en'];
+
+/** Each language in its own words, for the language setting. */
+export const localeNames: { [key in Locale]: string } = {
+    id: 'Bahasa Indonesia',
+    en: 'English',
+};
+
+/** BCP 47 tags for Intl formatting. */
+export const localeTags: { [key in Locale]: string } = {
+    id: 'id-ID',
+    en: 'en-US',
+};
+
+// A device preference, like the backup retention policy, so it is not part of exported data.
+const LOCALE_KEY = 'appLocale';
+
+export const loadLocale = (): Locale => {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    return saved === 'id' || saved === 'en' ? saved : 'id';
+};
+
+export const saveLocale = (locale: Locale) => {
+    localStorage.setItem(LOCALE_KEY, locale);
+};
+
+let currentLocale: Locale = 'id';
+
+/** Sets the locale of `t` and the formatters. App keeps it in step with its locale state. */
+export const setLocale = (locale: Locale) => {
+    currentLocale = locale;
+};
+
+export const getLocale = () => currentLocale;
+
+export type MessageParams = { [name: string]: string | number };
+
+/** The message for `key` with `{name}` placeholders filled from `params`. */
+export const t = (key: MessageKey, params?: MessageParams) => {
+    const message = catalogs[currentLocale][key] ?? id[key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name) => params[name] !== undefined ? String(params[name]) : match);
+};
+
+// --- LOCALIZED ERRORS ---
+// Errors the user gets to see carry their catalog key, so `message` is in the locale
+// that was active when they were thrown and can be rendered again with `t` later.
+export class LocalizedError extends Error {
+    constructor(public readonly messageKey: MessageKey, public readonly params?: MessageParams) {
+        super(t(messageKey, params));
+        this.name = 'LocalizedError';
+    }
+}
+
+// Achievements are defined in Indonesian in data/achievements.ts; other locales
+// translate them by id and fall back to the original text.
+const achievementTranslations: { [key in Locale]?: { [id: string]: { name: string; description: string } } } = {
+    en: enAchievements,
+};
+
+export const localizeAchievement = (achievement: Achievement): Achievement => {
+    const translation = achievementTranslations[currentLocale]?.[achievement.id];
+    return translation ? { ...achievement, ...translation } : achievement;
+};
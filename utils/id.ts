@@ -0,0 +1,46 @@
+import type { AppState, Transaction, FundTransaction, GlobalTransaction, SavingTransaction } from '../types';
+
+// crypto.randomUUID is only available in secure contexts (HTTPS / localhost), so
+// fall back to a time + random id when the app is opened over plain HTTP.
+export const generateId = (): string =>
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
+
+type WithOptionalId<T> = Omit<T, 'id'> & { id?: string };
+const withId = <T extends { id: string }>(item: WithOptionalId<T>): T => (item.id ? item : { ...item, id: generateId() }) as T;
+
+/**
+ * Gives every transaction and savings deposit an id and restores the links that
+ * older data expressed through shared timestamps: `[Overage]` daily entries point
+ * to their budget entry via `overageOf`, savings deposits to their fund entry via
+ * `fundTransactionId`. Idempotent, so it is safe to run on every load, import and
+ * restored backup.
+ */
+export const ensureTransactionIds = (state: AppState): AppState => {
+    const budgets = state.budgets.map(b => ({ ...b, history: b.history.map(h => withId<Transaction>(h)) }));
+    const fundHistory = state.fundHistory.map(t => withId<FundTransaction>(t));
+    const archives = state.archives.map(a => ({ ...a, transactions: a.transactions.map(t => withId<GlobalTransaction>(t)) }));
+
+    const dailyExpenses = state.dailyExpenses.map(t => {
+        const expense = withId<Transaction>(t);
+        if (expense.overageOf || !expense.sourceCategory) return expense;
+        const parent = budgets
+            .find(b => b.name === expense.sourceCategory)
+            ?.history.find(h => h.timestamp === expense.timestamp);
+        return parent ? { ...expense, overageOf: parent.id } : expense;
+    });
+
+    const fundEntries = [...fundHistory, ...archives.flatMap(a => a.transactions)];
+    const savingsGoals = state.savingsGoals.map(g => ({
+        ...g,
+        history: g.history.map(h => {
+            const deposit = withId<SavingTransaction>(h);
+            if (deposit.fundTransactionId) return deposit;
+            const fundEntry = fundEntries.find(t => t.type === 'remove' && t.desc === `Tabungan: ${g.name}` && t.timestamp === deposit.timestamp);
+            return fundEntry ? { ...deposit, fundTransactionId: fundEntry.id } : deposit;
+        }),
+    }));
+
+    return { ...state, budgets, dailyExpenses, fundHistory, archives, savingsGoals };
+};
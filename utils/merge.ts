@@ -0,0 +1,316 @@
+import type { AppState, Budget, SavingsGoal, DeletedSavingsGoal, Asset, RecurringRule, Bill, BudgetAlert, Archive, ExchangeRate } from '../types';
+import { changeBaseCurrency } from './currency';
+import { sumBy, type Money } from './money';
+import { formatCurrency, formatDate, formatNumber } from './format';
+import { t } from './i18n';
+
+// --- MERGE IMPORT ---
+// Combines the state of this device ("local") with an export from another device
+// ("incoming") instead of replacing it. Both sides must already be validated and
+// migrated to the current schema. Whenever the two sides disagree and there is no
+// safe way to pick a winner, the local value is kept and a conflict is reported in the
+// current locale.
+
+export interface MergeConflict {
+    /** Where the disagreement was found, e.g. `Pos "Makan"`. */
+    location: string;
+    message: string;
+    /** How the merge settled it. */
+    resolution: string;
+}
+
+export interface MergeResult {
+    state: AppState;
+    conflicts: MergeConflict[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+interface MergeableEntry {
+    id: string;
+    amount: Money;
+    timestamp: number;
+    desc?: string;
+    note?: string;
+}
+
+// Entries recorded separately on both devices share no id but describe the same event.
+const signature = (entry: MergeableEntry) => `${entry.timestamp}|${entry.amount}|${entry.desc ?? entry.note ?? ''}`;
+
+// Incoming items get a fresh numeric id only when theirs is already taken locally.
+const createIdAllocator = (usedIds: number[]) => {
+    const used = new Set(usedIds);
+    let nextId = Math.max(0, ...usedIds) + 1;
+    return (id: number) => {
+        if (used.has(id)) id = nextId++;
+        used.add(id);
+        return id;
+    };
+};
+
+/**
+ * Merges `incoming` into `local`. Transactions are united and de-duplicated by id,
+ * or by timestamp, amount and description; an entry still live on one device may
+ * already be archived on the other. Budgets, savings goals, assets, recurring rules
+ * and bills are matched by name; savings goal histories are united and their
+ * `savedAmount` recomputed, leaving out deposits from before the goal was opened or
+ * deleted on either device. Achievements keep the earliest unlock time, budget alerts
+ * are united.
+ */
+export const mergeStates = (local: AppState, incomingState: AppState): MergeResult => {
+    const conflicts: MergeConflict[] = [];
+    const KEEP_LOCAL = t('merge.keepLocal');
+    const formatAmount = (amount: Money) => formatCurrency(amount, local.baseCurrency);
+
+    // Amounts can only be compared and added up in one base currency.
+    let incoming = incomingState;
+    if (incomingState.baseCurrency !== local.baseCurrency) {
+        const converted = changeBaseCurrency(incomingState, local.baseCurrency);
+        conflicts.push({
+            location: t('location.baseCurrency'),
+            message: t('merge.currencyDiffers', { incoming: incomingState.baseCurrency, local: local.baseCurrency }),
+            resolution: t(converted ? 'merge.converted' : 'merge.notConverted', { currency: local.baseCurrency }),
+        });
+        if (converted) incoming = converted;
+    }
+    // Incoming transaction id -> id of the local entry it turned out to duplicate.
+    const transactionIdMap = new Map<string, string>();
+
+    const localEntries = new Map<string, string>();
+    const rememberEntries = (entries: MergeableEntry[]) => entries.forEach(e => localEntries.set(e.id, signature(e)));
+    local.budgets.forEach(b => rememberEntries(b.history));
+    rememberEntries(local.dailyExpenses);
+    rememberEntries(local.fundHistory);
+    local.archives.forEach(a => rememberEntries(a.transactions));
+    local.savingsGoals.forEach(g => rememberEntries(g.history));
+
+    // Signature -> id of the kept entry, shared by budget, daily, fund and archived
+    // transactions: the month may be archived on one device and still running on the other.
+    const transactionSignatures = new Map<string, string>();
+    [
+        ...local.budgets.flatMap(b => b.history),
+        ...local.dailyExpenses,
+        ...local.fundHistory,
+        ...local.archives.flatMap(a => a.transactions),
+    ].forEach(e => transactionSignatures.set(signature(e), e.id));
+
+    const mergeEntries = <T extends MergeableEntry>(localList: T[], incomingList: T[], location: string, bySignature = transactionSignatures): T[] => {
+        const merged = [...localList];
+        incomingList.forEach(entry => {
+            const localSignature = localEntries.get(entry.id);
+            if (localSignature !== undefined) {
+                if (localSignature !== signature(entry)) {
+                    conflicts.push({
+                        location,
+                        message: t('merge.entryDiffers', { desc: entry.desc ?? entry.note ?? t('merge.transaction'), date: formatDate(entry.timestamp) }),
+                        resolution: KEEP_LOCAL,
+                    });
+                }
+                return;
+            }
+            const duplicateId = bySignature.get(signature(entry));
+            if (duplicateId) {
+                transactionIdMap.set(entry.id, duplicateId);
+                return;
+            }
+            merged.push(entry);
+            bySignature.set(signature(entry), entry.id);
+            localEntries.set(entry.id, signature(entry));
+        });
+        return merged.sort((a, b) => a.timestamp - b.timestamp);
+    };
+
+    // Savings goals are matched first so budgets sweeping into them can be re-pointed.
+    const allocateGoalId = createIdAllocator(local.savingsGoals.map(g => g.id));
+    const goalIdMap = new Map<number, number>();
+    incoming.savingsGoals.forEach(g => {
+        const match = local.savingsGoals.find(l => normalizeName(l.name) === normalizeName(g.name));
+        goalIdMap.set(g.id, match ? match.id : allocateGoalId(g.id));
+    });
+
+    // --- BUDGETS ---
+    const allocateBudgetId = createIdAllocator(local.budgets.map(b => b.id));
+    const budgetIdMap = new Map<number, number>();
+    let budgets: Budget[] = [...local.budgets];
+    incoming.budgets.forEach(incomingBudget => {
+        const match = budgets.find(b => normalizeName(b.name) === normalizeName(incomingBudget.name));
+        const location = t('location.budget', { name: match ? match.name : incomingBudget.name });
+        if (!match) {
+            const id = allocateBudgetId(incomingBudget.id);
+            budgetIdMap.set(incomingBudget.id, id);
+            budgets.push({
+                ...incomingBudget,
+                id,
+                order: budgets.length,
+                history: mergeEntries([], incomingBudget.history, location),
+                rolloverGoalId: incomingBudget.rolloverGoalId !== undefined ? goalIdMap.get(incomingBudget.rolloverGoalId) : undefined,
+            });
+            return;
+        }
+        budgetIdMap.set(incomingBudget.id, match.id);
+        if (match.totalBudget !== incomingBudget.totalBudget) {
+            conflicts.push({ location, message: t('merge.budgetAmountDiffers', { local: formatAmount(match.totalBudget), incoming: formatAmount(incomingBudget.totalBudget) }), resolution: KEEP_LOCAL });
+        }
+        if ((match.rolloverPolicy || 'reset') !== (incomingBudget.rolloverPolicy || 'reset')) {
+            conflicts.push({ location, message: t('merge.rolloverDiffers'), resolution: KEEP_LOCAL });
+        }
+        if (match.isArchived !== incomingBudget.isArchived) {
+            conflicts.push({ location, message: t('merge.archivedOnOneDevice'), resolution: KEEP_LOCAL });
+        }
+        budgets = budgets.map(b => b === match ? { ...b, history: mergeEntries(b.history, incomingBudget.history, location) } : b);
+    });
+
+    // --- LIVE AND ARCHIVED TRANSACTIONS ---
+    const dailyExpenses = mergeEntries(local.dailyExpenses, incoming.dailyExpenses, t('location.dailyExpenses'))
+        .map(t => t.overageOf ? { ...t, overageOf: transactionIdMap.get(t.overageOf) ?? t.overageOf } : t);
+    const fundHistory = mergeEntries(local.fundHistory, incoming.fundHistory, t('location.fundHistory'));
+
+    let archives: Archive[] = [...local.archives];
+    incoming.archives.forEach(incomingArchive => {
+        const location = t('location.archive', { month: incomingArchive.month });
+        const match = archives.find(a => a.month === incomingArchive.month);
+        archives = match
+            ? archives.map(a => a === match ? { ...a, transactions: mergeEntries(a.transactions, incomingArchive.transactions, location) } : a)
+            : [...archives, { ...incomingArchive, transactions: mergeEntries([], incomingArchive.transactions, location) }];
+    });
+    archives.sort((a, b) => a.month.localeCompare(b.month));
+
+    // --- SAVINGS GOALS ---
+    // Opening or deleting a goal paid its deposits back into the fund on one device. The
+    // other device still lists them, so they are dropped here instead of being counted
+    // again; a deleted goal only survives with deposits made after it was deleted.
+    const deletedSavingsGoals: DeletedSavingsGoal[] = [...local.deletedSavingsGoals];
+    incoming.deletedSavingsGoals.forEach(incomingDeleted => {
+        const match = deletedSavingsGoals.find(d => normalizeName(d.name) === normalizeName(incomingDeleted.name));
+        if (!match) deletedSavingsGoals.push(incomingDeleted);
+        else if (incomingDeleted.deletedAt > match.deletedAt) deletedSavingsGoals.splice(deletedSavingsGoals.indexOf(match), 1, incomingDeleted);
+    });
+    const recomputeGoal = (goal: SavingsGoal): SavingsGoal | null => {
+        const deletedAt = deletedSavingsGoals.find(d => normalizeName(d.name) === normalizeName(goal.name))?.deletedAt;
+        const paidOutUntil = Math.max(goal.openedAt ?? -Infinity, deletedAt ?? -Infinity);
+        const history = goal.history
+            .filter(h => h.timestamp > paidOutUntil)
+            .map(h => h.fundTransactionId ? { ...h, fundTransactionId: transactionIdMap.get(h.fundTransactionId) ?? h.fundTransactionId } : h);
+        if (deletedAt !== undefined && goal.createdAt <= deletedAt && history.length === 0) return null;
+        const savedAmount = sumBy(history, h => h.amount);
+        return { ...goal, history, savedAmount, isCompleted: !goal.isInfinite && !!goal.targetAmount && savedAmount >= goal.targetAmount };
+    };
+    let savingsGoals: SavingsGoal[] = [...local.savingsGoals];
+    incoming.savingsGoals.forEach(incomingGoal => {
+        const id = goalIdMap.get(incomingGoal.id)!;
+        const match = savingsGoals.find(g => g.id === id);
+        const location = t('location.goal', { name: match ? match.name : incomingGoal.name });
+        if (!match) {
+            savingsGoals.push({ ...incomingGoal, id, history: mergeEntries([], incomingGoal.history, location, new Map()) });
+            return;
+        }
+        if (match.isInfinite !== incomingGoal.isInfinite || (!match.isInfinite && match.targetAmount !== incomingGoal.targetAmount)) {
+            conflicts.push({ location, message: t('merge.goalTargetDiffers'), resolution: KEEP_LOCAL });
+        }
+        const openedAt = Math.max(match.openedAt ?? -Infinity, incomingGoal.openedAt ?? -Infinity);
+        const history = mergeEntries(match.history, incomingGoal.history, location, new Map(match.history.map(h => [signature(h), h.id])));
+        savingsGoals = savingsGoals.map(g => g === match ? { ...g, history, ...(Number.isFinite(openedAt) ? { openedAt } : {}) } : g);
+    });
+    savingsGoals = savingsGoals.flatMap(goal => recomputeGoal(goal) ?? []);
+
+    // --- ASSETS ---
+    const allocateAssetId = createIdAllocator(local.assets.map(a => a.id));
+    const assets: Asset[] = [...local.assets];
+    incoming.assets.forEach(incomingAsset => {
+        const match = assets.find(a => normalizeName(a.name) === normalizeName(incomingAsset.name));
+        if (!match) {
+            assets.push({ ...incomingAsset, id: allocateAssetId(incomingAsset.id) });
+        } else if (match.quantity !== incomingAsset.quantity || match.pricePerUnit !== incomingAsset.pricePerUnit) {
+            conflicts.push({ location: t('location.asset', { name: match.name }), message: t('merge.assetDiffers'), resolution: KEEP_LOCAL });
+        }
+    });
+
+    // --- RECURRING RULES ---
+    // Occurrences both devices already posted were de-duplicated above, so a matched
+    // rule continues from whichever device got further.
+    const allocateRuleId = createIdAllocator(local.recurringRules.map(r => r.id));
+    let recurringRules: RecurringRule[] = [...local.recurringRules];
+    incoming.recurringRules.forEach(incomingRule => {
+        const target = incomingRule.target.kind === 'budget'
+            ? { ...incomingRule.target, budgetId: budgetIdMap.get(incomingRule.target.budgetId) ?? incomingRule.target.budgetId }
+            : incomingRule.target;
+        const match = recurringRules.find(r => normalizeName(r.desc) === normalizeName(incomingRule.desc)
+            && r.frequency === incomingRule.frequency
+            && JSON.stringify(r.target) === JSON.stringify(target));
+        if (!match) {
+            recurringRules.push({ ...incomingRule, id: allocateRuleId(incomingRule.id), target });
+            return;
+        }
+        if (match.amount !== incomingRule.amount) {
+            conflicts.push({ location: t('location.recurringRule', { name: match.desc }), message: t('merge.amountDiffers', { local: formatAmount(match.amount), incoming: formatAmount(incomingRule.amount) }), resolution: KEEP_LOCAL });
+        }
+        if (incomingRule.nextDueDate > match.nextDueDate) {
+            recurringRules = recurringRules.map(r => r === match ? { ...r, nextDueDate: incomingRule.nextDueDate } : r);
+        }
+    });
+
+    // --- BILLS ---
+    // A month paid on either device counts as paid.
+    const allocateBillId = createIdAllocator(local.bills.map(b => b.id));
+    let bills: Bill[] = [...local.bills];
+    incoming.bills.forEach(incomingBill => {
+        const budgetId = incomingBill.budgetId !== undefined ? budgetIdMap.get(incomingBill.budgetId) ?? incomingBill.budgetId : undefined;
+        const payments = Object.fromEntries(Object.entries(incomingBill.payments).map(([month, id]) => [month, transactionIdMap.get(id) ?? id]));
+        const match = bills.find(b => normalizeName(b.name) === normalizeName(incomingBill.name));
+        if (!match) {
+            bills.push({ ...incomingBill, id: allocateBillId(incomingBill.id), budgetId, payments });
+            return;
+        }
+        if (match.amount !== incomingBill.amount || match.dueDay !== incomingBill.dueDay) {
+            conflicts.push({ location: t('location.bill', { name: match.name }), message: t('merge.billDiffers'), resolution: KEEP_LOCAL });
+        }
+        bills = bills.map(b => b === match ? { ...b, payments: { ...payments, ...b.payments } } : b);
+    });
+
+    // --- BUDGET ALERTS ---
+    // An alert raised on either device stays raised, so its threshold does not fire again.
+    const budgetAlerts: BudgetAlert[] = [...local.budgetAlerts];
+    incoming.budgetAlerts.forEach(incomingAlert => {
+        const alert = incomingAlert.budgetId !== undefined ? { ...incomingAlert, budgetId: budgetIdMap.get(incomingAlert.budgetId) ?? incomingAlert.budgetId } : incomingAlert;
+        const isKnown = budgetAlerts.some(a => a.id === alert.id
+            || (a.kind === alert.kind && a.budgetId === alert.budgetId && a.period === alert.period && a.threshold === alert.threshold));
+        if (!isKnown) budgetAlerts.push(alert);
+    });
+    budgetAlerts.sort((a, b) => b.timestamp - a.timestamp);
+
+    // --- EXCHANGE RATES ---
+    const exchangeRates: ExchangeRate[] = [...local.exchangeRates];
+    incoming.exchangeRates.forEach(incomingRate => {
+        const match = exchangeRates.find(r => r.currency === incomingRate.currency && r.date === incomingRate.date);
+        if (!match) {
+            exchangeRates.push(incomingRate);
+        } else if (match.rate !== incomingRate.rate) {
+            conflicts.push({ location: t('location.exchangeRate', { currency: `${match.currency} ${match.date}` }), message: t('merge.rateDiffers', { local: formatNumber(match.rate, 6), incoming: formatNumber(incomingRate.rate, 6) }), resolution: KEEP_LOCAL });
+        }
+    });
+
+    // --- ACHIEVEMENTS ---
+    const unlockedAchievements = { ...local.unlockedAchievements };
+    Object.entries(incoming.unlockedAchievements).forEach(([id, unlockedAt]) => {
+        unlockedAchievements[id] = unlockedAchievements[id] !== undefined ? Math.min(unlockedAchievements[id], unlockedAt) : unlockedAt;
+    });
+
+    return {
+        state: {
+            ...local,
+            budgets,
+            dailyExpenses,
+            fundHistory,
+            archives,
+            savingsGoals,
+            deletedSavingsGoals,
+            assets,
+            recurringRules,
+            bills,
+            budgetAlerts,
+            exchangeRates,
+            unlockedAchievements,
+        },
+        conflicts,
+    };
+};
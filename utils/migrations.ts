@@ -0,0 +1,208 @@
+import type { AppState } from '../types';
+import { ensureTransactionIds } from './id';
+import { LocalizedError, t } from './i18n';
+import type { MessageKey, MessageParams } from './i18n';
+import { toMoney } from './money';
+import { isFiniteNumber, isRecord } from './validation';
+import type { RawRecord } from './validation';
+
+// --- SCHEMA MIGRATIONS ---
+// Persisted state, internal backups and JSON exports carry a `schemaVersion`. Data
+// without one predates the registry and is treated as version 1. To change the
+// shape of AppState, append a step here and bump CURRENT_SCHEMA_VERSION; never edit
+// or reorder steps that have already shipped.
+
+export const CURRENT_SCHEMA_VERSION = 9;
+
+export interface Migration {
+    /** Schema version the state is at after this step. */
+    to: number;
+    /** Shown to the user when the step runs. */
+    description: MessageKey;
+    migrate: (state: RawRecord) => RawRecord;
+    /** Returns the problem when the step's output is not in the expected shape. */
+    validate: (state: RawRecord) => MessageKey | null;
+}
+
+export class MigrationError extends LocalizedError {
+    constructor(messageKey: MessageKey, params?: MessageParams, public readonly version?: number) {
+        super(messageKey, params);
+        this.name = 'MigrationError';
+    }
+}
+
+// The objects in `value`, or none when it is not a list.
+const records = (value: unknown): RawRecord[] => Array.isArray(value) ? value.filter(isRecord) : [];
+
+const allTransactions = (state: RawRecord): RawRecord[] => [
+    ...records(state.fundHistory),
+    ...records(state.dailyExpenses),
+    ...records(state.budgets).flatMap(b => records(b.history)),
+    ...records(state.archives).flatMap(a => records(a.transactions)),
+    ...records(state.savingsGoals).flatMap(g => records(g.history)),
+];
+
+// `update` applied to the objects in `value`; anything else is left as it is.
+const mapRecords = (value: unknown, update: (item: RawRecord) => RawRecord) =>
+    Array.isArray(value) ? value.map(item => isRecord(item) ? update(item) : item) : value;
+
+// Up to version 8 amounts were decimal numbers of the major unit (12.5 USD); since
+// version 9 they are integer minor units (1250). Amounts are in the base currency
+// except a foreign payment's `originalAmount` and an asset's `pricePerUnit`.
+const amountsToMinorUnits = (state: RawRecord): RawRecord => {
+    const base = typeof state.baseCurrency === 'string' ? state.baseCurrency : 'IDR';
+    const convert = (value: unknown, currency = base) => isFiniteNumber(value) ? toMoney(value, currency) : value;
+    const entry = (e: RawRecord) => ({
+        ...e,
+        amount: convert(e.amount),
+        ...(e.originalAmount !== undefined && { originalAmount: convert(e.originalAmount, typeof e.currency === 'string' ? e.currency : base) }),
+    });
+    const entries = (value: unknown) => mapRecords(value, entry);
+
+    return {
+        ...state,
+        fundHistory: entries(state.fundHistory),
+        dailyExpenses: entries(state.dailyExpenses),
+        budgets: mapRecords(state.budgets, b => ({
+            ...b,
+            totalBudget: convert(b.totalBudget),
+            ...(b.carriedOver !== undefined && { carriedOver: convert(b.carriedOver) }),
+            history: entries(b.history),
+        })),
+        archives: mapRecords(state.archives, a => ({ ...a, transactions: entries(a.transactions) })),
+        savingsGoals: mapRecords(state.savingsGoals, g => ({
+            ...g,
+            savedAmount: convert(g.savedAmount),
+            ...(g.targetAmount !== undefined && { targetAmount: convert(g.targetAmount) }),
+            history: entries(g.history),
+        })),
+        assets: mapRecords(state.assets, a => ({ ...a, pricePerUnit: convert(a.pricePerUnit, typeof a.currency === 'string' && a.currency ? a.currency : base) })),
+        recurringRules: mapRecords(state.recurringRules, r => ({
+            ...r,
+            amount: convert(r.amount),
+            amountOverrides: isRecord(r.amountOverrides)
+                ? Object.fromEntries(Object.entries(r.amountOverrides).map(([date, amount]) => [date, convert(amount)]))
+                : r.amountOverrides,
+        })),
+        bills: mapRecords(state.bills, b => ({ ...b, amount: convert(b.amount) })),
+        budgetAlerts: mapRecords(state.budgetAlerts, a => ({ ...a, spent: convert(a.spent), limit: convert(a.limit) })),
+    };
+};
+
+const isMinorUnits = (value: unknown) => value === undefined || Number.isInteger(value);
+
+const hasMinorUnitAmounts = (state: RawRecord) => [
+    ...allTransactions(state).flatMap(t => [t.amount, t.originalAmount]),
+    ...records(state.budgets).flatMap(b => [b.totalBudget, b.carriedOver]),
+    ...records(state.savingsGoals).flatMap(g => [g.savedAmount, g.targetAmount]),
+    ...records(state.assets).map(a => a.pricePerUnit),
+    ...records(state.recurringRules).flatMap(r => [r.amount, ...Object.values(isRecord(r.amountOverrides) ? r.amountOverrides : {})]),
+    ...records(state.bills).map(b => b.amount),
+    ...records(state.budgetAlerts).flatMap(a => [a.spent, a.limit]),
+].every(isMinorUnits);
+
+export const migrations: Migration[] = [
+    {
+        to: 2,
+        description: 'migration.v2',
+        migrate: state => {
+            if (!Array.isArray(state.unlockedAchievements)) return state;
+            const unlockedAchievements: { [id: string]: number } = {};
+            state.unlockedAchievements.forEach((id: unknown) => { unlockedAchievements[String(id)] = Date.now(); });
+            return { ...state, unlockedAchievements };
+        },
+        validate: state => isRecord(state.unlockedAchievements)
+            ? null
+            : 'migration.v2.problem',
+    },
+    {
+        to: 3,
+        description: 'migration.v3',
+        migrate: state => ({ ...state, recurringRules: Array.isArray(state.recurringRules) ? state.recurringRules : [] }),
+        validate: state => Array.isArray(state.recurringRules) ? null : 'migration.v3.problem',
+    },
+    {
+        to: 4,
+        description: 'migration.v4',
+        // validateState has checked every transaction list by the time migrations run.
+        migrate: state => ensureTransactionIds(state as unknown as AppState) as unknown as RawRecord,
+        validate: state => allTransactions(state).every(t => typeof t.id === 'string' && t.id)
+            ? null
+            : 'migration.v4.problem',
+    },
+    {
+        to: 5,
+        description: 'migration.v5',
+        migrate: state => ({
+            ...state,
+            baseCurrency: typeof state.baseCurrency === 'string' && state.baseCurrency ? state.baseCurrency : 'IDR',
+            exchangeRates: Array.isArray(state.exchangeRates) ? state.exchangeRates : [],
+        }),
+        validate: state => Array.isArray(state.exchangeRates) ? null : 'migration.v5.problem',
+    },
+    {
+        to: 6,
+        description: 'migration.v6',
+        migrate: state => ({ ...state, bills: Array.isArray(state.bills) ? state.bills : [] }),
+        validate: state => Array.isArray(state.bills) ? null : 'migration.v6.problem',
+    },
+    {
+        to: 7,
+        description: 'migration.v7',
+        migrate: state => ({ ...state, budgetAlerts: Array.isArray(state.budgetAlerts) ? state.budgetAlerts : [] }),
+        validate: state => Array.isArray(state.budgetAlerts) ? null : 'migration.v7.problem',
+    },
+    {
+        to: 8,
+        description: 'migration.v8',
+        migrate: state => ({ ...state, deletedSavingsGoals: Array.isArray(state.deletedSavingsGoals) ? state.deletedSavingsGoals : [] }),
+        validate: state => Array.isArray(state.deletedSavingsGoals) ? null : 'migration.v8.problem',
+    },
+    {
+        to: 9,
+        description: 'migration.v9',
+        migrate: amountsToMinorUnits,
+        validate: state => hasMinorUnitAmounts(state) ? null : 'migration.v9.problem',
+    },
+];
+
+export interface MigrationResult {
+    state: AppState;
+    fromVersion: number;
+    applied: Migration[];
+}
+
+/**
+ * Upgrades raw persisted data (saved state, internal backup or JSON export) to the
+ * current schema one step at a time. Missing top-level fields are filled from
+ * `defaults` first. Throws a MigrationError when the data comes from a newer
+ * version of the app or a step's output fails its validation.
+ */
+export const migrateState = (raw: unknown, defaults: AppState): MigrationResult => {
+    if (!isRecord(raw)) {
+        throw new MigrationError('migration.notObject');
+    }
+    const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new MigrationError('migration.newerVersion', { version: fromVersion }, fromVersion);
+    }
+
+    let state: RawRecord = {
+        ...defaults,
+        ...raw,
+        achievementData: { ...defaults.achievementData, ...(isRecord(raw.achievementData) ? raw.achievementData : {}) },
+    };
+    const applied: Migration[] = [];
+
+    for (const migration of migrations) {
+        if (migration.to <= fromVersion) continue;
+        state = migration.migrate(state);
+        const problem = migration.validate(state);
+        if (problem) {
+            throw new MigrationError('migration.stepFailed', { version: migration.to, problem: t(problem) }, migration.to);
+        }
+        applied.push(migration);
+    }
+
+    return { state: { ...state, schemaVersion: CURRENT_SCHEMA_VERSION } as unknown as AppState, fromVersion, applied };
+};
@@ -0,0 +1,65 @@
+// --- MONEY ---
+// Amounts are stored as integers in the minor unit of their currency: whole rupiah for
+// IDR, cents for USD. Sums and differences of integers are exact, so totals never drift
+// the way floats do (0.1 + 0.2 is not 0.3). Amounts only become decimal numbers at the
+// edges: typed into a field, read from a CSV or AI reply, shown or sent to an AI prompt.
+
+/** An amount in integer minor units of its currency: cents for USD, whole rupiah for IDR. */
+export type Money = number & { readonly __money: true };
+
+export const ZERO: Money = 0 as Money;
+
+// Rupiah amounts are kept in whole rupiah, even though ISO 4217 defines two decimals.
+const fractionDigitOverrides: { [code: string]: number } = { IDR: 0 };
+
+// Looked up for every amount converted, and building an Intl.NumberFormat is slow.
+const fractionDigitsCache = new Map<string, number>();
+
+export const getFractionDigits = (currency: string) => {
+    let digits = fractionDigitsCache.get(currency);
+    if (digits === undefined) {
+        digits = fractionDigitOverrides[currency] ?? new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+        fractionDigitsCache.set(currency, digits);
+    }
+    return digits;
+};
+
+/** The stored amount for a decimal `amount` of `currency`, e.g. 12.5 USD is 1250. */
+export const toMoney = (amount: number, currency: string) =>
+    Math.round(amount * 10 ** getFractionDigits(currency)) as Money;
+
+/** The decimal amount, e.g. 1250 USD cents is 12.5. */
+export const fromMoney = (money: Money, currency: string) => money / 10 ** getFractionDigits(currency);
+
+/** The sum of `amounts`. */
+export const sumMoney = (amounts: Money[]) => amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+
+/** The sum of `amount(item)` over `items`, e.g. sumBy(budget.history, h => h.amount). */
+export const sumBy = <T>(items: T[], amount: (item: T) => Money) =>
+    items.reduce((sum, item) => sum + amount(item), 0) as Money;
+
+/** Income minus spending: 'add' entries count up, 'remove' entries down. */
+export const sumSigned = (entries: { amount: Money; type: 'add' | 'remove' }[]) =>
+    sumBy(entries, e => (e.type === 'add' ? e.amount : -e.amount) as Money);
+
+/** `amount - subtrahend`. */
+export const subtractMoney = (amount: Money, subtrahend: Money) => (amount - subtrahend) as Money;
+
+/** `-amount`. */
+export const negateMoney = (amount: Money) => -amount as Money;
+
+/** `amount` without its sign. */
+export const absMoney = (amount: Money) => Math.abs(amount) as Money;
+
+/** `amount`, or zero when it is negative. */
+export const nonNegative = (amount: Money) => Math.max(0, amount) as Money;
+
+/** The value of `quantity` units at `price` each. Quantities may be fractional (grams, fund units). */
+export const multiplyMoney = (price: Money, quantity: number) => Math.round(price * quantity) as Money;
+
+/** `amount` of `from` in `to`, where one unit of `from` is worth `rate` units of `to`. */
+export const convertMoney = (amount: Money, from: string, to: string, rate: number) =>
+    Math.round(amount * rate * 10 ** (getFractionDigits(to) - getFractionDigits(from))) as Money;
+
+/** Decimals accepted for asset quantities, enough for crypto and mutual fund units. */
+export const QUANTITY_FRACTION_DIGITS = 8;
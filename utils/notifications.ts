@@ -0,0 +1,29 @@
+import { registerServiceWorker } from './pwa';
+
+// --- BROWSER NOTIFICATIONS ---
+// Notifications are shown through the service worker (public/sw.js): mobile browsers
+// only allow them from a worker, and it brings the app to the front when one is tapped.
+
+export type NotificationSupport = NotificationPermission | 'unsupported';
+
+export const getNotificationSupport = (): NotificationSupport =>
+    typeof Notification !== 'undefined' && 'serviceWorker' in navigator ? Notification.permission : 'unsupported';
+
+/** Asks for permission when it has not been decided yet; true when notifications may be shown. */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+    const support = getNotificationSupport();
+    if (support === 'unsupported' || support === 'denied') return false;
+    if (support === 'granted') return true;
+    return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * Shows a notification if permission was granted. Notifications with the same `tag`
+ * replace each other instead of piling up.
+ */
+export const showNotification = async (title: string, body: string, tag: string) => {
+    if (getNotificationSupport() !== 'granted') return;
+    if (!(await navigator.serviceWorker.getRegistration()) && !(await registerServiceWorker())) return;
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(title, { body, tag });
+};
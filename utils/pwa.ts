@@ -0,0 +1,63 @@
+// --- SERVICE WORKER ---
+// public/sw.js precaches the build so the app works offline. A new build installs a new
+// worker that waits until the user accepts the update; the app then asks it to take
+// over and reloads.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export interface AppUpdate {
+    worker: ServiceWorker;
+    /** APP_VERSION of the new build, or null when the worker did not say. */
+    version: string | null;
+}
+
+// Asks a worker for the APP_VERSION it precached.
+const getWorkerVersion = (worker: ServiceWorker) => new Promise<string | null>(resolve => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => resolve(null), 3000);
+    channel.port1.onmessage = event => {
+        clearTimeout(timeout);
+        resolve(typeof event.data === 'string' ? event.data : null);
+    };
+    worker.postMessage({ type: 'GET_VERSION' }, [channel.port2]);
+});
+
+const watchForUpdates = (registration: ServiceWorkerRegistration, onUpdate: (update: AppUpdate) => void) => {
+    const announce = async (worker: ServiceWorker) => onUpdate({ worker, version: await getWorkerVersion(worker) });
+    // Without a controller this is the first install, not an update.
+    if (registration.waiting && navigator.serviceWorker.controller) announce(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) announce(worker);
+        });
+    });
+    // Phones keep the app open for days; look for a new build whenever it comes back.
+    const checkForUpdate = () => registration.update().catch(() => {});
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') checkForUpdate();
+    });
+    window.addEventListener('online', checkForUpdate);
+};
+
+/**
+ * Registers the service worker; null where service workers are unavailable (plain HTTP,
+ * old browsers). `onUpdate` is called when a new build is ready to take over.
+ */
+export const registerServiceWorker = async (onUpdate?: (update: AppUpdate) => void): Promise<ServiceWorkerRegistration | null> => {
+    if (!('serviceWorker' in navigator)) return null;
+    try {
+        const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        if (onUpdate) watchForUpdates(registration, onUpdate);
+        return registration;
+    } catch (error) {
+        console.error("Failed to register the service worker", error);
+        return null;
+    }
+};
+
+/** Lets the waiting worker take over, then reloads into the new build. */
+export const applyUpdate = (worker: ServiceWorker) => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    worker.postMessage({ type: 'SKIP_WAITING' });
+};
@@ -0,0 +1,148 @@
+import type { AppState, RecurringRule, RecurrenceFrequency, RecurringTarget, Budget } from '../types';
+import { postTransaction } from './transactions';
+import { generateId } from './id';
+import { t, type MessageKey } from './i18n';
+
+// --- DATE HELPERS (local calendar, YYYY-MM-DD) ---
+const parseDate = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+export const toDateKey = (date: Date) => date.toLocaleDateString('fr-CA');
+
+/** Whole days from `from` to `to`, both YYYY-MM-DD; safe across daylight saving changes. */
+export const daysBetween = (from: string, to: string) => {
+    const toUtc = (date: string) => {
+        const [year, month, day] = date.split('-').map(Number);
+        return Date.UTC(year, month - 1, day);
+    };
+    return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+};
+
+// Occurrences are posted at 09:00 local time on their due day.
+const POSTING_HOUR = 9;
+
+export const frequencyLabels: { [key in RecurrenceFrequency]: MessageKey } = {
+    daily: 'recurring.frequency.daily',
+    weekly: 'recurring.frequency.weekly',
+    monthly: 'recurring.frequency.monthly',
+    custom: 'recurring.frequency.custom',
+};
+
+export const describeFrequency = (rule: Pick<RecurringRule, 'frequency' | 'intervalDays'>) =>
+    rule.frequency === 'custom' ? t('recurring.frequency.everyDays', { days: rule.intervalDays || 1 }) : t(frequencyLabels[rule.frequency]);
+
+export const describeTarget = (target: RecurringTarget, budgets: Budget[]) => {
+    switch (target.kind) {
+        case 'fund': return target.type === 'add' ? t('recurring.target.income') : t('recurring.target.generalExpense');
+        case 'daily': return t('recurring.target.daily');
+        case 'budget': return budgets.find(b => b.id === target.budgetId)?.name || t('recurring.target.deletedBudget');
+    }
+};
+
+// The n-th occurrence (0-based) counted from the rule's start date. Monthly rules keep
+// the start day and clamp it to shorter months (31st -> 30th/28th) without drifting.
+const getNthOccurrence = (rule: RecurringRule, n: number): string => {
+    const start = parseDate(rule.startDate);
+    switch (rule.frequency) {
+        case 'monthly': {
+            const anchorDay = start.getDate();
+            const monthStart = new Date(start.getFullYear(), start.getMonth() + n, 1);
+            const daysInMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+            return toDateKey(new Date(monthStart.getFullYear(), monthStart.getMonth(), Math.min(anchorDay, daysInMonth)));
+        }
+        case 'weekly':
+            return toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + n * 7));
+        case 'custom':
+            return toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + n * Math.max(1, rule.intervalDays || 1)));
+        case 'daily':
+        default:
+            return toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + n));
+    }
+};
+
+const getIntervalDays = (rule: RecurringRule) => {
+    switch (rule.frequency) {
+        case 'weekly': return 7;
+        case 'custom': return Math.max(1, rule.intervalDays || 1);
+        default: return 1;
+    }
+};
+
+// First occurrence on or after `date` (YYYY-MM-DD). The index is computed from the
+// distance to the start date, so long-running rules cost no more than new ones.
+export const getOccurrenceOnOrAfter = (rule: RecurringRule, date: string): string => {
+    if (date <= rule.startDate) return getNthOccurrence(rule, 0);
+    if (rule.frequency === 'monthly') {
+        const [startYear, startMonth] = rule.startDate.split('-').map(Number);
+        const [year, month] = date.split('-').map(Number);
+        // The occurrence in the month of `date`, or the next one when it falls earlier.
+        const n = (year - startYear) * 12 + (month - startMonth);
+        const occurrence = getNthOccurrence(rule, n);
+        return occurrence >= date ? occurrence : getNthOccurrence(rule, n + 1);
+    }
+    return getNthOccurrence(rule, Math.ceil(daysBetween(rule.startDate, date) / getIntervalDays(rule)));
+};
+
+const getOccurrenceAfter = (rule: RecurringRule, date: string): string => {
+    const next = parseDate(date);
+    next.setDate(next.getDate() + 1);
+    return getOccurrenceOnOrAfter(rule, toDateKey(next));
+};
+
+export const isRuleFinished = (rule: RecurringRule) => !!rule.endDate && rule.nextDueDate > rule.endDate;
+
+// The next `count` pending occurrences, including skipped ones so they can be un-skipped.
+export const getUpcomingOccurrences = (rule: RecurringRule, count: number): string[] => {
+    const occurrences: string[] = [];
+    let date = rule.nextDueDate;
+    while (occurrences.length < count && (!rule.endDate || date <= rule.endDate)) {
+        occurrences.push(date);
+        date = getOccurrenceAfter(rule, date);
+    }
+    return occurrences;
+};
+
+export const getOccurrenceAmount = (rule: RecurringRule, date: string) => rule.amountOverrides[date] ?? rule.amount;
+
+export interface RecurringPostResult {
+    state: AppState;
+    postedCount: number;
+}
+
+/**
+ * Posts every due occurrence of every active rule up to and including today,
+ * catching up on occurrences missed while the app was closed. Each occurrence is
+ * dated on its own due day so the month-end rollover files it correctly.
+ */
+export const postDueRecurringTransactions = (state: AppState, now: Date = new Date()): RecurringPostResult => {
+    const today = toDateKey(now);
+    let newState = state;
+    let postedCount = 0;
+
+    const recurringRules = state.recurringRules.map(rule => {
+        if (rule.isPaused) return rule;
+
+        let due = rule.nextDueDate;
+        while (due <= today && (!rule.endDate || due <= rule.endDate)) {
+            if (!rule.skippedDates.includes(due)) {
+                const postingTime = parseDate(due);
+                postingTime.setHours(POSTING_HOUR);
+                newState = postTransaction(newState, rule.target, {
+                    id: generateId(),
+                    desc: rule.desc,
+                    amount: getOccurrenceAmount(rule, due),
+                    timestamp: Math.min(postingTime.getTime(), now.getTime()),
+                });
+                postedCount++;
+            }
+            due = getOccurrenceAfter(rule, due);
+        }
+
+        if (due === rule.nextDueDate) return rule;
+        const amountOverrides = Object.fromEntries(Object.entries(rule.amountOverrides).filter(([date]) => date >= due));
+        return { ...rule, nextDueDate: due, skippedDates: rule.skippedDates.filter(d => d >= due), amountOverrides };
+    });
+
+    return { state: { ...newState, recurringRules }, postedCount };
+};
@@ -0,0 +1,236 @@
+import type { AppState, Archive, Budget, GlobalTransaction, FundTransaction } from '../types';
+import { getBudgetQuota } from './budget';
+import { generateId } from './id';
+import { absMoney, nonNegative, subtractMoney, sumBy, sumMoney, ZERO, type Money } from './money';
+
+// --- MONTH KEY HELPERS ---
+// Month keys are based on the local calendar (YYYY-MM), so a transaction made at
+// 00:30 WIB on the 1st belongs to the new month, not the previous one.
+export const getMonthKey = (date: Date | number) => new Date(date).toLocaleDateString('fr-CA').slice(0, 7);
+
+const getEarliestTimestamp = (state: AppState): number | null => {
+    const timestamps = [
+        ...state.fundHistory.map(t => t.timestamp),
+        ...state.dailyExpenses.map(t => t.timestamp),
+        ...state.budgets.flatMap(b => b.history.map(h => h.timestamp)),
+    ];
+    return timestamps.length > 0 ? Math.min(...timestamps) : null;
+};
+
+/**
+ * Returns true when the month recorded in `lastArchiveDate`, or any entry still in
+ * the running month's lists, belongs to an earlier calendar month than `now`.
+ */
+export const isRolloverDue = (state: AppState, now: Date = new Date()): boolean => {
+    const currentMonth = getMonthKey(now);
+    if (state.lastArchiveDate && state.lastArchiveDate.slice(0, 7) < currentMonth) return true;
+    const earliest = getEarliestTimestamp(state);
+    return earliest !== null && getMonthKey(earliest) < currentMonth;
+};
+
+// Converts the running month's entries into archive-ready global transactions,
+// filling in category, icon and color the same way Reports displays them.
+const collectMonthlyTransactions = (state: AppState): GlobalTransaction[] => {
+    const findBudgetByName = (name?: string) => name ? state.budgets.find(b => b.name === name) : undefined;
+    const transactions: GlobalTransaction[] = [];
+
+    state.fundHistory.forEach(t => {
+        transactions.push(t.type === 'remove' ? { ...t, category: 'Pengeluaran Umum' } : { ...t });
+    });
+    state.dailyExpenses.forEach(t => {
+        const overageBudget = findBudgetByName(t.sourceCategory);
+        transactions.push({
+            id: t.id,
+            type: 'remove',
+            desc: t.desc,
+            amount: t.amount,
+            timestamp: t.timestamp,
+            currency: t.currency,
+            originalAmount: t.originalAmount,
+            splitId: t.splitId,
+            splitDesc: t.splitDesc,
+            tags: t.tags,
+            note: t.note,
+            attachmentIds: t.attachmentIds,
+            category: t.sourceCategory || 'Harian',
+            icon: overageBudget?.icon,
+            color: overageBudget?.color,
+        });
+    });
+    state.budgets.forEach(b => {
+        b.history.forEach(h => {
+            transactions.push({
+                id: h.id,
+                type: 'remove',
+                desc: h.desc,
+                amount: h.amount,
+                timestamp: h.timestamp,
+                currency: h.currency,
+                originalAmount: h.originalAmount,
+                splitId: h.splitId,
+                splitDesc: h.splitDesc,
+                tags: h.tags,
+                note: h.note,
+                attachmentIds: h.attachmentIds,
+                category: b.name,
+                icon: b.icon,
+                color: b.color,
+            });
+        });
+    });
+
+    return transactions;
+};
+
+// Last millisecond of a YYYY-MM month in local time.
+const getEndOfMonthTimestamp = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex, 0, 23, 59, 59, 999).getTime();
+};
+
+// First millisecond of a YYYY-MM month in local time.
+const getStartOfMonthTimestamp = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).getTime();
+};
+
+/**
+ * Closes each pending month for every active budget according to its
+ * `rolloverPolicy`, updating `carriedOver` and, for 'sweep-to-savings', posting the
+ * leftover into the chosen savings goal the same way `handleAddSavings` does.
+ * Only months that actually have activity are closed, so a long absence does not
+ * pile up untouched quotas.
+ *
+ * The amount carried into `currentMonth` is also posted to its `fundHistory`: a
+ * surplus comes back as income and a deficit as an expense. The quota it changes is
+ * counted as allocated, so the month's totals keep adding up.
+ */
+const applyBudgetCarryOver = (state: AppState, months: string[], currentMonth: string): AppState => {
+    if (months.length === 0) return state;
+
+    const fundHistory: FundTransaction[] = [...state.fundHistory];
+    const savingsGoals = state.savingsGoals.map(g => ({ ...g, history: [...g.history] }));
+
+    const budgets = state.budgets.map(b => {
+        if (b.isArchived) return b;
+        let carriedOver: Money = b.carriedOver || ZERO;
+        // Temporary budgets are archived by this rollover, so they have nothing to carry into.
+        const policy = b.isTemporary && b.rolloverPolicy !== 'sweep-to-savings' ? 'reset' : b.rolloverPolicy;
+
+        months.forEach(month => {
+            const used = sumBy(b.history.filter(h => getMonthKey(h.timestamp) === month), h => h.amount);
+            const leftover = subtractMoney(getBudgetQuota({ ...b, carriedOver }), used);
+
+            switch (policy) {
+                case 'carry-surplus':
+                    carriedOver = nonNegative(leftover);
+                    break;
+                case 'carry-deficit':
+                    carriedOver = leftover < 0 ? leftover : ZERO;
+                    break;
+                case 'sweep-to-savings': {
+                    carriedOver = ZERO;
+                    const goal = savingsGoals.find(g => g.id === b.rolloverGoalId);
+                    if (goal && leftover > 0) {
+                        const timestamp = getEndOfMonthTimestamp(month);
+                        const fundTransactionId = generateId();
+                        fundHistory.push({ id: fundTransactionId, type: 'remove', desc: `Tabungan: ${goal.name}`, amount: leftover, timestamp });
+                        goal.history.push({ id: generateId(), amount: leftover, timestamp, note: `Sisa pos ${b.name}`, fundTransactionId });
+                        goal.savedAmount = sumMoney([goal.savedAmount, leftover]);
+                        goal.isCompleted = !goal.isInfinite && goal.targetAmount ? goal.savedAmount >= goal.targetAmount : false;
+                    }
+                    break;
+                }
+                default:
+                    carriedOver = ZERO;
+            }
+        });
+
+        if (carriedOver !== 0) {
+            fundHistory.push({
+                id: generateId(),
+                type: carriedOver > 0 ? 'add' : 'remove',
+                desc: carriedOver > 0 ? `Sisa pos ${b.name} bulan lalu` : `Kekurangan pos ${b.name} bulan lalu`,
+                amount: absMoney(carriedOver),
+                timestamp: getStartOfMonthTimestamp(currentMonth),
+            });
+        }
+
+        return { ...b, carriedOver };
+    });
+
+    return { ...state, budgets, fundHistory, savingsGoals };
+};
+
+export interface RolloverResult {
+    state: AppState;
+    archivedMonths: string[]; // YYYY-MM, ascending
+}
+
+/**
+ * Moves every entry dated before the current calendar month from `fundHistory`,
+ * `dailyExpenses` and `budgets[].history` into one `Archive` per month, archives
+ * temporary budgets and records `lastArchiveDate`. Safe to run on every load:
+ * when nothing is due the state is returned unchanged. Several missed months are
+ * caught up in a single pass.
+ */
+export const performMonthlyRollover = (state: AppState, now: Date = new Date()): RolloverResult => {
+    const currentMonth = getMonthKey(now);
+    const today = now.toLocaleDateString('fr-CA');
+
+    if (!isRolloverDue(state, now)) {
+        if (!state.lastArchiveDate) {
+            // First run on a fresh month: remember where we started.
+            return { state: { ...state, lastArchiveDate: today }, archivedMonths: [] };
+        }
+        return { state, archivedMonths: [] };
+    }
+
+    const isPastMonth = (timestamp: number) => getMonthKey(timestamp) < currentMonth;
+
+    const pendingMonths = [...new Set(
+        collectMonthlyTransactions(state)
+            .filter(t => isPastMonth(t.timestamp))
+            .map(t => getMonthKey(t.timestamp))
+    )].sort();
+    const closedState = applyBudgetCarryOver(state, pendingMonths, currentMonth);
+
+    // Group past entries by month and merge them into existing archives
+    // (e.g. balance corrections from `handleEditAsset` may already live there).
+    const archiveMap = new Map<string, GlobalTransaction[]>(
+        closedState.archives.map(a => [a.month, [...a.transactions]])
+    );
+    collectMonthlyTransactions(closedState)
+        .filter(t => isPastMonth(t.timestamp))
+        .forEach(t => {
+            const month = getMonthKey(t.timestamp);
+            if (!archiveMap.has(month)) archiveMap.set(month, []);
+            archiveMap.get(month)!.push(t);
+        });
+
+    const archives: Archive[] = [...archiveMap.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, transactions]) => ({
+            month,
+            transactions: transactions.sort((a, b) => a.timestamp - b.timestamp),
+        }));
+
+    // Temporary budgets only live for the month they were created in.
+    const budgets: Budget[] = closedState.budgets.map(b => ({
+        ...b,
+        history: b.history.filter(h => !isPastMonth(h.timestamp)),
+        isArchived: b.isArchived || b.isTemporary,
+    }));
+
+    return {
+        state: {
+            ...closedState,
+            archives,
+            budgets,
+            fundHistory: closedState.fundHistory.filter(t => !isPastMonth(t.timestamp)),
+            dailyExpenses: closedState.dailyExpenses.filter(t => !isPastMonth(t.timestamp)),
+            lastArchiveDate: today,
+        },
+        archivedMonths: pendingMonths,
+    };
+};
@@ -0,0 +1,172 @@
+import type { AppState, ScannedItem } from '../types';
+import { categoryKeywords } from '../data/categoryKeywords';
+import { toMoney } from './money';
+import { t } from './i18n';
+
+// --- OFFLINE SMART INPUT ---
+// A rule-based reading of texts like "kopi 25rb, bensin 50 ribu dan parkir 5rb", used
+// when the AI is offline or fails. Items are split on commas, semicolons, new lines and
+// "dan"; amounts understand Indonesian shorthand (rb, ribu, k, jt, juta, "setengah
+// juta"). Each item goes to the budget whose name, keyword group (data/categoryKeywords.ts)
+// or past descriptions fit best, and to daily money otherwise. The result has the same
+// shape as the AI's, so it is reviewed in the same list before anything is saved.
+
+const UNIT_MULTIPLIERS: { [unit: string]: number } = {
+    k: 1e3, rb: 1e3, rbu: 1e3, ribu: 1e3,
+    jt: 1e6, juta: 1e6,
+};
+
+const NUMBER_WORDS: { [word: string]: number } = {
+    setengah: 0.5, sepuluh: 10, seratus: 100, seribu: 1e3, sejuta: 1e6,
+};
+
+// An optional "Rp", a number or number word, and an optional unit: "Rp25.000", "25rb", "1,5 jt", "setengah juta".
+const AMOUNT_PATTERN = new RegExp(
+    `(\\brp\\.?\\s*)?(\\d+(?:[.,]\\d+)*|\\b(?:${Object.keys(NUMBER_WORDS).join('|')})\\b)\\s*(${Object.keys(UNIT_MULTIPLIERS).join('|')})?(?![a-z])`,
+    'gi',
+);
+
+// Commas between digits are decimal commas ("1,5jt"), not separators.
+const ITEM_SEPARATOR = /,(?!\d)|;|\n|\+|&|\bdan\b/i;
+
+// Leading words that describe the act of paying rather than the expense.
+const LEADING_FILLER = /^(?:beli|bayar|buat|untuk|utk)\s+/i;
+
+const STOP_WORDS = new Set(['beli', 'bayar', 'buat', 'untuk', 'utk', 'yang', 'sama', 'dari', 'pakai', 'tadi', 'kemarin']);
+
+// "25.000" and "25,000" group thousands; "1,5" and "2.5" are decimals.
+const parseNumber = (raw: string) => {
+    const groups = raw.split(/[.,]/);
+    if (groups.length === 1) return Number(raw);
+    if (groups.slice(1).every(group => group.length === 3)) return Number(groups.join(''));
+    if (groups.length === 2) return Number(`${groups[0]}.${groups[1]}`);
+    return NaN;
+};
+
+interface AmountMatch {
+    value: number;
+    index: number;
+    length: number;
+    /** Written with a unit or "Rp", so certainly money rather than a quantity. */
+    explicit: boolean;
+}
+
+const findAmounts = (text: string): AmountMatch[] =>
+    [...text.matchAll(AMOUNT_PATTERN)].map(match => {
+        const [full, currencyPrefix, number, unit] = match;
+        const base = NUMBER_WORDS[number.toLowerCase()] ?? parseNumber(number);
+        return {
+            value: base * (unit ? UNIT_MULTIPLIERS[unit.toLowerCase()] : 1),
+            index: match.index ?? 0,
+            length: full.length,
+            explicit: Boolean(currencyPrefix || unit),
+        };
+    }).filter(amount => amount.value > 0 && Number.isFinite(amount.value));
+
+// The amount of an item: the largest written as money, or else the largest number,
+// so "2 roti 10000" costs 10000.
+const pickAmount = (amounts: AmountMatch[]) => {
+    const candidates = amounts.some(a => a.explicit) ? amounts.filter(a => a.explicit) : amounts;
+    return candidates.reduce<AmountMatch | undefined>((best, amount) => !best || amount.value > best.value ? amount : best, undefined);
+};
+
+const cleanDescription = (text: string) => {
+    const desc = text.replace(/\s+/g, ' ').replace(/^[\s\-:=.,]+|[\s\-:=.,]+$/g, '').replace(LEADING_FILLER, '').trim();
+    return desc.charAt(0).toUpperCase() + desc.slice(1);
+};
+
+const toWords = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+
+// How well an input word matches a name or keyword: 2 exactly, 1 as a longer form of it
+// ("makanan" for "makan"), 0 not at all; short words only match exactly. `bothWays` also
+// accepts a shortened form ("transport" for "transportasi"), which budget names need but
+// keywords must not allow: "grab" is not "grabfood".
+const matchStrength = (word: string, target: string, bothWays = false) => {
+    if (word === target) return 2;
+    if (Math.min(word.length, target.length) < 4) return 0;
+    return word.startsWith(target) || (bothWays && target.startsWith(word)) ? 1 : 0;
+};
+
+const bestMatch = (words: string[], targets: string[], bothWays = false) =>
+    Math.max(0, ...targets.flatMap(target => words.map(word => matchStrength(word, target, bothWays))));
+
+interface CategoryCandidate {
+    budgetId: number | 'daily';
+    nameWords: string[];
+    keywords: string[];
+    pastDescriptions: Set<string>;
+    pastWords: Set<string>;
+}
+
+const buildCandidates = (state: Pick<AppState, 'budgets' | 'dailyExpenses' | 'archives'>): CategoryCandidate[] => {
+    const archived = state.archives.flatMap(archive => archive.transactions);
+    const fromDescriptions = (descriptions: string[]) => ({
+        pastDescriptions: new Set(descriptions.map(desc => toWords(desc).join(' ')).filter(Boolean)),
+        pastWords: new Set(descriptions.flatMap(toWords)),
+    });
+
+    const budgets = state.budgets.filter(b => !b.isArchived).map(budget => {
+        const nameWords = toWords(budget.name);
+        return {
+            budgetId: budget.id,
+            nameWords,
+            keywords: categoryKeywords
+                .filter(group => group.names.some(name => nameWords.some(word => word.startsWith(name))))
+                .flatMap(group => group.keywords),
+            ...fromDescriptions([
+                ...budget.history.map(t => t.desc),
+                ...archived.filter(t => t.category === budget.name).map(t => t.desc),
+            ]),
+        };
+    });
+    // Daily expenses moved there from an overspent budget keep that budget's name and are left out.
+    const daily = {
+        budgetId: 'daily' as const,
+        nameWords: [],
+        keywords: [],
+        ...fromDescriptions([
+            ...state.dailyExpenses.filter(t => !t.sourceCategory).map(t => t.desc),
+            ...archived.filter(t => t.category === 'Harian').map(t => t.desc),
+        ]),
+    };
+    return [...budgets, daily];
+};
+
+// An expense described exactly like an earlier one weighs most, then the budget's own
+// name, then its keyword group, then single words of earlier descriptions. Exact
+// matches of a name or keyword weigh more than longer forms of it.
+const scoreCandidate = (candidate: CategoryCandidate, words: string[]) => {
+    const phrase = ` ${words.join(' ')} `;
+    let score = candidate.pastDescriptions.has(words.join(' ')) ? 8 : 0;
+    const nameMatch = bestMatch(words, candidate.nameWords, true);
+    if (nameMatch > 0) score += 2 + nameMatch;
+    score += Math.max(0, ...candidate.keywords.map(keyword => keyword.includes(' ')
+        ? (phrase.includes(` ${keyword} `) ? 2 : 0)
+        : bestMatch(words, [keyword])));
+    score += words.filter(word => candidate.pastWords.has(word)).length;
+    return score;
+};
+
+// Budgets with the same best score are a guess either way, so the item goes to daily
+// money and the user picks the budget in the review list.
+const matchCategory = (candidates: CategoryCandidate[], desc: string): ScannedItem['budgetId'] => {
+    const words = toWords(desc);
+    let best: { budgetId: ScannedItem['budgetId']; score: number; tied: boolean } = { budgetId: 'daily', score: 0, tied: false };
+    candidates.forEach(candidate => {
+        const score = scoreCandidate(candidate, words);
+        if (score > best.score) best = { budgetId: candidate.budgetId, score, tied: false };
+        else if (score > 0 && score === best.score) best.tied = true;
+    });
+    return best.tied ? 'daily' : best.budgetId;
+};
+
+/** The expenses in `text`, each with a budget guessed from `state`. Parts without an amount are skipped. */
+export const parseSmartInput = (text: string, state: Pick<AppState, 'budgets' | 'dailyExpenses' | 'archives' | 'baseCurrency'>): ScannedItem[] => {
+    const candidates = buildCandidates(state);
+    return text.split(ITEM_SEPARATOR).flatMap(part => {
+        const amount = pickAmount(findAmounts(part));
+        if (!amount) return [];
+        const desc = cleanDescription(part.slice(0, amount.index) + ' ' + part.slice(amount.index + amount.length)) || t('smartInput.defaultDesc');
+        return [{ desc, amount: toMoney(amount.value, state.baseCurrency), budgetId: matchCategory(candidates, desc) }];
+    });
+};
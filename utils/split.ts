@@ -0,0 +1,80 @@
+import type { AppState, GlobalTransaction } from '../types';
+import { generateId } from './id';
+import { sumMoney, type Money } from './money';
+import { postTransaction, type TransactionTarget } from './transactions';
+
+// --- SPLIT TRANSACTIONS ---
+// One purchase spread over several budgets: each line is booked on its own target like
+// a normal expense and carries the purchase's `splitId` and `splitDesc`. Budgets,
+// charts and rollover see ordinary entries; Reports shows the lines as one group.
+
+export interface SplitLineInput {
+    desc: string;
+    amount: Money;
+    target: TransactionTarget;
+    tags?: string[];
+    attachmentIds?: string[];
+}
+
+/**
+ * Books every line of a split purchase at `timestamp` through `postTransaction`, so a
+ * line that exceeds its budget spills over into daily funds and stays in the group.
+ */
+export const postSplitTransaction = (state: AppState, desc: string, lines: SplitLineInput[], timestamp: number): AppState => {
+    const splitId = generateId();
+    return lines.reduce(
+        (newState, line) => postTransaction(newState, line.target, { id: generateId(), desc: line.desc, amount: line.amount, timestamp, splitId, splitDesc: desc, tags: line.tags, attachmentIds: line.attachmentIds }),
+        state,
+    );
+};
+
+/** Removes every line of a split, live or archived. */
+export const removeSplitTransaction = (state: AppState, splitId: string): AppState => ({
+    ...state,
+    dailyExpenses: state.dailyExpenses.filter(t => t.splitId !== splitId),
+    budgets: state.budgets.map(b => b.history.some(h => h.splitId === splitId)
+        ? { ...b, history: b.history.filter(h => h.splitId !== splitId) }
+        : b),
+    archives: state.archives.map(a => a.transactions.some(t => t.splitId === splitId)
+        ? { ...a, transactions: a.transactions.filter(t => t.splitId !== splitId) }
+        : a),
+});
+
+// --- GROUPING ---
+export interface SplitGroup {
+    splitId: string;
+    desc: string;
+    timestamp: number;
+    /** Sum of the lines. */
+    amount: Money;
+    lines: GlobalTransaction[];
+}
+
+export type GroupedTransaction = GlobalTransaction | SplitGroup;
+
+export const isSplitGroup = (entry: GroupedTransaction): entry is SplitGroup => 'lines' in entry;
+
+/**
+ * Collapses the lines of each split into one group, placed where its first line is,
+ * and leaves every other transaction as it is.
+ */
+export const groupSplitLines = (transactions: GlobalTransaction[]): GroupedTransaction[] => {
+    const groups = new Map<string, SplitGroup>();
+    const entries: GroupedTransaction[] = [];
+    transactions.forEach(t => {
+        if (!t.splitId) {
+            entries.push(t);
+            return;
+        }
+        const group = groups.get(t.splitId);
+        if (group) {
+            group.lines.push(t);
+            group.amount = sumMoney([group.amount, t.amount]);
+            return;
+        }
+        const newGroup: SplitGroup = { splitId: t.splitId, desc: t.splitDesc || t.desc, timestamp: t.timestamp, amount: t.amount, lines: [t] };
+        groups.set(t.splitId, newGroup);
+        entries.push(newGroup);
+    });
+    return entries;
+};
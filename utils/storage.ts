@@ -0,0 +1,422 @@
+import type { AppState } from '../types';
+import { LocalizedError } from './i18n';
+
+// --- PERSISTENCE ---
+// AppState, the internal backups and receipt photos are stored through a StorageAdapter.
+// IndexedDB is preferred: it has a far larger quota than localStorage, stores photos as
+// blobs and lets us write only the transactions that changed. Browsers without a usable
+// IndexedDB (some private modes) fall back to the original single-blob localStorage
+// layout, where photos are kept as data URLs and quickly run into the quota.
+
+export const STATE_KEY = 'budgetAppState';
+// Releases before the schema registry stored state per app version (`budgetAppState_v3.12.0`).
+export const LEGACY_STATE_PREFIX = 'budgetAppState_v';
+export const BACKUP_PREFIX = 'budgetAppBackup_';
+// Backup key -> user label. Kept apart from the backups so listing them needs no reads of the data.
+const BACKUP_LABELS_KEY = 'budgetAppBackupLabels';
+const ATTACHMENT_PREFIX = 'budgetAppAttachment_';
+
+export interface BackupInfo {
+    key: string;
+    timestamp: number;
+    /** Set by the user; labelled backups are never removed by the retention policy. */
+    label?: string;
+}
+
+/** A receipt photo, compressed, with a small preview for lists (see utils/attachments.ts). */
+export interface StoredAttachment {
+    id: string;
+    image: Blob;
+    thumbnail: Blob;
+    createdAt: number;
+}
+
+type BackupLabels = { [key: string]: string };
+
+export interface StorageAdapter {
+    readonly kind: 'indexedDB' | 'localStorage';
+    /**
+     * The stored state as saved, before schema migration, or null when nothing is
+     * stored. Data that is not valid JSON is returned as its raw string.
+     */
+    loadState(): Promise<any | null>;
+    saveState(state: AppState): Promise<void>;
+    /** Newest first. */
+    listBackups(): Promise<BackupInfo[]>;
+    readBackup(key: string): Promise<any | null>;
+    writeBackup(key: string, data: any): Promise<void>;
+    /** An empty label removes it. */
+    setBackupLabel(key: string, label: string): Promise<void>;
+    deleteBackup(key: string): Promise<void>;
+    readAttachment(id: string): Promise<StoredAttachment | null>;
+    writeAttachment(attachment: StoredAttachment): Promise<void>;
+    deleteAttachment(id: string): Promise<void>;
+    listAttachmentIds(): Promise<string[]>;
+    clearAll(): Promise<void>;
+}
+
+export class StorageQuotaError extends LocalizedError {
+    constructor() {
+        super('storage.quotaExceeded');
+        this.name = 'StorageQuotaError';
+    }
+}
+
+const isQuotaError = (error: any) =>
+    !!error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+const toStorageError = (error: any) => isQuotaError(error) ? new StorageQuotaError() : error;
+
+const backupTimestamp = (key: string) => parseInt(key.slice(BACKUP_PREFIX.length), 10);
+const sortBackups = (keys: string[], labels: BackupLabels): BackupInfo[] => keys
+    .map(key => labels[key] ? { key, timestamp: backupTimestamp(key), label: labels[key] } : { key, timestamp: backupTimestamp(key) })
+    .filter(backup => !isNaN(backup.timestamp))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+const withLabel = (labels: BackupLabels, key: string, label: string): BackupLabels => {
+    const { [key]: _previous, ...rest } = labels;
+    return label.trim() ? { ...rest, [key]: label.trim() } : rest;
+};
+
+// --- LOCALSTORAGE ---
+// Newest version first.
+const listLegacyStateKeys = (): string[] => {
+    const parseVersion = (key: string) => key.slice(LEGACY_STATE_PREFIX.length).split('.').map(Number);
+    return Object.keys(localStorage)
+        .filter(key => key.startsWith(LEGACY_STATE_PREFIX))
+        .sort((a, b) => {
+            const va = parseVersion(a), vb = parseVersion(b);
+            for (let i = 0; i < Math.max(va.length, vb.length); i++) {
+                const diff = (vb[i] || 0) - (va[i] || 0);
+                if (diff !== 0) return diff;
+            }
+            return 0;
+        });
+};
+
+const parseStored = (raw: string) => {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+};
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const createLocalStorageAdapter = (): StorageAdapter => {
+    const write = (key: string, value: string) => {
+        try {
+            localStorage.setItem(key, value);
+        } catch (error) {
+            throw toStorageError(error);
+        }
+    };
+    const readLabels = (): BackupLabels => {
+        const raw = localStorage.getItem(BACKUP_LABELS_KEY);
+        const labels = raw === null ? null : parseStored(raw);
+        return labels && typeof labels === 'object' ? labels : {};
+    };
+
+    return {
+        kind: 'localStorage',
+        async loadState() {
+            const key = localStorage.getItem(STATE_KEY) !== null ? STATE_KEY : listLegacyStateKeys()[0];
+            const raw = key ? localStorage.getItem(key) : null;
+            return raw === null ? null : parseStored(raw);
+        },
+        async saveState(state) {
+            write(STATE_KEY, JSON.stringify(state));
+            listLegacyStateKeys().forEach(key => localStorage.removeItem(key));
+        },
+        async listBackups() {
+            return sortBackups(Object.keys(localStorage).filter(key => key.startsWith(BACKUP_PREFIX)), readLabels());
+        },
+        async readBackup(key) {
+            const raw = localStorage.getItem(key);
+            return raw === null ? null : parseStored(raw);
+        },
+        async writeBackup(key, data) {
+            write(key, typeof data === 'string' ? data : JSON.stringify(data));
+        },
+        async setBackupLabel(key, label) {
+            write(BACKUP_LABELS_KEY, JSON.stringify(withLabel(readLabels(), key, label)));
+        },
+        async deleteBackup(key) {
+            localStorage.removeItem(key);
+            const labels = readLabels();
+            if (labels[key]) write(BACKUP_LABELS_KEY, JSON.stringify(withLabel(labels, key, '')));
+        },
+        async readAttachment(id) {
+            const raw = localStorage.getItem(`${ATTACHMENT_PREFIX}${id}`);
+            if (raw === null) return null;
+            const stored = parseStored(raw);
+            return { id, image: await dataUrlToBlob(stored.image), thumbnail: await dataUrlToBlob(stored.thumbnail), createdAt: stored.createdAt };
+        },
+        async writeAttachment(attachment) {
+            write(`${ATTACHMENT_PREFIX}${attachment.id}`, JSON.stringify({
+                image: await blobToDataUrl(attachment.image),
+                thumbnail: await blobToDataUrl(attachment.thumbnail),
+                createdAt: attachment.createdAt,
+            }));
+        },
+        async deleteAttachment(id) {
+            localStorage.removeItem(`${ATTACHMENT_PREFIX}${id}`);
+        },
+        async listAttachmentIds() {
+            return Object.keys(localStorage)
+                .filter(key => key.startsWith(ATTACHMENT_PREFIX))
+                .map(key => key.slice(ATTACHMENT_PREFIX.length));
+        },
+        async clearAll() {
+            localStorage.removeItem(STATE_KEY);
+            localStorage.removeItem(BACKUP_LABELS_KEY);
+            listLegacyStateKeys().forEach(key => localStorage.removeItem(key));
+            Object.keys(localStorage)
+                .filter(key => key.startsWith(BACKUP_PREFIX) || key.startsWith(ATTACHMENT_PREFIX))
+                .forEach(key => localStorage.removeItem(key));
+        },
+    };
+};
+
+// --- INDEXEDDB ---
+// The `meta` store holds AppState with every transaction list emptied; each transaction
+// is its own record in `transactions`, keyed by where it lives, so a save only writes
+// the entries that changed since the previous one. Photos live in `attachments`.
+const DB_NAME = 'anggaran';
+// 2: `attachments` store.
+const DB_VERSION = 2;
+const META_STORE = 'meta';
+const TRANSACTION_STORE = 'transactions';
+const BACKUP_STORE = 'backups';
+const ATTACHMENT_STORE = 'attachments';
+
+type TransactionList = 'daily' | 'fund' | 'budget' | 'archive' | 'saving';
+
+interface TransactionRecord {
+    key: string;
+    list: TransactionList;
+    /** Budget id, archive month or savings goal id; empty for the top-level lists. */
+    owner: string;
+    item: any;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        if (!db.objectStoreNames.contains(TRANSACTION_STORE)) db.createObjectStore(TRANSACTION_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(BACKUP_STORE)) db.createObjectStore(BACKUP_STORE);
+        if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new LocalizedError('storage.indexedDbBlocked'));
+});
+
+const splitState = (state: AppState) => {
+    const records = new Map<string, TransactionRecord>();
+    const add = (list: TransactionList, owner: string | number, items: { id: string }[]) => items.forEach(item => {
+        const key = `${list}:${owner}:${item.id}`;
+        records.set(key, { key, list, owner: String(owner), item });
+    });
+    add('daily', '', state.dailyExpenses);
+    add('fund', '', state.fundHistory);
+    state.budgets.forEach(b => add('budget', b.id, b.history));
+    state.archives.forEach(a => add('archive', a.month, a.transactions));
+    state.savingsGoals.forEach(g => add('saving', g.id, g.history));
+
+    const meta = {
+        ...state,
+        dailyExpenses: [],
+        fundHistory: [],
+        budgets: state.budgets.map(b => ({ ...b, history: [] })),
+        archives: state.archives.map(a => ({ ...a, transactions: [] })),
+        savingsGoals: state.savingsGoals.map(g => ({ ...g, history: [] })),
+    };
+    return { meta, records };
+};
+
+const joinState = (meta: any, records: TransactionRecord[]): any => {
+    const lists = new Map<string, any[]>();
+    records.forEach(record => {
+        const listKey = `${record.list}:${record.owner}`;
+        if (!lists.has(listKey)) lists.set(listKey, []);
+        lists.get(listKey)!.push(record.item);
+    });
+    const items = (list: TransactionList, owner: string | number = '') =>
+        (lists.get(`${list}:${owner}`) || []).sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+        ...meta,
+        dailyExpenses: items('daily'),
+        fundHistory: items('fund'),
+        budgets: meta.budgets.map((b: any) => ({ ...b, history: items('budget', b.id) })),
+        archives: meta.archives.map((a: any) => ({ ...a, transactions: items('archive', a.month) })),
+        savingsGoals: meta.savingsGoals.map((g: any) => ({ ...g, history: items('saving', g.id) })),
+    };
+};
+
+const createIndexedDbAdapter = (db: IDBDatabase): StorageAdapter => {
+    const localFallback = createLocalStorageAdapter();
+    // JSON of every transaction as last written, to find what changed on the next save.
+    let savedRecords = new Map<string, string>();
+    // Set while the state still lives in localStorage; it is removed there after the first save.
+    let hasLocalStorageState = false;
+    let saveQueue: Promise<void> = Promise.resolve();
+
+    // First run after upgrading: move backups and photos over now and pick the state up
+    // from localStorage. That copy is only deleted once the state has been saved here.
+    const migrateFromLocalStorage = async () => {
+        const backups = await localFallback.listBackups();
+        for (const { key, label } of backups) {
+            const tx = db.transaction(BACKUP_STORE, 'readwrite');
+            tx.objectStore(BACKUP_STORE).put(await localFallback.readBackup(key), key);
+            await transactionDone(tx);
+            if (label) await setBackupLabel(key, label);
+            await localFallback.deleteBackup(key);
+        }
+        for (const id of await localFallback.listAttachmentIds()) {
+            // A photo that no longer decodes is left behind rather than blocking the upgrade.
+            const attachment = await localFallback.readAttachment(id).catch(() => null);
+            if (!attachment) continue;
+            const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+            tx.objectStore(ATTACHMENT_STORE).put(attachment);
+            await transactionDone(tx);
+            await localFallback.deleteAttachment(id);
+        }
+        const state = await localFallback.loadState();
+        hasLocalStorageState = state !== null;
+        return state;
+    };
+
+    const readLabels = async (): Promise<BackupLabels> => {
+        const tx = db.transaction(META_STORE, 'readonly');
+        return (await requestResult(tx.objectStore(META_STORE).get(BACKUP_LABELS_KEY))) || {};
+    };
+    const setBackupLabel = async (key: string, label: string) => {
+        const labels = withLabel(await readLabels(), key, label);
+        const tx = db.transaction(META_STORE, 'readwrite');
+        tx.objectStore(META_STORE).put(labels, BACKUP_LABELS_KEY);
+        await transactionDone(tx);
+    };
+
+    const save = async (state: AppState) => {
+        const { meta, records } = splitState(state);
+        const nextRecords = new Map<string, string>();
+        const tx = db.transaction([META_STORE, TRANSACTION_STORE], 'readwrite');
+        const store = tx.objectStore(TRANSACTION_STORE);
+        tx.objectStore(META_STORE).put(meta, STATE_KEY);
+        records.forEach((record, key) => {
+            const json = JSON.stringify(record.item);
+            nextRecords.set(key, json);
+            if (savedRecords.get(key) !== json) store.put(record);
+        });
+        savedRecords.forEach((_, key) => {
+            if (!nextRecords.has(key)) store.delete(key);
+        });
+        await transactionDone(tx);
+        savedRecords = nextRecords;
+
+        if (hasLocalStorageState) {
+            hasLocalStorageState = false;
+            await localFallback.clearAll();
+        }
+    };
+
+    return {
+        kind: 'indexedDB',
+        async loadState() {
+            const tx = db.transaction([META_STORE, TRANSACTION_STORE], 'readonly');
+            const [meta, records] = await Promise.all([
+                requestResult(tx.objectStore(META_STORE).get(STATE_KEY)),
+                requestResult(tx.objectStore(TRANSACTION_STORE).getAll() as IDBRequest<TransactionRecord[]>),
+            ]);
+            if (meta === undefined) return migrateFromLocalStorage();
+            savedRecords = new Map(records.map(r => [r.key, JSON.stringify(r.item)]));
+            return joinState(meta, records);
+        },
+        // Saves run one after another so a slow write can never land after a newer one.
+        saveState(state) {
+            const result = saveQueue.then(() => save(state));
+            saveQueue = result.catch(() => {});
+            return result;
+        },
+        async listBackups() {
+            const tx = db.transaction(BACKUP_STORE, 'readonly');
+            const keys = await requestResult(tx.objectStore(BACKUP_STORE).getAllKeys());
+            return sortBackups(keys.map(String), await readLabels());
+        },
+        async readBackup(key) {
+            const tx = db.transaction(BACKUP_STORE, 'readonly');
+            const data = await requestResult(tx.objectStore(BACKUP_STORE).get(key));
+            return data ?? null;
+        },
+        async writeBackup(key, data) {
+            const tx = db.transaction(BACKUP_STORE, 'readwrite');
+            tx.objectStore(BACKUP_STORE).put(data, key);
+            await transactionDone(tx);
+        },
+        setBackupLabel,
+        async deleteBackup(key) {
+            const tx = db.transaction(BACKUP_STORE, 'readwrite');
+            tx.objectStore(BACKUP_STORE).delete(key);
+            await transactionDone(tx);
+            if ((await readLabels())[key]) await setBackupLabel(key, '');
+        },
+        async readAttachment(id) {
+            const tx = db.transaction(ATTACHMENT_STORE, 'readonly');
+            return (await requestResult(tx.objectStore(ATTACHMENT_STORE).get(id))) ?? null;
+        },
+        async writeAttachment(attachment) {
+            const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+            tx.objectStore(ATTACHMENT_STORE).put(attachment);
+            await transactionDone(tx);
+        },
+        async deleteAttachment(id) {
+            const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+            tx.objectStore(ATTACHMENT_STORE).delete(id);
+            await transactionDone(tx);
+        },
+        async listAttachmentIds() {
+            const tx = db.transaction(ATTACHMENT_STORE, 'readonly');
+            return (await requestResult(tx.objectStore(ATTACHMENT_STORE).getAllKeys())).map(String);
+        },
+        async clearAll() {
+            const tx = db.transaction([META_STORE, TRANSACTION_STORE, BACKUP_STORE, ATTACHMENT_STORE], 'readwrite');
+            [META_STORE, TRANSACTION_STORE, BACKUP_STORE, ATTACHMENT_STORE].forEach(name => tx.objectStore(name).clear());
+            await transactionDone(tx);
+            savedRecords = new Map();
+            await localFallback.clearAll();
+        },
+    };
+};
+
+/** Opens IndexedDB storage, or falls back to localStorage when it is unavailable. */
+export const createStorageAdapter = async (): Promise<StorageAdapter> => {
+    if (typeof indexedDB === 'undefined') return createLocalStorageAdapter();
+    try {
+        return createIndexedDbAdapter(await openDatabase());
+    } catch (error) {
+        console.warn('IndexedDB unavailable, falling back to localStorage', error);
+        return createLocalStorageAdapter();
+    }
+};
@@ -0,0 +1,61 @@
+import type { AppState, GlobalTransaction, Tagged } from '../types';
+import { sumMoney, ZERO, type Money } from './money';
+
+// --- TAGS ---
+// Free-form labels that cut across categories ("liburan-bali", "kantor", "anak"). Tags
+// are stored normalized, so "Liburan Bali" and "#liburan-bali" are the same tag, and
+// only on entries that have any.
+
+/** Lowercase, without a leading '#', with spaces turned into dashes; '' when nothing is left. */
+export const normalizeTag = (tag: string) =>
+    tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+/** Normalized, without duplicates and empty tags, in the order given. */
+export const normalizeTags = (tags: string[]) =>
+    [...new Set(tags.map(normalizeTag).filter(tag => tag !== ''))];
+
+/** `{ tags }` for a new or edited entry, or nothing when it has none. */
+export const tagPart = (tags?: string[]): Tagged => {
+    const normalized = normalizeTags(tags || []);
+    return normalized.length > 0 ? { tags: normalized } : {};
+};
+
+/** Every tag in use, most used first, for autocomplete. */
+export const getAllTags = (state: AppState): string[] => {
+    const counts = new Map<string, number>();
+    const entries: Tagged[] = [
+        ...state.fundHistory,
+        ...state.dailyExpenses,
+        ...state.budgets.flatMap(b => b.history),
+        ...state.archives.flatMap(a => a.transactions),
+    ];
+    entries.forEach(entry => (entry.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
+
+/** Known tags starting with `query` (or containing it, after those), excluding `selected`. */
+export const suggestTags = (allTags: string[], query: string, selected: string[], limit = 5): string[] => {
+    const normalized = normalizeTag(query);
+    const candidates = allTags.filter(tag => !selected.includes(tag));
+    if (!normalized) return candidates.slice(0, limit);
+    return [
+        ...candidates.filter(tag => tag.startsWith(normalized)),
+        ...candidates.filter(tag => !tag.startsWith(normalized) && tag.includes(normalized)),
+    ].slice(0, limit);
+};
+
+export const hasAllTags = (entry: Tagged, tags: string[]) => tags.every(tag => entry.tags?.includes(tag));
+
+/**
+ * Expense totals per tag, largest first. An expense with several tags counts toward
+ * each of them, so the totals can add up to more than the overall spending.
+ */
+export const getTagTotals = (expenses: GlobalTransaction[]): { tag: string; total: Money }[] => {
+    const totals: { [tag: string]: Money } = {};
+    expenses.forEach(expense => (expense.tags || []).forEach(tag => {
+        totals[tag] = sumMoney([totals[tag] || ZERO, expense.amount]);
+    }));
+    return Object.entries(totals)
+        .map(([tag, total]) => ({ tag, total }))
+        .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,360 @@
+import type { AppState, Archive, Budget, ForeignAmount, GlobalTransaction, RecurringTarget, SplitLine } from '../types';
+import { getBudgetRemaining } from './budget';
+import { nonNegative, subtractMoney, sumBy, sumMoney, negateMoney, ZERO, type Money } from './money';
+import { getMonthKey } from './rollover';
+import { tagPart } from './tags';
+import { annotationPart } from './attachments';
+import { generateId } from './id';
+
+// Where a transaction is booked. Shares its shape with recurring-rule targets.
+export type TransactionTarget = RecurringTarget;
+
+const OVERAGE_PREFIX = '[Overage] ';
+
+// --- POSTING ---
+// Returns how much of `amount` would spill over into daily funds if booked on `budget`.
+export const getOverageAmount = (budget: Budget, amount: Money) =>
+    nonNegative(subtractMoney(amount, nonNegative(getBudgetRemaining(budget))));
+
+export interface TransactionInput extends ForeignAmount, SplitLine {
+    id: string;
+    desc: string;
+    amount: Money;
+    timestamp: number;
+    tags?: string[];
+    note?: string;
+    attachmentIds?: string[];
+}
+
+// The share of a foreign-currency payment that ends up in one part of a split entry.
+const foreignPart = (input: TransactionInput, partAmount: Money): ForeignAmount =>
+    input.currency && input.originalAmount !== undefined
+        ? { currency: input.currency, originalAmount: Math.round(input.originalAmount * partAmount / input.amount) as Money }
+        : {};
+
+// Keeps a line of a split transaction in its group, including its overage part.
+const splitPart = (input: SplitLine): SplitLine =>
+    input.splitId ? { splitId: input.splitId, splitDesc: input.splitDesc } : {};
+
+/**
+ * Books a transaction on a live (current month) target. Budget targets follow the
+ * overage split of `handleAddTransaction`: whatever exceeds the remaining quota is
+ * recorded as an `[Overage]` daily expense carrying the budget's name and linked to
+ * the budget entry through `overageOf`. The budget entry keeps `input.id` (or the
+ * overage does, when nothing fits in the quota), and with it the note and photos. An
+ * archived or missing budget falls back to daily funds.
+ */
+export const postTransaction = (state: AppState, target: TransactionTarget, input: TransactionInput): AppState => {
+    const { id, desc, amount, timestamp } = input;
+    const tags = tagPart(input.tags);
+    const annotation = annotationPart(input.note, input.attachmentIds);
+    if (target.kind === 'fund') {
+        return { ...state, fundHistory: [...state.fundHistory, { id, type: target.type, desc, amount, timestamp, ...foreignPart(input, amount), ...tags, ...annotation }] };
+    }
+
+    const budget = target.kind === 'budget' ? state.budgets.find(b => b.id === target.budgetId && !b.isArchived) : undefined;
+    if (!budget) {
+        return { ...state, dailyExpenses: [...state.dailyExpenses, { id, desc, amount, timestamp, ...foreignPart(input, amount), ...splitPart(input), ...tags, ...annotation }] };
+    }
+
+    const overageAmount = getOverageAmount(budget, amount);
+    const budgetAmount = subtractMoney(amount, overageAmount);
+    return {
+        ...state,
+        budgets: budgetAmount > 0
+            ? state.budgets.map(b => b.id === budget.id ? { ...b, history: [...b.history, { id, desc, amount: budgetAmount, timestamp, ...foreignPart(input, budgetAmount), ...splitPart(input), ...tags, ...annotation }] } : b)
+            : state.budgets,
+        dailyExpenses: overageAmount > 0
+            ? [...state.dailyExpenses, {
+                id: budgetAmount > 0 ? generateId() : id,
+                desc: `${OVERAGE_PREFIX}${desc}`,
+                amount: overageAmount,
+                timestamp,
+                sourceCategory: budget.name,
+                overageOf: budgetAmount > 0 ? id : undefined,
+                ...foreignPart(input, overageAmount),
+                ...splitPart(input),
+                ...tags,
+                ...(budgetAmount > 0 ? {} : annotation),
+            }]
+            : state.dailyExpenses,
+    };
+};
+
+// --- LOOKUP ---
+export interface TransactionDraft {
+    desc: string;
+    amount: Money;
+    timestamp: number;
+    /** `null` keeps the current category of an archived entry whose budget no longer exists. */
+    target: TransactionTarget | null;
+    tags: string[];
+    note: string;
+    attachmentIds: string[];
+}
+
+export interface LocatedTransaction {
+    /** Id of the primary entry: the budget part of a split expense, otherwise the entry itself. */
+    id: string;
+    /** 'live' entries belong to the running month, 'archive' entries to a closed month. */
+    scope: 'live' | 'archive';
+    draft: TransactionDraft;
+    /** Category shown for archived entries that cannot be mapped to a target. */
+    legacyCategory?: string;
+    /** Set for `Tabungan: <goal>` deposits whose goal history is kept in sync. */
+    savingsGoalId?: number;
+    /** What was paid in a foreign currency, summed over the parts of a split expense. */
+    foreign?: ForeignAmount;
+    /** Set for a line of a split transaction, which stays in its group when edited. */
+    split?: SplitLine;
+}
+
+const sumForeign = (parts: ForeignAmount[]): ForeignAmount | undefined => {
+    const currency = parts[0]?.currency;
+    if (!currency || parts.some(p => p.currency !== currency || p.originalAmount === undefined)) return undefined;
+    return { currency, originalAmount: sumBy(parts, p => p.originalAmount!) };
+};
+
+const stripOverage = (desc: string) => desc.startsWith(OVERAGE_PREFIX) ? desc.slice(OVERAGE_PREFIX.length) : desc;
+
+const findSavingsGoalId = (state: AppState, fundTransactionId: string) =>
+    state.savingsGoals.find(g => g.history.some(h => h.fundTransactionId === fundTransactionId))?.id;
+
+/**
+ * Ids of every live entry that belongs to the same transaction as `id`, primary
+ * entry first: a budget entry and its `[Overage]` daily counterpart are one transaction.
+ */
+export const getLinkedTransactionIds = (state: AppState, id: string): string[] => {
+    const entry = state.dailyExpenses.find(t => t.id === id);
+    const primaryId = entry?.overageOf || id;
+    return [primaryId, ...state.dailyExpenses.filter(t => t.overageOf === primaryId).map(t => t.id)];
+};
+
+/**
+ * Finds the transaction with the given id and describes it as an editable draft.
+ * A split budget expense is returned as one transaction with the combined amount.
+ */
+export const locateTransaction = (state: AppState, id: string): LocatedTransaction | null => {
+    const fund = state.fundHistory.find(t => t.id === id);
+    if (fund) {
+        return {
+            id,
+            scope: 'live',
+            draft: { desc: fund.desc, amount: fund.amount, timestamp: fund.timestamp, target: { kind: 'fund', type: fund.type }, tags: fund.tags || [], note: fund.note || '', attachmentIds: fund.attachmentIds || [] },
+            savingsGoalId: findSavingsGoalId(state, id),
+            foreign: sumForeign([fund]),
+        };
+    }
+
+    const [primaryId, ...overageIds] = getLinkedTransactionIds(state, id);
+    const ownerBudget = state.budgets.find(b => b.history.some(h => h.id === primaryId));
+    const budgetPart = ownerBudget?.history.find(h => h.id === primaryId);
+    if (ownerBudget && budgetPart) {
+        const overages = state.dailyExpenses.filter(t => overageIds.includes(t.id));
+        return {
+            id: primaryId,
+            scope: 'live',
+            draft: { desc: budgetPart.desc, amount: sumBy([budgetPart, ...overages], t => t.amount), timestamp: budgetPart.timestamp, target: { kind: 'budget', budgetId: ownerBudget.id }, tags: budgetPart.tags || [], note: budgetPart.note || '', attachmentIds: budgetPart.attachmentIds || [] },
+            foreign: sumForeign([budgetPart, ...overages]),
+            split: splitPart(budgetPart),
+        };
+    }
+
+    const daily = state.dailyExpenses.find(t => t.id === primaryId);
+    if (daily) {
+        // An overage without a budget part was booked on a budget whose quota was already used up.
+        const overageBudget = daily.sourceCategory ? state.budgets.find(b => b.name === daily.sourceCategory) : undefined;
+        return {
+            id: primaryId,
+            scope: 'live',
+            draft: {
+                desc: stripOverage(daily.desc),
+                amount: daily.amount,
+                timestamp: daily.timestamp,
+                target: overageBudget ? { kind: 'budget', budgetId: overageBudget.id } : { kind: 'daily' },
+                tags: daily.tags || [],
+                note: daily.note || '',
+                attachmentIds: daily.attachmentIds || [],
+            },
+            foreign: sumForeign([daily]),
+            split: splitPart(daily),
+        };
+    }
+
+    for (const archive of state.archives) {
+        const t = archive.transactions.find(a => a.id === id);
+        if (!t) continue;
+        let target: TransactionTarget | null;
+        if (t.type === 'add') target = { kind: 'fund', type: 'add' };
+        else if (!t.category || t.category === 'Pengeluaran Umum') target = { kind: 'fund', type: 'remove' };
+        else if (t.category === 'Harian') target = { kind: 'daily' };
+        else {
+            const categoryBudget = state.budgets.find(b => b.name === t.category);
+            target = categoryBudget ? { kind: 'budget', budgetId: categoryBudget.id } : null;
+        }
+        return {
+            id,
+            scope: 'archive',
+            draft: { desc: t.desc, amount: t.amount, timestamp: t.timestamp, target, tags: t.tags || [], note: t.note || '', attachmentIds: t.attachmentIds || [] },
+            legacyCategory: target ? undefined : t.category,
+            savingsGoalId: findSavingsGoalId(state, id),
+        };
+    }
+
+    return null;
+};
+
+// --- EDITING ---
+const removeLiveTransaction = (state: AppState, id: string): AppState => {
+    const ids = getLinkedTransactionIds(state, id);
+    return {
+        ...state,
+        fundHistory: state.fundHistory.filter(t => !ids.includes(t.id)),
+        dailyExpenses: state.dailyExpenses.filter(t => !ids.includes(t.id)),
+        budgets: state.budgets.map(b => b.history.some(h => ids.includes(h.id))
+            ? { ...b, history: b.history.filter(h => !ids.includes(h.id)) }
+            : b),
+    };
+};
+
+/**
+ * Deletes the transaction `id`, live or archived, together with its linked entries:
+ * the `[Overage]` counterparts of a budget entry, and the savings deposit that a
+ * "Tabungan" fund entry paid for.
+ */
+export const deleteTransaction = (state: AppState, id: string): AppState => {
+    const goalId = findSavingsGoalId(state, id);
+    const savingsGoals = goalId === undefined ? state.savingsGoals : state.savingsGoals.map(g => {
+        const deposit = g.id === goalId ? g.history.find(h => h.fundTransactionId === id) : undefined;
+        if (!deposit) return g;
+        const savedAmount = nonNegative(subtractMoney(g.savedAmount, deposit.amount));
+        return {
+            ...g,
+            history: g.history.filter(h => h !== deposit),
+            savedAmount,
+            isCompleted: !g.isInfinite && g.targetAmount ? savedAmount >= g.targetAmount : false,
+        };
+    });
+    return {
+        ...removeLiveTransaction(state, id),
+        savingsGoals,
+        archives: state.archives.map(a => a.transactions.some(t => t.id === id)
+            ? { ...a, transactions: a.transactions.filter(t => t.id !== id) }
+            : a),
+    };
+};
+
+const isSameTarget = (a: TransactionTarget | null, b: TransactionTarget | null) => JSON.stringify(a) === JSON.stringify(b);
+
+// Describes a transaction booked on `target` the way the month-end rollover archives it.
+const toArchiveEntry = (state: AppState, target: TransactionTarget, base: TransactionInput): GlobalTransaction => {
+    switch (target.kind) {
+        case 'fund':
+            return target.type === 'add' ? { ...base, type: 'add' } : { ...base, type: 'remove', category: 'Pengeluaran Umum' };
+        case 'daily':
+            return { ...base, type: 'remove', category: 'Harian' };
+        case 'budget': {
+            const budget = state.budgets.find(b => b.id === target.budgetId);
+            return { ...base, type: 'remove', category: budget?.name, icon: budget?.icon, color: budget?.color };
+        }
+    }
+};
+
+// An unchanged target keeps the entry's original category, icon and color, and an
+// unchanged amount its foreign-currency payment.
+const toArchivedTransaction = (state: AppState, original: GlobalTransaction, originalTarget: TransactionTarget | null, draft: TransactionDraft): GlobalTransaction => {
+    const { currency, originalAmount, tags: _tags, note: _note, attachmentIds: _attachmentIds, ...rest } = original;
+    const foreign = draft.amount === original.amount ? { currency, originalAmount } : {};
+    const base = { id: original.id, desc: draft.desc, amount: draft.amount, timestamp: draft.timestamp, ...foreign, ...splitPart(original), ...tagPart(draft.tags), ...annotationPart(draft.note, draft.attachmentIds) };
+    if (!draft.target || isSameTarget(draft.target, originalTarget)) return { ...rest, ...base };
+    return toArchiveEntry(state, draft.target, base);
+};
+
+// Adds `entry` to the archive of its month, creating that archive when needed.
+const insertIntoArchive = (archives: Archive[], entry: GlobalTransaction): Archive[] => {
+    const month = getMonthKey(entry.timestamp);
+    if (!archives.some(a => a.month === month)) {
+        archives = [...archives, { month, transactions: [] }].sort((a, b) => a.month.localeCompare(b.month));
+    }
+    return archives.map(a => a.month === month
+        ? { ...a, transactions: [...a.transactions, entry].sort((x, y) => x.timestamp - y.timestamp) }
+        : a);
+};
+
+/** Books a transaction dated in a closed month straight into that month's archive. */
+export const postArchivedTransaction = (state: AppState, target: TransactionTarget, input: TransactionInput): AppState => ({
+    ...state,
+    archives: insertIntoArchive(state.archives, toArchiveEntry(state, target, input)),
+});
+
+const editArchivedTransaction = (state: AppState, located: LocatedTransaction, draft: TransactionDraft): AppState => {
+    const sourceArchive = state.archives.find(a => a.transactions.some(t => t.id === located.id));
+    if (!sourceArchive) return state;
+    const original = sourceArchive.transactions.find(t => t.id === located.id)!;
+    const updated = toArchivedTransaction(state, original, located.draft.target, draft);
+    const archives = state.archives.map(a => a === sourceArchive
+        ? { ...a, transactions: a.transactions.filter(t => t.id !== located.id) }
+        : a);
+    return { ...state, archives: insertIntoArchive(archives, updated) };
+};
+
+// Keeps a savings goal's deposit in step with its `Tabungan: <goal>` fund entry.
+const syncSavingsDeposit = (state: AppState, goalId: number, fundTransactionId: string, draft: TransactionDraft): AppState => ({
+    ...state,
+    savingsGoals: state.savingsGoals.map(g => {
+        if (g.id !== goalId) return g;
+        const deposit = g.history.find(h => h.fundTransactionId === fundTransactionId);
+        if (!deposit) return g;
+        const savedAmount = nonNegative(sumMoney([g.savedAmount, negateMoney(deposit.amount), draft.amount]));
+        return {
+            ...g,
+            savedAmount,
+            history: g.history.map(h => h === deposit ? { ...h, amount: draft.amount, timestamp: draft.timestamp } : h),
+            isCompleted: !g.isInfinite && g.targetAmount ? savedAmount >= g.targetAmount : false,
+        };
+    }),
+});
+
+/**
+ * Amount that would be taken from daily funds if `draft` replaced transaction `id`,
+ * or 0 when the edit does not increase the entry's existing overage, so re-saving an
+ * entry that already overflowed does not ask for confirmation again.
+ */
+export const getEditOverage = (state: AppState, id: string, draft: TransactionDraft): Money => {
+    const located = locateTransaction(state, id);
+    if (!located || located.scope === 'archive' || draft.target?.kind !== 'budget') return ZERO;
+    const budgetId = draft.target.budgetId;
+    const budget = removeLiveTransaction(state, id).budgets.find(b => b.id === budgetId && !b.isArchived);
+    if (!budget) return ZERO;
+
+    const overageAmount = getOverageAmount(budget, draft.amount);
+    const linkedIds = getLinkedTransactionIds(state, id);
+    const currentOverage = sumBy(
+        state.dailyExpenses.filter(t => linkedIds.includes(t.id) && t.sourceCategory === budget.name),
+        t => t.amount,
+    );
+    return overageAmount > currentOverage ? overageAmount : ZERO;
+};
+
+/**
+ * Replaces transaction `id` with `draft`, keeping its id. Live entries are re-posted
+ * through `postTransaction`, so moving between budgets, daily funds and fund history
+ * recalculates the overage split. Archived entries stay archived and move to the
+ * archive of their new month.
+ */
+export const applyTransactionEdit = (state: AppState, id: string, draft: TransactionDraft): AppState => {
+    const located = locateTransaction(state, id);
+    if (!located) return state;
+
+    let newState: AppState;
+    if (located.scope === 'archive') {
+        newState = editArchivedTransaction(state, located, draft);
+    } else {
+        const target = draft.target || located.draft.target!;
+        // A changed amount no longer matches what was paid in the foreign currency.
+        const foreign = draft.amount === located.draft.amount ? located.foreign : undefined;
+        newState = postTransaction(removeLiveTransaction(state, id), target, { id: located.id, desc: draft.desc, amount: draft.amount, timestamp: draft.timestamp, tags: draft.tags, note: draft.note, attachmentIds: draft.attachmentIds, ...foreign, ...located.split });
+    }
+
+    return located.savingsGoalId !== undefined ? syncSavingsDeposit(newState, located.savingsGoalId, located.id, draft) : newState;
+};
@@ -0,0 +1,539 @@
+import type { AppState } from '../types';
+import { generateId } from './id';
+import { sumBy, type Money } from './money';
+import { getMonthKey } from './rollover';
+import { t } from './i18n';
+
+// --- STATE VALIDATION ---
+// Checks data coming from a JSON import or an internal backup before it replaces the
+// current state. Runs before the schema migrations, so it accepts the shapes of every
+// schema version and only repairs what it recognises; migrateState takes it from there.
+// Issues are worded in the current locale; names the repair gives to stored data (such
+// as "Pos tanpa nama") stay Indonesian like the rest of the stored data.
+
+export interface ValidationIssue {
+    /** Where the problem was found, e.g. `Pos "Makan", riwayat, entri #3`. */
+    location: string;
+    message: string;
+    /** What automatic repair does about it. Absent when the problem cannot be repaired. */
+    repair?: string;
+}
+
+export interface ValidationResult {
+    issues: ValidationIssue[];
+    /** The repaired data, or null when at least one issue cannot be repaired. */
+    repaired: RawRecord | null;
+}
+
+/** An object read from untrusted data: every field still has to be checked. */
+export type RawRecord = { [key: string]: unknown };
+
+// An entry whose amount and timestamp have been checked.
+type RawEntry = RawRecord & { amount: number; timestamp: number };
+
+// Transactions are expected to carry an id from schema v4 onwards.
+const ID_SCHEMA_VERSION = 4;
+const MONTH_KEY = /^\d{4}-\d{2}$/;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export const isRecord = (value: unknown): value is RawRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPercentage = (value: unknown): value is number => isFiniteNumber(value) && Number.isInteger(value) && value > 0 && value <= 1000;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// How an item is named in issue locations: its name, or its position when it has none.
+const displayName = (name: unknown, index: number) => isNonEmptyString(name) ? name : `#${index + 1}`;
+
+// Numbers stored as text (e.g. "15000") are accepted; NaN, Infinity and anything else is not.
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return isFiniteNumber(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+};
+
+type EntryKind = 'transaction' | 'fund' | 'saving';
+
+// A transaction id replaced during repair. Links to it (`overageOf`, `fundTransactionId`,
+// bill payments) are moved to the new id only when they belong to this entry: the linked
+// entries share its timestamp, a bill payment its month.
+interface RenamedTransaction {
+    from: unknown;
+    to: string;
+    timestamp: number;
+}
+
+// Collects issues while repairing; shared by the per-section validators below.
+const createValidator = (expectsIds: boolean) => {
+    const issues: ValidationIssue[] = [];
+    const seenIds = new Set<string>();
+    const renamedTransactions: RenamedTransaction[] = [];
+
+    const report = (location: string, message: string, repair?: string) => {
+        issues.push({ location, message, repair });
+    };
+
+    const list = (value: unknown, location: string): unknown[] => {
+        if (value === undefined) return [];
+        if (Array.isArray(value)) return value;
+        report(location, t('validation.notList'), t('validation.repair.cleared'));
+        return [];
+    };
+
+    const checkAmount = (value: unknown, location: string): number | null => {
+        const amount = toNumber(value);
+        if (amount === null) {
+            report(location, t('validation.invalidAmount', { value: String(value) }), t('validation.repair.entryRemoved'));
+            return null;
+        }
+        if (typeof value === 'string') report(location, t('validation.amountAsText'), t('validation.repair.toNumber'));
+        if (amount < 0) {
+            report(location, t('validation.negativeAmount'), t('validation.repair.madePositive'));
+            return -amount;
+        }
+        return amount;
+    };
+
+    const entries = (value: unknown, location: string, kind: EntryKind): RawEntry[] => {
+        const repaired: RawEntry[] = [];
+        list(value, location).forEach((entry, index) => {
+            const entryLocation = t('location.entry', { location, index: index + 1 });
+            if (!isRecord(entry)) {
+                report(entryLocation, t('validation.notObject'), t('validation.repair.entryRemoved'));
+                return;
+            }
+            const amount = checkAmount(entry.amount, entryLocation);
+            if (amount === null) return;
+            const timestamp = toNumber(entry.timestamp);
+            if (timestamp === null) {
+                report(entryLocation, t('validation.invalidTimestamp'), t('validation.repair.entryRemoved'));
+                return;
+            }
+            if (kind === 'fund' && entry.type !== 'add' && entry.type !== 'remove') {
+                report(entryLocation, t('validation.unknownType', { type: String(entry.type) }), t('validation.repair.entryRemoved'));
+                return;
+            }
+
+            const fixed: RawEntry = { ...entry, amount, timestamp };
+            if (kind !== 'saving' && typeof entry.desc !== 'string') {
+                const desc = 'Tanpa keterangan';
+                fixed.desc = desc;
+                report(entryLocation, t('validation.missingDesc'), t('validation.repair.filled', { text: desc }));
+            }
+            if (entry.id === undefined) {
+                if (expectsIds) {
+                    report(entryLocation, t('validation.missingId'), t('validation.repair.newId'));
+                    fixed.id = generateId();
+                }
+            } else if (!isNonEmptyString(entry.id) || seenIds.has(entry.id)) {
+                report(entryLocation, t('validation.invalidTransactionId'), t('validation.repair.newId'));
+                const id = generateId();
+                fixed.id = id;
+                renamedTransactions.push({ from: entry.id, to: id, timestamp });
+            }
+            if (isNonEmptyString(fixed.id)) seenIds.add(fixed.id);
+            if (entry.currency !== undefined && (typeof entry.currency !== 'string' || !CURRENCY_CODE.test(entry.currency) || toNumber(entry.originalAmount) === null)) {
+                report(entryLocation, t('validation.invalidOriginalCurrency'), t('validation.repair.baseAmountOnly'));
+                delete fixed.currency;
+                delete fixed.originalAmount;
+            }
+            if (entry.tags !== undefined && !isStringList(entry.tags)) {
+                report(entryLocation, t('validation.invalidTags'), t('validation.repair.textTagsOnly'));
+                const tags = Array.isArray(entry.tags) ? entry.tags.filter((tag: unknown) => typeof tag === 'string') : [];
+                if (tags.length > 0) fixed.tags = tags;
+                else delete fixed.tags;
+            }
+            if (entry.note !== undefined && typeof entry.note !== 'string') {
+                report(entryLocation, t('validation.invalidNote'), t('validation.repair.noteRemoved'));
+                delete fixed.note;
+            }
+            if (entry.attachmentIds !== undefined && !isStringList(entry.attachmentIds)) {
+                report(entryLocation, t('validation.invalidAttachments'), t('validation.repair.textPhotoIdsOnly'));
+                const attachmentIds = Array.isArray(entry.attachmentIds) ? entry.attachmentIds.filter((id: unknown) => typeof id === 'string') : [];
+                if (attachmentIds.length > 0) fixed.attachmentIds = attachmentIds;
+                else delete fixed.attachmentIds;
+            }
+            repaired.push(fixed);
+        });
+        return repaired;
+    };
+
+    // Numeric ids (budgets, goals, assets, rules) must be unique within their list. `idMap`
+    // maps each stored id that changed to its new value, so references to it can follow.
+    // A duplicated id stays with its first holder, and so do the references to it.
+    const uniqueIds = <T extends RawRecord>(items: T[], location: (item: T, index: number) => string): { items: T[]; idMap: Map<unknown, number> } => {
+        const seen = new Set<number>();
+        const idMap = new Map<unknown, number>();
+        let nextId = Math.max(0, ...items.map(item => toNumber(item.id) ?? 0)) + 1;
+        const repaired = items.map((item, index) => {
+            const id = toNumber(item.id);
+            if (id !== null && !seen.has(id)) {
+                seen.add(id);
+                if (id === item.id) return item;
+                idMap.set(item.id, id);
+                return { ...item, id };
+            }
+            report(location(item, index), id === null ? t('validation.invalidId') : t('validation.duplicateId', { id }), t('validation.repair.newIdValue', { id: nextId }));
+            if (id === null && item.id !== undefined && item.id !== null && !idMap.has(item.id)) idMap.set(item.id, nextId);
+            seen.add(nextId);
+            return { ...item, id: nextId++ };
+        });
+        return { items: repaired, idMap };
+    };
+
+    const objects = (value: unknown, location: string): RawRecord[] => {
+        return list(value, location).filter((item, index): item is RawRecord => {
+            if (isRecord(item)) return true;
+            report(t('location.item', { location, index: index + 1 }), t('validation.notObject'), t('validation.repair.entryRemoved'));
+            return false;
+        });
+    };
+
+    return { issues, renamedTransactions, report, list, checkAmount, entries, uniqueIds, objects };
+};
+
+type Validator = ReturnType<typeof createValidator>;
+
+interface RawGoal extends RawRecord {
+    history: RawEntry[];
+}
+
+interface RawArchive extends RawRecord {
+    month: string;
+    transactions: RawEntry[];
+}
+
+interface RawBill extends RawRecord {
+    payments: { [month: string]: string };
+}
+
+const validateBudgets = (v: Validator, value: unknown) => {
+    const budgets = v.objects(value, t('location.budgets')).map((budget, index) => {
+        const location = t('location.budget', { name: displayName(budget.name, index) });
+        const fixed: RawRecord = { ...budget };
+        if (typeof budget.name !== 'string' || !budget.name.trim()) {
+            const name = 'Pos tanpa nama';
+            fixed.name = name;
+            v.report(location, t('validation.emptyBudgetName'), t('validation.repair.named', { name: name }));
+        }
+        const totalBudget = toNumber(budget.totalBudget);
+        if (totalBudget === null || totalBudget < 0) {
+            v.report(location, t('validation.invalidBudgetAmount', { value: String(budget.totalBudget) }), t('validation.repair.setToZero'));
+            fixed.totalBudget = 0;
+        } else {
+            fixed.totalBudget = totalBudget;
+        }
+        if (!Array.isArray(budget.history)) {
+            v.report(location, t('validation.missingHistory'), t('validation.repair.emptyHistory'));
+        }
+        fixed.history = v.entries(Array.isArray(budget.history) ? budget.history : [], t('location.history', { location }), 'transaction');
+        if (toNumber(budget.order) === null) fixed.order = index;
+        fixed.isArchived = !!budget.isArchived;
+        fixed.isTemporary = !!budget.isTemporary;
+        if (budget.alertThresholds !== undefined && (!Array.isArray(budget.alertThresholds) || !budget.alertThresholds.every(isPercentage))) {
+            v.report(location, t('validation.invalidThresholds'), t('validation.repair.validThresholdsOnly'));
+            fixed.alertThresholds = Array.isArray(budget.alertThresholds) ? budget.alertThresholds.filter(isPercentage) : undefined;
+        }
+        return fixed;
+    });
+    return v.uniqueIds(budgets, (b, index) => t('location.budget', { name: displayName(b.name, index) }));
+};
+
+const validateArchives = (v: Validator, value: unknown) => {
+    const byMonth = new Map<string, RawArchive>();
+    v.objects(value, t('location.archives')).forEach((archive, index) => {
+        if (typeof archive.month !== 'string' || !MONTH_KEY.test(archive.month)) {
+            v.report(t('location.item', { location: t('location.archives'), index: index + 1 }), t('validation.invalidArchiveMonth', { month: String(archive.month) }), t('validation.repair.archiveRemoved'));
+            return;
+        }
+        const transactions = v.entries(archive.transactions, t('location.archive', { month: archive.month }), 'fund');
+        const existing = byMonth.get(archive.month);
+        if (existing) {
+            v.report(t('location.archive', { month: archive.month }), t('validation.duplicateArchiveMonth'), t('validation.repair.archivesCombined'));
+            existing.transactions = [...existing.transactions, ...transactions].sort((a, b) => a.timestamp - b.timestamp);
+        } else {
+            byMonth.set(archive.month, { ...archive, month: archive.month, transactions });
+        }
+    });
+    return [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
+
+const validateSavingsGoals = (v: Validator, value: unknown) => {
+    const goals = v.objects(value, t('location.goals')).map((goal, index): RawGoal => {
+        const location = t('location.goal', { name: displayName(goal.name, index) });
+        const fixed: RawGoal = { ...goal, history: v.entries(goal.history, t('location.history', { location }), 'saving') };
+        if (typeof goal.name !== 'string' || !goal.name.trim()) {
+            const name = 'Celengan tanpa nama';
+            fixed.name = name;
+            v.report(location, t('validation.emptyGoalName'), t('validation.repair.named', { name: name }));
+        }
+        const savedAmount = toNumber(goal.savedAmount);
+        if (savedAmount === null || savedAmount < 0) {
+            // In the file's own units: decimals before schema 9, which its migration rounds.
+            fixed.savedAmount = sumBy(fixed.history, h => h.amount as Money);
+            v.report(location, t('validation.invalidSavedAmount'), t('validation.repair.recomputed'));
+        } else {
+            fixed.savedAmount = savedAmount;
+        }
+        if (!goal.isInfinite) {
+            const targetAmount = toNumber(goal.targetAmount);
+            if (targetAmount === null || targetAmount <= 0) {
+                v.report(location, t('validation.invalidGoalTarget'), t('validation.repair.noTarget'));
+                fixed.isInfinite = true;
+                delete fixed.targetAmount;
+            } else {
+                fixed.targetAmount = targetAmount;
+            }
+        }
+        if (toNumber(goal.createdAt) === null) fixed.createdAt = Date.now();
+        fixed.isCompleted = !!goal.isCompleted;
+        if (goal.openedAt !== undefined && toNumber(goal.openedAt) === null) {
+            v.report(location, t('validation.invalidOpenedAt'), t('validation.repair.removed'));
+            delete fixed.openedAt;
+        }
+        return fixed;
+    });
+    return v.uniqueIds(goals, (g, index) => t('location.goal', { name: displayName(g.name, index) }));
+};
+
+const validateAssets = (v: Validator, value: unknown) => {
+    const assets = v.objects(value, t('location.assets')).map((asset, index) => {
+        const location = t('location.asset', { name: displayName(asset.name, index) });
+        const fixed: RawRecord = { ...asset };
+        if (typeof asset.name !== 'string' || !asset.name.trim()) {
+            const name = 'Aset tanpa nama';
+            fixed.name = name;
+            v.report(location, t('validation.emptyAssetName'), t('validation.repair.named', { name: name }));
+        }
+        (['quantity', 'pricePerUnit'] as const).forEach(field => {
+            const number = toNumber(asset[field]);
+            if (number === null || number < 0) {
+                v.report(location, t(field === 'quantity' ? 'validation.invalidQuantity' : 'validation.invalidPrice', { value: String(asset[field]) }), t('validation.repair.setToZero'));
+                fixed[field] = 0;
+            } else {
+                fixed[field] = number;
+            }
+        });
+        if (asset.currency !== undefined && (typeof asset.currency !== 'string' || !CURRENCY_CODE.test(asset.currency))) {
+            v.report(location, t('validation.unknownCurrency', { currency: String(asset.currency) }), t('validation.repair.baseCurrency'));
+            delete fixed.currency;
+        }
+        return fixed;
+    });
+    return v.uniqueIds(assets, (a, index) => t('location.asset', { name: displayName(a.name, index) })).items;
+};
+
+// A reference to a numeric id, following the ids repaired by uniqueIds.
+const relinkId = (idMap: Map<unknown, number>, id: unknown) => idMap.get(id) ?? toNumber(id) ?? id;
+
+const validateRecurringRules = (v: Validator, value: unknown, budgetIds: Map<unknown, number>) => {
+    const rules = v.objects(value, t('location.recurringRules')).flatMap((rule, index) => {
+        const location = t('location.recurringRule', { name: displayName(rule.desc, index) });
+        if (typeof rule.startDate !== 'string' || !DATE_KEY.test(rule.startDate) || typeof rule.nextDueDate !== 'string' || !DATE_KEY.test(rule.nextDueDate)) {
+            v.report(location, t('validation.invalidSchedule'), t('validation.repair.ruleRemoved'));
+            return [];
+        }
+        const target = rule.target;
+        if (!isRecord(target) || (target.kind !== 'fund' && target.kind !== 'budget' && target.kind !== 'daily')) {
+            v.report(location, t('validation.unknownTarget'), t('validation.repair.ruleRemoved'));
+            return [];
+        }
+        const amount = v.checkAmount(rule.amount, location);
+        if (amount === null) return [];
+        const fixed: RawRecord = { ...rule, amount };
+        if (target.kind === 'budget') fixed.target = { ...target, budgetId: relinkId(budgetIds, target.budgetId) };
+        if (!Array.isArray(rule.skippedDates)) fixed.skippedDates = [];
+        if (!isRecord(rule.amountOverrides)) fixed.amountOverrides = {};
+        return [fixed];
+    });
+    return v.uniqueIds(rules, (r, index) => t('location.recurringRule', { name: displayName(r.desc, index) })).items;
+};
+
+const validateBills = (v: Validator, value: unknown, budgetIds: Map<unknown, number>) => {
+    const bills = v.objects(value, t('location.bills')).flatMap((bill, index): RawBill[] => {
+        const location = t('location.bill', { name: displayName(bill.name, index) });
+        const amount = v.checkAmount(bill.amount, location);
+        if (amount === null) return [];
+        const payments = isRecord(bill.payments) ? Object.entries(bill.payments) : [];
+        const validPayments = payments.filter((payment): payment is [string, string] => MONTH_KEY.test(payment[0]) && typeof payment[1] === 'string');
+        const fixed: RawBill = { ...bill, amount, payments: Object.fromEntries(validPayments) };
+        if (typeof bill.name !== 'string' || !bill.name.trim()) {
+            const name = 'Tagihan tanpa nama';
+            fixed.name = name;
+            v.report(location, t('validation.emptyBillName'), t('validation.repair.named', { name: name }));
+        }
+        const dueDay = toNumber(bill.dueDay);
+        if (dueDay === null || !Number.isInteger(dueDay) || dueDay < 1 || dueDay > 31) {
+            v.report(location, t('validation.invalidDueDay', { value: String(bill.dueDay) }), t('validation.repair.firstDay'));
+            fixed.dueDay = 1;
+        } else {
+            fixed.dueDay = dueDay;
+        }
+        if (bill.budgetId !== undefined) {
+            fixed.budgetId = relinkId(budgetIds, bill.budgetId);
+            if (toNumber(fixed.budgetId) === null) {
+                v.report(location, t('validation.invalidBillBudget'), t('validation.repair.paidFromDaily'));
+                delete fixed.budgetId;
+            }
+        }
+        if (!isRecord(bill.payments) || validPayments.length < payments.length) {
+            v.report(location, t('validation.invalidPayments'), t('validation.repair.validPaymentsOnly'));
+        }
+        if (toNumber(bill.createdAt) === null) fixed.createdAt = Date.now();
+        return [fixed];
+    });
+    return v.uniqueIds(bills, (b, index) => t('location.bill', { name: displayName(b.name, index) })).items;
+};
+
+// Moves links to transactions whose id was replaced; see RenamedTransaction.
+const relinkTransactions = (renamed: RenamedTransaction[], dailyExpenses: RawEntry[], savingsGoals: RawGoal[], bills?: RawBill[]) => {
+    if (renamed.length === 0) return { dailyExpenses, savingsGoals, bills };
+    const relink = <T>(id: T, belongs: (entry: RenamedTransaction) => boolean) =>
+        renamed.find(entry => entry.from === id && belongs(entry))?.to ?? id;
+    return {
+        dailyExpenses: dailyExpenses.map(t => t.overageOf === undefined ? t
+            : { ...t, overageOf: relink(t.overageOf, entry => entry.timestamp === t.timestamp) }),
+        savingsGoals: savingsGoals.map(g => ({
+            ...g,
+            history: g.history.map(h => h.fundTransactionId === undefined ? h
+                : { ...h, fundTransactionId: relink(h.fundTransactionId, entry => entry.timestamp === h.timestamp) }),
+        })),
+        bills: bills?.map(b => ({
+            ...b,
+            payments: Object.fromEntries(Object.entries(b.payments).map(([month, id]) => [month, relink(id, entry => getMonthKey(entry.timestamp) === month)])),
+        })),
+    };
+};
+
+// Alerts are only a history: invalid ones are dropped, at worst a threshold fires again.
+const validateBudgetAlerts = (v: Validator, value: unknown, budgetIds: Map<unknown, number>) => v.objects(value, t('location.budgetAlerts')).flatMap((alert, index) => {
+    const budgetId = relinkId(budgetIds, alert.budgetId);
+    const spent = toNumber(alert.spent);
+    const limit = toNumber(alert.limit);
+    const timestamp = toNumber(alert.timestamp);
+    const periodPattern = alert.kind === 'daily' ? DATE_KEY : MONTH_KEY;
+    if ((alert.kind !== 'budget' && alert.kind !== 'daily') || !isPercentage(alert.threshold) || typeof alert.period !== 'string' || !periodPattern.test(alert.period)
+        || spent === null || limit === null || timestamp === null || (alert.kind === 'budget' && toNumber(budgetId) === null)) {
+        v.report(t('location.item', { location: t('location.budgetAlerts'), index: index + 1 }), t('validation.invalidAlert'), t('validation.repair.alertRemoved'));
+        return [];
+    }
+    return [{
+        ...alert,
+        ...(budgetId !== undefined ? { budgetId } : {}),
+        name: typeof alert.name === 'string' ? alert.name : '',
+        spent,
+        limit,
+        timestamp,
+        id: isNonEmptyString(alert.id) ? alert.id : generateId(),
+    }];
+});
+
+const validateDeletedSavingsGoals = (v: Validator, value: unknown) => v.objects(value, t('location.deletedGoals')).flatMap((deleted, index) => {
+    const deletedAt = toNumber(deleted.deletedAt);
+    if (typeof deleted.name !== 'string' || deletedAt === null) {
+        v.report(t('location.item', { location: t('location.deletedGoals'), index: index + 1 }), t('validation.invalidDeletedGoal'), t('validation.repair.entryRemoved'));
+        return [];
+    }
+    return [{ name: deleted.name, deletedAt }];
+});
+
+const validateExchangeRates = (v: Validator, value: unknown) => v.objects(value, t('location.exchangeRates')).flatMap((rate, index) => {
+    const location = t('location.exchangeRate', { currency: typeof rate.currency === 'string' ? rate.currency : `#${index + 1}` });
+    const rateValue = toNumber(rate.rate);
+    if (typeof rate.currency !== 'string' || !CURRENCY_CODE.test(rate.currency) || typeof rate.date !== 'string' || !DATE_KEY.test(rate.date) || rateValue === null || rateValue <= 0) {
+        v.report(location, t('validation.invalidRate'), t('validation.repair.rateRemoved'));
+        return [];
+    }
+    return [{ ...rate, rate: rateValue, id: isNonEmptyString(rate.id) ? rate.id : generateId() }];
+});
+
+/**
+ * Validates raw imported data and repairs what can be repaired: invalid or textual
+ * amounts, missing history arrays, duplicate ids and similar. Issues are described in
+ * the current locale for the import preview. Missing budgets or archives lists, or data that
+ * is not an object at all, cannot be repaired.
+ */
+export const validateState = (raw: unknown): ValidationResult => {
+    if (!isRecord(raw)) {
+        return { issues: [{ location: t('location.file'), message: t('validation.notJsonObject') }], repaired: null };
+    }
+    const fatal: ValidationIssue[] = [];
+    if (!Array.isArray(raw.budgets)) fatal.push({ location: t('location.budgets'), message: t('validation.missingBudgets') });
+    if (!Array.isArray(raw.archives)) fatal.push({ location: t('location.archives'), message: t('validation.missingArchives') });
+    if (fatal.length > 0) return { issues: fatal, repaired: null };
+
+    const schemaVersion = toNumber(raw.schemaVersion) ?? 1;
+    const v = createValidator(schemaVersion >= ID_SCHEMA_VERSION);
+    const budgets = validateBudgets(v, raw.budgets);
+    const savingsGoals = validateSavingsGoals(v, raw.savingsGoals);
+    const archives = validateArchives(v, raw.archives);
+    const dailyExpenses = v.entries(raw.dailyExpenses, t('location.dailyExpenses'), 'transaction');
+    const fundHistory = v.entries(raw.fundHistory, t('location.fundHistory'), 'fund');
+    const assets = validateAssets(v, raw.assets);
+    const recurringRules = raw.recurringRules !== undefined ? validateRecurringRules(v, raw.recurringRules, budgets.idMap) : undefined;
+    const bills = raw.bills !== undefined ? validateBills(v, raw.bills, budgets.idMap) : undefined;
+    const budgetAlerts = raw.budgetAlerts !== undefined ? validateBudgetAlerts(v, raw.budgetAlerts, budgets.idMap) : undefined;
+    const relinked = relinkTransactions(v.renamedTransactions, dailyExpenses, savingsGoals.items, bills);
+    const repaired: RawRecord = {
+        ...raw,
+        budgets: budgets.items.map(b => b.rolloverGoalId === undefined ? b : { ...b, rolloverGoalId: relinkId(savingsGoals.idMap, b.rolloverGoalId) }),
+        archives,
+        dailyExpenses: relinked.dailyExpenses,
+        fundHistory,
+        savingsGoals: relinked.savingsGoals,
+        assets,
+    };
+    if (recurringRules) repaired.recurringRules = recurringRules;
+    if (relinked.bills) repaired.bills = relinked.bills;
+    if (budgetAlerts) repaired.budgetAlerts = budgetAlerts;
+    if (raw.deletedSavingsGoals !== undefined) repaired.deletedSavingsGoals = validateDeletedSavingsGoals(v, raw.deletedSavingsGoals);
+    if (raw.exchangeRates !== undefined) repaired.exchangeRates = validateExchangeRates(v, raw.exchangeRates);
+    if (raw.baseCurrency !== undefined && (typeof raw.baseCurrency !== 'string' || !CURRENCY_CODE.test(raw.baseCurrency))) {
+        v.report(t('location.baseCurrency'), t('validation.unknownBaseCurrency', { currency: String(raw.baseCurrency) }), t('validation.repair.rupiah'));
+        repaired.baseCurrency = 'IDR';
+    }
+    if (raw.unlockedAchievements !== undefined && !isRecord(raw.unlockedAchievements) && !Array.isArray(raw.unlockedAchievements)) {
+        v.report(t('location.achievements'), t('validation.invalidAchievements'), t('validation.repair.badgesCleared'));
+        repaired.unlockedAchievements = {};
+    }
+    if (raw.achievementData !== undefined && !isRecord(raw.achievementData)) {
+        v.report(t('location.achievements'), t('validation.invalidAchievementData'), t('validation.repair.progressReset'));
+        delete repaired.achievementData;
+    }
+    if (raw.lastArchiveDate !== undefined && raw.lastArchiveDate !== null && typeof raw.lastArchiveDate !== 'string') {
+        v.report(t('location.archives'), t('validation.invalidLastArchiveDate'), t('validation.repair.cleared'));
+        repaired.lastArchiveDate = null;
+    }
+    if (raw.schemaVersion !== undefined && toNumber(raw.schemaVersion) === null) {
+        v.report(t('location.file'), t('validation.invalidSchemaVersion'), t('validation.repair.version1'));
+        delete repaired.schemaVersion;
+    }
+
+    return { issues: v.issues, repaired };
+};
+
+// --- IMPORT PREVIEW ---
+export interface StateCounts {
+    budgets: number;
+    transactions: number;
+    goals: number;
+    assets: number;
+}
+
+export const countStateItems = (state: AppState): StateCounts => ({
+    budgets: state.budgets.length,
+    transactions: state.dailyExpenses.length
+        + state.fundHistory.length
+        + state.budgets.reduce((sum, b) => sum + b.history.length, 0)
+        + state.archives.reduce((sum, a) => sum + a.transactions.length, 0),
+    goals: state.savingsGoals.length,
+    assets: state.assets.length,
+});
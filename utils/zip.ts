@@ -0,0 +1,146 @@
+import { LocalizedError } from './i18n';
+import type { MessageKey, MessageParams } from './i18n';
+
+// --- ZIP ARCHIVES ---
+// Just enough of the ZIP format for the export with photos: files are written
+// uncompressed (JPEGs do not shrink anyway), and reading also accepts deflated entries,
+// so an archive that was unpacked and zipped again with another tool still imports.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+export class ZipError extends LocalizedError {
+    constructor(messageKey: MessageKey = 'import.zipCorrupt', params?: MessageParams) {
+        super(messageKey, params);
+        this.name = 'ZipError';
+    }
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers.
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Packs `entries` into a ZIP file, stored without compression. */
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(modified);
+    const parts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, entry.data.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_HEADER, true);
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, entry.data.length, true);
+        central.setUint32(24, entry.data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + entry.data.length;
+    });
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralParts, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array) => {
+    if (typeof DecompressionStream === 'undefined') throw new ZipError('import.zipCompressionUnavailable');
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Reads every file in a ZIP archive, by name. Folders are skipped. */
+export const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+    let endOffset = -1;
+    // The end record sits in the last 22 bytes plus a comment of up to 64 KB.
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) throw new ZipError();
+
+    const files = new Map<string, Uint8Array>();
+    const count = view.getUint16(endOffset + 10, true);
+    let position = view.getUint32(endOffset + 16, true);
+    for (let i = 0; i < count; i++) {
+        if (position + 46 > buffer.byteLength || view.getUint32(position, true) !== CENTRAL_HEADER) throw new ZipError();
+        const method = view.getUint16(position + 10, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, position + 46, nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+        if (name.endsWith('/')) continue;
+
+        if (localOffset + 30 > buffer.byteLength || view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new ZipError();
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        if (dataStart + compressedSize > buffer.byteLength) throw new ZipError();
+        const data = new Uint8Array(buffer, dataStart, compressedSize);
+        if (method === 0) files.set(name, data);
+        else if (method === 8) files.set(name, await inflateRaw(data));
+        else throw new ZipError('import.zipMethodUnsupported', { method });
+    }
+    return files;
+};
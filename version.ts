@@ -0,0 +1,3 @@
+// The app version, shown in the settings and compared by the service worker update
+// prompt. Shared with vite.config.ts, which writes it into the precache manifest.
+export const APP_VERSION = '3.13.0';
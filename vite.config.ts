@@ -1,6 +1,36 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { APP_VERSION } from './version';
+
+// Files the service worker must not precache: itself and the manifest that lists the rest.
+const PRECACHE_EXCLUDED = ['sw.js', 'precache-manifest.js'];
+
+const listFiles = (dir: string, prefix = ''): string[] => fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`) : [`${prefix}${entry.name}`]);
+
+// Writes precache-manifest.js into the build for the service worker (public/sw.js): the
+// files to cache for offline use, APP_VERSION and a hash of the build. Every build
+// changes the manifest, which makes browsers install the new worker.
+const precacheManifest = (): Plugin => {
+    let outDir = '';
+    return {
+        name: 'precache-manifest',
+        apply: 'build',
+        configResolved(config) {
+            outDir = path.resolve(config.root, config.build.outDir);
+        },
+        closeBundle() {
+            const files = listFiles(outDir).filter(file => !PRECACHE_EXCLUDED.includes(file) && !file.endsWith('.map')).sort();
+            const hash = createHash('sha256');
+            files.forEach(file => hash.update(file).update(fs.readFileSync(path.join(outDir, file))));
+            const manifest = { version: APP_VERSION, hash: hash.digest('hex').slice(0, 12), files: files.map(file => `/${file}`) };
+            fs.writeFileSync(path.join(outDir, 'precache-manifest.js'), `self.__PRECACHE_MANIFEST = ${JSON.stringify(manifest)};\n`);
+        },
+    };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +39,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)